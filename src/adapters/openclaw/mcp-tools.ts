@@ -1,7 +1,7 @@
 /**
  * OpenClaw MCP tool registry.
  *
- * Catalogs the 11 ctx_* tools that OpenClaw plugin must register via
+ * Catalogs the 14 ctx_* tools that OpenClaw plugin must register via
  * api.registerTool(...) so the routing block (which nudges agents toward
  * ctx_execute, ctx_search, etc.) actually has tools to call. Without this,
  * Phase 7 audit (v1.0.107-adapter-openclaw.json) flagged severity=CRITICAL —
@@ -19,8 +19,7 @@
  * ctx-upgrade slash commands. This keeps the plugin's blast radius minimal:
  * we don't re-export the entire MCP server stack inside OpenClaw's process.
  *
- * The 11 tools mirror src/server.ts registerTool calls (lines 897, 1226, 1371,
- * 1497, 2034, 2256, 2440, 2501, 2592, 2712, 2808).
+ * The 14 tools mirror the src/server.ts registerTool calls.
  */
 
 /** Minimal JSON-schema-like parameter spec accepted by OpenClaw registerTool. */
@@ -129,6 +128,19 @@ export const OPENCLAW_TOOL_DEFS: readonly OpenClawToolDef[] = [
     },
     execute: cliRedirect("ctx_index"),
   },
+  {
+    name: "ctx_index_git",
+    description: "Index local git history (commit range) — one section per commit, titled by SHA, author, date, subject.",
+    parameters: {
+      type: "object",
+      properties: {
+        range: { type: "string", description: "Revision range, e.g. v1.2.0..HEAD (default HEAD)" },
+        maxCommits: { type: "number", description: "Most recent commits to index (default 200)" },
+      },
+      additionalProperties: true,
+    },
+    execute: cliRedirect("ctx_index_git"),
+  },
   {
     name: "ctx_search",
     description: "Query indexed content via FTS5. Pass all questions as an array in ONE call.",
@@ -143,6 +155,18 @@ export const OPENCLAW_TOOL_DEFS: readonly OpenClawToolDef[] = [
     },
     execute: cliRedirect("ctx_search"),
   },
+  {
+    name: "ctx_sources",
+    description: "List indexed sources with counts, staleness and distinctive terms; pass source for its chunk title tree.",
+    parameters: {
+      type: "object",
+      properties: {
+        source: { type: "string", description: "Source label for the detail view" },
+      },
+      additionalProperties: true,
+    },
+    execute: cliRedirect("ctx_sources"),
+  },
   {
     name: "ctx_fetch_and_index",
     description: "Fetch a URL, chunk it, and index — raw HTML never enters context.",
@@ -171,6 +195,20 @@ export const OPENCLAW_TOOL_DEFS: readonly OpenClawToolDef[] = [
     },
     execute: cliRedirect("ctx_batch_execute"),
   },
+  {
+    name: "ctx_processes",
+    description: "List background jobs (command, age, ports), tail a job's captured output, or terminate one.",
+    parameters: {
+      type: "object",
+      properties: {
+        action: { type: "string", description: "list (default), tail or terminate" },
+        id: { type: "number", description: "Job id for tail and terminate" },
+        bytes: { type: "number", description: "Max bytes of each stream for tail (default 4096)" },
+      },
+      additionalProperties: true,
+    },
+    execute: cliRedirect("ctx_processes"),
+  },
   {
     name: "ctx_stats",
     description: "Show context-mode session statistics — token consumption and per-tool breakdown.",
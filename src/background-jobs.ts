@@ -0,0 +1,216 @@
+/**
+ * background-jobs — Processes left running by ctx_execute(background: true).
+ *
+ * A backgrounded process used to be detached with its output streams
+ * destroyed and only its pid remembered for cleanup, so dev servers
+ * started by an agent were invisible until the server shut down. Each one
+ * is now a BackgroundJob that keeps reading the process's stdout and stderr
+ * into fixed-size ring buffers, records how the process exited, and can be
+ * listed (with the TCP ports its process group listens on), tailed and
+ * terminated one at a time through the ctx_processes tool.
+ */
+
+import { execFileSync } from "node:child_process";
+import { readFileSync, readdirSync, readlinkSync } from "node:fs";
+import type { Language } from "./runtime.js";
+
+/** Bytes of each stream kept per job; older output is dropped. */
+export const BACKGROUND_OUTPUT_BYTES = 64 * 1024;
+
+/** Keeps the last `capBytes` bytes written to it. */
+export class OutputRing {
+  #chunks: Buffer[] = [];
+  #bytes = 0;
+  #totalBytes = 0;
+
+  constructor(readonly capBytes: number = BACKGROUND_OUTPUT_BYTES) {}
+
+  push(chunk: Buffer): void {
+    this.#totalBytes += chunk.length;
+    if (chunk.length >= this.capBytes) {
+      this.#chunks = [chunk.subarray(chunk.length - this.capBytes)];
+      this.#bytes = this.capBytes;
+      return;
+    }
+    this.#chunks.push(chunk);
+    this.#bytes += chunk.length;
+    while (this.#bytes > this.capBytes) {
+      const excess = this.#bytes - this.capBytes;
+      const first = this.#chunks[0];
+      if (first.length <= excess) {
+        this.#chunks.shift();
+        this.#bytes -= first.length;
+      } else {
+        this.#chunks[0] = first.subarray(excess);
+        this.#bytes -= excess;
+      }
+    }
+  }
+
+  /** Bytes ever written, including those already dropped. */
+  get totalBytes(): number {
+    return this.#totalBytes;
+  }
+
+  /** The last `maxBytes` bytes kept, decoded as UTF-8. */
+  tail(maxBytes: number = this.capBytes): string {
+    const buf = Buffer.concat(this.#chunks);
+    const start = Math.max(0, buf.length - maxBytes);
+    // Skip UTF-8 continuation bytes so the tail starts on a character.
+    let i = start;
+    while (i > 0 && i < buf.length && (buf[i] & 0xc0) === 0x80) i++;
+    return buf.subarray(i).toString("utf-8");
+  }
+}
+
+export interface BackgroundJobInfo {
+  id: number;
+  pid: number;
+  language: Language;
+  /** The code that was run. */
+  command: string;
+  startedAt: number;
+  /** Exit code/signal once the process has exited, else null. */
+  exit: { code: number | null; signal: string | null } | null;
+  /** TCP ports the job's process group is listening on (running jobs only). */
+  ports: number[];
+}
+
+export class BackgroundJob {
+  readonly stdout = new OutputRing();
+  readonly stderr = new OutputRing();
+  readonly startedAt = Date.now();
+  exit: BackgroundJobInfo["exit"] = null;
+
+  constructor(
+    readonly id: number,
+    readonly pid: number,
+    readonly language: Language,
+    public command: string,
+  ) {}
+
+  get running(): boolean {
+    return this.exit === null;
+  }
+
+  info(): BackgroundJobInfo {
+    return {
+      id: this.id,
+      pid: this.pid,
+      language: this.language,
+      command: this.command,
+      startedAt: this.startedAt,
+      exit: this.exit,
+      ports: this.running ? listeningPorts(this.pid) : [],
+    };
+  }
+}
+
+/** Pids in process group `pgid`, from /proc. */
+function processGroupPids(pgid: number): number[] {
+  const pids: number[] = [];
+  for (const entry of readdirSync("/proc")) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = readFileSync(`/proc/${entry}/stat`, "utf-8");
+      // Fields after the parenthesised command name: state ppid pgrp ...
+      const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+      if (Number(fields[2]) === pgid) pids.push(Number(entry));
+    } catch { /* process exited meanwhile */ }
+  }
+  return pids;
+}
+
+/** Linux: match the group's socket inodes against listening sockets in /proc/net/tcp{,6}. */
+function linuxListeningPorts(pgid: number): number[] {
+  const inodes = new Set<string>();
+  for (const pid of processGroupPids(pgid)) {
+    let fds: string[];
+    try {
+      fds = readdirSync(`/proc/${pid}/fd`);
+    } catch {
+      continue;
+    }
+    for (const fd of fds) {
+      try {
+        const match = /^socket:\[(\d+)\]$/.exec(readlinkSync(`/proc/${pid}/fd/${fd}`));
+        if (match) inodes.add(match[1]);
+      } catch { /* fd closed meanwhile */ }
+    }
+  }
+  const ports = new Set<number>();
+  if (inodes.size === 0) return [];
+  for (const table of ["/proc/net/tcp", "/proc/net/tcp6"]) {
+    let lines: string[];
+    try {
+      lines = readFileSync(table, "utf-8").split("\n").slice(1);
+    } catch {
+      continue;
+    }
+    for (const line of lines) {
+      const cols = line.trim().split(/\s+/);
+      // cols: sl local_address rem_address st ... inode (index 9); 0A = LISTEN
+      if (cols.length > 9 && cols[3] === "0A" && inodes.has(cols[9])) {
+        ports.add(parseInt(cols[1].split(":").pop()!, 16));
+      }
+    }
+  }
+  return [...ports].sort((a, b) => a - b);
+}
+
+/** macOS / BSD: ask lsof for the group's listening TCP sockets. */
+function lsofListeningPorts(pgid: number): number[] {
+  try {
+    const out = execFileSync("lsof", ["-nP", "-a", "-g", String(pgid), "-iTCP", "-sTCP:LISTEN", "-Fn"], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 3_000,
+    });
+    const ports = new Set<number>();
+    for (const line of out.split("\n")) {
+      const match = /^n.*:(\d+)$/.exec(line);
+      if (match) ports.add(Number(match[1]));
+    }
+    return [...ports].sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * TCP ports the process group led by `pgid` listens on. Background jobs
+ * run in their own group, so this covers servers started by a wrapper
+ * script (`npm run dev` → node). Empty on Windows.
+ */
+export function listeningPorts(pgid: number): number[] {
+  if (process.platform === "linux") return linuxListeningPorts(pgid);
+  if (process.platform === "win32") return [];
+  return lsofListeningPorts(pgid);
+}
+
+/** Compact duration, e.g. "45s", "3m12s", "2h05m". */
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m${String(s % 60).padStart(2, "0")}s`;
+  return `${Math.floor(m / 60)}h${String(m % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * One-line summary of a job, e.g.
+ * `#2 pid 4242 · shell · running 3m12s · ports 3000 · npm run dev`.
+ */
+export function formatBackgroundJob(info: BackgroundJobInfo, now: number = Date.now()): string {
+  const age = formatDuration(now - info.startedAt);
+  const state = info.exit
+    ? `exited (${info.exit.signal ?? `code ${info.exit.code}`}), started ${age} ago`
+    : `running ${age}`;
+  const lines = info.command.trim().split("\n");
+  let command = lines[0].length > 80 ? `${lines[0].slice(0, 79)}…` : lines[0];
+  if (lines.length > 1) command += ` (+${lines.length - 1} lines)`;
+  const parts = [`#${info.id} pid ${info.pid}`, info.language, state];
+  if (info.ports.length > 0) parts.push(`ports ${info.ports.join(", ")}`);
+  parts.push(command);
+  return parts.join(" · ");
+}
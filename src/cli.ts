@@ -7,6 +7,8 @@
  *   context-mode doctor                       → Diagnose runtime issues, hooks, FTS5, version
  *   context-mode upgrade                      → Fix hooks, permissions, and settings
  *   context-mode hook <platform> <event>      → Dispatch a hook script (used by platform hook configs)
+ *   context-mode kb export [file]             → Write the project KB (persist: true sources) as a JSONL bundle
+ *   context-mode kb import <file>             → Load a JSONL bundle into the project KB
  *
  * Platform auto-detection: CLI detects which platform is running
  * (Claude Code, Gemini CLI, OpenCode, etc.) and uses the appropriate adapter.
@@ -161,6 +163,8 @@ if (args[0] === "doctor") {
   });
 } else if (args[0] === "hook") {
   hookDispatch(args[1], args[2]);
+} else if (args[0] === "kb") {
+  kb(args.slice(1)).then((code) => process.exit(code));
 } else if (args[0] === "insight") {
   insight(args[1] ? Number(args[1]) : 4747);
 } else if (args[0] === "statusline") {
@@ -957,6 +961,83 @@ async function insight(port: number) {
   }
 }
 
+/* -------------------------------------------------------
+ * KB — export / import the durable project knowledge base
+ * ------------------------------------------------------- */
+
+async function kb(argv: string[]): Promise<number> {
+  const [action, ...rest] = argv;
+  const labels: string[] = [];
+  const positional: string[] = [];
+  let projectFlag: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--label" && rest[i + 1]) labels.push(rest[++i]);
+    else if (rest[i] === "--project" && rest[i + 1]) projectFlag = rest[++i];
+    else positional.push(rest[i]);
+  }
+  if ((action !== "export" && action !== "import") || (action === "import" && !positional[0])) {
+    console.error([
+      "Usage:",
+      "  context-mode kb export [file] [--label <label>]... [--project <dir>]",
+      "  context-mode kb import <file> [--project <dir>]",
+      "",
+      "Operates on the project KB — the sources indexed with persist: true.",
+      "export writes to stdout when no file is given.",
+    ].join("\n"));
+    return 1;
+  }
+
+  try {
+    const { ContentStore } = await import("./store.js");
+    const { hashProjectDirCanonical } = await import("./session/db.js");
+    const { resolveProjectDir } = await import("./util/project-dir.js");
+    const projectDir = projectFlag
+      ? resolve(projectFlag)
+      : resolveProjectDir({ env: process.env, cwd: process.cwd(), pwd: process.env.PWD });
+    // Same location the MCP server uses for persist: true (getDurableStorePath).
+    const adapter = await getAdapter(detectPlatform().platform);
+    const dbPath = join(dirname(adapter.getSessionDir()), "kb", `${hashProjectDirCanonical(projectDir)}.db`);
+
+    if (action === "export") {
+      if (!existsSync(dbPath)) {
+        console.error(`No project KB for ${projectDir} — index with persist: true first.`);
+        return 1;
+      }
+      const store = new ContentStore(dbPath);
+      try {
+        const bundle = store.exportBundle(labels);
+        const count = bundle.split("\n").filter(Boolean).length - 1;
+        if (positional[0]) {
+          writeFileSync(positional[0], bundle);
+          console.error(`Exported ${count} source${count === 1 ? "" : "s"} from ${projectDir} to ${positional[0]}`);
+        } else {
+          process.stdout.write(bundle);
+        }
+      } finally {
+        store.close();
+      }
+      return 0;
+    }
+
+    mkdirSync(dirname(dbPath), { recursive: true });
+    const store = new ContentStore(dbPath);
+    try {
+      const result = store.importBundle(readFileSync(positional[0], "utf-8"));
+      console.error(
+        `Imported into ${projectDir}: ${result.imported} new, ${result.replaced} replaced, ` +
+        `${result.skipped} unchanged (same label and content hash).`,
+      );
+    } finally {
+      store.close();
+    }
+    return 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`kb ${action} failed: ${msg}`);
+    return 1;
+  }
+}
+
 /* -------------------------------------------------------
  * Upgrade — adapter-aware hook configuration
  * ------------------------------------------------------- */
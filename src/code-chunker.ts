@@ -0,0 +1,499 @@
+/**
+ * code-chunker — Declaration-aware chunking for source files.
+ *
+ * ContentStore's markdown chunker splits on headings and paragraph breaks,
+ * which cuts functions in half when a `.ts` / `.py` / `.go` / `.rs` file is
+ * indexed by path and produces titles that mean nothing. This module splits
+ * source text on top-level declarations (functions, classes, types, consts)
+ * and on methods inside class / impl / trait bodies, titling each chunk with
+ * its symbol path — e.g. `ContentStore > searchWithFallback` — mirroring the
+ * `a > b` convention of markdown heading stacks and JSON key paths.
+ *
+ * This is a line-oriented heuristic, not a parser: it tracks bracket depth
+ * (skipping strings and comments) for brace languages and indentation for
+ * Python. It never throws — unusual syntax degrades to coarser chunks.
+ */
+
+export type CodeLanguage = "typescript" | "javascript" | "python" | "go" | "rust";
+
+export interface CodeChunk {
+  title: string;
+  content: string;
+}
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  pyi: "python",
+  go: "go",
+  rs: "rust",
+};
+
+/**
+ * Map a file path to a supported source language by extension.
+ * Returns null for anything that should keep the markdown chunker
+ * (docs, configs, data files, `.d.ts`-less unknowns).
+ */
+export function detectCodeLanguage(filePath: string): CodeLanguage | null {
+  const match = /\.([A-Za-z0-9]+)$/.exec(filePath);
+  if (!match) return null;
+  return EXTENSION_LANGUAGES[match[1].toLowerCase()] ?? null;
+}
+
+// ─────────────────────────────────────────────────────────
+// Segments
+// ─────────────────────────────────────────────────────────
+
+interface Segment {
+  title: string;
+  lines: string[];
+  /**
+   * "decl" = named symbol, "other" = top-level statements (imports, calls),
+   * whose title is derived from their lines once complete.
+   */
+  kind: "decl" | "other";
+}
+
+interface Container {
+  name: string;
+  /** Brace depth (or indent width for Python) of the container's own line. */
+  level: number;
+  /** Python only: indent width of the first body line. */
+  bodyIndent?: number;
+  opened: boolean;
+}
+
+const IMPORT_LINE = /^(?:import\b|export\s+(?:type\s+)?(?:\*|\{[^}]*\}\s+from)|from\s+\S+\s+import\b|use\s|package\s|extern\s+crate\b|mod\s+\w+\s*;)/;
+
+const CONTROL_KEYWORDS = new Set([
+  "if", "for", "while", "switch", "catch", "return", "function", "new",
+  "else", "do", "try", "typeof", "await", "yield", "throw", "super",
+]);
+
+function isCommentLine(trimmed: string): boolean {
+  return (
+    trimmed.startsWith("//") ||
+    trimmed.startsWith("/*") ||
+    trimmed.startsWith("*") ||
+    trimmed.startsWith("#[") ||
+    trimmed.startsWith("#!") ||
+    trimmed.startsWith("@")
+  );
+}
+
+function isImportLine(trimmed: string): boolean {
+  return IMPORT_LINE.test(trimmed);
+}
+
+/**
+ * Title for a run of top-level statements: `(imports)`, `(header)` for a
+ * leading comment block, otherwise the first statement — joined with its
+ * next line when it opens a call, so `server.registerTool(` reads as
+ * `server.registerTool("ctx_index"`.
+ */
+function otherTitle(lines: string[]): string {
+  const code = lines.map((l) => l.trim()).filter((t) => t.length > 0 && !isCommentLine(t) && !t.startsWith("#"));
+  if (code.length === 0) return "(header)";
+  if (isImportLine(code[0])) return "(imports)";
+  let title = code[0];
+  if (/[([{]$/.test(title) && code.length > 1) title += code[1].replace(/,$/, "");
+  return title.slice(0, 80);
+}
+
+/**
+ * Consecutive top-level statements share a chunk until a blank line; import
+ * runs stay together across blank lines but never absorb other statements.
+ */
+function extendsStatements(current: Segment | undefined, trimmed: string): boolean {
+  if (!current || current.kind !== "other") return false;
+  const inImports = otherTitle(current.lines) === "(imports)";
+  if (isImportLine(trimmed)) return inImports;
+  if (inImports) return false;
+  const last = current.lines[current.lines.length - 1];
+  return last !== undefined && last.trim() !== "";
+}
+
+// ─────────────────────────────────────────────────────────
+// Declaration matchers (per language)
+// ─────────────────────────────────────────────────────────
+
+interface DeclMatch {
+  name: string;
+  /** Chunk title when it differs from the symbol name (Rust `impl` headers). */
+  title?: string;
+  /** Methods inside this declaration's body get their own chunks. */
+  container: boolean;
+}
+
+function matchTopLevelDecl(line: string, language: CodeLanguage): DeclMatch | null {
+  if (language === "typescript" || language === "javascript") {
+    const m = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(function\*?|class|interface|type|enum|const\s+enum|const|let|var|namespace|module)\b\s*([A-Za-z_$][\w$]*)?/.exec(line);
+    if (!m) {
+      if (/^export\s+default\b/.test(line)) return { name: "default export", container: false };
+      return null;
+    }
+    const keyword = m[1];
+    const isDefault = /^export\s+default\b/.test(line);
+    // `export type { A } from` and friends are re-exports, not declarations.
+    if (!m[2] && !isDefault) return null;
+    return { name: m[2] ?? "default export", container: keyword === "class" };
+  }
+
+  if (language === "go") {
+    const fn = /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/.exec(line);
+    if (fn) return { name: fn[1] ? `${fn[1]} > ${fn[2]}` : fn[2], container: false };
+    const decl = /^(type|var|const)\s+(?:\(\s*$|(\w+))/.exec(line);
+    if (decl) return { name: decl[2] ?? `${decl[1]} (…)`, container: false };
+    return null;
+  }
+
+  if (language === "rust") {
+    const impl = /^(?:unsafe\s+)?impl\b(?:\s*<[^{]*?>)?\s+(?:([\w:<>,\s&']+?)\s+for\s+)?&?([\w:]+)/.exec(line);
+    if (impl) {
+      const type = impl[2].split("::").pop() ?? impl[2];
+      const trait = impl[1]?.split("::").pop();
+      return { name: type, title: trait ? `impl ${trait} for ${type}` : `impl ${type}`, container: true };
+    }
+    const m = /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|unsafe|const|default|extern\s+"[^"]*")\s+)*(fn|struct|enum|trait|type|const|static|mod|union|macro_rules!)\s*(\w+)/.exec(line);
+    if (m) return { name: m[2], container: m[1] === "trait" };
+    return null;
+  }
+
+  // python
+  const m = /^(?:async\s+)?(def|class)\s+(\w+)/.exec(line);
+  if (m) return { name: m[2], container: m[1] === "class" };
+  return null;
+}
+
+function matchMember(trimmed: string, language: CodeLanguage): string | null {
+  if (language === "typescript" || language === "javascript") {
+    const m = /^(?:(?:public|private|protected|static|readonly|async|override|abstract|declare|get|set)\s+)*\*?(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/.exec(trimmed);
+    if (!m || CONTROL_KEYWORDS.has(m[1])) return null;
+    return m[1];
+  }
+  if (language === "rust") {
+    const m = /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|unsafe|const|default|extern\s+"[^"]*")\s+)*fn\s+(\w+)/.exec(trimmed);
+    return m ? m[1] : null;
+  }
+  if (language === "python") {
+    const m = /^(?:async\s+)?def\s+(\w+)/.exec(trimmed);
+    return m ? m[1] : null;
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────
+// Lexing — bracket depth that ignores strings and comments
+// ─────────────────────────────────────────────────────────
+
+interface LexState {
+  /** Open multi-line construct: block comment, template/raw string, triple quote. */
+  open: null | "block" | "`" | '"""' | "'''";
+  depth: number;
+  /** Depths at which JS template `${` interpolations opened. */
+  templates: number[];
+}
+
+/**
+ * A `/` opens a regex literal (rather than dividing) when it follows an
+ * operator, an opening bracket, a keyword like `return`, or nothing at all.
+ * Regex bodies such as `/[{}]/` would otherwise skew the depth count.
+ */
+function startsRegex(line: string, i: number): boolean {
+  const before = line.slice(0, i).trimEnd();
+  if (before.length === 0) return true;
+  if (/(?:^|[^\w$])(?:return|typeof|case|in|of|void|yield|await)$/.test(before)) return true;
+  return /[(,=:[!&|?{};+\-*%<>~^]$/.test(before);
+}
+
+/** Index just past the closing `/` (and flags) of a regex literal at `i`. */
+function skipRegex(line: string, i: number): number {
+  let inClass = false;
+  for (let j = i + 1; j < line.length; j++) {
+    const c = line[j];
+    if (c === "\\") { j++; continue; }
+    if (c === "[") inClass = true;
+    else if (c === "]") inClass = false;
+    else if (c === "/" && !inClass) {
+      let k = j + 1;
+      while (k < line.length && /[a-z]/.test(line[k])) k++;
+      return k;
+    }
+  }
+  // Unterminated — treat the slash as division.
+  return i + 1;
+}
+
+/** Advance `state` over one line, updating bracket depth. */
+function lexLine(line: string, language: CodeLanguage, state: LexState): void {
+  let i = 0;
+  const n = line.length;
+  while (i < n) {
+    if (state.open === "block") {
+      const end = line.indexOf("*/", i);
+      if (end === -1) return;
+      state.open = null;
+      i = end + 2;
+      continue;
+    }
+    if (state.open === "`") {
+      const interpolates = language === "typescript" || language === "javascript";
+      let j = i;
+      while (j < n && line[j] !== "`" && !(interpolates && line[j] === "$" && line[j + 1] === "{")) {
+        j += line[j] === "\\" ? 2 : 1;
+      }
+      if (j >= n) return;
+      state.open = null;
+      if (line[j] === "`") {
+        i = j + 1;
+      } else {
+        state.depth++;
+        state.templates.push(state.depth);
+        i = j + 2;
+      }
+      continue;
+    }
+    if (state.open === '"""' || state.open === "'''") {
+      const end = line.indexOf(state.open, i);
+      if (end === -1) return;
+      i = end + 3;
+      state.open = null;
+      continue;
+    }
+
+    const ch = line[i];
+    const next = line[i + 1];
+
+    if (language === "python") {
+      if (ch === "#") return;
+      if ((ch === '"' || ch === "'") && line.startsWith(ch.repeat(3), i)) {
+        state.open = ch.repeat(3) as '"""' | "'''";
+        i += 3;
+        continue;
+      }
+    } else {
+      if (ch === "/" && next === "/") return;
+      if (ch === "/" && next === "*") {
+        state.open = "block";
+        i += 2;
+        continue;
+      }
+      if (ch === "/" && (language === "typescript" || language === "javascript") && startsRegex(line, i)) {
+        i = skipRegex(line, i);
+        continue;
+      }
+      if (ch === "`" && language !== "rust") {
+        state.open = "`";
+        i++;
+        continue;
+      }
+    }
+
+    if (ch === "'" && (language === "rust" || language === "go")) {
+      // Char / rune literal ('x', '\n', '\u{1F600}') — anything else is a
+      // Rust lifetime ('a) and carries no bracket.
+      const lit = /^'(?:\\[^']+|[^\\'])'/.exec(line.slice(i));
+      i += lit ? lit[0].length : 1;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < n && line[j] !== ch) {
+        if (line[j] === "\\") j++;
+        j++;
+      }
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "}" && state.templates[state.templates.length - 1] === state.depth) {
+      // End of a `${…}` interpolation — resume the enclosing template.
+      state.templates.pop();
+      state.depth--;
+      state.open = "`";
+      i++;
+      continue;
+    }
+    if (ch === "{" || ch === "(" || ch === "[") state.depth++;
+    else if (ch === "}" || ch === ")" || ch === "]") state.depth = Math.max(0, state.depth - 1);
+    i++;
+  }
+}
+
+// ─────────────────────────────────────────────────────────
+// Segmentation
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Move trailing comment / decorator / attribute lines from the end of
+ * `from` into a fresh segment so doc comments travel with the declaration
+ * they describe rather than the one before it.
+ */
+function takeLeadingComments(from: Segment | undefined, isLeading: (line: string) => boolean): string[] {
+  if (!from) return [];
+  let k = from.lines.length;
+  while (k > 0 && from.lines[k - 1].trim() !== "" && isLeading(from.lines[k - 1])) k--;
+  if (k === from.lines.length) return [];
+  // Never strip a segment down to nothing but its own title line.
+  if (k === 0 && from.kind === "decl") return [];
+  return from.lines.splice(k);
+}
+
+function segmentBraceLanguage(lines: string[], language: CodeLanguage): Segment[] {
+  const segments: Segment[] = [];
+  const state: LexState = { open: null, depth: 0, templates: [] };
+  let container: Container | null = null;
+  let current: Segment | undefined;
+
+  const start = (title: string, kind: Segment["kind"], leadingFrom: Segment | undefined) => {
+    const leading = takeLeadingComments(leadingFrom, (l) => isCommentLine(l.trim()));
+    current = { title, lines: leading, kind };
+    segments.push(current);
+  };
+
+  for (const line of lines) {
+    const startDepth = state.depth;
+    const startOpen = state.open;
+    const trimmed = line.trim();
+    const atColumnZero = line.length > 0 && !/^\s/.test(line);
+
+    if (startOpen === null && trimmed.length > 0 && !isCommentLine(trimmed)) {
+      if (container && container.opened && startDepth === container.level + 1) {
+        const member = matchMember(trimmed, language);
+        if (member) start(`${container.name} > ${member}`, "decl", current);
+      } else if (startDepth === 0 && atColumnZero && !/^[}\])]/.test(trimmed)) {
+        container = null;
+        const decl = matchTopLevelDecl(trimmed, language);
+        if (decl) {
+          start(decl.title ?? decl.name, "decl", current);
+          if (decl.container) container = { name: decl.name, level: 0, opened: false };
+        } else if (!extendsStatements(current, trimmed)) {
+          start("", "other", current);
+        }
+      }
+    }
+
+    if (!current) start("", "other", undefined);
+    current!.lines.push(line);
+
+    lexLine(line, language, state);
+    if (container && state.depth > container.level) container.opened = true;
+    if (container && container.opened && state.depth <= container.level) container = null;
+  }
+
+  return segments;
+}
+
+function segmentPython(lines: string[]): Segment[] {
+  const segments: Segment[] = [];
+  const state: LexState = { open: null, depth: 0, templates: [] };
+  let container: Container | null = null;
+  let current: Segment | undefined;
+
+  const start = (title: string, kind: Segment["kind"], leadingFrom: Segment | undefined) => {
+    const leading = takeLeadingComments(leadingFrom, (l) => {
+      const t = l.trim();
+      return t.startsWith("#") || t.startsWith("@");
+    });
+    current = { title, lines: leading, kind };
+    segments.push(current);
+  };
+
+  for (const line of lines) {
+    const startDepth = state.depth;
+    const startOpen = state.open;
+    const trimmed = line.trim();
+    const indent = line.length - line.trimStart().length;
+
+    if (startOpen === null && startDepth === 0 && trimmed.length > 0 && !trimmed.startsWith("#") && !trimmed.startsWith("@")) {
+      if (indent === 0) {
+        container = null;
+        const decl = matchTopLevelDecl(trimmed, "python");
+        if (decl) {
+          start(decl.name, "decl", current);
+          if (decl.container) container = { name: decl.name, level: 0, opened: false };
+        } else if (!extendsStatements(current, trimmed)) {
+          start("", "other", current);
+        }
+      } else if (container) {
+        if (container.bodyIndent === undefined) container.bodyIndent = indent;
+        if (indent === container.bodyIndent) {
+          const member = matchMember(trimmed, "python");
+          if (member) start(`${container.name} > ${member}`, "decl", current);
+        }
+      }
+    }
+
+    if (!current) start("", "other", undefined);
+    current!.lines.push(line);
+    lexLine(line, "python", state);
+  }
+
+  return segments;
+}
+
+// ─────────────────────────────────────────────────────────
+// Oversized segment splitting
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Split a segment that exceeds the byte cap at blank lines, falling back to
+ * line boundaries for dense code. Parts are titled `Symbol (1)`, `Symbol (2)`
+ * — the same suffix convention as the markdown chunker.
+ */
+function splitOversized(title: string, content: string, maxChunkBytes: number): CodeChunk[] {
+  if (Buffer.byteLength(content) <= maxChunkBytes) return [{ title, content }];
+
+  const blocks = content.split(/\n\s*\n/);
+  const units = blocks.length > 1 ? blocks : content.split("\n");
+  const joiner = blocks.length > 1 ? "\n\n" : "\n";
+
+  const parts: string[] = [];
+  let accumulator: string[] = [];
+  for (const unit of units) {
+    accumulator.push(unit);
+    if (Buffer.byteLength(accumulator.join(joiner)) > maxChunkBytes && accumulator.length > 1) {
+      accumulator.pop();
+      parts.push(accumulator.join(joiner));
+      accumulator = [unit];
+    }
+  }
+  if (accumulator.length > 0) parts.push(accumulator.join(joiner));
+
+  const nonEmpty = parts.map((p) => p.replace(/^\n+|\s+$/g, "")).filter((p) => p.length > 0);
+  if (nonEmpty.length === 1) return [{ title, content: nonEmpty[0] }];
+  return nonEmpty.map((p, i) => ({ title: `${title} (${i + 1})`, content: p }));
+}
+
+/**
+ * Chunk source code on declaration boundaries. Each chunk's title is the
+ * symbol path of the declaration it holds; runs of top-level statements
+ * (imports, module-level calls) are grouped and titled by their first line.
+ */
+export function chunkCode(
+  text: string,
+  language: CodeLanguage,
+  maxChunkBytes: number,
+): CodeChunk[] {
+  const lines = text.split("\n");
+  const segments = language === "python"
+    ? segmentPython(lines)
+    : segmentBraceLanguage(lines, language);
+
+  const chunks: CodeChunk[] = [];
+  for (const seg of segments) {
+    const content = seg.lines.join("\n").replace(/^\n+|\s+$/g, "");
+    if (content.length === 0) continue;
+    const title = seg.kind === "other" ? otherTitle(seg.lines) : seg.title;
+    chunks.push(...splitOversized(title, content, maxChunkBytes));
+  }
+  return chunks;
+}
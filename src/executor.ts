@@ -2,6 +2,7 @@ import { spawn, execSync, execFileSync } from "node:child_process";
 import { mkdtempSync, writeFileSync, rmSync, existsSync } from "node:fs";
 import { join, resolve } from "node:path";
 import { tmpdir } from "node:os";
+import type { Socket } from "node:net";
 import {
   detectRuntimes,
   buildCommand,
@@ -10,6 +11,29 @@ import {
 } from "./runtime.js";
 export type { ExecResult } from "./types.js";
 import type { ExecResult } from "./types.js";
+import {
+  ReplSession,
+  SESSION_DRIVERS,
+  SESSION_LANGUAGES,
+  isSessionLanguage,
+  type SessionLanguage,
+} from "./repl-session.js";
+import {
+  applyResourceLimits,
+  describeLimitViolation,
+  effectiveLimits,
+  resolveResourceLimits,
+  type ResourceLimits,
+} from "./resource-limits.js";
+import {
+  applyReadOnlyMount,
+  diffProjectSnapshots,
+  formatProjectChanges,
+  probeReadOnlyMount,
+  snapshotProject,
+  type ProjectSnapshot,
+} from "./read-only.js";
+import { BackgroundJob } from "./background-jobs.js";
 
 const isWin = process.platform === "win32";
 
@@ -92,6 +116,48 @@ const OS_TMPDIR = (() => {
   return "/tmp";
 })();
 
+/**
+ * Prelude for ctx_execute_file on `.ipynb` files (JavaScript/TypeScript and
+ * Python): exposes CELLS, a list of `{index, type, source, outputs}` parsed
+ * from FILE_CONTENT, so code can filter cells without walking nbformat JSON.
+ * Same shape as parseNotebook in notebook-chunker.ts; outputs are joined text.
+ */
+const NOTEBOOK_CELLS_JS = `const CELLS = (() => {
+  const text = (s) => Array.isArray(s) ? s.join("") : (typeof s === "string" ? s : "");
+  const output = (o) => o.output_type === "stream" ? text(o.text)
+    : o.output_type === "error" ? o.ename + ": " + o.evalue
+    : o.data && o.data["text/plain"] !== undefined ? text(o.data["text/plain"]) : "";
+  try {
+    return (JSON.parse(FILE_CONTENT).cells || []).map((c, index) => ({
+      index,
+      type: c.cell_type,
+      source: text(c.source),
+      outputs: (c.outputs || []).map(output).filter(Boolean).join("\\n"),
+    }));
+  } catch { return []; }
+})();
+`;
+
+const NOTEBOOK_CELLS_PY = `import json as _nb_json
+def _nb_text(s):
+    return "".join(s) if isinstance(s, list) else (s if isinstance(s, str) else "")
+def _nb_output(o):
+    if o.get("output_type") == "stream":
+        return _nb_text(o.get("text"))
+    if o.get("output_type") == "error":
+        return f"{o.get('ename')}: {o.get('evalue')}"
+    return _nb_text(o.get("data", {}).get("text/plain"))
+try:
+    _nb_cells = _nb_json.loads(FILE_CONTENT).get("cells", [])
+except ValueError:
+    _nb_cells = []
+CELLS = [
+    {"index": _i, "type": _c.get("cell_type"), "source": _nb_text(_c.get("source")),
+     "outputs": "\\n".join(t for t in map(_nb_output, _c.get("outputs", [])) if t)}
+    for _i, _c in enumerate(_nb_cells)
+]
+`;
+
 /** Kill process tree — on Windows uses taskkill /T; on Unix kills the process group. */
 function killTree(proc: ReturnType<typeof spawn>): void {
   if (isWin && proc.pid) {
@@ -106,12 +172,54 @@ function killTree(proc: ReturnType<typeof spawn>): void {
   }
 }
 
+/** Whether any process in the Unix process group `pgid` is still alive. */
+function processGroupAlive(pgid: number): boolean {
+  try {
+    process.kill(-pgid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** Live REPL sessions per executor; the least recently used is closed beyond this. */
+const MAX_SESSIONS = 4;
+
+/** Exited background jobs kept for tailing; the oldest are forgotten beyond this. */
+const MAX_EXITED_JOBS = 10;
+
 interface ExecuteOptions {
   language: Language;
   code: string;
   timeout?: number;
   /** Keep process running after timeout instead of killing it. */
   background?: boolean;
+  /** What a background job is listed as. Default: `code`. */
+  command?: string;
+  /** Run in the named long-lived interpreter, keeping state between calls. */
+  session?: string;
+  /**
+   * Code a new session's interpreter runs before its first call, with its
+   * output dropped (e.g. the network egress shim, which NODE_OPTIONS does
+   * not load under Bun).
+   */
+  sessionPrelude?: string;
+  /**
+   * Extra environment variables, set after the denylist is applied (e.g.
+   * the network egress proxy). A session keeps the env it started with.
+   */
+  env?: Record<string, string>;
+  /**
+   * Mount the project root read-only where the OS allows it, and report
+   * project files that changed during the run.
+   */
+  readOnly?: boolean;
+  /**
+   * With `readOnly`, report the project files this run changed. Default
+   * true; pass false to report once around several runs instead (see
+   * snapshotProject).
+   */
+  reportChanges?: boolean;
 }
 
 interface ExecuteFileOptions extends ExecuteOptions {
@@ -130,15 +238,33 @@ export class PolyglotExecutor {
   #projectRootResolver: () => string;
   #runtimes: RuntimeMap;
 
-  /** PIDs of backgrounded processes — killed on cleanup to prevent zombies. */
-  #backgroundedPids = new Set<number>();
+  /** Backgrounded processes by job id — killed on cleanup to prevent zombies. */
+  #jobs = new Map<number, BackgroundJob>();
+  #nextJobId = 1;
+
+  /** Live REPL sessions by name, least recently used first. */
+  #sessions = new Map<string, ReplSession>();
+  /** Why each ended session ended — reported once when its name is reused. */
+  #endedSessions = new Map<string, string>();
+  #sessionIdleTimeoutMs: number;
+  #sessionMemoryCapMb: number;
+  #resourceLimits: (language: Language) => ResourceLimits;
 
   constructor(opts?: {
     hardCapBytes?: number;
     projectRoot?: string | (() => string);
     runtimes?: RuntimeMap;
+    /** Idle time after which a REPL session is closed. Default 10 min. */
+    sessionIdleTimeoutMs?: number;
+    /** Resident memory above which a REPL session is killed. Default 1024 MB. */
+    sessionMemoryCapMb?: number;
+    /** OS resource limits per language. Default: resolveResourceLimits (env-configured). */
+    resourceLimits?: (language: Language) => ResourceLimits;
   }) {
     this.#hardCapBytes = opts?.hardCapBytes ?? 100 * 1024 * 1024; // 100MB
+    this.#sessionIdleTimeoutMs = opts?.sessionIdleTimeoutMs ?? 10 * 60 * 1000;
+    this.#sessionMemoryCapMb = opts?.sessionMemoryCapMb ?? 1024;
+    this.#resourceLimits = opts?.resourceLimits ?? ((language) => resolveResourceLimits(language));
     const pr = opts?.projectRoot;
     if (typeof pr === "function") {
       this.#projectRootResolver = pr;
@@ -158,19 +284,126 @@ export class PolyglotExecutor {
     return { ...this.#runtimes };
   }
 
-  /** Kill all backgrounded processes to prevent zombie/port-conflict issues. */
+  /** Resource limits that apply to `language` with the detected runtime. */
+  resourceLimits(language: Language): ResourceLimits {
+    const limits = this.#resourceLimits(language);
+    try {
+      return effectiveLimits(buildCommand(this.#runtimes, language, "script"), limits);
+    } catch {
+      return limits; // runtime not installed
+    }
+  }
+
+  /** Kill all backgrounded processes and REPL sessions to prevent zombie/port-conflict issues. */
   cleanupBackgrounded(): void {
-    for (const pid of this.#backgroundedPids) {
+    for (const job of this.#jobs.values()) {
+      // Exited jobs too: the leader's children may still be running.
       try {
         // Kill process group on Unix to catch all children
-        process.kill(isWin ? pid : -pid, "SIGTERM");
+        process.kill(isWin ? job.pid : -job.pid, "SIGTERM");
       } catch { /* already dead */ }
     }
-    this.#backgroundedPids.clear();
+    this.#jobs.clear();
+    for (const session of this.#sessions.values()) session.close("server cleanup");
+    this.#sessions.clear();
+  }
+
+  /** Background jobs, oldest first: running ones plus the most recently exited. */
+  get backgroundJobs(): BackgroundJob[] {
+    return [...this.#jobs.values()];
+  }
+
+  backgroundJob(id: number): BackgroundJob | undefined {
+    return this.#jobs.get(id);
+  }
+
+  /**
+   * Stop a background job and forget it: SIGTERM to its process group,
+   * then SIGKILL if any of it is still running after `graceMs`. The group
+   * is signalled even when the leader has exited, since its children can
+   * outlive it. Returns null for an unknown id and "exited" when nothing
+   * of the job was left running.
+   */
+  async terminateBackgroundJob(
+    id: number,
+    graceMs = 3_000,
+  ): Promise<"terminated" | "killed" | "exited" | null> {
+    const job = this.#jobs.get(id);
+    if (!job) return null;
+    this.#jobs.delete(id);
+    if (isWin) {
+      if (!job.running) return "exited";
+      try {
+        execSync(`taskkill /F /T /PID ${job.pid}`, { stdio: "pipe" });
+      } catch { /* already dead */ }
+      return "killed";
+    }
+    const alive = () => job.running || processGroupAlive(job.pid);
+    const wasAlive = alive();
+    try {
+      process.kill(-job.pid, "SIGTERM");
+    } catch { /* already dead */ }
+    const deadline = Date.now() + graceMs;
+    while (alive() && Date.now() < deadline) {
+      await new Promise((r) => setTimeout(r, 50));
+    }
+    if (!alive()) return wasAlive ? "terminated" : "exited";
+    try {
+      process.kill(-job.pid, "SIGKILL");
+    } catch { /* already dead */ }
+    return "killed";
+  }
+
+  #addJob(job: BackgroundJob): void {
+    this.#jobs.set(job.id, job);
+    const exited = [...this.#jobs.values()].filter((j) => !j.running);
+    for (const old of exited.slice(0, Math.max(0, exited.length - MAX_EXITED_JOBS))) {
+      this.#jobs.delete(old.id);
+    }
+  }
+
+  /** Names and languages of the live REPL sessions. */
+  get sessions(): Array<{ name: string; language: Language }> {
+    return [...this.#sessions.values()].map((s) => ({ name: s.name, language: s.language }));
+  }
+
+  /** Close a REPL session. Returns false when no such session is running. */
+  closeSession(name: string): boolean {
+    const session = this.#sessions.get(name);
+    if (!session) return false;
+    session.close("closed");
+    this.#sessions.delete(name);
+    this.#endedSessions.delete(name);
+    return true;
   }
 
   async execute(opts: ExecuteOptions): Promise<ExecResult> {
-    const { language, code, timeout, background = false } = opts;
+    if (opts.session !== undefined) return this.#executeInSession(opts);
+    if (!opts.readOnly) return this.#execute(opts);
+    await probeReadOnlyMount();
+    if (opts.reportChanges === false) return this.#execute(opts);
+    // Writes are reported even when the mount is in place: it is missing on
+    // some platforms, and paths outside the root can link back into it.
+    const before = await this.snapshotProject();
+    const result = await this.#execute(opts);
+    const note = await this.projectChangesSince(before);
+    if (!note) return result;
+    return { ...result, stdout: result.stdout ? `${result.stdout.replace(/\n?$/, "\n")}${note}\n` : `${note}\n` };
+  }
+
+  /** Snapshot of the project's files, for projectChangesSince. */
+  snapshotProject(): Promise<ProjectSnapshot> {
+    return snapshotProject(this.#projectRoot);
+  }
+
+  /** Note for the project files changed since `before`, or null when none did. */
+  async projectChangesSince(before: ProjectSnapshot): Promise<string | null> {
+    return formatProjectChanges(diffProjectSnapshots(before, await this.snapshotProject()));
+  }
+
+  async #execute(opts: ExecuteOptions): Promise<ExecResult> {
+    const { language, code, timeout, background = false, command = code, env, readOnly = false } = opts;
+    const readOnlyRoot = readOnly && existsSync(this.#projectRoot) ? this.#projectRoot : undefined;
     const tmpDir = mkdtempSync(join(OS_TMPDIR, ".ctx-mode-"));
 
     try {
@@ -179,16 +412,21 @@ export class PolyglotExecutor {
 
       // Rust: compile then run
       if (cmd[0] === "__rust_compile_run__") {
-        return await this.#compileAndRun(filePath, tmpDir, timeout);
+        return await this.#compileAndRun(filePath, tmpDir, timeout, this.#resourceLimits(language), env, readOnlyRoot);
       }
 
       // Shell commands run in the project directory so git, relative paths,
       // and other project-aware tools work naturally. Non-shell languages
       // run in the temp directory where their script file is written.
       const cwd = language === "shell" ? this.#projectRoot : tmpDir;
-      const result = await this.#spawn(cmd, cwd, tmpDir, timeout, background);
-
-      // Skip tmpDir cleanup if process was backgrounded — it may still need files
+      let limits = effectiveLimits(cmd, this.#resourceLimits(language));
+      // A backgrounded server may run for hours; CPU time would add up.
+      if (background) limits = { ...limits, cpuSeconds: 0 };
+      const job = background ? { language, command } : undefined;
+      const result = await this.#spawn(cmd, cwd, tmpDir, timeout, job, limits, env, readOnlyRoot);
+
+      // Skip tmpDir cleanup if process was backgrounded — it may still need
+      // files; the job removes it when the process exits.
       if (!result.backgrounded) {
         try {
           rmSync(tmpDir, { recursive: true, force: true });
@@ -205,14 +443,88 @@ export class PolyglotExecutor {
   }
 
   async executeFile(opts: ExecuteFileOptions): Promise<ExecResult> {
-    const { path: filePath, language, code, timeout } = opts;
+    const { path: filePath, language, code, timeout, env, readOnly } = opts;
     const absolutePath = resolve(this.#projectRoot, filePath);
     const wrappedCode = this.#wrapWithFileContent(
       absolutePath,
       language,
       code,
     );
-    return this.execute({ language, code: wrappedCode, timeout });
+    return this.execute({ language, code: wrappedCode, timeout, env, readOnly });
+  }
+
+  async #executeInSession(opts: ExecuteOptions): Promise<ExecResult> {
+    const { language, code, timeout, session: name = "" } = opts;
+    const fail = (stderr: string): ExecResult => ({ stdout: "", stderr, exitCode: 1, timedOut: false });
+    if (!/^[\w.-]{1,64}$/.test(name)) {
+      return fail(`Invalid session name "${name}": use 1-64 letters, digits, "_", "-" or ".".`);
+    }
+    if (opts.background) return fail("background cannot be combined with session.");
+    if (opts.readOnly) return fail("readOnly cannot be combined with session.");
+    if (!isSessionLanguage(language)) {
+      return fail(`Sessions support ${SESSION_LANGUAGES.join(", ")} — not ${language}.`);
+    }
+
+    let session = this.#sessions.get(name);
+    if (session && session.language !== language) {
+      return fail(`Session "${name}" is a ${session.language} session. Use another name for ${language}.`);
+    }
+    let note = "";
+    if (!session) {
+      const ended = this.#endedSessions.get(name);
+      if (ended) {
+        note = `[session "${name}" restarted — the previous one ended (${ended}); earlier state is gone]\n`;
+        this.#endedSessions.delete(name);
+      }
+      session = this.#startSession(name, language, opts.env);
+      if (opts.sessionPrelude) await session.run(opts.sessionPrelude, timeout);
+    } else {
+      // Re-insert to keep the map in least-recently-used order.
+      this.#sessions.delete(name);
+      this.#sessions.set(name, session);
+    }
+
+    const result = await session.run(code, timeout);
+    return note ? { ...result, stdout: note + result.stdout } : result;
+  }
+
+  #startSession(name: string, language: SessionLanguage, extraEnv?: Record<string, string>): ReplSession {
+    if (this.#sessions.size >= MAX_SESSIONS) {
+      const [oldest] = this.#sessions.keys();
+      const reason = `evicted — more than ${MAX_SESSIONS} sessions`;
+      this.#sessions.get(oldest)!.close(reason);
+      this.#sessions.delete(oldest);
+      this.#endedSessions.set(oldest, reason);
+    }
+    const tmpDir = mkdtempSync(join(OS_TMPDIR, ".ctx-mode-session-"));
+    const driver = SESSION_DRIVERS[language];
+    const driverPath = join(tmpDir, `driver.${driver.ext}`);
+    writeFileSync(driverPath, driver.source, "utf-8");
+    const command = buildCommand(this.#runtimes, language, driverPath);
+    // Limits apply for the session's lifetime; CPU time adds up across calls.
+    const limits = effectiveLimits(command, this.#resourceLimits(language));
+    const session = new ReplSession({
+      name,
+      language,
+      command: applyResourceLimits(command, limits),
+      limits,
+      cwd: tmpDir,
+      env: this.#buildSafeEnv(tmpDir, extraEnv),
+      idleTimeoutMs: this.#sessionIdleTimeoutMs,
+      memoryCapMb: this.#sessionMemoryCapMb,
+      hardCapBytes: this.#hardCapBytes,
+      onExit: (reason) => {
+        if (this.#sessions.get(name) === session) {
+          this.#sessions.delete(name);
+          this.#endedSessions.set(name, reason);
+        }
+        try {
+          rmSync(tmpDir, { recursive: true, force: true });
+        } catch { /* ignore */ }
+      },
+    });
+    this.#sessions.set(name, session);
+    return session;
   }
 
   #writeScript(tmpDir: string, code: string, language: Language): string {
@@ -256,6 +568,9 @@ export class PolyglotExecutor {
     srcPath: string,
     cwd: string,
     timeout: number | undefined,
+    limits: ResourceLimits,
+    extraEnv?: Record<string, string>,
+    readOnlyRoot?: string,
   ): Promise<ExecResult> {
     const binSuffix = isWin ? ".exe" : "";
     const binPath = srcPath.replace(/\.rs$/, "") + binSuffix;
@@ -281,7 +596,7 @@ export class PolyglotExecutor {
     }
 
     // Run
-    return this.#spawn([binPath], cwd, cwd, timeout);
+    return this.#spawn([binPath], cwd, cwd, timeout, undefined, limits, extraEnv, readOnlyRoot);
   }
 
   async #spawn(
@@ -289,8 +604,14 @@ export class PolyglotExecutor {
     cwd: string,
     sandboxTmpDir: string,
     timeout: number | undefined,
-    background = false,
+    /** Keep the process running as a background job once `timeout` fires. */
+    background?: { language: Language; command: string },
+    limits?: ResourceLimits,
+    extraEnv?: Record<string, string>,
+    readOnlyRoot?: string,
   ): Promise<ExecResult> {
+    if (limits) cmd = applyResourceLimits(cmd, limits);
+    if (readOnlyRoot) cmd = applyReadOnlyMount(cmd, readOnlyRoot);
     return new Promise((res) => {
       // Only .cmd/.bat shims need shell on Windows; real executables don't.
       // Using shell: true globally causes process-tree kill issues with MSYS2/Git Bash.
@@ -318,7 +639,7 @@ export class PolyglotExecutor {
       const commonOpts = {
         cwd,
         stdio: ["ignore", "pipe", "pipe"] as ["ignore", "pipe", "pipe"],
-        env: this.#buildSafeEnv(sandboxTmpDir),
+        env: this.#buildSafeEnv(sandboxTmpDir, extraEnv),
         // On Unix, create a new process group so killTree can kill all children
         detached: !isWin,
         // Hide the spawned-process console window on Windows. Without this,
@@ -345,6 +666,7 @@ export class PolyglotExecutor {
 
       let timedOut = false;
       let resolved = false;
+      let job: BackgroundJob | undefined;
       // Issue #406 — if the caller didn't pass a timeout we don't fire one.
       // Timeout policy belongs to the MCP host/client (Claude Code, VSCode,
       // JetBrains all enforce their own RPC timeouts); imposing a second
@@ -352,13 +674,21 @@ export class PolyglotExecutor {
       // false negatives whenever the caller forgot the explicit value.
       const timer: NodeJS.Timeout | undefined = timeout === undefined ? undefined : setTimeout(() => {
         timedOut = true;
-        if (background) {
-          // Background mode: detach process, return partial output, keep running
+        if (background && proc.pid) {
+          // Background mode: detach process, return partial output, keep running.
+          // Output keeps flowing into the job's ring buffers; the pipes are
+          // unref'd so they do not hold the server's event loop open.
           resolved = true;
-          if (proc.pid) this.#backgroundedPids.add(proc.pid);
+          job = new BackgroundJob(this.#nextJobId++, proc.pid, background.language, background.command);
+          for (const chunk of stdoutChunks) job.stdout.push(chunk);
+          for (const chunk of stderrChunks) job.stderr.push(chunk);
+          // The leader may already be gone, its exit event fired, while its
+          // children keep the pipes open.
+          if (proc.exitCode !== null || proc.signalCode !== null) onJobExit(proc.exitCode, proc.signalCode);
+          this.#addJob(job);
           proc.unref();
-          proc.stdout!.destroy();
-          proc.stderr!.destroy();
+          (proc.stdout as Socket).unref();
+          (proc.stderr as Socket).unref();
           const rawStdout = Buffer.concat(stdoutChunks).toString("utf-8");
           const rawStderr = Buffer.concat(stderrChunks).toString("utf-8");
           res({
@@ -367,6 +697,7 @@ export class PolyglotExecutor {
             exitCode: 0,
             timedOut: true,
             backgrounded: true,
+            jobId: job.id,
           });
         } else {
           killTree(proc);
@@ -383,6 +714,10 @@ export class PolyglotExecutor {
       let capExceeded = false;
 
       proc.stdout!.on("data", (chunk: Buffer) => {
+        if (job) {
+          job.stdout.push(chunk);
+          return;
+        }
         totalBytes += chunk.length;
         if (totalBytes <= this.#hardCapBytes) {
           stdoutChunks.push(chunk);
@@ -393,6 +728,10 @@ export class PolyglotExecutor {
       });
 
       proc.stderr!.on("data", (chunk: Buffer) => {
+        if (job) {
+          job.stderr.push(chunk);
+          return;
+        }
         totalBytes += chunk.length;
         if (totalBytes <= this.#hardCapBytes) {
           stderrChunks.push(chunk);
@@ -402,7 +741,17 @@ export class PolyglotExecutor {
         }
       });
 
-      proc.on("close", (exitCode) => {
+      const onJobExit = (code: number | null, signal: NodeJS.Signals | null) => {
+        if (!job) return;
+        job.exit = { code, signal };
+        try {
+          rmSync(sandboxTmpDir, { recursive: true, force: true });
+        } catch { /* ignore */ }
+      };
+      // "exit" rather than "close": a job's children may hold its pipes open.
+      proc.on("exit", onJobExit);
+
+      proc.on("close", (exitCode, signal) => {
         clearTimeout(timer);
         if (resolved) return; // Already resolved by background timeout
         const rawStdout = Buffer.concat(stdoutChunks).toString("utf-8");
@@ -410,6 +759,9 @@ export class PolyglotExecutor {
 
         if (capExceeded) {
           rawStderr += `\n[output capped at ${(this.#hardCapBytes / 1024 / 1024).toFixed(0)}MB — process killed]`;
+        } else if (limits && !timedOut && exitCode !== 0) {
+          const violation = describeLimitViolation(limits, signal, rawStderr);
+          if (violation) rawStderr += `\n[killed: ${violation}]`;
         }
 
         const stdout = rawStdout;
@@ -436,7 +788,7 @@ export class PolyglotExecutor {
     });
   }
 
-  #buildSafeEnv(tmpDir: string): Record<string, string> {
+  #buildSafeEnv(tmpDir: string, extraEnv?: Record<string, string>): Record<string, string> {
     const realHome = process.env.HOME ?? process.env.USERPROFILE ?? tmpDir;
 
     // Denylist: env vars that corrupt sandbox stdout, inject code, or break
@@ -598,6 +950,9 @@ export class PolyglotExecutor {
       }
     }
 
+    // Caller-supplied values (ExecuteOptions.env) are trusted and win.
+    if (extraEnv) Object.assign(env, extraEnv);
+
     return env;
   }
 
@@ -607,12 +962,13 @@ export class PolyglotExecutor {
     code: string,
   ): string {
     const escaped = JSON.stringify(absolutePath);
+    const notebook = /\.ipynb$/i.test(absolutePath);
     switch (language) {
       case "javascript":
       case "typescript":
-        return `const FILE_CONTENT_PATH = ${escaped};\nconst file_path = FILE_CONTENT_PATH;\nconst FILE_CONTENT = require("fs").readFileSync(FILE_CONTENT_PATH, "utf-8");\n${code}`;
+        return `const FILE_CONTENT_PATH = ${escaped};\nconst file_path = FILE_CONTENT_PATH;\nconst FILE_CONTENT = require("fs").readFileSync(FILE_CONTENT_PATH, "utf-8");\n${notebook ? NOTEBOOK_CELLS_JS : ""}${code}`;
       case "python":
-        return `FILE_CONTENT_PATH = ${escaped}\nfile_path = FILE_CONTENT_PATH\nwith open(FILE_CONTENT_PATH, "r", encoding="utf-8") as _f:\n    FILE_CONTENT = _f.read()\n${code}`;
+        return `FILE_CONTENT_PATH = ${escaped}\nfile_path = FILE_CONTENT_PATH\nwith open(FILE_CONTENT_PATH, "r", encoding="utf-8") as _f:\n    FILE_CONTENT = _f.read()\n${notebook ? NOTEBOOK_CELLS_PY : ""}${code}`;
       case "shell": {
         // Single-quote the path to prevent $, backtick, and ! expansion
         const sq = "'" + absolutePath.replace(/'/g, "'\\''") + "'";
@@ -0,0 +1,259 @@
+/**
+ * file-walk — Collect indexable files for directory / glob `ctx_index`.
+ *
+ * Expands a directory or a glob like `src/**\/*.ts` into the list of text
+ * files under it, honouring nested `.gitignore` files, caller include /
+ * exclude globs, and skipping binaries and oversized files. Glob syntax is
+ * the same `**` / `*` / `?` dialect the Read deny-policy uses
+ * (see `fileGlobToRegex` in security.ts).
+ *
+ * Hidden entries (`.git`, `.env`, `.gitignore` itself) are skipped unless
+ * the walk starts inside one — `.github/**\/*.yml` still works.
+ *
+ * Symlinks are never followed: a link inside the tree could point at a
+ * denied location or form a cycle, and the per-file deny check in server.ts
+ * only sees the path it is given.
+ */
+
+import { closeSync, openSync, readFileSync, readSync, readdirSync, statSync } from "node:fs";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { fileGlobToRegex } from "./security.js";
+
+export type SkipReason = "binary" | "too-large" | "unreadable" | "limit";
+
+export interface WalkOptions {
+  /** Only files matching at least one of these globs (relative to root). */
+  include?: string[];
+  /** Files or directories matching any of these globs are left out. */
+  exclude?: string[];
+  /**
+   * Consider at most this many files. The walk stops descending once it has
+   * found more; the one past the cap is skipped as "limit" and the rest of
+   * the tree is not visited.
+   */
+  maxFiles?: number;
+  /** Files larger than this are skipped as "too-large". */
+  maxFileBytes?: number;
+}
+
+export interface WalkResult {
+  /** Absolute directory the walk started from. */
+  root: string;
+  /** Absolute paths of files to index, in stable (sorted) order. */
+  files: string[];
+  skipped: Array<{ path: string; reason: SkipReason }>;
+}
+
+const DEFAULT_MAX_FILES = 1000;
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+/** Same sniff window git uses to classify a blob as binary. */
+const BINARY_SNIFF_BYTES = 8000;
+
+/** True when `target` contains glob metacharacters rather than a plain path. */
+export function isGlobPattern(target: string): boolean {
+  return /[*?]/.test(target);
+}
+
+// ── Pattern matching ──
+
+export interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Compile a glob relative to `base` (a root-relative directory, "" for the
+ * root). Like .gitignore, a pattern without an inner slash matches at any
+ * depth, so `*.md` covers `docs/a/b.md`.
+ */
+function compileGlob(pattern: string, base: string): RegExp {
+  let p = pattern.replace(/\\/g, "/");
+  const anchored = p.startsWith("/") || p.replace(/\/$/, "").includes("/");
+  p = p.replace(/^\/+/, "");
+  const prefix = base ? `${base}/` : "";
+  return fileGlobToRegex(anchored ? `${prefix}${p}` : `${prefix}**/${p}`);
+}
+
+/** Parse one .gitignore file into rules scoped to its directory. */
+export function parseGitignore(text: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    if (line.startsWith("\\")) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.replace(/\/+$/, "");
+    if (!line) continue;
+    rules.push({ regex: compileGlob(line, base), negate, dirOnly });
+  }
+  return rules;
+}
+
+/** Last matching rule wins, as in git. */
+function isIgnored(rel: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.regex.test(rel)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+function isBinaryFile(filePath: string): boolean {
+  const fd = openSync(filePath, "r");
+  try {
+    const buf = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const n = readSync(fd, buf, 0, BINARY_SNIFF_BYTES, 0);
+    return buf.subarray(0, n).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readGitignore(dir: string, base: string): IgnoreRule[] {
+  try {
+    return parseGitignore(readFileSync(join(dir, ".gitignore"), "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+// ── Walk ──
+
+interface TreeFilter {
+  /** Maps a walk-relative path to the path .gitignore rules are matched against. */
+  ignoreRel: (rel: string) => string;
+  keepDir: (rel: string) => boolean;
+  keepFile: (rel: string) => boolean;
+}
+
+/**
+ * Depth-first, in sorted order, collect the walk-relative paths of files
+ * under `dir` that are not hidden, ignored or filtered out. Stops
+ * descending once `out` holds more than `limit` paths.
+ */
+function collectFiles(
+  dir: string,
+  rel: string,
+  inherited: IgnoreRule[],
+  filter: TreeFilter,
+  out: string[],
+  limit: number,
+): void {
+  const own = readGitignore(dir, filter.ignoreRel(rel));
+  const rules = own.length > 0 ? [...inherited, ...own] : inherited;
+
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const entry of entries) {
+    if (out.length > limit) return;
+    if (entry.name.startsWith(".")) continue;
+    const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (isIgnored(filter.ignoreRel(childRel), true, rules) || !filter.keepDir(childRel)) continue;
+      collectFiles(join(dir, entry.name), childRel, rules, filter, out, limit);
+    } else if (entry.isFile()) {
+      if (isIgnored(filter.ignoreRel(childRel), false, rules) || !filter.keepFile(childRel)) continue;
+      out.push(childRel);
+    }
+  }
+}
+
+/**
+ * Root-relative paths of the files under `root` that walkIndexableFiles
+ * would consider, without opening any of them. Stops after `maxFiles`;
+ * `truncated` says there were more.
+ */
+export function listProjectFiles(root: string, maxFiles: number): { paths: string[]; truncated: boolean } {
+  const paths: string[] = [];
+  const all = () => true;
+  collectFiles(root, "", [], { ignoreRel: (rel) => rel, keepDir: all, keepFile: all }, paths, maxFiles);
+  return { paths: paths.slice(0, maxFiles), truncated: paths.length > maxFiles };
+}
+
+/**
+ * Expand a directory or glob into indexable files.
+ *
+ * `target` is resolved against `cwd`. For a glob, the walk starts at the
+ * longest leading path without metacharacters and the remainder becomes an
+ * extra include filter — `src/**\/*.ts` walks `src/` keeping `**\/*.ts`.
+ */
+export function walkIndexableFiles(
+  target: string,
+  cwd: string,
+  options: WalkOptions = {},
+): WalkResult {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+  let rootPath = target;
+  let targetGlob: RegExp | null = null;
+  if (isGlobPattern(target)) {
+    const parts = target.replace(/\\/g, "/").split("/");
+    const firstGlob = parts.findIndex((seg) => isGlobPattern(seg));
+    rootPath = parts.slice(0, firstGlob).join("/") || ".";
+    targetGlob = fileGlobToRegex(parts.slice(firstGlob).join("/"));
+  }
+  const root = resolve(cwd, rootPath);
+
+  const includes = (options.include ?? []).map((g) => compileGlob(g, ""));
+  const excludes = (options.exclude ?? []).map((g) => compileGlob(g, ""));
+
+  // .gitignore rules are evaluated relative to `cwd` (the project root)
+  // when the walk starts inside it, so a root-level `dist/` entry still
+  // applies when indexing `packages/app`. Ancestor files are loaded up front.
+  const fromCwd = relative(cwd, root);
+  const insideCwd = !fromCwd.startsWith("..") && !isAbsolute(fromCwd);
+  const ignorePrefix = insideCwd ? fromCwd.split(sep).join("/") : "";
+  const ancestorRules: IgnoreRule[] = [];
+  if (ignorePrefix) {
+    const segments = ignorePrefix.split("/");
+    for (let i = 0; i < segments.length; i++) {
+      const base = segments.slice(0, i).join("/");
+      ancestorRules.push(...readGitignore(join(cwd, ...segments.slice(0, i)), base));
+    }
+  }
+
+  const relCandidates: string[] = [];
+  collectFiles(root, "", ancestorRules, {
+    ignoreRel: (rel) => (ignorePrefix ? (rel ? `${ignorePrefix}/${rel}` : ignorePrefix) : rel),
+    keepDir: (rel) => !excludes.some((re) => re.test(rel)),
+    keepFile: (rel) =>
+      !excludes.some((re) => re.test(rel)) &&
+      (includes.length === 0 || includes.some((re) => re.test(rel))) &&
+      (!targetGlob || targetGlob.test(rel)),
+  }, relCandidates, maxFiles);
+  const candidates = relCandidates.map((rel) => join(root, rel));
+
+  const files: string[] = [];
+  const skipped: WalkResult["skipped"] = [];
+  for (const [i, filePath] of candidates.entries()) {
+    // Past the cap the walk was cut short, so the last candidate always marks it.
+    if (i >= maxFiles) {
+      skipped.push({ path: filePath, reason: "limit" });
+      continue;
+    }
+    try {
+      if (statSync(filePath).size > maxFileBytes) {
+        skipped.push({ path: filePath, reason: "too-large" });
+      } else if (isBinaryFile(filePath)) {
+        skipped.push({ path: filePath, reason: "binary" });
+      } else {
+        files.push(filePath);
+      }
+    } catch {
+      skipped.push({ path: filePath, reason: "unreadable" });
+    }
+  }
+
+  return { root, files, skipped };
+}
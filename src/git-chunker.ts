@@ -0,0 +1,158 @@
+/**
+ * git-chunker — Commit-aware chunking of `git log -p` output.
+ *
+ * Piping `git log -p` through ctx_execute indexes it as plain text: chunk
+ * boundaries fall mid-commit and titles carry no SHA. ctx_index_git runs
+ * git with a record-separated format (see gitLogArgs) and chunks the
+ * output here: one chunk per commit, titled
+ *
+ *   a1b2c3d · Jane Doe · 2024-05-01 · Fix retry backoff
+ *
+ * A commit whose diff exceeds the chunk cap is split per file (title
+ * suffix `> src/retry.ts`), and a file diff that is still too large is
+ * split between hunks. Every chunk keeps the commit header so it stands
+ * alone, and records the commit SHA and touched file paths as metadata.
+ */
+
+import type { GitChunkMeta } from "./types.js";
+
+/** Starts each commit record; separates the header fields. */
+const RECORD = "\x1e";
+const FIELD = "\x1f";
+
+/** `git log --format` producing RECORD sha FIELD author FIELD email FIELD date FIELD subject FIELD body FIELD. */
+const LOG_FORMAT = `${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%s${FIELD}%b${FIELD}`;
+
+export interface GitLogOptions {
+  /** Revision range (`v1.2.0..HEAD`, `main~20..main`, a branch); HEAD when omitted. */
+  range?: string;
+  /** Most recent commits to include. */
+  maxCommits: number;
+  /** Only commits touching these paths (git pathspecs). */
+  paths?: string[];
+}
+
+/**
+ * Arguments for `git` producing the log chunkGitLog parses: patches with
+ * rename detection, no color, no external diff drivers or pager.
+ */
+export function gitLogArgs(opts: GitLogOptions): string[] {
+  return [
+    "--no-pager",
+    "log",
+    `--format=${LOG_FORMAT}`,
+    "--patch",
+    "--find-renames",
+    "--no-color",
+    "--no-ext-diff",
+    `--max-count=${Math.max(1, Math.floor(opts.maxCommits))}`,
+    // `--` keeps a range that looks like a path from being read as one, and
+    // a path that looks like an option from being read as a flag.
+    ...(opts.range ? [opts.range] : []),
+    "--",
+    ...(opts.paths ?? []),
+  ];
+}
+
+/** A ref or range git would accept as a revision, not an option. */
+export function isSafeRevisionRange(range: string): boolean {
+  return /^[\w./~^@{}:-]+$/.test(range) && !range.startsWith("-");
+}
+
+interface GitCommit {
+  sha: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+  /** Per-file diffs, each starting at its `diff --git` line. */
+  files: Array<{ path: string; diff: string }>;
+}
+
+/** Path of a `diff --git a/x b/y` block — the new side, so renames report their target. */
+function diffPath(diff: string): string {
+  const header = diff.slice(0, diff.indexOf("\n") >>> 0);
+  const match = /^diff --git "?a\/.*?"? "?b\/(.*?)"?$/.exec(header);
+  return match ? match[1] : header.replace(/^diff --git /, "");
+}
+
+/** Parse the output of `git <gitLogArgs>` into commits, newest first. */
+export function parseGitLog(output: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+  for (const record of output.split(RECORD)) {
+    const fields = record.split(FIELD);
+    if (fields.length < 7 || !/^[0-9a-f]{7,64}$/.test(fields[0])) continue;
+    const [sha, author, email, date, subject, body] = fields;
+    const patch = fields.slice(6).join(FIELD);
+    const files = patch
+      .split(/^(?=diff --git )/m)
+      .filter((d) => d.startsWith("diff --git "))
+      .map((diff) => ({ path: diffPath(diff), diff: diff.trimEnd() }));
+    commits.push({ sha, author, email, date, subject: subject.trim(), body: body.trim(), files });
+  }
+  return commits;
+}
+
+/** Number of commits in the output of `git <gitLogArgs>`, without parsing the diffs. */
+export function countGitLogCommits(output: string): number {
+  return output.match(/\x1e[0-9a-f]{7,64}\x1f/g)?.length ?? 0;
+}
+
+/** Split a file diff between hunks (`@@` lines) into pieces of at most `maxBytes`. */
+function splitHunks(diff: string, maxBytes: number): string[] {
+  const [head, ...hunks] = diff.split(/^(?=@@ )/m);
+  const pieces: string[] = [];
+  let current = head;
+  for (const hunk of hunks) {
+    if (current !== head && Buffer.byteLength(current) + Buffer.byteLength(hunk) > maxBytes) {
+      pieces.push(current.trimEnd());
+      current = head;
+    }
+    current += hunk;
+  }
+  pieces.push(current.trimEnd());
+  return pieces;
+}
+
+/**
+ * Chunk `git log` output (see gitLogArgs). Returns one chunk per commit,
+ * or per file / group of hunks when the commit exceeds `maxChunkBytes`.
+ */
+export function chunkGitLog(
+  output: string,
+  maxChunkBytes: number,
+): Array<{ title: string; content: string; hasCode: boolean; git: GitChunkMeta }> {
+  const chunks: Array<{ title: string; content: string; hasCode: boolean; git: GitChunkMeta }> = [];
+  for (const c of parseGitLog(output)) {
+    const title = `${c.sha.slice(0, 7)} · ${c.author} · ${c.date.slice(0, 10)} · ${c.subject}`;
+    const paths = c.files.map((f) => f.path);
+    const header = [
+      `commit ${c.sha}`,
+      `Author: ${c.author} <${c.email}>`,
+      `Date:   ${c.date}`,
+      ...(paths.length > 0 ? [`Files:  ${paths.join(", ")}`] : []),
+      "",
+      c.subject,
+      ...(c.body ? ["", c.body] : []),
+    ].join("\n");
+    const whole = [header, ...c.files.map((f) => f.diff)].join("\n\n");
+    if (Buffer.byteLength(whole) <= maxChunkBytes || c.files.length === 0) {
+      chunks.push({ title, content: whole, hasCode: c.files.length > 0, git: { sha: c.sha, files: paths } });
+      continue;
+    }
+    const budget = Math.max(1024, maxChunkBytes - Buffer.byteLength(header) - 2);
+    for (const file of c.files) {
+      const pieces = splitHunks(file.diff, budget);
+      pieces.forEach((piece, i) => {
+        chunks.push({
+          title: `${title} > ${file.path}${pieces.length > 1 ? ` (part ${i + 1}/${pieces.length})` : ""}`,
+          content: `${header}\n\n${piece}`,
+          hasCode: true,
+          git: { sha: c.sha, files: [file.path] },
+        });
+      });
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,129 @@
+/**
+ * language — Per-source language detection and tokenizer routing.
+ *
+ * The `chunks` FTS5 table uses `porter unicode61`: English stemming, and no
+ * diacritic folding. German, Turkish or Spanish docs get no useful stemming
+ * and `Überprüfung` never matches `uberprufung`; CJK text has no spaces, so
+ * unicode61 indexes whole sentences as single tokens. Sources in another
+ * language are additionally indexed into a table for their family:
+ *
+ *   - "unicode": `unicode61 remove_diacritics 2` — case and accent folding
+ *     for space-separated languages without an SQLite stemmer
+ *   - "cjk":     Chinese / Japanese / Korean text pre-split into overlapping
+ *     character bigrams (the standard CJK n-gram approach), then unicode61
+ *
+ * English ("porter") sources stay in `chunks` only.
+ */
+
+export type LanguageFamily = "porter" | "unicode" | "cjk";
+
+/** FTS5 table and tokenizer per non-porter family. */
+export const LANGUAGE_TABLES: Record<Exclude<LanguageFamily, "porter">, { table: string; tokenize: string }> = {
+  unicode: { table: "chunks_unicode", tokenize: "unicode61 remove_diacritics 2" },
+  cjk: { table: "chunks_cjk", tokenize: "unicode61" },
+};
+
+const CJK_LANGUAGES = new Set(["zh", "ja", "ko"]);
+
+/**
+ * Normalize a language tag to its lowercased primary subtag
+ * (`de-AT` → `de`). Returns null for anything that is not a 2–3 letter
+ * ISO 639 code.
+ */
+export function normalizeLanguage(tag: string): string | null {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) ? primary : null;
+}
+
+/** Tokenizer family for a normalized language code. */
+export function languageFamily(language: string): LanguageFamily {
+  if (language === "en") return "porter";
+  return CJK_LANGUAGES.has(language) ? "cjk" : "unicode";
+}
+
+/** Frequent short words per language — enough to tell them apart on a page of prose. */
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "for", "with", "this", "are", "you", "be", "it", "on"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "mit", "den", "von", "ein", "eine", "zu", "sich", "auf", "für", "wird"],
+  es: ["el", "la", "los", "las", "que", "y", "en", "del", "por", "para", "una", "con", "es", "se", "como"],
+  fr: ["le", "la", "les", "des", "et", "est", "un", "une", "pour", "dans", "que", "qui", "sur", "pas", "du"],
+  pt: ["o", "os", "as", "que", "e", "do", "da", "em", "um", "uma", "para", "com", "não", "são", "mais"],
+  it: ["il", "di", "che", "e", "è", "un", "una", "per", "non", "con", "del", "della", "sono", "gli", "nel"],
+  tr: ["ve", "bir", "bu", "için", "ile", "olarak", "değil", "daha", "gibi", "çok", "olan", "ise", "veya", "her"],
+  nl: ["de", "het", "een", "en", "van", "is", "niet", "op", "te", "dat", "voor", "met", "zijn", "wordt"],
+};
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([lang, words]) => [lang, new Set(words)] as const);
+
+const HAN = /\p{Script=Han}/u;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HANGUL = /\p{Script=Hangul}/u;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** Characters sampled for detection. */
+const SAMPLE_CHARS = 20_000;
+/** Latin-script words required before a stopword verdict is trusted. */
+const MIN_WORDS = 20;
+
+/**
+ * Best-guess language of `text`: "zh" / "ja" / "ko" when at least a fifth
+ * of its letters are CJK, otherwise the language whose stopwords are most
+ * frequent. Falls back to "en" — short or code-heavy text keeps the
+ * English table.
+ */
+export function detectLanguage(text: string): string {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  let letters = 0;
+  let han = 0;
+  let kana = 0;
+  let hangul = 0;
+  for (const ch of sample) {
+    if (!/\p{L}/u.test(ch)) continue;
+    letters++;
+    if (HAN.test(ch)) han++;
+    else if (KANA.test(ch)) kana++;
+    else if (HANGUL.test(ch)) hangul++;
+  }
+  if (letters > 0 && (han + kana + hangul) / letters >= 0.2) {
+    if (kana > 0 && kana >= hangul) return "ja";
+    return hangul > han ? "ko" : "zh";
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < MIN_WORDS) return "en";
+  let best = "en";
+  let bestHits = 0;
+  for (const [lang, set] of STOPWORD_SETS) {
+    const hits = words.reduce((n, w) => n + (set.has(w) ? 1 : 0), 0);
+    if (hits > bestHits) {
+      best = lang;
+      bestHits = hits;
+    }
+  }
+  return bestHits / words.length >= 0.05 ? best : "en";
+}
+
+/**
+ * Rewrite CJK runs as space-separated overlapping character bigrams
+ * (`東京都` → `東京 京都`); a lone CJK character stays a unigram. Other text
+ * passes through unchanged. Applied to both indexed text and queries.
+ */
+export function cjkBigrams(text: string): string {
+  let out = "";
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length === 1) out += ` ${run[0]} `;
+    for (let i = 0; i + 1 < run.length; i++) out += ` ${run[i]}${run[i + 1]}`;
+    if (run.length > 1) out += " ";
+    run = [];
+  };
+  for (const ch of text) {
+    if (CJK_CHAR.test(ch)) {
+      run.push(ch);
+    } else {
+      flush();
+      out += ch;
+    }
+  }
+  flush();
+  return out;
+}
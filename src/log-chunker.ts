@@ -0,0 +1,341 @@
+/**
+ * log-chunker — Time-window / request chunking for application logs.
+ *
+ * Plain-text indexing cuts logs into fixed 20-line groups, so one request's
+ * lines land in several chunks and a chunk's title says nothing about when
+ * or how bad. This module recognizes the common record formats — ISO-8601
+ * timestamps (optionally bracketed), syslog (`Jan  2 03:04:05 host proc:`)
+ * and JSON lines — and groups records by request id when most records carry
+ * one, otherwise by time window. Each chunk carries its highest severity and
+ * time range as metadata, so search can filter by level and time.
+ * Titles read `2024-05-01 10:00:03–10:00:41 (3 error, 2 warn)`.
+ */
+
+import type { LogChunkMeta, LogLevel } from "./types.js";
+
+export interface LogChunk {
+  title: string;
+  content: string;
+  hasCode: boolean;
+  log: LogChunkMeta;
+}
+
+interface LogRecord {
+  /** Epoch ms. */
+  time: number;
+  level: LogLevel;
+  requestId?: string;
+  text: string;
+}
+
+/** Severity order, lowest first. Index is the level rank. */
+export const LOG_LEVELS: readonly LogLevel[] = ["trace", "debug", "info", "warn", "error", "fatal"];
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  trace: "trace",
+  debug: "debug",
+  info: "info",
+  notice: "info",
+  warn: "warn",
+  warning: "warn",
+  error: "error",
+  err: "error",
+  severe: "error",
+  fatal: "fatal",
+  crit: "fatal",
+  critical: "fatal",
+  panic: "fatal",
+  emerg: "fatal",
+};
+
+/** Fraction of unindented sample lines that must start with a timestamp. */
+const MIN_TIMESTAMP_RATIO = 0.6;
+/** Fraction of records that must carry a request id to group by request. */
+const MIN_REQUEST_RATIO = 0.5;
+/** A quiet gap this long closes the current time window. */
+const WINDOW_GAP_MS = 60_000;
+/** A time window never spans more than this. */
+const WINDOW_SPAN_MS = 5 * 60_000;
+const SAMPLE_LINES = 200;
+
+const ISO_RE = /^\[?(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})(?:[.,](\d{1,9}))?\s?(Z|[+-]\d{2}:?\d{2})?\]?(?=\s|$)/;
+const SYSLOG_RE = /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) {1,2}(\d{1,2}) (\d{2}):(\d{2}):(\d{2})(?=\s)/;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const KV_LEVEL_RE = /\b(?:level|lvl|severity)=["']?([A-Za-z]+)/i;
+const WORD_LEVEL_RE = /(?:^|[\s[(|<])(TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERR(?:OR)?|SEVERE|FATAL|CRIT(?:ICAL)?|PANIC|EMERG)(?=[\s\]):|>,]|$)/i;
+const REQUEST_ID_RE = /\b(?:request[_-]?id|req[_-]?id|trace[_-]?id|correlation[_-]?id|x-request-id)["']?\s*[=:]\s*["']?([\w.:-]{4,})/i;
+const JSON_TIME_FIELDS = ["timestamp", "time", "ts", "@timestamp", "datetime", "date"];
+const JSON_LEVEL_FIELDS = ["level", "severity", "lvl", "log.level", "levelname"];
+const JSON_REQUEST_FIELDS = ["request_id", "requestId", "req_id", "reqId", "trace_id", "traceId", "correlation_id", "correlationId"];
+
+/** True for paths with the .log extension (including rotated `app.log.1`). */
+export function isLogPath(path: string): boolean {
+  return /\.log(\.\d+)?$/i.test(path.split(/[?#]/)[0]);
+}
+
+/** Rank of a level in LOG_LEVELS (trace 0 … fatal 5). */
+export function levelRank(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+/** Map a level spelling (`WARNING`, `err`, `crit`, pino's 50) to a LogLevel. */
+export function normalizeLevel(raw: unknown): LogLevel | null {
+  if (typeof raw === "number") {
+    // pino / bunyan numeric levels: 10 trace … 60 fatal
+    const index = Math.floor(raw / 10) - 1;
+    return index >= 0 && index < LOG_LEVELS.length ? LOG_LEVELS[index] : null;
+  }
+  if (typeof raw !== "string") return null;
+  return LEVEL_ALIASES[raw.toLowerCase()] ?? null;
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value > 1e12 ? value : value * 1000;
+  }
+  if (typeof value !== "string") return null;
+  const iso = ISO_RE.exec(value.trim());
+  return iso ? isoTime(iso) : null;
+}
+
+/** Naive timestamps (no zone) are read as UTC. */
+function isoTime(m: RegExpExecArray): number | null {
+  const fraction = m[3] ? `.${m[3].slice(0, 3).padEnd(3, "0")}` : "";
+  const zone = !m[4] || m[4] === "Z" ? "Z" : m[4].includes(":") ? m[4] : `${m[4].slice(0, 3)}:${m[4].slice(3)}`;
+  const t = Date.parse(`${m[1]}T${m[2]}${fraction}${zone}`);
+  return Number.isNaN(t) ? null : t;
+}
+
+/** Syslog stamps carry no year: assume the current one, or last year if that lands in the future. */
+function syslogTime(m: RegExpExecArray, now: number): number {
+  const year = new Date(now).getUTCFullYear();
+  const at = (y: number) => Date.UTC(y, MONTHS.indexOf(m[1]), Number(m[2]), Number(m[3]), Number(m[4]), Number(m[5]));
+  const t = at(year);
+  return t > now + 24 * 60 * 60 * 1000 ? at(year - 1) : t;
+}
+
+function field(obj: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (obj[name] !== undefined && obj[name] !== null) return obj[name];
+  }
+  return undefined;
+}
+
+/** Parse a record-start line; null for continuation lines (stack frames, wrapped text). */
+function parseRecordStart(line: string, now: number): Omit<LogRecord, "text"> | null {
+  if (line.startsWith("{")) {
+    try {
+      const obj = JSON.parse(line) as Record<string, unknown>;
+      const time = parseTime(field(obj, JSON_TIME_FIELDS));
+      if (time === null) return null;
+      const requestId = field(obj, JSON_REQUEST_FIELDS);
+      return {
+        time,
+        level: normalizeLevel(field(obj, JSON_LEVEL_FIELDS)) ?? "info",
+        ...(requestId !== undefined && { requestId: String(requestId) }),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  let time: number | null = null;
+  let rest = line;
+  const iso = ISO_RE.exec(line);
+  if (iso) {
+    time = isoTime(iso);
+    rest = line.slice(iso[0].length);
+  } else {
+    const syslog = SYSLOG_RE.exec(line);
+    if (!syslog) return null;
+    time = syslogTime(syslog, now);
+    rest = line.slice(syslog[0].length);
+  }
+  if (time === null) return null;
+
+  const head = rest.slice(0, 80);
+  const rawLevel = KV_LEVEL_RE.exec(rest)?.[1] ?? WORD_LEVEL_RE.exec(head)?.[1];
+  const requestId = REQUEST_ID_RE.exec(rest)?.[1];
+  return {
+    time,
+    level: normalizeLevel(rawLevel) ?? "info",
+    ...(requestId && { requestId }),
+  };
+}
+
+/**
+ * True when most unindented lines of a sample start with a recognized
+ * timestamp. Indented lines (stack frames, wrapped output) are ignored.
+ */
+export function looksLikeLog(text: string, now: number = Date.now()): boolean {
+  const lines = text.split("\n", SAMPLE_LINES * 4)
+    .filter((l) => l.trim().length > 0 && !/^\s/.test(l))
+    .slice(0, SAMPLE_LINES);
+  if (lines.length < 3) return false;
+  const stamped = lines.filter((l) => parseRecordStart(l, now) !== null).length;
+  return stamped >= 3 && stamped / lines.length >= MIN_TIMESTAMP_RATIO;
+}
+
+function parseRecords(text: string, now: number): LogRecord[] {
+  const records: LogRecord[] = [];
+  // Lines before the first timestamp (a banner, a truncated record) lead
+  // the first record.
+  let preamble: string[] = [];
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const start = parseRecordStart(line, now);
+    if (start) {
+      records.push({ ...start, text: [...preamble, line].join("\n") });
+      preamble = [];
+    } else if (records.length > 0) {
+      records[records.length - 1].text += `\n${line}`;
+    } else if (line.trim()) {
+      preamble.push(line);
+    }
+  }
+  for (const r of records) r.text = r.text.replace(/\n+$/, "");
+  return records;
+}
+
+/** `2024-05-01 10:00:03–10:00:41`, or both dates when the range crosses midnight. */
+function formatRange(start: number, end: number): string {
+  const a = new Date(start).toISOString().slice(0, 19).replace("T", " ");
+  const b = new Date(end).toISOString().slice(0, 19).replace("T", " ");
+  if (a === b) return a;
+  return a.slice(0, 10) === b.slice(0, 10) ? `${a}–${b.slice(11)}` : `${a}–${b}`;
+}
+
+function severitySummary(records: LogRecord[]): string {
+  const counts = new Map<LogLevel, number>();
+  for (const r of records) {
+    if (levelRank(r.level) >= levelRank("warn")) counts.set(r.level, (counts.get(r.level) ?? 0) + 1);
+  }
+  const parts = [...LOG_LEVELS].reverse()
+    .filter((l) => counts.has(l))
+    .map((l) => `${counts.get(l)} ${l}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+function buildChunk(records: LogRecord[], requestId?: string): LogChunk {
+  const start = Math.min(...records.map((r) => r.time));
+  const end = Math.max(...records.map((r) => r.time));
+  const level = records.reduce<LogLevel>(
+    (max, r) => (levelRank(r.level) > levelRank(max) ? r.level : max),
+    "trace",
+  );
+  const title = `${requestId ? `request ${requestId} · ` : ""}${formatRange(start, end)}${severitySummary(records)}`;
+  return {
+    title,
+    content: records.map((r) => r.text).join("\n"),
+    hasCode: false,
+    log: {
+      level,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      ...(requestId && { requestId }),
+    },
+  };
+}
+
+/** Cut an oversized record at line boundaries so no chunk exceeds the cap. */
+function splitRecord(record: LogRecord, maxChunkBytes: number): LogRecord[] {
+  if (Buffer.byteLength(record.text) <= maxChunkBytes) return [record];
+  const parts: LogRecord[] = [];
+  let current: string[] = [];
+  let bytes = 0;
+  for (const line of record.text.split("\n")) {
+    const lineBytes = Buffer.byteLength(line) + 1;
+    if (current.length > 0 && bytes + lineBytes > maxChunkBytes) {
+      parts.push({ ...record, text: current.join("\n") });
+      current = [];
+      bytes = 0;
+    }
+    current.push(line);
+    bytes += lineBytes;
+  }
+  if (current.length > 0) parts.push({ ...record, text: current.join("\n") });
+  return parts;
+}
+
+/**
+ * Group records into chunks under the byte cap. `breakBefore` decides,
+ * given the group so far and the next record, whether to start a new group.
+ */
+function packRecords(
+  records: LogRecord[],
+  maxChunkBytes: number,
+  breakBefore: (group: LogRecord[], next: LogRecord) => boolean,
+): LogRecord[][] {
+  const groups: LogRecord[][] = [];
+  let group: LogRecord[] = [];
+  let bytes = 0;
+  for (const record of records.flatMap((r) => splitRecord(r, maxChunkBytes))) {
+    const recordBytes = Buffer.byteLength(record.text) + 1;
+    if (group.length > 0 && (bytes + recordBytes > maxChunkBytes || breakBefore(group, record))) {
+      groups.push(group);
+      group = [];
+      bytes = 0;
+    }
+    group.push(record);
+    bytes += recordBytes;
+  }
+  if (group.length > 0) groups.push(group);
+  return groups;
+}
+
+function timeWindowBreak(group: LogRecord[], next: LogRecord): boolean {
+  return next.time - group[group.length - 1].time >= WINDOW_GAP_MS || next.time - group[0].time >= WINDOW_SPAN_MS;
+}
+
+/**
+ * Chunk log text by request id or time window. Returns null when the text
+ * does not look like a log (see looksLikeLog).
+ */
+export function chunkLog(text: string, maxChunkBytes: number, now: number = Date.now()): LogChunk[] | null {
+  if (!looksLikeLog(text, now)) return null;
+  const records = parseRecords(text, now);
+
+  const withId = records.filter((r) => r.requestId).length;
+  if (withId / records.length < MIN_REQUEST_RATIO) {
+    return packRecords(records, maxChunkBytes, timeWindowBreak).map((g) => buildChunk(g));
+  }
+
+  // Request mode: one group per request id in order of first appearance;
+  // records without an id fall back to time windows between them.
+  const byRequest = new Map<string, LogRecord[]>();
+  const loose: LogRecord[] = [];
+  for (const r of records) {
+    if (!r.requestId) {
+      loose.push(r);
+      continue;
+    }
+    const list = byRequest.get(r.requestId);
+    if (list) list.push(r);
+    else byRequest.set(r.requestId, [r]);
+  }
+  const groups: Array<{ first: number; chunk: LogChunk }> = [];
+  for (const [id, list] of byRequest) {
+    for (const g of packRecords(list, maxChunkBytes, () => false)) {
+      groups.push({ first: g[0].time, chunk: buildChunk(g, id) });
+    }
+  }
+  for (const g of packRecords(loose, maxChunkBytes, timeWindowBreak)) {
+    groups.push({ first: g[0].time, chunk: buildChunk(g) });
+  }
+  return groups.sort((a, b) => a.first - b.first).map((g) => g.chunk);
+}
+
+/**
+ * Parse a ctx_search `since` / `until` bound: an ISO timestamp (naive is
+ * UTC) or a relative age such as `15m`, `2h`, `1d`, `30s`. Returns an ISO
+ * string, or null when the value is not understood.
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): string | null {
+  const relative = /^(\d+)\s*(s|m|h|d|w)$/i.exec(value.trim());
+  if (relative) {
+    const unit = { s: 1e3, m: 60e3, h: 3600e3, d: 86400e3, w: 7 * 86400e3 }[relative[2].toLowerCase() as "s"];
+    return new Date(now - Number(relative[1]) * unit).toISOString();
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? `${value.trim()}T00:00:00` : value;
+  const t = parseTime(dateOnly);
+  return t === null ? null : new Date(t).toISOString();
+}
@@ -0,0 +1,315 @@
+/**
+ * network-policy — Egress allow/deny policy for sandboxed code.
+ *
+ * ctx_fetch_and_index validates every URL it fetches (ssrfGuard), but code
+ * run by ctx_execute / ctx_batch_execute could reach any host. A network
+ * policy file restricts where sandboxed code may connect:
+ *
+ *   { "allow": ["*.github.com", "registry.npmjs.org"], "deny": ["10.0.0.0/8", "*.corp.internal"] }
+ *
+ * The user file `network.json` in the platform's context-mode dir sets the
+ * policy. The project file `.context-mode/network.json` lives where
+ * sandboxed code can write, so it may only narrow it: its deny rules are
+ * added, and its allow list must be matched as well as the user's. Rules
+ * are exact hosts, `*.suffix` wildcards, `*`, IP addresses or IPv4 CIDR
+ * ranges. Deny wins over allow; a non-empty allow list blocks everything it
+ * does not match. Link-local, cloud metadata (169.254.169.254), multicast
+ * and reserved addresses are always blocked unless a user allow rule names
+ * the address itself. Without either file nothing is enforced.
+ *
+ * Enforcement: JS/TS code gets a `net.Socket#connect` check (buildNodeEgressShim)
+ * that sees every fetch, http(s) and raw socket connection together with
+ * the addresses its hostname resolves to. Other languages are pointed at
+ * a local proxy (egress-proxy.ts) through the standard proxy env vars.
+ * Blocks are collected by the proxy — the shim asks it to re-check each
+ * one — and the server turns them into a readable note and a session event.
+ * Nothing the sandbox prints is trusted as a block report.
+ *
+ * classifyIp, matchesEgressRule and egressVerdict are embedded into the
+ * sandbox via Function#toString, so they must stay self-contained: no
+ * module-level references and no nested named functions.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+
+export interface NetworkPolicy {
+  allow: string[];
+  deny: string[];
+  /**
+   * The project file's allow list: when non-empty, a connection must match
+   * it too. Address rules here never unblock the metadata range.
+   */
+  projectAllow?: string[];
+}
+
+/** A connection refused by the policy. */
+export interface EgressBlock {
+  host: string;
+  ip: string | null;
+  reason: string;
+}
+
+/**
+ * Classify an IP address.
+ *   - "block":    always blocked (link-local/IMDS/multicast/reserved/malformed)
+ *   - "private":  loopback or RFC1918 — allowed by default, blocked in strict mode
+ *   - "public":   safe to fetch
+ *
+ * Exported (via the function name) so SSRF tests can exercise the matcher directly.
+ */
+export function classifyIp(rawIp: string): "block" | "private" | "public" {
+  // RFC 6874 zone identifiers (`fe80::1%eth0`, URL-encoded `%25eth0`) must
+  // be stripped BEFORE any prefix/equality classification. Without the strip,
+  // a loopback `::1%eth0` no longer matches `lower === "::1"` and falls
+  // through to "public" — silently bypassing the SSRF guard. Strip first,
+  // classify second.
+  const pctIdx = rawIp.indexOf("%");
+  const ip = pctIdx === -1 ? rawIp : rawIp.slice(0, pctIdx);
+  const lower = ip.toLowerCase();
+
+  // IPv6 takes priority — check for `:` first so IPv4-mapped addresses
+  // (`::ffff:127.0.0.1`) don't get incorrectly routed through the IPv4 parser.
+  if (lower.includes(":")) {
+    // IPv4-mapped IPv6 (`::ffff:127.0.0.1`) — recurse through IPv4 classifier
+    const v4MappedMatch = lower.match(/^::ffff:([\d.]+)$/);
+    if (v4MappedMatch) return classifyIp(v4MappedMatch[1]);
+    // Hard-block
+    if (lower === "::") return "block"; // unspecified
+    if (lower.startsWith("fe8") || lower.startsWith("fe9") ||
+        lower.startsWith("fea") || lower.startsWith("feb")) return "block"; // fe80::/10 link-local
+    if (lower.startsWith("ff")) return "block"; // ff00::/8 multicast
+    // Private (loopback + ULA)
+    if (lower === "::1") return "private";
+    if (lower.startsWith("fc") || lower.startsWith("fd")) return "private"; // fc00::/7 ULA
+    return "public";
+  }
+
+  // IPv4 (or non-IP string — malformed = block)
+  if (!ip.includes(".")) return "block"; // not an IP at all
+  const parts = ip.split(".").map((p) => parseInt(p, 10));
+  if (parts.length !== 4 || parts.some((p) => isNaN(p) || p < 0 || p > 255)) return "block";
+  const [a, b] = parts;
+  // Hard-block (no legitimate use)
+  if (a === 169 && b === 254) return "block"; // link-local incl. 169.254.169.254 (IMDS)
+  if (a === 0) return "block";                 // 0.0.0.0/8 (current network)
+  if (a >= 224) return "block";                // 224.0.0.0+ multicast/reserved
+  // Private (loopback + RFC1918) — allow by default
+  if (a === 127) return "private";                          // 127.0.0.0/8 loopback
+  if (a === 10) return "private";                           // 10.0.0.0/8
+  if (a === 172 && b >= 16 && b <= 31) return "private";    // 172.16.0.0/12
+  if (a === 192 && b === 168) return "private";             // 192.168.0.0/16
+  return "public";
+}
+
+/**
+ * Whether `rule` matches a connection to `host` (resolved to `ip`, or null
+ * before resolution). IP and CIDR rules match the address; host rules match
+ * the name.
+ */
+export function matchesEgressRule(rule: string, host: string, ip: string | null): boolean {
+  const r = String(rule).trim().toLowerCase();
+  if (!r) return false;
+  const addr = ip ? ip.toLowerCase().replace(/^::ffff:(?=[\d.]+$)/, "") : null;
+  const slash = r.indexOf("/");
+  if (slash !== -1) {
+    if (!addr || !/^[\d.]+$/.test(addr)) return false;
+    const bits = parseInt(r.slice(slash + 1), 10);
+    const base = r.slice(0, slash).split(".");
+    const parts = addr.split(".");
+    if (base.length !== 4 || parts.length !== 4 || isNaN(bits) || bits < 0 || bits > 32) return false;
+    let b = 0;
+    let a = 0;
+    for (let i = 0; i < 4; i++) {
+      b = b * 256 + (parseInt(base[i], 10) || 0);
+      a = a * 256 + (parseInt(parts[i], 10) || 0);
+    }
+    const size = Math.pow(2, 32 - bits);
+    return Math.floor(a / size) === Math.floor(b / size);
+  }
+  if (addr !== null && r === addr) return true;
+  const name = host.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (r === "*") return true;
+  if (r.startsWith("*.")) {
+    const suffix = r.slice(1);
+    return name.length > suffix.length && name.endsWith(suffix);
+  }
+  return name === r;
+}
+
+/**
+ * Why a connection to `host` (resolved to `ip`, or null before resolution)
+ * is blocked, or null when it is allowed. Before resolution, an allow list
+ * with IP rules cannot rule a hostname out yet.
+ */
+export function egressVerdict(host: string, ip: string | null, policy: NetworkPolicy): string | null {
+  const deny = policy.deny || [];
+  const allow = policy.allow || [];
+  const projectAllow = policy.projectAllow || [];
+  for (let i = 0; i < deny.length; i++) {
+    if (matchesEgressRule(deny[i], host, ip)) return `denied by rule "${deny[i]}"`;
+  }
+  let allowed = false;
+  let allowedByAddress = false;
+  let hasIpRules = false;
+  for (let i = 0; i < allow.length; i++) {
+    const isIpRule = /^[\d.]+(\/\d+)?$|:/.test(String(allow[i]).trim());
+    if (isIpRule) hasIpRules = true;
+    if (matchesEgressRule(allow[i], host, ip)) {
+      allowed = true;
+      if (isIpRule) allowedByAddress = true;
+    }
+  }
+  if (ip && classifyIp(ip) === "block" && !allowedByAddress) {
+    return "link-local / cloud metadata / multicast / reserved address";
+  }
+  if (allow.length > 0 && !allowed && !(ip === null && hasIpRules)) return "not in the allow list";
+  let projectAllowed = false;
+  let projectHasIpRules = false;
+  for (let i = 0; i < projectAllow.length; i++) {
+    if (/^[\d.]+(\/\d+)?$|:/.test(String(projectAllow[i]).trim())) projectHasIpRules = true;
+    if (matchesEgressRule(projectAllow[i], host, ip)) projectAllowed = true;
+  }
+  if (projectAllow.length > 0 && !projectAllowed && !(ip === null && projectHasIpRules)) {
+    return "not in the project allow list";
+  }
+  return null;
+}
+
+/**
+ * Parse network policy JSON. Non-string rules are ignored. Throws on
+ * invalid JSON or a non-object root.
+ */
+export function parseNetworkPolicy(json: string): NetworkPolicy {
+  const parsed = JSON.parse(json) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error('network policy must be a JSON object with "allow" / "deny" arrays');
+  }
+  const list = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : []).filter((v): v is string => typeof v === "string" && v.trim() !== "");
+  const { allow, deny } = parsed as { allow?: unknown; deny?: unknown };
+  return { allow: list(allow), deny: list(deny) };
+}
+
+const cache = new Map<string, { mtimeMs: number; policy: NetworkPolicy | null }>();
+
+/**
+ * The policy file at `path`, or null when it does not exist; an invalid
+ * file counts as an empty policy. Re-read only when its mtime changes.
+ */
+function readPolicyFile(path: string): NetworkPolicy | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    cache.delete(path);
+    return null;
+  }
+  let entry = cache.get(path);
+  if (!entry || entry.mtimeMs !== mtimeMs) {
+    let policy: NetworkPolicy | null = null;
+    try {
+      policy = parseNetworkPolicy(readFileSync(path, "utf-8"));
+    } catch { /* invalid file — treated as empty until fixed */ }
+    entry = { mtimeMs, policy };
+    cache.set(path, entry);
+  }
+  return entry.policy ?? { allow: [], deny: [] };
+}
+
+/**
+ * Load the user policy file narrowed by the project one: project deny
+ * rules are added and the project allow list becomes `projectAllow`.
+ * Returns null when neither file exists.
+ */
+export function loadNetworkPolicy(userPath: string, projectPath: string): NetworkPolicy | null {
+  const user = readPolicyFile(userPath);
+  const project = readPolicyFile(projectPath);
+  if (!user && !project) return null;
+  return {
+    allow: user?.allow ?? [],
+    deny: [...(user?.deny ?? []), ...(project?.deny ?? [])],
+    projectAllow: project?.allow ?? [],
+  };
+}
+
+/**
+ * Source of `fn` bound to its canonical name. Bundlers rename top-level
+ * functions (see buildFetchCode), so the renamed declaration is emitted and
+ * the canonical name aliased to it; calls between embedded functions use
+ * the renamed identifiers and still resolve.
+ */
+function embed(fn: (...args: never[]) => unknown, canonical: string): string {
+  const name = fn.name || canonical;
+  const src = `var ${name} = ${fn.toString()};`;
+  return name === canonical ? src : `${src}\nvar ${canonical} = ${name};`;
+}
+
+/**
+ * JS prelude enforcing `policy` inside a Node process: every
+ * `net.Socket#connect` (fetch, http, https, tls and raw sockets) is checked
+ * by host before connecting and by address after DNS resolution. fetch is
+ * also checked by URL up front, which covers Bun's native fetch. A blocked
+ * connection fails with code ECTXEGRESS and is reported to the egress proxy
+ * named by CTX_EGRESS_PROXY as a check-only CONNECT (see egress-proxy.ts).
+ * Loading it twice (preload plus inline) installs it once.
+ */
+export function buildNodeEgressShim(policy: NetworkPolicy): string {
+  return `;(function(){try{
+var __cm_k=Symbol.for('context-mode.egress');if(globalThis[__cm_k])return;globalThis[__cm_k]=true;
+var __cm_nt=require('net'),__cm_dn=require('dns');
+${embed(classifyIp, "classifyIp")}
+${embed(matchesEgressRule, "matchesEgressRule")}
+${embed(egressVerdict, "egressVerdict")}
+var __cm_pol=${JSON.stringify(policy)};
+var __cm_rp=null;
+try{var __cm_ru=new URL(process.env.CTX_EGRESS_PROXY);__cm_rp={port:Number(__cm_ru.port),auth:Buffer.from(decodeURIComponent(__cm_ru.username)+':'+decodeURIComponent(__cm_ru.password)).toString('base64')};}catch(e){}
+function __cm_eg(host,ip,port,reason){
+  if(__cm_rp)try{
+    var s=new __cm_nt.Socket();s.on('error',function(){});s.on('data',function(){s.destroy()});
+    __cm_cn.call(s,__cm_rp.port,'127.0.0.1',function(){s.write('CONNECT '+(__cm_nt.isIPv6(host)?'['+host+']':host)+':'+(Number(port)||443)+' HTTP/1.1\\r\\nProxy-Authorization: Basic '+__cm_rp.auth+'\\r\\nX-Ctx-Egress-Check: 1\\r\\n\\r\\n')});
+  }catch(e){}
+  var err=new Error('Network policy blocked '+host+(ip&&ip!==host?' ('+ip+')':'')+': '+reason);
+  err.code='ECTXEGRESS';return err;
+}
+var __cm_cn=__cm_nt.Socket.prototype.connect;
+__cm_nt.Socket.prototype.connect=function(){
+  var a=Array.prototype.slice.call(arguments),o=Array.isArray(a[0])?a[0][0]:a[0],self=this;
+  if(o===null||typeof o!=='object'){
+    o={port:a[0]};if(typeof a[1]==='string')o.host=a[1];
+    var cb=a[a.length-1];a=typeof cb==='function'?[o,cb]:[o];
+  }
+  if(o.path)return __cm_cn.apply(this,a);
+  var host=o.host||'localhost',ip=__cm_nt.isIP(host)?host:null,why=egressVerdict(host,ip,__cm_pol);
+  if(why){var err=__cm_eg(host,ip,o.port,why);process.nextTick(function(){self.destroy(err)});return this;}
+  if(!ip){
+    var lk=o.lookup||__cm_dn.lookup;
+    o.lookup=function(h,opts,done){
+      if(typeof opts==='function'){done=opts;opts={};}
+      lk(h,opts,function(e,addr,fam){
+        if(e)return done(e);
+        var list=Array.isArray(addr)?addr:[{address:addr}];
+        for(var i=0;i<list.length;i++){var w=egressVerdict(h,list[i].address,__cm_pol);if(w)return done(__cm_eg(h,list[i].address,o.port,w));}
+        done(null,addr,fam);
+      });
+    };
+  }
+  return __cm_cn.apply(this,a);
+};
+if(typeof globalThis.fetch==='function'){
+  var __cm_of=globalThis.fetch;
+  globalThis.fetch=function(input){
+    var why=null,h='',ip=null,port=443;
+    try{var u=new URL(typeof input==='string'||input instanceof URL?String(input):input.url);h=u.hostname.replace(/^\\[|\\]$/g,'');ip=__cm_nt.isIP(h)?h:null;port=u.port||(u.protocol==='http:'?80:443);why=egressVerdict(h,ip,__cm_pol);}catch(e){}
+    if(why)return Promise.reject(__cm_eg(h,ip,port,why));
+    return __cm_of.apply(this,arguments);
+  };
+}
+}catch(e){}})();
+`;
+}
+
+/** One-line description of a block, e.g. `[network policy] blocked metadata.internal (169.254.169.254): …`. */
+export function formatEgressBlock(block: EgressBlock): string {
+  const addr = block.ip && block.ip !== block.host ? ` (${block.ip})` : "";
+  return `[network policy] blocked ${block.host}${addr}: ${block.reason}`;
+}
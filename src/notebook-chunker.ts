@@ -0,0 +1,154 @@
+/**
+ * notebook-chunker — Per-cell chunking for Jupyter notebooks (.ipynb).
+ *
+ * A notebook is JSON, so indexing one as-is produces chunks of raw cell
+ * arrays — escaped source lines, execution counts and base64 images. This
+ * module parses the notebook format (nbformat 4) and emits one chunk per
+ * cell: markdown cells as prose, code cells as fenced code with their text
+ * outputs appended (truncated — a 2MB dataframe dump is not worth indexing).
+ * Titles pair the nearest markdown heading with the cell index,
+ * e.g. `Load data > cell 4`.
+ */
+
+export type NotebookCellType = "markdown" | "code" | "raw";
+
+export interface NotebookCell {
+  index: number;
+  type: NotebookCellType;
+  source: string;
+  /** Text outputs of a code cell, joined; non-text outputs as placeholders. */
+  outputs: string;
+}
+
+export interface NotebookChunk {
+  title: string;
+  content: string;
+  hasCode: boolean;
+}
+
+/** Output text kept per code cell. */
+const MAX_OUTPUT_BYTES = 1024;
+
+/** True for paths with the .ipynb extension. */
+export function isNotebookPath(path: string): boolean {
+  return /\.ipynb$/i.test(path.split(/[?#]/)[0]);
+}
+
+function joinSource(source: unknown): string {
+  if (Array.isArray(source)) return source.join("");
+  return typeof source === "string" ? source : "";
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "");
+}
+
+function outputText(output: Record<string, unknown>): string {
+  switch (output.output_type) {
+    case "stream":
+      return joinSource(output.text);
+    case "execute_result":
+    case "display_data": {
+      const data = (output.data ?? {}) as Record<string, unknown>;
+      if (data["text/plain"] !== undefined) return joinSource(data["text/plain"]);
+      const mime = Object.keys(data)[0];
+      return mime ? `[${mime} output]` : "";
+    }
+    case "error": {
+      const traceback = Array.isArray(output.traceback) ? output.traceback.join("\n") : "";
+      return stripAnsi(traceback || `${output.ename}: ${output.evalue}`);
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Parse notebook JSON into cells. Returns null when the text is not a
+ * notebook (invalid JSON, or no `cells` array).
+ */
+export function parseNotebook(text: string): { cells: NotebookCell[]; language: string } | null {
+  let nb: {
+    cells?: unknown;
+    metadata?: { language_info?: { name?: string }; kernelspec?: { language?: string } };
+  };
+  try {
+    nb = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!nb || !Array.isArray(nb.cells)) return null;
+
+  const language =
+    nb.metadata?.language_info?.name ?? nb.metadata?.kernelspec?.language ?? "python";
+  const cells = (nb.cells as Array<Record<string, unknown>>).map((cell, index) => {
+    const type = cell.cell_type === "markdown" || cell.cell_type === "code" ? cell.cell_type : "raw";
+    const outputs = Array.isArray(cell.outputs)
+      ? (cell.outputs as Array<Record<string, unknown>>).map(outputText).filter((t) => t.trim()).join("\n")
+      : "";
+    return { index, type, source: joinSource(cell.source), outputs } as NotebookCell;
+  });
+  return { cells, language };
+}
+
+function truncateOutput(text: string): string {
+  const bytes = Buffer.byteLength(text);
+  if (bytes <= MAX_OUTPUT_BYTES) return text;
+  let cut = MAX_OUTPUT_BYTES;
+  while (Buffer.byteLength(text.slice(0, cut)) > MAX_OUTPUT_BYTES) cut--;
+  return `${text.slice(0, cut)}\n…[${bytes - Buffer.byteLength(text.slice(0, cut))} more bytes of output]`;
+}
+
+/** Split oversized cell text at line boundaries, keeping the title. */
+function splitOversized(chunk: NotebookChunk, maxChunkBytes: number): NotebookChunk[] {
+  if (Buffer.byteLength(chunk.content) <= maxChunkBytes) return [chunk];
+  const parts: NotebookChunk[] = [];
+  let current: string[] = [];
+  let currentBytes = 0;
+  for (const line of chunk.content.split("\n")) {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (current.length > 0 && currentBytes + bytes > maxChunkBytes) {
+      parts.push({ ...chunk, content: current.join("\n") });
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(line);
+    currentBytes += bytes;
+  }
+  if (current.length > 0) parts.push({ ...chunk, content: current.join("\n") });
+  return parts;
+}
+
+/**
+ * Chunk a notebook into one chunk per non-empty cell. Returns null when
+ * the text is not a notebook.
+ */
+export function chunkNotebook(text: string, maxChunkBytes: number): NotebookChunk[] | null {
+  const parsed = parseNotebook(text);
+  if (!parsed) return null;
+
+  const chunks: NotebookChunk[] = [];
+  let heading = "";
+  for (const cell of parsed.cells) {
+    if (cell.source.trim().length === 0 && cell.outputs.length === 0) continue;
+
+    // A markdown cell's own first heading titles it; its last heading
+    // carries over to the cells that follow.
+    const headings = cell.type === "markdown"
+      ? [...cell.source.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)].map((m) => m[1])
+      : [];
+    const nearest = headings[0] ?? heading;
+    const title = nearest ? `${nearest} > cell ${cell.index}` : `cell ${cell.index}`;
+    if (headings.length > 0) heading = headings[headings.length - 1];
+
+    let content: string;
+    if (cell.type === "code") {
+      content = "```" + parsed.language + "\n" + cell.source.trimEnd() + "\n```";
+      if (cell.outputs) content += `\n\nOutput:\n${truncateOutput(cell.outputs.trimEnd())}`;
+    } else {
+      content = cell.source.trimEnd();
+    }
+    chunks.push(...splitOversized({ title, content, hasCode: cell.type === "code" }, maxChunkBytes));
+  }
+  return chunks;
+}
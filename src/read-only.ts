@@ -0,0 +1,197 @@
+/**
+ * read-only — Read-only project mode for sandboxed executions.
+ *
+ * Shell code runs with the project root as its working directory, so a
+ * command meant for analysis can still modify the working tree. In
+ * read-only mode:
+ *
+ *   - On Linux with util-linux `unshare`, the process starts in a private
+ *     mount namespace where the project root is bind-mounted read-only, so
+ *     writes fail with EROFS. Running as root needs no user namespace;
+ *     otherwise an unprivileged user namespace is used where the kernel
+ *     allows one.
+ *   - Everywhere, the project's files (git tracked plus untracked files
+ *     that are not ignored) are snapshotted by mtime and size before and
+ *     after the run, and any difference is reported.
+ *
+ * CONTEXT_MODE_READ_ONLY sets the default: unset, ctx_batch_execute runs
+ * read-only and ctx_execute does not; `1` makes both read-only, `0` neither.
+ */
+
+import { execFile, spawn } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { listProjectFiles } from "./file-walk.js";
+
+/** Project files by root-relative path → "mtimeMs:size". */
+export interface ProjectSnapshot {
+  files: Map<string, string>;
+  /** More files than SNAPSHOT_MAX_FILES; the rest are not watched. */
+  truncated: boolean;
+}
+
+export interface ProjectChanges {
+  modified: string[];
+  created: string[];
+  deleted: string[];
+}
+
+const SNAPSHOT_MAX_FILES = 50_000;
+
+/** Root-relative paths of git tracked and untracked-but-not-ignored files, or null outside git. */
+function gitProjectFiles(root: string): Promise<string[] | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["ls-files", "-z", "--cached", "--others", "--exclude-standard"],
+      { cwd: root, encoding: "utf-8", timeout: 10_000, maxBuffer: 64 * 1024 * 1024 },
+      (err, out) => resolve(err ? null : [...new Set(out.split("\0").filter(Boolean))]),
+    );
+  });
+}
+
+/** Concurrent stats per batch — enough to overlap I/O without a descriptor spike. */
+const STAT_BATCH = 256;
+
+/**
+ * Snapshot the mtime and size of the project's files. Outside git, the
+ * files are listed by a walk that honours .gitignore and stops at the cap.
+ */
+export async function snapshotProject(root: string): Promise<ProjectSnapshot> {
+  let paths = await gitProjectFiles(root);
+  let truncated: boolean;
+  if (paths) {
+    truncated = paths.length > SNAPSHOT_MAX_FILES;
+    paths = paths.slice(0, SNAPSHOT_MAX_FILES);
+  } else {
+    ({ paths, truncated } = listProjectFiles(root, SNAPSHOT_MAX_FILES));
+  }
+  const files = new Map<string, string>();
+  for (let i = 0; i < paths.length; i += STAT_BATCH) {
+    const batch = paths.slice(i, i + STAT_BATCH);
+    // Deleted or unreadable files are absent from the snapshot.
+    const stats = await Promise.all(batch.map((rel) => stat(join(root, rel)).catch(() => null)));
+    batch.forEach((rel, j) => {
+      const st = stats[j];
+      if (st?.isFile()) files.set(rel, `${st.mtimeMs}:${st.size}`);
+    });
+  }
+  return { files, truncated };
+}
+
+/** Files modified, created or deleted between two snapshots, sorted. */
+export function diffProjectSnapshots(before: ProjectSnapshot, after: ProjectSnapshot): ProjectChanges {
+  const changes: ProjectChanges = { modified: [], created: [], deleted: [] };
+  for (const [path, sig] of after.files) {
+    const prev = before.files.get(path);
+    if (prev === undefined) {
+      // Beyond the cap, a path may be missing from `before` only because it was cut off.
+      if (!before.truncated) changes.created.push(path);
+    } else if (prev !== sig) {
+      changes.modified.push(path);
+    }
+  }
+  for (const path of before.files.keys()) {
+    if (!after.files.has(path) && !after.truncated) changes.deleted.push(path);
+  }
+  changes.modified.sort();
+  changes.created.sort();
+  changes.deleted.sort();
+  return changes;
+}
+
+/**
+ * Note for a read-only run that changed project files, or null when
+ * nothing changed, e.g.
+ * `[read-only] project files changed during this run — modified: a.ts; created: out.txt`.
+ */
+export function formatProjectChanges(changes: ProjectChanges): string | null {
+  const list = (label: string, paths: string[]): string | null => {
+    if (paths.length === 0) return null;
+    const shown = paths.slice(0, 10).join(", ");
+    return `${label}: ${shown}${paths.length > 10 ? ` (+${paths.length - 10} more)` : ""}`;
+  };
+  const parts = [
+    list("modified", changes.modified),
+    list("created", changes.created),
+    list("deleted", changes.deleted),
+  ].filter(Boolean);
+  return parts.length > 0 ? `[read-only] project files changed during this run — ${parts.join("; ")}` : null;
+}
+
+/**
+ * Mount the directory in $0 read-only over itself, re-enter the working
+ * directory through the new mount (the old cwd still points at the
+ * writable one), then exec the command.
+ */
+const MOUNT_SCRIPT =
+  'mount --bind "$0" "$0" && mount -o remount,bind,ro "$0" && cd "$(pwd)" && exec "$@"; ' +
+  'echo "[read-only] could not mount $0 read-only" >&2; exit 126';
+
+let mountFlags: string[] | null = null;
+let mountProbe: Promise<boolean> | undefined;
+
+/** Whether `file args` exits with status 0 within five seconds. */
+function exitsCleanly(file: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(file, args, { stdio: "ignore", timeout: 5_000 });
+    child.on("error", () => resolve(false));
+    child.on("exit", (code) => resolve(code === 0));
+  });
+}
+
+/**
+ * Find the `unshare` flags that can mount the project read-only here, or
+ * none (not Linux, no unshare, user namespaces disabled). Probed once,
+ * in the background, against a scratch directory; resolves to whether
+ * mounting works.
+ */
+export function probeReadOnlyMount(): Promise<boolean> {
+  mountProbe ??= (async () => {
+    if (process.platform !== "linux") return false;
+    const candidates = [
+      ...(process.getuid?.() === 0 ? [["--mount"]] : []),
+      ["--user", "--map-current-user", "--mount"],
+      ["--user", "--map-root-user", "--mount"],
+    ];
+    const probeDir = mkdtempSync(join(tmpdir(), ".ctx-mode-ro-probe-"));
+    try {
+      for (const flags of candidates) {
+        if (await exitsCleanly("unshare", [...flags, "sh", "-c", MOUNT_SCRIPT, probeDir, "true"])) {
+          mountFlags = flags;
+          return true;
+        }
+      }
+      return false;
+    } finally {
+      rmSync(probeDir, { recursive: true, force: true });
+    }
+  })();
+  return mountProbe;
+}
+
+/**
+ * Whether the project can be mounted read-only here (otherwise writes are
+ * only detected). False until probeReadOnlyMount() has resolved.
+ */
+export function readOnlyMountSupported(): boolean {
+  return mountFlags !== null;
+}
+
+/**
+ * Wrap `cmd` so it runs with `root` mounted read-only. Returns `cmd`
+ * unchanged where mounting is unsupported or not probed yet.
+ */
+export function applyReadOnlyMount(cmd: string[], root: string): string[] {
+  return mountFlags ? ["unshare", ...mountFlags, "sh", "-c", MOUNT_SCRIPT, root, ...cmd] : cmd;
+}
+
+/** Default for a call that does not pass `readOnly` (see the module comment). */
+export function readOnlyDefault(tool: "execute" | "batch", env: NodeJS.ProcessEnv = process.env): boolean {
+  const raw = env.CONTEXT_MODE_READ_ONLY?.trim().toLowerCase();
+  if (raw === "1" || raw === "true") return true;
+  if (raw === "0" || raw === "false") return false;
+  return tool === "batch";
+}
@@ -0,0 +1,453 @@
+/**
+ * repl-session — Long-lived interpreters for ctx_execute `session`.
+ *
+ * A plain ctx_execute writes a script to a fresh temp dir and spawns a new
+ * process, so a dataset loaded in one call is gone by the next. A named
+ * session keeps one interpreter alive instead. A small driver program
+ * reads one JSON request per line (`{"code": "..."}`) from stdin and runs
+ * it in a persistent namespace:
+ *
+ *   - python:     exec() in one globals dict
+ *   - javascript: vm.runInThisContext (top-level let/const/var persist)
+ *   - ruby:       eval in one Binding
+ *
+ * After each request the driver writes `\n<marker> <status>\n` to stdout
+ * and `\n<marker>\n` to stderr; everything before the markers is that
+ * call's output. The marker is random per session and reaches the driver
+ * in CTX_SESSION_MARKER, which the driver removes from its environment at
+ * startup: it is not on the command line, and neither the session's code
+ * nor its subprocesses see it in their environment, so printed data cannot
+ * end a call early. Code that goes looking for it (/proc/self/environ, the
+ * driver's stack frames) can still find it, which only lets a call corrupt
+ * its own result.
+ *
+ * A session ends on its idle timeout, when its RSS exceeds the memory cap,
+ * when a call times out or overflows the output cap, or on
+ * PolyglotExecutor.cleanupBackgrounded().
+ */
+
+import { execFileSync, spawn, type ChildProcess } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { describeLimitViolation, type ResourceLimits } from "./resource-limits.js";
+import type { ExecResult } from "./types.js";
+
+export type SessionLanguage = "javascript" | "python" | "ruby";
+
+export const SESSION_LANGUAGES: readonly SessionLanguage[] = ["javascript", "python", "ruby"];
+
+export function isSessionLanguage(language: string): language is SessionLanguage {
+  return (SESSION_LANGUAGES as readonly string[]).includes(language);
+}
+
+const PYTHON_DRIVER = `import json, os, sys, traceback
+
+def _ctx_session(marker):
+    ns = {"__name__": "__main__", "__builtins__": __builtins__}
+    while True:
+        line = sys.stdin.readline()
+        if not line:
+            return
+        status = 0
+        try:
+            exec(compile(json.loads(line)["code"], "<session>", "exec"), ns)
+        except SystemExit as e:
+            status = e.code if isinstance(e.code, int) else (0 if e.code is None else 1)
+        except BaseException as e:
+            traceback.print_exception(type(e), e, e.__traceback__.tb_next)
+            status = 1
+        sys.stdout.write("\\n%s %d\\n" % (marker, status))
+        sys.stdout.flush()
+        sys.stderr.write("\\n%s\\n" % marker)
+        sys.stderr.flush()
+
+_ctx_session(os.environ.pop("CTX_SESSION_MARKER"))
+`;
+
+// Code with top-level await runs inside an async function, so its
+// declarations do not persist — assign to globalThis to keep a value.
+const JAVASCRIPT_DRIVER = `const vm = require("node:vm");
+const path = require("node:path");
+const { createRequire } = require("node:module");
+const marker = process.env.CTX_SESSION_MARKER;
+delete process.env.CTX_SESSION_MARKER;
+globalThis.require = createRequire(path.join(process.cwd(), "session.js"));
+// An async error after a call returned must not end the session.
+process.on("uncaughtException", (e) => console.error(e));
+process.on("unhandledRejection", (e) => console.error(e));
+// Rewrite top-level const/let/class declarations to var, as the Node REPL
+// does, so a later call can declare the same name again. Strings, comments,
+// regexes and nested blocks are skipped; if the rewrite does not compile,
+// the code runs as written.
+const WORD = /[\\p{L}\\p{N}_$]/u;
+const DECLARED = /\\s+[\\p{L}_$[{]/uy;
+const CLASS_NAME = /\\s+([\\p{L}_$][\\p{L}\\p{N}_$]*)/uy;
+const BEFORE_REGEX = /^(return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+function hoistDeclarations(code) {
+  let out = "";
+  let depth = 0;
+  let atStatement = true;
+  let regexOk = true;
+  let i = 0;
+  while (i < code.length) {
+    const c = code[i];
+    const start = i;
+    if (c === "/" && code[i + 1] === "/") {
+      while (i < code.length && code[i] !== "\\n") i++;
+    } else if (c === "/" && code[i + 1] === "*") {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else if (c === '"' || c === "'" || c === "\`" || (c === "/" && regexOk)) {
+      let inClass = false;
+      for (i++; i < code.length && (code[i] !== c || inClass); i++) {
+        if (code[i] === "\\\\") i++;
+        else if (c === "/" && (code[i] === "[" || code[i] === "]")) inClass = code[i] === "[";
+      }
+      i++;
+      atStatement = regexOk = false;
+    } else if (WORD.test(c) && !/\\p{N}/u.test(c)) {
+      while (i < code.length && WORD.test(code[i])) i++;
+      const word = code.slice(start, i);
+      DECLARED.lastIndex = CLASS_NAME.lastIndex = i;
+      if (depth === 0 && atStatement && (word === "const" || word === "let") && DECLARED.test(code)) {
+        out += "var";
+        atStatement = false;
+        regexOk = true;
+        continue;
+      }
+      const name = depth === 0 && atStatement && word === "class" ? CLASS_NAME.exec(code) : null;
+      if (name) out += "var " + name[1] + " = ";
+      atStatement = false;
+      regexOk = BEFORE_REGEX.test(word);
+    } else {
+      i++;
+      if ("([{".includes(c)) depth++;
+      else if (")]}".includes(c)) depth = Math.max(0, depth - 1);
+      if (c === "\\n") atStatement ||= depth === 0;
+      else if (!/\\s/.test(c)) {
+        atStatement = depth === 0 && (c === ";" || c === "}");
+        regexOk = !/[)\\]\\p{L}\\p{N}_$]/u.test(c);
+      }
+    }
+    out += code.slice(start, i);
+  }
+  return out;
+}
+// Only code that does not compile as a script (top-level await) is wrapped
+// in an async function; "await" in a string or comment does not count.
+function compile(code) {
+  try {
+    return { script: new vm.Script(hoistDeclarations(code), { filename: "session" }), async: false };
+  } catch {}
+  try {
+    return { script: new vm.Script(code, { filename: "session" }), async: false };
+  } catch (e) {
+    try {
+      return { script: new vm.Script("(async () => {\\n" + code + "\\n})()", { filename: "session" }), async: true };
+    } catch {
+      throw e;
+    }
+  }
+}
+async function run(code) {
+  process.exitCode = undefined;
+  try {
+    const { script, async } = compile(code);
+    if (async) await script.runInThisContext();
+    else script.runInThisContext();
+    return typeof process.exitCode === "number" ? process.exitCode : 0;
+  } catch (e) {
+    // Drop the driver's own frames from the stack.
+    const stack = e instanceof Error && e.stack ? e.stack.split("\\n") : null;
+    const cut = stack ? stack.findIndex((l) => l.includes("node:vm")) : -1;
+    console.error(cut > 0 ? stack.slice(0, cut).join("\\n") : e);
+    return 1;
+  }
+}
+let chain = Promise.resolve();
+require("node:readline").createInterface({ input: process.stdin })
+  .on("line", (line) => {
+    chain = chain.then(async () => {
+      const status = await run(JSON.parse(line).code);
+      process.stdout.write("\\n" + marker + " " + status + "\\n");
+      process.stderr.write("\\n" + marker + "\\n");
+    });
+  })
+  .on("close", () => chain.then(() => process.exit(0)));
+`;
+
+const RUBY_DRIVER = `require "json"
+$stdout.sync = true
+$stderr.sync = true
+marker = ENV.delete("CTX_SESSION_MARKER")
+def __ctx_session_binding
+  binding
+end
+session = __ctx_session_binding
+while (line = $stdin.gets)
+  status = 0
+  begin
+    session.eval(JSON.parse(line)["code"], "session")
+  rescue SystemExit => e
+    status = e.status
+  rescue Exception => e
+    $stderr.puts "#{e.backtrace&.first}: #{e.message} (#{e.class})"
+    status = 1
+  end
+  $stdout.write("\\n#{marker} #{status}\\n")
+  $stderr.write("\\n#{marker}\\n")
+end
+`;
+
+/** Driver program and script extension per session language. */
+export const SESSION_DRIVERS: Record<SessionLanguage, { ext: string; source: string }> = {
+  javascript: { ext: "js", source: JAVASCRIPT_DRIVER },
+  python: { ext: "py", source: PYTHON_DRIVER },
+  ruby: { ext: "rb", source: RUBY_DRIVER },
+};
+
+/** Resident set size of `pid` in MB, or null where it cannot be read (Windows, exited). */
+export function residentMb(pid: number): number | null {
+  if (process.platform === "win32") return null;
+  try {
+    if (process.platform === "linux") {
+      const match = /^VmRSS:\s+(\d+) kB/m.exec(readFileSync(`/proc/${pid}/status`, "utf-8"));
+      return match ? Number(match[1]) / 1024 : null;
+    }
+    const kb = Number(execFileSync("ps", ["-o", "rss=", "-p", String(pid)], { encoding: "utf-8" }).trim());
+    return Number.isFinite(kb) && kb > 0 ? kb / 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ReplSessionOptions {
+  name: string;
+  language: SessionLanguage;
+  /** Interpreter command running the driver script (already wrapped in its resource limits). */
+  command: string[];
+  /** The resource limits `command` runs under, to explain a kill. */
+  limits?: ResourceLimits;
+  cwd: string;
+  env: Record<string, string>;
+  idleTimeoutMs: number;
+  memoryCapMb: number;
+  /** Per-call cap on stdout + stderr bytes. */
+  hardCapBytes: number;
+  /** Called once when the interpreter exits, with the reason it ended. */
+  onExit: (reason: string) => void;
+}
+
+/** How often a running call's memory is checked. */
+const MEMORY_POLL_MS = 1_000;
+
+interface PendingCall {
+  stdout: string;
+  stderr: string;
+  status: number | null;
+  stderrDone: boolean;
+  resolve: (result: ExecResult) => void;
+}
+
+/** One long-lived interpreter. Calls are serialized. */
+export class ReplSession {
+  readonly name: string;
+  readonly language: SessionLanguage;
+  #opts: ReplSessionOptions;
+  #proc: ChildProcess;
+  #marker = `__CTX_SESSION_${randomBytes(8).toString("hex")}__`;
+  #queue: Promise<unknown> = Promise.resolve();
+  #pending: PendingCall | null = null;
+  /** Output that arrived between calls (e.g. from timers); prepended to the next call. */
+  #stdoutCarry = "";
+  #stderrCarry = "";
+  #idleTimer: NodeJS.Timeout | undefined;
+  #memoryTimer: NodeJS.Timeout | undefined;
+  #endReason: string | null = null;
+  #closed = false;
+
+  constructor(opts: ReplSessionOptions) {
+    this.name = opts.name;
+    this.language = opts.language;
+    this.#opts = opts;
+    this.#proc = spawn(opts.command[0], opts.command.slice(1), {
+      cwd: opts.cwd,
+      env: { ...opts.env, CTX_SESSION_MARKER: this.#marker },
+      stdio: ["pipe", "pipe", "pipe"],
+      // Own process group so close() also kills anything the code spawned.
+      detached: process.platform !== "win32",
+      windowsHide: true,
+    });
+    this.#proc.stdout!.setEncoding("utf-8");
+    this.#proc.stderr!.setEncoding("utf-8");
+    this.#proc.stdout!.on("data", (chunk: string) => this.#onOutput("stdout", chunk));
+    this.#proc.stderr!.on("data", (chunk: string) => this.#onOutput("stderr", chunk));
+    this.#proc.stdin!.on("error", () => { /* exit handler reports it */ });
+    this.#proc.on("error", (err) => this.#onExit(null, null, err.message));
+    this.#proc.on("exit", (code, signal) => this.#onExit(code, signal, null));
+    this.#setReferenced(false);
+    this.#armIdleTimer();
+  }
+
+  get alive(): boolean {
+    return !this.#closed;
+  }
+
+  get pid(): number | undefined {
+    return this.#proc.pid;
+  }
+
+  /** Run `code` in the session; waits for earlier calls first. */
+  run(code: string, timeout?: number): Promise<ExecResult> {
+    const next = this.#queue.then(() => this.#runNow(code, timeout));
+    this.#queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Kill the interpreter (and its process group). */
+  close(reason: string): void {
+    if (this.#closed) return;
+    this.#endReason ??= reason;
+    const pid = this.#proc.pid;
+    try {
+      if (pid) process.kill(process.platform === "win32" ? pid : -pid, "SIGKILL");
+    } catch {
+      try { this.#proc.kill("SIGKILL"); } catch { /* already dead */ }
+    }
+  }
+
+  #runNow(code: string, timeout: number | undefined): Promise<ExecResult> {
+    if (this.#closed) {
+      return Promise.resolve({ stdout: "", stderr: `session "${this.name}" has ended (${this.#endReason})`, exitCode: 1, timedOut: false });
+    }
+    clearTimeout(this.#idleTimer);
+    this.#setReferenced(true);
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      const pending: PendingCall = {
+        stdout: "",
+        stderr: "",
+        status: null,
+        stderrDone: false,
+        resolve: (result) => {
+          clearTimeout(timer);
+          clearInterval(this.#memoryTimer);
+          this.#pending = null;
+          if (!this.#closed) {
+            this.#checkMemory();
+            this.#setReferenced(false);
+            this.#armIdleTimer();
+          }
+          resolve(result);
+        },
+      };
+      this.#pending = pending;
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.#endReason ??= `call timed out after ${timeout}ms`;
+          this.close(this.#endReason);
+        }, timeout);
+      }
+      this.#memoryTimer = setInterval(() => this.#checkMemory(), MEMORY_POLL_MS);
+      this.#onOutput("stdout", this.#stdoutCarry);
+      this.#onOutput("stderr", this.#stderrCarry);
+      this.#stdoutCarry = "";
+      this.#stderrCarry = "";
+      this.#proc.stdin!.write(JSON.stringify({ code }) + "\n");
+    });
+  }
+
+  #onOutput(stream: "stdout" | "stderr", chunk: string): void {
+    if (!chunk) return;
+    const pending = this.#pending;
+    if (!pending) {
+      if (stream === "stdout") this.#stdoutCarry += chunk;
+      else this.#stderrCarry += chunk;
+      return;
+    }
+    if (stream === "stdout" && pending.status === null) {
+      pending.stdout += chunk;
+      const match = new RegExp(`\\n${this.#marker} (-?\\d+)\\n`).exec(pending.stdout);
+      if (match) {
+        this.#stdoutCarry = pending.stdout.slice(match.index + match[0].length);
+        pending.stdout = pending.stdout.slice(0, match.index);
+        pending.status = Number(match[1]);
+      }
+    } else if (stream === "stderr" && !pending.stderrDone) {
+      pending.stderr += chunk;
+      const end = pending.stderr.indexOf(`\n${this.#marker}\n`);
+      if (end !== -1) {
+        this.#stderrCarry = pending.stderr.slice(end + this.#marker.length + 2);
+        pending.stderr = pending.stderr.slice(0, end);
+        pending.stderrDone = true;
+      }
+    } else if (stream === "stdout") {
+      this.#stdoutCarry += chunk;
+    } else {
+      this.#stderrCarry += chunk;
+    }
+
+    if (Buffer.byteLength(pending.stdout) + Buffer.byteLength(pending.stderr) > this.#opts.hardCapBytes) {
+      this.#endReason ??= `output exceeded ${(this.#opts.hardCapBytes / 1024 / 1024).toFixed(0)}MB`;
+      this.close(this.#endReason);
+      return;
+    }
+    if (pending.status !== null && pending.stderrDone) {
+      pending.resolve({ stdout: pending.stdout, stderr: pending.stderr, exitCode: pending.status, timedOut: false });
+    }
+  }
+
+  #onExit(code: number | null, signal: NodeJS.Signals | null, error: string | null): void {
+    if (this.#closed) return;
+    this.#closed = true;
+    clearTimeout(this.#idleTimer);
+    clearInterval(this.#memoryTimer);
+    const violation = this.#opts.limits
+      ? describeLimitViolation(this.#opts.limits, signal, this.#pending?.stderr ?? "")
+      : null;
+    const reason = this.#endReason ?? (
+      error ? `failed: ${error}`
+        : violation ? `killed: ${violation}`
+        : `interpreter exited with code ${code ?? "null"}`
+    );
+    this.#endReason = reason;
+    const pending = this.#pending;
+    if (pending) {
+      const timedOut = reason.startsWith("call timed out");
+      pending.resolve({
+        stdout: pending.stdout,
+        stderr: `${pending.stderr}${pending.stderr ? "\n" : ""}[session "${this.name}" ended: ${reason} — its state is lost]`,
+        exitCode: timedOut ? 1 : (code || 1),
+        timedOut,
+      });
+    }
+    this.#opts.onExit(reason);
+  }
+
+  #checkMemory(): void {
+    const pid = this.#proc.pid;
+    const mb = pid ? residentMb(pid) : null;
+    if (mb !== null && mb > this.#opts.memoryCapMb) {
+      this.#endReason ??= `memory ${mb.toFixed(0)}MB exceeded the ${this.#opts.memoryCapMb}MB cap`;
+      this.close(this.#endReason);
+    }
+  }
+
+  #armIdleTimer(): void {
+    clearTimeout(this.#idleTimer);
+    this.#idleTimer = setTimeout(() => {
+      const ms = this.#opts.idleTimeoutMs;
+      this.close(`idle for ${ms >= 60_000 ? `${Math.round(ms / 60_000)} min` : `${Math.round(ms / 1000)}s`}`);
+    }, this.#opts.idleTimeoutMs);
+    this.#idleTimer.unref();
+  }
+
+  /** An idle session must not keep the server's event loop alive. */
+  #setReferenced(ref: boolean): void {
+    const handles = [this.#proc, this.#proc.stdin, this.#proc.stdout, this.#proc.stderr] as Array<{ ref?: () => void; unref?: () => void } | null>;
+    for (const h of handles) {
+      if (ref) h?.ref?.();
+      else h?.unref?.();
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * resource-limits — Per-language OS resource limits for sandboxed executions.
+ *
+ * The wall-clock timeout and the output byte cap do not stop a script that
+ * allocates without bound or forks in a loop. On Linux every ctx_execute
+ * process is started through `prlimit`, which sets the limits on itself and
+ * then execs the interpreter, so they apply to the script and everything it
+ * spawns:
+ *
+ *   - memoryMb     RLIMIT_AS — address space per process (Node: heap size)
+ *   - cpuSeconds   RLIMIT_CPU — CPU time per process (SIGXCPU)
+ *   - maxProcesses RLIMIT_NPROC — new processes/threads the script may add
+ *   - fileMb       RLIMIT_FSIZE — largest file a process may write (SIGXFSZ)
+ *
+ * RLIMIT_NPROC counts every task of the user, not just the script's, so
+ * the limit is set to the system's current task count plus `maxProcesses`.
+ *
+ * Configured with CONTEXT_MODE_LIMIT_{MEMORY_MB,CPU_SEC,PROCS,FILE_MB}, and
+ * per language with a `_<LANGUAGE>` suffix (e.g.
+ * CONTEXT_MODE_LIMIT_MEMORY_MB_PYTHON=8192). 0 disables a limit. Other
+ * platforms, and Linux without prlimit, run unlimited.
+ */
+
+import { execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import type { Language } from "./runtime.js";
+
+export interface ResourceLimits {
+  /** Address space per process, in MB. */
+  memoryMb: number;
+  /** CPU time per process, in seconds. */
+  cpuSeconds: number;
+  /** Processes/threads the script may add to the user's current count. */
+  maxProcesses: number;
+  /** Largest file a process may write, in MB. */
+  fileMb: number;
+}
+
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  memoryMb: 4096,
+  cpuSeconds: 600,
+  maxProcesses: 1024,
+  fileMb: 1024,
+};
+
+/**
+ * Language defaults that differ from DEFAULT_RESOURCE_LIMITS. Shell runs
+ * builds and test suites (JVMs reserve gigabytes of address space, long
+ * builds burn CPU), so only the fork limit applies there. The .NET runtime
+ * fails to start under an address-space limit.
+ */
+const LANGUAGE_DEFAULTS: Partial<Record<Language, Partial<ResourceLimits>>> = {
+  shell: { memoryMb: 0, cpuSeconds: 0, fileMb: 0 },
+  csharp: { memoryMb: 0 },
+};
+
+/**
+ * Runtimes that reserve far more address space than they use — V8 and JSC
+ * WebAssembly guard regions (tsx and undici's fetch load WASM), CoreCLR —
+ * and fail to start or fetch under RLIMIT_AS. Plain `node` gets a heap cap
+ * instead; the rest run without a memory limit.
+ */
+const NO_ADDRESS_SPACE_LIMIT = new Set([
+  "bun", "bun.exe", "deno", "deno.exe", "tsx", "tsx.cmd", "ts-node", "ts-node.cmd", "dotnet", "dotnet-script",
+]);
+const NODE_BINARY = /^node(\.exe)?$/i;
+
+const ENV_KEYS: Record<keyof ResourceLimits, string> = {
+  memoryMb: "CONTEXT_MODE_LIMIT_MEMORY_MB",
+  cpuSeconds: "CONTEXT_MODE_LIMIT_CPU_SEC",
+  maxProcesses: "CONTEXT_MODE_LIMIT_PROCS",
+  fileMb: "CONTEXT_MODE_LIMIT_FILE_MB",
+};
+
+function envNumber(env: NodeJS.ProcessEnv, key: string): number | undefined {
+  const raw = env[key]?.trim();
+  if (!raw) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+}
+
+/**
+ * Limits for `language`: the per-language env var, else the global env
+ * var, else the language default, else DEFAULT_RESOURCE_LIMITS.
+ */
+export function resolveResourceLimits(
+  language: Language,
+  env: NodeJS.ProcessEnv = process.env,
+): ResourceLimits {
+  const out = { ...DEFAULT_RESOURCE_LIMITS, ...LANGUAGE_DEFAULTS[language] };
+  for (const key of Object.keys(ENV_KEYS) as Array<keyof ResourceLimits>) {
+    const value =
+      envNumber(env, `${ENV_KEYS[key]}_${language.toUpperCase()}`) ??
+      envNumber(env, ENV_KEYS[key]);
+    if (value !== undefined) out[key] = value;
+  }
+  return out;
+}
+
+let prlimitAvailable: boolean | undefined;
+
+/** Whether limits can be enforced here: Linux with util-linux `prlimit`. */
+export function resourceLimitsSupported(): boolean {
+  if (process.platform !== "linux") return false;
+  if (prlimitAvailable === undefined) {
+    try {
+      execFileSync("prlimit", ["--version"], { stdio: "ignore" });
+      prlimitAvailable = true;
+    } catch {
+      prlimitAvailable = false;
+    }
+  }
+  return prlimitAvailable;
+}
+
+/** Tasks currently on the system (the denominator of /proc/loadavg), or null. */
+function systemTaskCount(): number | null {
+  try {
+    const match = /\d+\/(\d+)/.exec(readFileSync("/proc/loadavg", "utf-8"));
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The limits that apply to `cmd`: memory is dropped for runtimes in NO_ADDRESS_SPACE_LIMIT. */
+export function effectiveLimits(cmd: string[], limits: ResourceLimits): ResourceLimits {
+  return NO_ADDRESS_SPACE_LIMIT.has(basename(cmd[0]).toLowerCase())
+    ? { ...limits, memoryMb: 0 }
+    : limits;
+}
+
+/**
+ * Prefix `cmd` with `prlimit` for the non-zero limits. Returns `cmd`
+ * unchanged where limits are unsupported or all disabled.
+ */
+export function applyResourceLimits(cmd: string[], limits: ResourceLimits): string[] {
+  if (!resourceLimitsSupported()) return cmd;
+  const mb = 1024 * 1024;
+  const flags: string[] = [];
+  if (limits.memoryMb > 0) {
+    if (NODE_BINARY.test(basename(cmd[0]))) {
+      cmd = [cmd[0], `--max-old-space-size=${limits.memoryMb}`, ...cmd.slice(1)];
+    } else {
+      flags.push(`--as=${limits.memoryMb * mb}`);
+    }
+  }
+  // Hard limit one second above the soft one, so SIGXCPU arrives first and
+  // the violation can be told apart from our own SIGKILL.
+  if (limits.cpuSeconds > 0) flags.push(`--cpu=${limits.cpuSeconds}:${limits.cpuSeconds + 1}`);
+  if (limits.maxProcesses > 0) {
+    const base = systemTaskCount();
+    if (base !== null) flags.push(`--nproc=${base + limits.maxProcesses}`);
+  }
+  if (limits.fileMb > 0) flags.push(`--fsize=${limits.fileMb * mb}`);
+  return flags.length > 0 ? ["prlimit", ...flags, "--", ...cmd] : cmd;
+}
+
+const MEMORY_FAILURE = /MemoryError|out of memory|Cannot allocate memory|failed to allocate memory|memory allocation of \d+ bytes failed|failed to reserve .*memory|cannot allocate vector|std::bad_alloc|\bENOMEM\b/i;
+const PROCESS_FAILURE = /Resource temporarily unavailable|fork: retry|BlockingIOError|can't start new thread|\bEAGAIN\b/;
+const FILE_FAILURE = /File too large|\bEFBIG\b/;
+
+/**
+ * Which limit a failed run most likely hit, e.g. "memory limit 512MB", or
+ * null. CPU and file size show as signals; memory and process limits show
+ * as allocation or fork failures in stderr.
+ */
+export function describeLimitViolation(
+  limits: ResourceLimits,
+  signal: NodeJS.Signals | null,
+  stderr: string,
+): string | null {
+  if (limits.cpuSeconds > 0 && signal === "SIGXCPU") return `CPU time limit ${limits.cpuSeconds}s`;
+  if (limits.fileMb > 0 && (signal === "SIGXFSZ" || FILE_FAILURE.test(stderr))) {
+    return `file size limit ${limits.fileMb}MB`;
+  }
+  if (limits.memoryMb > 0 && MEMORY_FAILURE.test(stderr)) return `memory limit ${limits.memoryMb}MB`;
+  if (limits.maxProcesses > 0 && PROCESS_FAILURE.test(stderr)) {
+    return `process limit (+${limits.maxProcesses} processes)`;
+  }
+  return null;
+}
+
+/** One-line description, e.g. "memory 4096MB, CPU 600s, +1024 processes, files 1024MB". */
+export function formatResourceLimits(limits: ResourceLimits): string {
+  const parts = [
+    limits.memoryMb > 0 ? `memory ${limits.memoryMb}MB` : null,
+    limits.cpuSeconds > 0 ? `CPU ${limits.cpuSeconds}s` : null,
+    limits.maxProcesses > 0 ? `+${limits.maxProcesses} processes` : null,
+    limits.fileMb > 0 ? `files ${limits.fileMb}MB` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
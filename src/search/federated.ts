@@ -0,0 +1,98 @@
+/**
+ * Federated search — ctx_search `scope: "project" | "all"`.
+ *
+ * Each platform keeps its own data root (`~/.claude/context-mode`,
+ * `~/.cursor/context-mode`, `~/.config/opencode/context-mode`, …) with a
+ * content DB per project under `content/` and the durable KB under `kb/`.
+ * A plain ctx_search only sees this process's two stores. With a scope, the
+ * other DBs are opened read-only and searched too:
+ *
+ *   - "project": DBs named after this project's hash in every root
+ *   - "all":     every content / KB DB in every root (most recent first)
+ *
+ * Each result is tagged with its origin DB as `<platform>:<kind>/<hash>`,
+ * e.g. `cursor:content/87c28c41` (hash = first 8 chars of the project hash).
+ */
+
+import { readdirSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { enumerateAdapterDirs } from "../session/analytics.js";
+
+export type SearchScope = "project" | "all";
+
+/** A content DB outside this process, with its origin tag. */
+export interface FederatedDb {
+  path: string;
+  origin: string;
+}
+
+/** DB kinds searched in each data root. */
+const DB_KINDS = ["content", "kb"] as const;
+
+/** Cap on DBs opened per search — "all" on a long-lived machine can hold hundreds. */
+export const MAX_FEDERATED_DBS = 50;
+
+/** A platform's data root, e.g. `{ name: "cursor", root: "~/.cursor/context-mode" }`. */
+export interface DataRoot {
+  name: string;
+  root: string;
+}
+
+/**
+ * Data roots to search: this process's root first, then every known
+ * adapter's root under `home` (see enumerateAdapterDirs). Roots shared by
+ * two adapters (gemini-cli / antigravity) are listed once.
+ */
+export function federatedRoots(current: DataRoot, home?: string): DataRoot[] {
+  const roots = new Map<string, DataRoot>([[resolve(current.root), current]]);
+  for (const entry of enumerateAdapterDirs({ home })) {
+    const root = resolve(dirname(entry.contentDir));
+    if (!roots.has(root)) roots.set(root, { name: entry.name, root });
+  }
+  return [...roots.values()];
+}
+
+/**
+ * Content / KB DBs in `roots` within `scope`. "project" keeps files named
+ * after one of `projectHashes` (canonical and legacy casing). Paths in
+ * `exclude` (this process's own stores) are skipped. At most `max` DBs are
+ * returned, most recently modified first.
+ */
+export function listFederatedDbs(opts: {
+  roots: DataRoot[];
+  scope: SearchScope;
+  projectHashes: string[];
+  exclude: string[];
+  max?: number;
+}): FederatedDb[] {
+  const exclude = new Set(opts.exclude.map((p) => resolve(p)));
+  const found: Array<FederatedDb & { mtime: number }> = [];
+  for (const { name, root } of opts.roots) {
+    for (const kind of DB_KINDS) {
+      const dir = join(root, kind);
+      let files: string[];
+      try {
+        files = readdirSync(dir).filter((f) => f.endsWith(".db"));
+      } catch {
+        continue;
+      }
+      for (const file of files) {
+        const hash = file.slice(0, -".db".length);
+        if (opts.scope === "project" && !opts.projectHashes.includes(hash)) continue;
+        const path = resolve(join(dir, file));
+        if (exclude.has(path)) continue;
+        let mtime: number;
+        try {
+          mtime = statSync(path).mtimeMs;
+        } catch {
+          continue;
+        }
+        found.push({ path, origin: `${name}:${kind}/${hash.slice(0, 8)}`, mtime });
+      }
+    }
+  }
+  return found
+    .sort((a, b) => b.mtime - a.mtime)
+    .slice(0, opts.max ?? MAX_FEDERATED_DBS)
+    .map(({ path, origin }) => ({ path, origin }));
+}
@@ -0,0 +1,111 @@
+/**
+ * Near-duplicate detection — MinHash fingerprints for chunk content.
+ *
+ * The same docs fetched from a mirror, or re-indexed under another label,
+ * produce chunks that differ only in whitespace, a version string or a
+ * footer. Exact-key dedup misses them, and the copies crowd out distinct
+ * results under ctx_search's per-query budget. ContentStore fingerprints
+ * each chunk at index time; search collapses results whose fingerprints
+ * estimate a high word-bigram overlap (Jaccard similarity), keeping the
+ * freshest copy.
+ */
+
+/** Estimated Jaccard similarity at or above which two chunks are near-duplicates. */
+export const NEAR_DUPLICATE_SIMILARITY = 0.7;
+
+/** Hash functions per fingerprint; each contributes 8 hex chars after the word count. */
+const NUM_HASHES = 32;
+
+/** Per-hash multipliers / offsets for h_i(x) = a_i * x + b_i (mod 2^32). */
+const HASH_PARAMS = Array.from({ length: NUM_HASHES }, (_, i) => ({
+  a: (Math.imul(i + 1, 0x9e3779b1) | 1) >>> 0,
+  b: Math.imul(i + 7, 0x85ebca6b) >>> 0,
+}));
+
+/** 32-bit FNV-1a with a murmur3 finalizer so similar shingles spread apart. */
+function hash32(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * MinHash fingerprint of `text` as hex: the word count, then one minimum
+ * per hash function. Case, punctuation and whitespace are ignored; features
+ * are word bigrams (the lone word for one-word text). Returns null for text
+ * with no words.
+ */
+export function fingerprint(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+  if (!words || words.length === 0) return null;
+
+  const shingles = new Set<number>();
+  if (words.length === 1) shingles.add(hash32(words[0]));
+  for (let i = 0; i + 1 < words.length; i++) shingles.add(hash32(`${words[i]} ${words[i + 1]}`));
+
+  const mins = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const x of shingles) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = (Math.imul(HASH_PARAMS[i].a, x) + HASH_PARAMS[i].b) >>> 0;
+      if (h < mins[i]) mins[i] = h;
+    }
+  }
+  return [words.length, ...mins].map((m) => m.toString(16).padStart(8, "0")).join("");
+}
+
+/**
+ * Estimated similarity of two fingerprints: the share of equal minimums
+ * (Jaccard of the bigram sets), capped by the word-count ratio — a text
+ * repeated twice has the same bigram set but is not the same chunk.
+ */
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) return 0;
+  const countA = parseInt(a.slice(0, 8), 16);
+  const countB = parseInt(b.slice(0, 8), 16);
+  let equal = 0;
+  for (let i = 8; i < a.length; i += 8) {
+    if (a.slice(i, i + 8) === b.slice(i, i + 8)) equal++;
+  }
+  return Math.min(equal / NUM_HASHES, Math.min(countA, countB) / Math.max(countA, countB));
+}
+
+interface Collapsible {
+  rank: number;
+  timestamp?: string;
+  fingerprint?: string;
+  hiddenDuplicates?: number;
+}
+
+/**
+ * Collapse near-duplicate results. `results` must be ordered best-first;
+ * each group of near-duplicates keeps the position (and rank) of its best
+ * member but shows its freshest copy (latest `timestamp`), with
+ * `hiddenDuplicates` counting the copies folded into it. Results without a
+ * fingerprint are never collapsed.
+ */
+export function collapseNearDuplicates<T extends Collapsible>(results: T[]): T[] {
+  const groups: T[][] = [];
+  for (const result of results) {
+    const fp = result.fingerprint;
+    const group = fp
+      ? groups.find((g) => g[0].fingerprint && fingerprintSimilarity(g[0].fingerprint, fp) >= NEAR_DUPLICATE_SIMILARITY)
+      : undefined;
+    if (group) group.push(result);
+    else groups.push([result]);
+  }
+
+  return groups.map((group) => {
+    if (group.length === 1) return group[0];
+    const freshest = group.reduce((best, r) => ((r.timestamp ?? "") > (best.timestamp ?? "") ? r : best));
+    const hidden = group.reduce((n, r) => n + (r.hiddenDuplicates ?? 0), group.length - 1);
+    return { ...freshest, rank: group[0].rank, hiddenDuplicates: hidden };
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Synonym / abbreviation expansion for search queries.
+ *
+ * BM25 only matches the words a chunk actually contains, so a query for
+ * `k8s` misses a section that says `kubernetes`, and fuzzy correction only
+ * fixes typos. A synonyms file maps terms to their aliases:
+ *
+ *   { "k8s": ["kubernetes", "kube"], "pr": "pull request", "authn": "authentication" }
+ *
+ * Entries work both ways (`kubernetes` also expands to `k8s`). The project
+ * file and the user file are merged. ContentStore searches one query
+ * variant per alias — the matched term swapped for the alias — and fuses
+ * those hits at a lower weight than the original query's.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+import type { SynonymExpansion } from "../types.js";
+
+/** Lowercased term or phrase → its aliases. */
+export type SynonymTable = Map<string, string[]>;
+
+/** Cap on query variants searched per query — each costs a porter + trigram pass. */
+export const MAX_SYNONYM_VARIANTS = 8;
+
+function normalize(term: string): string {
+  return term.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+function link(table: SynonymTable, from: string, to: string): void {
+  if (!from || !to || from === to) return;
+  const list = table.get(from) ?? [];
+  if (!list.includes(to)) list.push(to);
+  table.set(from, list);
+}
+
+/**
+ * Parse synonyms file JSON into a table, adding reverse entries. Values may
+ * be a string or an array of strings; anything else is ignored. Throws on
+ * invalid JSON or a non-object root.
+ */
+export function parseSynonyms(json: string, into: SynonymTable = new Map()): SynonymTable {
+  const parsed = JSON.parse(json) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("synonyms file must be a JSON object of term → alias(es)");
+  }
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const term = normalize(key);
+    const aliases = (Array.isArray(value) ? value : [value])
+      .filter((v): v is string => typeof v === "string")
+      .map(normalize);
+    for (const alias of aliases) {
+      link(into, term, alias);
+      link(into, alias, term);
+    }
+  }
+  return into;
+}
+
+const cache = new Map<string, { mtimeMs: number; table: SynonymTable | null }>();
+
+/**
+ * Load and merge the synonyms files at `paths`, skipping missing or
+ * invalid ones. Each file is re-read only when its mtime changes.
+ */
+export function loadSynonyms(paths: string[]): SynonymTable {
+  const merged: SynonymTable = new Map();
+  for (const path of paths) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(path).mtimeMs;
+    } catch {
+      cache.delete(path);
+      continue;
+    }
+    let entry = cache.get(path);
+    if (!entry || entry.mtimeMs !== mtimeMs) {
+      let table: SynonymTable | null = null;
+      try {
+        table = parseSynonyms(readFileSync(path, "utf-8"));
+      } catch { /* invalid file — treated as empty until fixed */ }
+      entry = { mtimeMs, table };
+      cache.set(path, entry);
+    }
+    for (const [term, aliases] of entry.table ?? []) {
+      for (const alias of aliases) link(merged, term, alias);
+    }
+  }
+  return merged;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whole-word, case-insensitive pattern for a (possibly multi-word) term. */
+function termPattern(term: string): RegExp {
+  const body = term.split(" ").map(escapeRegExp).join("\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, "giu");
+}
+
+/**
+ * Expand `query` with `table`: for every term or phrase of the query that
+ * has aliases, one variant of the query with that term replaced by each
+ * alias (at most MAX_SYNONYM_VARIANTS in total). Longer phrases are matched
+ * first, so `pull request` is not also expanded as `request`.
+ */
+export function expandQuery(
+  query: string,
+  table: SynonymTable,
+): { variants: string[]; expansions: SynonymExpansion[] } {
+  const variants: string[] = [];
+  const expansions: SynonymExpansion[] = [];
+  if (table.size === 0) return { variants, expansions };
+
+  let remaining = query;
+  const terms = [...table.keys()].sort((a, b) => b.split(" ").length - a.split(" ").length || b.length - a.length);
+  for (const term of terms) {
+    if (variants.length >= MAX_SYNONYM_VARIANTS) break;
+    const pattern = termPattern(term);
+    if (!pattern.test(remaining)) continue;
+    // Blank the matched phrase so its words are not expanded again.
+    remaining = remaining.replace(pattern, " ");
+    const applied: string[] = [];
+    for (const alias of table.get(term)!) {
+      if (variants.length >= MAX_SYNONYM_VARIANTS) break;
+      variants.push(query.replace(termPattern(term), alias));
+      applied.push(alias);
+    }
+    expansions.push({ term, synonyms: applied });
+  }
+  return { variants, expansions };
+}
@@ -20,18 +20,25 @@ export interface UnifiedSearchResult {
   title: string;
   content: string;
   source: string;
-  origin: "current-session" | "prior-session" | "auto-memory";
+  origin: "current-session" | "project-kb" | "prior-session" | "auto-memory";
   timestamp?: string;
   rank?: number;
   matchLayer?: string;
   highlighted?: string;
   contentType?: "code" | "prose";
+  /** ContentStore chunk id; durable-KB ids carry DURABLE_CHUNK_ID_PREFIX. */
+  chunkId?: string;
 }
 
+/** Prefix that routes a chunk id to the durable project KB instead of the session store. */
+export const DURABLE_CHUNK_ID_PREFIX = "kb:";
+
 export interface SearchAllSourcesOpts {
   query: string;
   limit: number;
   store: ContentStore;
+  /** Durable project knowledge base (persist:true sources), when one exists. */
+  durableStore?: ContentStore | null;
   sort?: "relevance" | "timeline";
   source?: string;
   contentType?: "code" | "prose";
@@ -60,6 +67,7 @@ export function searchAllSources(opts: SearchAllSourcesOpts): UnifiedSearchResul
     query,
     limit,
     store,
+    durableStore,
     sort = "relevance",
     source,
     contentType,
@@ -89,6 +97,7 @@ export function searchAllSources(opts: SearchAllSourcesOpts): UnifiedSearchResul
         matchLayer: r.matchLayer,
         highlighted: r.highlighted,
         contentType: r.contentType,
+        chunkId: r.chunkId,
       })),
     );
   } catch (e) {
@@ -97,6 +106,29 @@ export function searchAllSources(opts: SearchAllSourcesOpts): UnifiedSearchResul
 
   // ── Sources 2+3: timeline mode only ──
   if (sort === "timeline") {
+    // Source 1b: durable project knowledge base
+    try {
+      if (durableStore) {
+        const kbResults = durableStore.searchWithFallback(query, limit, source, contentType);
+        results.push(
+          ...kbResults.map((r: SearchResult) => ({
+            title: r.title,
+            content: r.content,
+            source: r.source,
+            origin: "project-kb" as const,
+            timestamp: r.timestamp,
+            rank: r.rank,
+            matchLayer: r.matchLayer,
+            highlighted: r.highlighted,
+            contentType: r.contentType,
+            chunkId: r.chunkId && `${DURABLE_CHUNK_ID_PREFIX}${r.chunkId}`,
+          })),
+        );
+      }
+    } catch (e) {
+      if (DEBUG) process.stderr.write(`[ctx] durable KB search failed: ${e}\n`);
+    }
+
     // Source 2: SessionDB — prior session events
     try {
       if (sessionDB) {
@@ -140,3 +172,33 @@ export function searchAllSources(opts: SearchAllSourcesOpts): UnifiedSearchResul
 
   return results.slice(0, limit);
 }
+
+/**
+ * Fuse independently ranked result lists with Reciprocal Rank Fusion.
+ *
+ * Each list is already ordered best-first by its own store; raw BM25 ranks
+ * are not comparable across FTS5 databases, so only list position counts
+ * (score = Σ 1/(K + position), K = 60 as in ContentStore#rrfSearch).
+ * Entries sharing a key are merged — the first list's copy wins.
+ */
+export function fuseRankedLists<T>(
+  lists: T[][],
+  limit: number,
+  keyOf: (item: T) => string,
+): T[] {
+  const K = 60;
+  const fused = new Map<string, { item: T; score: number }>();
+  for (const list of lists) {
+    list.forEach((item, position) => {
+      const key = keyOf(item);
+      const score = 1 / (K + position + 1);
+      const existing = fused.get(key);
+      if (existing) existing.score += score;
+      else fused.set(key, { item, score });
+    });
+  }
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((e) => e.item);
+}
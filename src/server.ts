@@ -4,16 +4,36 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { createRequire } from "node:module";
 import { existsSync, unlinkSync, readdirSync, readFileSync, writeFileSync, renameSync, rmSync, mkdirSync, cpSync, statSync, symlinkSync, lstatSync } from "node:fs";
 import { execSync, spawnSync, type ChildProcess, type SpawnSyncOptions, type SpawnSyncReturns } from "node:child_process";
-import { join, dirname, resolve, sep, isAbsolute } from "node:path";
+import { join, dirname, resolve, relative, sep, isAbsolute } from "node:path";
 import { fileURLToPath } from "node:url";
 import { homedir, tmpdir, cpus } from "node:os";
 import { request as httpsRequest } from "node:https";
 import { AsyncLocalStorage } from "node:async_hooks";
 import { z } from "zod";
 import { PolyglotExecutor } from "./executor.js";
+import { formatResourceLimits, resourceLimitsSupported } from "./resource-limits.js";
+import {
+  buildNodeEgressShim,
+  classifyIp,
+  formatEgressBlock,
+  loadNetworkPolicy,
+  type EgressBlock,
+  type NetworkPolicy,
+} from "./network-policy.js";
+import { EgressProxy, hasUpstreamProxy } from "./egress-proxy.js";
+import { probeReadOnlyMount, readOnlyDefault } from "./read-only.js";
+import { BACKGROUND_OUTPUT_BYTES, formatBackgroundJob, type OutputRing } from "./background-jobs.js";
+// classifyIp moved to network-policy.ts; SSRF tests import it from here.
+export { classifyIp };
 import { runPool, type PoolJob } from "./runPool.js";
-import { ContentStore, cleanupStaleDBs, cleanupStaleContentDBs, type SearchResult, type IndexResult } from "./store.js";
+import { ContentStore, cleanupStaleDBs, cleanupStaleContentDBs, sourceFileState, type LogFilter, type SearchExplain, type SearchResult, type IndexResult, type SourceInfo, type StoreQuota, type TagFilter } from "./store.js";
+import { detectDelimiter, isTablePath } from "./table-chunker.js";
+import { detectStructuredFormat } from "./structured-chunker.js";
+import { isNotebookPath } from "./notebook-chunker.js";
+import { parseTimeBound } from "./log-chunker.js";
+import { countGitLogCommits, gitLogArgs, isSafeRevisionRange } from "./git-chunker.js";
 import { composeFetchCacheKey } from "./fetch-cache.js";
+import { isGlobPattern, walkIndexableFiles } from "./file-walk.js";
 import {
   readBashPolicies,
   evaluateCommandDenyOnly,
@@ -33,11 +53,15 @@ import { hashProjectDirCanonical, hashProjectDirLegacy, resolveContentStorePath,
 import { purgeSession } from "./session/purge.js";
 import {
   emitCacheHitEvent,
+  emitEgressBlockedEvent,
   emitIndexWriteEvent,
   emitSandboxExecuteEvent,
 } from "./session/event-emit.js";
 import { persistToolCallCounter, restoreSessionStats } from "./session/persist-tool-calls.js";
-import { searchAllSources } from "./search/unified.js";
+import { DURABLE_CHUNK_ID_PREFIX, fuseRankedLists, searchAllSources } from "./search/unified.js";
+import { collapseNearDuplicates } from "./search/near-duplicate.js";
+import { federatedRoots, listFederatedDbs, type SearchScope } from "./search/federated.js";
+import { loadSynonyms, type SynonymTable } from "./search/synonyms.js";
 import { buildNodeCommand, type HookAdapter, type PlatformId } from "./adapters/types.js";
 import { detectPlatform, getSessionDirSegments } from "./adapters/detect.js";
 import { resolveCodexConfigDir } from "./adapters/codex/paths.js";
@@ -45,7 +69,7 @@ import { getHookScriptPaths } from "./util/hook-config.js";
 import { resolveClaudeConfigDir } from "./util/claude-config.js";
 import { resolveProjectDir } from "./util/project-dir.js";
 import { loadDatabase } from "./db-base.js";
-import { AnalyticsEngine, formatReport, getConversationStats, getContentBytesAllSessions, getLifetimeStats, getMultiAdapterLifetimeStats, getRealBytesStats, OPUS_INPUT_PRICE_PER_TOKEN } from "./session/analytics.js";
+import { AnalyticsEngine, formatReport, getConversationStats, getContentBytesAllSessions, getLifetimeStats, getMultiAdapterLifetimeStats, getRealBytesStats, kb, OPUS_INPUT_PRICE_PER_TOKEN } from "./session/analytics.js";
 const __pkg_dir = dirname(fileURLToPath(import.meta.url));
 const VERSION: string = (() => {
   for (const rel of ["../package.json", "./package.json"]) {
@@ -313,6 +337,10 @@ server.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
 const executor = new PolyglotExecutor({
   runtimes,
   projectRoot: () => getProjectDir(),
+  // ctx_execute `session` interpreters: closed after this much idle time,
+  // killed past this resident memory.
+  sessionIdleTimeoutMs: (Number(process.env.CONTEXT_MODE_SESSION_IDLE_MIN ?? 10) || 10) * 60 * 1000,
+  sessionMemoryCapMb: Number(process.env.CONTEXT_MODE_SESSION_MAX_MB ?? 1024) || 1024,
 });
 
 // ─────────────────────────────────────────────────────────
@@ -321,16 +349,22 @@ const executor = new PolyglotExecutor({
 // NODE_OPTIONS is denied by the executor's #buildSafeEnv (security).
 // Instead, we inject it as an inline shell env prefix in each batch command.
 // This temp file is loaded via --require when batch commands spawn Node processes.
+// It chains the network egress shim, which the inline NODE_OPTIONS would
+// otherwise replace (see sandboxNetwork).
 const CM_FS_PRELOAD = join(tmpdir(), `cm-fs-preload-${process.pid}.js`);
+const CM_EGRESS_PRELOAD = join(tmpdir(), `cm-egress-preload-${process.pid}.js`);
 writeFileSync(
   CM_FS_PRELOAD,
-  `(function(){var __cm_fs=0;process.on('exit',function(){if(__cm_fs>0)try{process.stderr.write('__CM_FS__:'+__cm_fs+'\\n')}catch(e){}});try{var f=require('fs');var ors=f.readFileSync;f.readFileSync=function(){var r=ors.apply(this,arguments);if(Buffer.isBuffer(r))__cm_fs+=r.length;else if(typeof r==='string')__cm_fs+=Buffer.byteLength(r);return r;};}catch(e){}})();\n`,
+  `try{require(${JSON.stringify(CM_EGRESS_PRELOAD)})}catch(e){}\n(function(){var __cm_fs=0;process.on('exit',function(){if(__cm_fs>0)try{process.stderr.write('__CM_FS__:'+__cm_fs+'\\n')}catch(e){}});try{var f=require('fs');var ors=f.readFileSync;f.readFileSync=function(){var r=ors.apply(this,arguments);if(Buffer.isBuffer(r))__cm_fs+=r.length;else if(typeof r==='string')__cm_fs+=Buffer.byteLength(r);return r;};}catch(e){}})();\n`,
 );
 // In the stdio MCP path, main() also removes this file during graceful
 // shutdown. Plugin-native OpenCode/Kilo imports skip main() (#574), so
 // register a top-level best-effort cleanup too to avoid leaking preload
 // snippets under /tmp when the host process exits.
-process.on("exit", () => { try { unlinkSync(CM_FS_PRELOAD); } catch { /* best effort */ } });
+process.on("exit", () => {
+  try { unlinkSync(CM_FS_PRELOAD); } catch { /* best effort */ }
+  try { unlinkSync(CM_EGRESS_PRELOAD); } catch { /* best effort */ }
+});
 
 // Lazy singleton — no DB overhead unless index/search is used
 let _store: ContentStore | null = null;
@@ -592,6 +626,182 @@ function getStorePath(): string {
   return resolveContentStorePath({ projectDir: getProjectDir(), contentDir: dir });
 }
 
+/**
+ * Synonyms for query expansion (see ContentStore.setSynonymSource): the
+ * project file `.context-mode/synonyms.json` merged with the user file
+ * `synonyms.json` in the platform's context-mode dir. Files are re-read
+ * only when they change.
+ */
+function currentSynonyms(): SynonymTable {
+  try {
+    return loadSynonyms([
+      join(getProjectDir(), ".context-mode", "synonyms.json"),
+      join(dirname(getSessionDir()), "synonyms.json"),
+    ]);
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Network egress policy for sandboxed code (see network-policy.ts): the
+ * user file `network.json` in the platform's context-mode dir, narrowed by
+ * the project file `.context-mode/network.json`, or null when neither
+ * exists and sandboxed code runs unrestricted.
+ */
+function currentNetworkPolicy(): NetworkPolicy | null {
+  try {
+    return loadNetworkPolicy(
+      join(dirname(getSessionDir()), "network.json"),
+      join(getProjectDir(), ".context-mode", "network.json"),
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** Record blocked connections as session events. */
+function reportEgressBlocks(toolName: string, blocked: EgressBlock[]): void {
+  for (const block of blocked) {
+    setImmediate(() =>
+      emitEgressBlockedEvent({ sessionDbPath: getSessionDbPath(), toolName, ...block }),
+    );
+  }
+}
+
+const egressProxy = new EgressProxy({
+  policy: () => currentNetworkPolicy() ?? { allow: [], deny: [] },
+  onBlocked: (block) => reportEgressBlocks("egress-proxy", [block]),
+});
+let egressPreloadSource = "";
+
+/** Network policy wiring for one sandboxed run (see sandboxNetwork). */
+export interface SandboxNetwork {
+  /** Extra sandbox env: the egress shim preload and the proxy variables. */
+  env: Record<string, string>;
+  /** End the run: the connections blocked during it, recorded as session events. */
+  finish(): EgressBlock[];
+  /** Why the policy is only partly enforced for this run, shown with its output. */
+  notice?: string;
+}
+
+const EGRESS_PARTIAL = "only Node processes are checked; other clients are not restricted and blocks are not reported";
+
+/**
+ * Network policy wiring for one ctx_execute / ctx_execute_file /
+ * ctx_batch_execute run. Without a policy file it is empty. Otherwise
+ * NODE_OPTIONS loads the egress shim into every Node process, and the proxy
+ * variables route other HTTP clients through the local egress proxy, which
+ * collects the run's blocks. The proxy is skipped when the server itself
+ * runs behind a proxy, which it cannot chain to; the run's notice says so.
+ */
+async function sandboxNetwork(toolName: string): Promise<SandboxNetwork> {
+  const policy = currentNetworkPolicy();
+  // Rewritten (emptied) when the policy goes away too: batch commands
+  // still load the preload through CM_FS_PRELOAD.
+  const source = policy ? buildNodeEgressShim(policy) : "";
+  if (source !== egressPreloadSource) {
+    writeFileSync(CM_EGRESS_PRELOAD, source);
+    egressPreloadSource = source;
+  }
+  if (!policy) return { env: {}, finish: () => [] };
+  const env = { NODE_OPTIONS: `--require ${JSON.stringify(CM_EGRESS_PRELOAD)}` };
+  if (hasUpstreamProxy()) {
+    return { env, finish: () => [], notice: `[network policy] the server runs behind a proxy: ${EGRESS_PARTIAL}` };
+  }
+  try {
+    const port = await egressProxy.start();
+    const run = egressProxy.beginRun();
+    return {
+      env: { ...env, ...EgressProxy.env(port, run) },
+      finish: () => {
+        const blocked = egressProxy.endRun(run);
+        reportEgressBlocks(toolName, blocked);
+        return blocked;
+      },
+    };
+  } catch {
+    return { env, finish: () => [], notice: `[network policy] the egress proxy could not start: ${EGRESS_PARTIAL}` };
+  }
+}
+
+/**
+ * End `network`'s run and append a readable note per block to stdout, so
+ * blocks are seen even when the code caught the connection error, plus
+ * the run's notice.
+ */
+function surfaceEgressBlocks(network: SandboxNetwork, result: { stdout: string }): void {
+  const lines = [...network.finish().map(formatEgressBlock), ...(network.notice ? [network.notice] : [])];
+  if (lines.length === 0) return;
+  const notes = lines.join("\n");
+  result.stdout = result.stdout ? `${result.stdout.replace(/\n?$/, "\n")}${notes}\n` : `${notes}\n`;
+}
+
+/** Deny checker for stale-source auto-refresh (see ContentStore.setDenyChecker). */
+function isRefreshDenied(filePath: string): boolean {
+  try {
+    const projectDir = getProjectDir();
+    const denyGlobs = readToolDenyPatterns("Read", projectDir);
+    const r = evaluateFilePath(
+      filePath,
+      denyGlobs,
+      process.platform === "win32",
+      projectDir,
+    );
+    return r.denied;
+  } catch {
+    // Fail-closed for refresh: skip on error rather than re-read.
+    return true;
+  }
+}
+
+/**
+ * Size quota for each content store (session and durable). Past either
+ * limit, least-recently-searched sources are evicted (see
+ * ContentStore.setQuota). Opt-in: unset or 0 disables a limit, so existing
+ * knowledge bases never lose sources without the user asking for it.
+ */
+const STORE_QUOTA: StoreQuota = {
+  maxBytes: (Number(process.env.CONTEXT_MODE_STORE_MAX_MB ?? 0) || 0) * 1024 * 1024,
+  maxChunks: Number(process.env.CONTEXT_MODE_STORE_MAX_CHUNKS ?? 0) || 0,
+};
+
+/**
+ * One-line notice for sources evicted by the quota since the last tool
+ * response, or "" when there were none.
+ */
+function takeEvictionNotice(): string {
+  const evicted = [
+    ...(_store?.takeEvictions() ?? []),
+    ...(_durableStore?.takeEvictions() ?? []),
+  ];
+  if (evicted.length === 0) return "";
+  const bytes = evicted.reduce((n, e) => n + e.bytes, 0);
+  const shown = evicted.slice(0, 5).map((e) => e.label).join(", ");
+  const more = evicted.length > 5 ? ` and ${evicted.length - 5} more` : "";
+  return `> Knowledge base quota: evicted ${evicted.length} least-recently-used source${evicted.length === 1 ? "" : "s"} (${kb(bytes)}): ${shown}${more}`;
+}
+
+/**
+ * ctx_stats lines for the open stores' size against the quota and the
+ * sources evicted this session, or "" when no store is open.
+ */
+function formatQuotaStatus(): string {
+  const lines: string[] = [];
+  const limit = (used: string, max: number, fmt: (n: number) => string) =>
+    max > 0 ? `${used} / ${fmt(max)}` : used;
+  for (const [name, store] of [["Session knowledge base", _store], ["Project knowledge base", _durableStore]] as const) {
+    if (!store) continue;
+    try {
+      const u = store.getQuotaUsage();
+      let line = `${name}: ${limit(kb(u.bytes), u.maxBytes, kb)} · ${limit(String(u.chunks), u.maxChunks, String)} chunks`;
+      if (u.evictedSources > 0) line += ` · ${u.evictedSources} LRU source${u.evictedSources === 1 ? "" : "s"} evicted (${kb(u.evictedBytes)})`;
+      lines.push(line);
+    } catch { /* never block ctx_stats */ }
+  }
+  return lines.join("\n");
+}
+
 function getStore(): ContentStore {
   if (!_store) {
     // Content DB cleanup on fresh start is handled by SessionStart hook.
@@ -602,22 +812,9 @@ function getStore(): ContentStore {
     // Wire deny-policy hook: store re-checks the Read deny list before
     // re-reading any file_path during auto-refresh. Catches policy edits
     // made after a file was originally indexed. See #442 round-3.
-    _store.setDenyChecker((filePath: string) => {
-      try {
-        const projectDir = getProjectDir();
-        const denyGlobs = readToolDenyPatterns("Read", projectDir);
-        const r = evaluateFilePath(
-          filePath,
-          denyGlobs,
-          process.platform === "win32",
-          projectDir,
-        );
-        return r.denied;
-      } catch {
-        // Fail-closed for refresh: skip on error rather than re-read.
-        return true;
-      }
-    });
+    _store.setDenyChecker(isRefreshDenied);
+    _store.setSynonymSource(currentSynonyms);
+    try { _store.setQuota(STORE_QUOTA); } catch { /* best-effort */ }
 
     // One-time startup cleanup: remove stale content DBs (>14 days)
     try {
@@ -636,6 +833,229 @@ function getStore(): ContentStore {
   return _store;
 }
 
+// ─────────────────────────────────────────────────────────
+// Durable project knowledge base — opt-in via `persist: true`
+// ─────────────────────────────────────────────────────────
+
+// Sources indexed with persist:true live in a second store under
+// .../context-mode/kb/<hash>.db. The kb/ dir is outside content/, so
+// cleanupStaleContentDBs and the 14-day cleanupStaleSources sweep never
+// touch it; retention is governed by the limits below instead.
+let _durableStore: ContentStore | null = null;
+
+/** Sources older than this are dropped when the durable store opens. */
+const DURABLE_KB_MAX_AGE_DAYS = Number(process.env.CONTEXT_MODE_KB_MAX_AGE_DAYS) || 90;
+/** Oldest sources beyond this count are dropped after each persisted index. */
+const DURABLE_KB_MAX_SOURCES = Number(process.env.CONTEXT_MODE_KB_MAX_SOURCES) || 500;
+
+function getDurableKbDir(): string {
+  return join(dirname(getSessionDir()), "kb");
+}
+
+function getDurableStorePath(): string {
+  return join(getDurableKbDir(), `${hashProjectDirCanonical(getProjectDir())}.db`);
+}
+
+/**
+ * Open the durable store. With `create: false` (the search path) returns
+ * null when nothing has ever been persisted for this project, so plain
+ * ctx_search never creates an empty kb file.
+ */
+function getDurableStore(opts: { create: boolean } = { create: true }): ContentStore | null {
+  if (!_durableStore) {
+    const dbPath = getDurableStorePath();
+    if (!opts.create && !existsSync(dbPath)) return null;
+    mkdirSync(dirname(dbPath), { recursive: true });
+    _durableStore = new ContentStore(dbPath);
+    _durableStore.setDenyChecker(isRefreshDenied);
+    _durableStore.setSynonymSource(currentSynonyms);
+    try { _durableStore.setQuota(STORE_QUOTA); } catch { /* best-effort */ }
+    try {
+      _durableStore.cleanupStaleSources(DURABLE_KB_MAX_AGE_DAYS);
+      _durableStore.trimToMaxSources(DURABLE_KB_MAX_SOURCES);
+    } catch { /* best-effort */ }
+  }
+  return _durableStore;
+}
+
+/** Pick the store a write goes to: durable for persist:true, else session. */
+function getTargetStore(persist: boolean | undefined): ContentStore {
+  return persist ? getDurableStore()! : getStore();
+}
+
+/** Apply the source-count retention limit after a persisted write. */
+function enforceDurableRetention(persist: boolean | undefined): void {
+  if (!persist || !_durableStore) return;
+  try { _durableStore.trimToMaxSources(DURABLE_KB_MAX_SOURCES); } catch { /* best-effort */ }
+}
+
+/** A read-only store opened for ctx_search `scope`, tagged with its origin DB. */
+interface FederatedStore {
+  store: ContentStore;
+  origin: string;
+}
+
+/**
+ * Open the content / KB DBs outside this process that fall within `scope`
+ * (see search/federated.ts), read-only. DBs that fail to open — locked,
+ * corrupt, or from a release too old to search — are counted in `skipped`.
+ * Callers must close every returned store.
+ */
+function openFederatedStores(scope: SearchScope): { stores: FederatedStore[]; skipped: number } {
+  const projectDir = getProjectDir();
+  const dbs = listFederatedDbs({
+    roots: federatedRoots({ name: detectPlatform().platform, root: dirname(getSessionDir()) }),
+    scope,
+    projectHashes: [hashProjectDirCanonical(projectDir), hashProjectDirLegacy(projectDir)],
+    exclude: [getStorePath(), getDurableStorePath()],
+  });
+  const stores: FederatedStore[] = [];
+  let skipped = 0;
+  for (const db of dbs) {
+    try {
+      const store = new ContentStore(db.path, { readonly: true });
+      store.setSynonymSource(currentSynonyms);
+      stores.push({ store, origin: db.origin });
+    } catch {
+      skipped++;
+    }
+  }
+  return { stores, skipped };
+}
+
+/**
+ * Relevance search over the session store merged with the durable project
+ * store. Each store ranks its own hits; the two lists are fused by
+ * reciprocal rank so neither store's BM25 scale dominates. Durable hits
+ * are tagged `project-kb` in the result header, `federated` store hits
+ * with their origin DB. Near-duplicates across stores collapse into the
+ * freshest copy.
+ */
+function searchSessionAndDurable(
+  query: string,
+  limit: number,
+  source?: string,
+  contentType?: "code" | "prose",
+  explain: boolean = false,
+  logFilter?: LogFilter,
+  tagFilter?: TagFilter,
+  federated: FederatedStore[] = [],
+): Array<SearchResult & { origin?: string }> {
+  const session = getStore().searchWithFallback(query, limit, source, contentType, "like", explain, logFilter, tagFilter);
+  const lists: Array<Array<SearchResult & { origin?: string }>> = [session];
+  const durable = getDurableStore({ create: false });
+  if (durable) {
+    lists.push(durable
+      .searchWithFallback(query, limit, source, contentType, "like", explain, logFilter, tagFilter)
+      .map((r) => ({ ...r, origin: "project-kb", chunkId: r.chunkId && `${DURABLE_CHUNK_ID_PREFIX}${r.chunkId}` })));
+  }
+  for (const { store, origin } of federated) {
+    // Chunk ids are only resolvable in this process's own stores.
+    lists.push(store
+      .searchWithFallback(query, limit, source, contentType, "like", explain, logFilter, tagFilter)
+      .map((r) => ({ ...r, origin, chunkId: undefined })));
+  }
+  const others = lists.slice(1).filter((l) => l.length > 0);
+  if (others.length === 0) return session;
+  // The same section indexed in two stores (persisted to the project KB and
+  // also fetched this session, or fetched on two platforms) is a
+  // near-duplicate across stores — collapse after fusing, then cut.
+  return collapseNearDuplicates(
+    fuseRankedLists([session, ...others], limit * 2, (r) => `${r.source}::${r.title}`),
+  ).slice(0, limit);
+}
+
+/** File paths of a git result, capped so a sweeping commit does not swamp the header. */
+function formatGitFiles(files: string[]): string {
+  const shown = files.slice(0, 8).join(", ");
+  return files.length > 8 ? `${shown} (+${files.length - 8} more)` : shown;
+}
+
+/** One-line-per-signal rendering of a SearchExplain for ctx_search explain mode. */
+function formatExplain(e: SearchExplain, matchLayer: string | undefined): string {
+  const list = (rank: number | null, bm25: number | null) =>
+    rank === null ? "—" : `#${rank} (bm25 ${bm25?.toFixed(3)})`;
+  const boost = (v: number) => `+${v.toFixed(3)}`;
+  const lines = [
+    `> explain: layer ${matchLayer ?? "rrf"} · porter ${list(e.porterRank, e.porterBm25)} · trigram ${list(e.trigramRank, e.trigramBm25)}` +
+      `${e.languageRank === null ? "" : ` · language #${e.languageRank}`}` +
+      `${e.synonymRank === null ? "" : ` · synonyms #${e.synonymRank}`} · rrf ${e.rrfScore.toFixed(4)}`,
+    `> boosts: title ${boost(e.titleBoost)} · proximity ${boost(e.proximityBoost)} · phrase ${boost(e.phraseBoost)} = ${boost(e.titleBoost + e.proximityBoost + e.phraseBoost)}`,
+  ];
+  if (e.fuzzyCorrections.length > 0) {
+    lines.push(`> fuzzy: ${e.fuzzyCorrections.map((c) => `${c.from} → ${c.to}`).join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * ctx_search retrieval mode: the full chunk behind a result's chunkId plus
+ * up to `neighbors` chunks either side from the same source. Neighbors are
+ * added nearest-first until `maxBytes` is reached, so the requested chunk
+ * is always shown (truncated only if it alone exceeds the cap).
+ */
+function formatChunkWindow(chunkId: string, neighbors: number, maxBytes: number): string | null {
+  const durable = chunkId.startsWith(DURABLE_CHUNK_ID_PREFIX);
+  const store = durable ? getDurableStore({ create: false }) : getStore();
+  const window = store?.getChunkWithNeighbors(
+    durable ? chunkId.slice(DURABLE_CHUNK_ID_PREFIX.length) : chunkId,
+    neighbors,
+  );
+  if (!window) return null;
+
+  const prefix = durable ? DURABLE_CHUNK_ID_PREFIX : "";
+  const render = (c: SearchResult) => {
+    const marker = `${prefix}${c.chunkId}` === chunkId ? " | requested" : "";
+    return `--- [chunkId ${prefix}${c.chunkId}${marker}] ---\n### ${c.title}\n\n${c.content}`;
+  };
+
+  const target = window.chunks.findIndex((c) => `${prefix}${c.chunkId}` === chunkId);
+  let first = render(window.chunks[target]);
+  if (Buffer.byteLength(first) > maxBytes) {
+    first = Buffer.from(first).subarray(0, maxBytes).toString("utf-8") + "\n… (truncated at output cap)";
+  }
+  const parts = [first];
+  let used = Buffer.byteLength(first);
+  // Grow outward one chunk per side at a time; a side stops at the first
+  // chunk that would overflow so the shown window stays contiguous.
+  let lo = target;
+  let hi = target;
+  let loOpen = lo > 0;
+  let hiOpen = hi < window.chunks.length - 1;
+  while (loOpen || hiOpen) {
+    if (loOpen) {
+      const text = render(window.chunks[lo - 1]);
+      if (used + Buffer.byteLength(text) > maxBytes) {
+        loOpen = false;
+      } else {
+        parts.unshift(text);
+        used += Buffer.byteLength(text);
+        lo--;
+        loOpen = lo > 0;
+      }
+    }
+    if (hiOpen) {
+      const text = render(window.chunks[hi + 1]);
+      if (used + Buffer.byteLength(text) > maxBytes) {
+        hiOpen = false;
+      } else {
+        parts.push(text);
+        used += Buffer.byteLength(text);
+        hi++;
+        hiOpen = hi < window.chunks.length - 1;
+      }
+    }
+  }
+  const omitted = window.chunks.length - parts.length;
+
+  const from = window.index - target + lo + 1;
+  const to = window.index - target + hi + 1;
+  let out = `## ${window.source} — chunk ${window.index + 1} of ${window.totalChunks} (showing ${from}–${to})\n\n` +
+    parts.join("\n\n");
+  if (omitted > 0) out += `\n\n(${omitted} neighbor chunk${omitted > 1 ? "s" : ""} omitted — output cap reached)`;
+  return out;
+}
+
 // ─────────────────────────────────────────────────────────
 // Session stats — track context consumption per tool
 // ─────────────────────────────────────────────────────────
@@ -772,6 +1192,12 @@ function trackResponse(toolName: string, response: ToolResult): ToolResult {
       response.content[0].text;
   }
 
+  // Report quota evictions caused by this or an earlier call.
+  const evictionNotice = takeEvictionNotice();
+  if (evictionNotice && response.content.length > 0) {
+    response.content[response.content.length - 1].text += `\n\n${evictionNotice}`;
+  }
+
   const bytes = response.content.reduce(
     (sum, c) => sum + Buffer.byteLength(c.text),
     0,
@@ -1011,15 +1437,13 @@ function checkNonShellDenyPolicy(
 }
 
 /**
- * Check a file path against Read deny patterns.
- * Returns an error ToolResult if denied, or null if allowed.
+ * Match a file path against Read deny patterns without producing a
+ * response. Returns the matched pattern, or null if allowed. Used directly
+ * by bulk paths (directory ctx_index) that skip denied files instead of
+ * failing the whole call.
  */
-function checkFilePathDenyPolicy(
-  filePath: string,
-  toolName: string,
-): ToolResult | null {
+function matchFilePathDenyPattern(filePath: string, projectDir: string): string | null {
   try {
-    const projectDir = getProjectDir();
     const denyGlobs = readToolDenyPatterns("Read", projectDir);
     const result = evaluateFilePath(
       filePath,
@@ -1027,21 +1451,34 @@ function checkFilePathDenyPolicy(
       process.platform === "win32",
       projectDir,
     );
-    if (result.denied) {
-      return trackResponse(toolName, {
-        content: [{
-          type: "text" as const,
-          text: `File access blocked by security policy: path matches Read deny pattern ${result.matchedPattern}`,
-        }],
-        isError: true,
-      });
-    }
+    if (result.denied) return result.matchedPattern ?? "(unknown)";
   } catch {
     // Fail-open
   }
   return null;
 }
 
+/**
+ * Check a file path against Read deny patterns.
+ * Returns an error ToolResult if denied, or null if allowed.
+ */
+function checkFilePathDenyPolicy(
+  filePath: string,
+  toolName: string,
+): ToolResult | null {
+  const matchedPattern = matchFilePathDenyPattern(filePath, getProjectDir());
+  if (matchedPattern) {
+    return trackResponse(toolName, {
+      content: [{
+        type: "text" as const,
+        text: `File access blocked by security policy: path matches Read deny pattern ${matchedPattern}`,
+      }],
+      isError: true,
+    });
+  }
+  return null;
+}
+
 // Build description dynamically based on detected runtimes
 const langList = available.join(", ");
 const bunNote = hasBunRuntime()
@@ -1226,11 +1663,26 @@ export interface BatchRunOptions {
   timeout: number | undefined;
   concurrency: number;
   nodeOptsPrefix: string;
+  /** Network policy wiring, set up per command so blocks are noted under it. */
+  network?: () => Promise<SandboxNetwork>;
+  /**
+   * Run the commands with the project mounted read-only (see read-only.ts).
+   * Changed files are not reported per command: the caller snapshots the
+   * project once around the batch.
+   */
+  readOnly?: boolean;
   onFsBytes?: (bytes: number) => void;
 }
 
 interface BatchExecutor {
-  execute(input: { language: "shell"; code: string; timeout: number | undefined }): Promise<{ stdout: string; timedOut?: boolean }>;
+  execute(input: {
+    language: "shell";
+    code: string;
+    timeout: number | undefined;
+    env?: Record<string, string>;
+    readOnly?: boolean;
+    reportChanges?: boolean;
+  }): Promise<{ stdout: string; timedOut?: boolean }>;
 }
 
 function quotePosixSingle(value: string): string {
@@ -1257,8 +1709,18 @@ export function buildBatchNodeOptionsPrefix(shellPath: string, preloadPath: stri
   return `NODE_OPTIONS=${quotePosixSingle(option)} `;
 }
 
-function formatCommandOutput(label: string, raw: string, onFsBytes?: (bytes: number) => void): string {
+function formatCommandOutput(
+  label: string,
+  raw: string,
+  onFsBytes?: (bytes: number) => void,
+  blocked: EgressBlock[] = [],
+  notice?: string,
+): string {
   let output = raw || "(no output)";
+  const notes = [...blocked.map(formatEgressBlock), ...(notice ? [notice] : [])];
+  if (notes.length > 0) {
+    output = `${output.replace(/\n?$/, "\n")}${notes.join("\n")}`;
+  }
   const fsMatches = output.matchAll(/__CM_FS__:(\d+)/g);
   let cmdFsBytes = 0;
   for (const m of fsMatches) cmdFsBytes += parseInt(m[1]);
@@ -1281,7 +1743,7 @@ export async function runBatchCommands(
   opts: BatchRunOptions,
   executor: BatchExecutor,
 ): Promise<BatchRunResult> {
-  const { timeout, concurrency, nodeOptsPrefix, onFsBytes } = opts;
+  const { timeout, concurrency, nodeOptsPrefix, network, readOnly, onFsBytes } = opts;
 
   if (concurrency <= 1) {
     // Serial path — shared timeout budget, cascading skip on timeout.
@@ -1303,12 +1765,15 @@ export async function runBatchCommands(
         }
         perCmdTimeout = remaining;
       }
+      const net = await network?.();
       const result = await executor.execute({
         language: "shell",
         code: `${nodeOptsPrefix}${cmd.command} 2>&1`,
         timeout: perCmdTimeout,
+        ...(net ? { env: net.env } : {}),
+        ...(readOnly ? { readOnly, reportChanges: false } : {}),
       });
-      outputs.push(formatCommandOutput(cmd.label, result.stdout, onFsBytes));
+      outputs.push(formatCommandOutput(cmd.label, result.stdout, onFsBytes, net?.finish(), net?.notice));
       if (result.timedOut) {
         timedOut = true;
         for (let j = i + 1; j < commands.length; j++) {
@@ -1325,14 +1790,17 @@ export async function runBatchCommands(
   // throw isolation (Promise.allSettled semantics), and order preservation.
   const jobs: PoolJob<{ output: string; timedOut: boolean }>[] = commands.map((cmd) => ({
     run: async () => {
+      const net = await network?.();
       const result = await executor.execute({
         language: "shell",
         code: `${nodeOptsPrefix}${cmd.command} 2>&1`,
         timeout,
+        ...(net ? { env: net.env } : {}),
+        ...(readOnly ? { readOnly, reportChanges: false } : {}),
       });
       // Always route partial stdout through formatCommandOutput so __CM_FS__
       // markers are stripped + counted, even when the command timed out.
-      const formatted = formatCommandOutput(cmd.label, result.stdout, onFsBytes);
+      const formatted = formatCommandOutput(cmd.label, result.stdout, onFsBytes, net?.finish(), net?.notice);
       const output = result.timedOut
         ? formatted.replace(/\n$/, "") + `\n(timed out after ${timeout ?? "?"}ms)\n`
         : formatted;
@@ -1402,6 +1870,22 @@ server.registerTool(
         .optional()
         .default(false)
         .describe("Keep process running after timeout (for servers/daemons). Returns partial output without killing the process. IMPORTANT: Do NOT add setTimeout/self-close timers in background scripts — the process must stay alive until the timeout detaches it. For server+fetch patterns, prefer putting both server and fetch in ONE ctx_execute call instead of using background."),
+      session: z
+        .string()
+        .optional()
+        .describe(
+          "Run in a named persistent interpreter (javascript, python, ruby) whose variables, imports and functions survive between calls — " +
+          "load a dataset once, then query it in later calls with the same session name. " +
+          "Closed after 10 min idle or when it exceeds the memory cap; the next call then starts fresh and says so. " +
+          "In javascript, top-level const/let/class/function persist and can be declared again in a later call, except in code using await — assign to globalThis there.",
+        ),
+      readOnly: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe(
+          "Analysis only: mount the project directory read-only for this run (Linux) and report any project files it changed. " +
+          "Off by default unless CONTEXT_MODE_READ_ONLY=1. Not available with session.",
+        ),
       intent: z
         .string()
         .optional()
@@ -1413,7 +1897,7 @@ server.registerTool(
         ),
     }),
   },
-  async ({ language, code, timeout, background, intent }) => {
+  async ({ language, code, timeout, background, session, readOnly, intent }) => {
     // Security: deny-only firewall
     if (language === "shell") {
       const denied = checkDenyPolicy(code, "execute");
@@ -1425,13 +1909,19 @@ server.registerTool(
 
     try {
       // For JS/TS: wrap in async IIFE with fetch + http/https interceptors to track network bytes
+      // Session code runs inside a long-lived interpreter, where the
+      // per-process instrumentation below (exit hooks, IIFE scope) does not fit.
       let instrumentedCode = code;
-      if (language === "javascript" || language === "typescript") {
+      const network = await sandboxNetwork("ctx_execute");
+      const policy = currentNetworkPolicy();
+      if ((language === "javascript" || language === "typescript") && !session) {
         // Wrap user code in a closure that shadows CJS require with http/https interceptor.
         // globalThis.require does NOT work because CJS require is module-scoped, not global.
         // The closure approach (function(__cm_req){ var require=...; })(require) correctly
         // shadows the CJS require for all code inside, including __cm_main().
-        instrumentedCode = `
+        // The egress shim also loads through NODE_OPTIONS; inlining it covers
+        // runtimes that ignore NODE_OPTIONS (Bun).
+        instrumentedCode = `${policy ? buildNodeEgressShim(policy) : ""}
 // FS read instrumentation — count bytes read via fs.readFileSync/readFile
 let __cm_fs=0;
 process.on('exit',()=>{if(__cm_fs>0)try{process.stderr.write('__CM_FS__:'+__cm_fs+'\\n')}catch{}});
@@ -1491,7 +1981,19 @@ ${code}
 __cm_main().catch(e=>{console.error(e);process.exitCode=1});${background ? '\nsetInterval(()=>{},2147483647);' : ''}
 })(typeof require!=='undefined'?require:null);`;
       }
-      const result = await executor.execute({ language, code: instrumentedCode, timeout, background });
+      const result = await executor.execute({
+        language,
+        code: instrumentedCode,
+        timeout,
+        background,
+        command: code,
+        session,
+        // NODE_OPTIONS does not reach Bun, so a JS session runs the shim itself.
+        sessionPrelude: policy && language === "javascript" ? buildNodeEgressShim(policy) : undefined,
+        env: network.env,
+        readOnly: readOnly ?? (session === undefined && readOnlyDefault("execute")),
+      });
+      surfaceEgressBlocks(network, result);
 
       // Parse sandbox network metrics from stderr
       const netMatch = result.stderr?.match(/__CM_NET__:(\d+)/);
@@ -1510,13 +2012,15 @@ __cm_main().catch(e=>{console.error(e);process.exitCode=1});${background ? '\nse
 
       if (result.timedOut) {
         const partialOutput = result.stdout?.trim();
-        if (result.backgrounded && partialOutput) {
+        if (result.backgrounded) {
           // Background mode: process is still running, return partial output as success
+          const note = `_(process backgrounded after ${timeout}ms — still running as job #${result.jobId}; ` +
+            `ctx_processes to tail its output or terminate it)_`;
           return trackResponse("ctx_execute", {
             content: [
               {
                 type: "text" as const,
-                text: `${partialOutput}\n\n_(process backgrounded after ${timeout}ms — still running)_`,
+                text: partialOutput ? `${partialOutput}\n\n${note}` : note,
               },
             ],
           });
@@ -1623,7 +2127,9 @@ function indexStdout(
     content: [
       {
         type: "text" as const,
-        text: `Indexed ${indexed.totalChunks} sections (${indexed.codeChunks} with code) from: ${indexed.label}\nUse ctx_search(queries: ["..."]) to query this content. Use source: "${indexed.label}" to scope results.`,
+        text: `Indexed ${indexed.totalChunks} sections (${indexed.codeChunks} with code) from: ${indexed.label}\n` +
+          (indexed.summary ? `Summary: ${indexed.summary}\n` : "") +
+          `Use ctx_search(queries: ["..."]) to query this content. Use source: "${indexed.label}" to scope results.`,
       },
     ],
   };
@@ -1658,6 +2164,7 @@ function intentSearch(
   if (results.length === 0) {
     const lines = [
       `Indexed ${indexed.totalChunks} sections from "${source}" into knowledge base.`,
+      ...(indexed.summary ? [`Summary: ${indexed.summary}`] : []),
       `No sections matched intent "${intent}" in ${totalLines}-line output (${(totalBytes / 1024).toFixed(1)}KB).`,
     ];
     if (distinctiveTerms.length > 0) {
@@ -1672,6 +2179,7 @@ function intentSearch(
   // Return ONLY titles + first-line previews — not full content
   const lines = [
     `Indexed ${indexed.totalChunks} sections from "${source}" into knowledge base.`,
+    ...(indexed.summary ? [`Summary: ${indexed.summary}`] : []),
     `${results.length} sections matched "${intent}" (${totalLines} lines, ${(totalBytes / 1024).toFixed(1)}KB):`,
     "",
   ];
@@ -1701,7 +2209,7 @@ server.registerTool(
   {
     title: "Execute File Processing",
     description:
-      "Read a file and process it without loading contents into context. The file is read into a FILE_CONTENT variable inside the sandbox. Only your printed summary enters context.\n\nPREFER THIS OVER Read/cat for: log files, data files (CSV, JSON, XML), large source files for analysis, and any file where you need to extract specific information rather than read the entire content.\n\nTHINK IN CODE: Write code that processes FILE_CONTENT and console.log() only the answer. Don't read files into context to analyze mentally. Write robust, pure JavaScript — no npm deps, try/catch, null-safe. Node.js + Bun compatible.",
+      "Read a file and process it without loading contents into context. The file is read into a FILE_CONTENT variable inside the sandbox. Only your printed summary enters context.\n\nPREFER THIS OVER Read/cat for: log files, data files (CSV, JSON, XML), large source files for analysis, and any file where you need to extract specific information rather than read the entire content.\n\nNOTEBOOKS: for .ipynb files, JavaScript/TypeScript and Python also get CELLS — a list of {index, type, source, outputs} parsed from the notebook.\n\nTHINK IN CODE: Write code that processes FILE_CONTENT and console.log() only the answer. Don't read files into context to analyze mentally. Write robust, pure JavaScript — no npm deps, try/catch, null-safe. Node.js + Bun compatible.",
     inputSchema: z.object({
       path: z
         .string()
@@ -1738,9 +2246,16 @@ server.registerTool(
           "What you're looking for in the output. When provided and output is large (>5KB), " +
           "returns only matching sections via BM25 search instead of truncated output.",
         ),
+      readOnly: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe(
+          "Mount the project directory read-only for this run (Linux) and report any project files it changed. " +
+          "Off by default unless CONTEXT_MODE_READ_ONLY=1.",
+        ),
     }),
   },
-  async ({ path, language, code, timeout, intent }) => {
+  async ({ path, language, code, timeout, intent, readOnly }) => {
     // Security: check file path against Read deny patterns
     const pathDenied = checkFilePathDenyPolicy(path, "ctx_execute_file");
     if (pathDenied) return pathDenied;
@@ -1755,12 +2270,16 @@ server.registerTool(
     }
 
     try {
+      const network = await sandboxNetwork("ctx_execute_file");
       const result = await executor.executeFile({
         path,
         language,
         code,
         timeout,
+        env: network.env,
+        readOnly: readOnly ?? readOnlyDefault("execute"),
       });
+      surfaceEgressBlocks(network, result);
 
       if (result.timedOut) {
         return trackResponse("ctx_execute_file", {
@@ -1842,6 +2361,111 @@ server.registerTool(
 // Tool: index
 // ─────────────────────────────────────────────────────────
 
+function isDirectoryPath(p: string): boolean {
+  try {
+    return statSync(p).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** `tags` / `pinned` params shared by the indexing tools (see applySourceTags). */
+const sourceTagsParam = z.preprocess(coerceJsonArray, z
+  .array(z.string())
+  .optional()
+  .describe("Tags for the indexed source(s), e.g. ['api', 'billing']. Filter with ctx_search tags."));
+const pinnedParam = z
+  .preprocess(coerceBoolean, z.boolean())
+  .optional()
+  .describe("Pin the source(s): exempt from age cleanup, size-quota eviction and session purge.");
+
+/**
+ * Store `tags` / `pinned` for a just-indexed source. No-op when neither
+ * was passed, so re-indexing keeps the source's existing tags and pin.
+ */
+function applySourceTags(store: ContentStore, label: string, tags: string[] | undefined, pinned: boolean | undefined): void {
+  if (tags === undefined && pinned === undefined) return;
+  store.setSourceTags(label, { tags, pinned });
+}
+
+/**
+ * Directory / glob mode for ctx_index. Each file becomes its own
+ * file-backed source (path + content hash) so #refreshStaleSources keeps
+ * it fresh exactly like a single-path index. Files hit by the Read deny
+ * policy are skipped and counted rather than failing the whole call.
+ */
+function indexDirectory(
+  target: string,
+  source: string | undefined,
+  include: string[] | undefined,
+  exclude: string[] | undefined,
+  persist: boolean | undefined,
+  tags?: string[],
+  pinned?: boolean,
+): ToolResult {
+  try {
+    const projectDir = getProjectDir();
+    const walked = walkIndexableFiles(target, projectDir, { include, exclude });
+    const skipCounts = new Map<string, number>();
+    const skip = (reason: string) => skipCounts.set(reason, (skipCounts.get(reason) ?? 0) + 1);
+    for (const s of walked.skipped) skip(s.reason);
+
+    const store = getTargetStore(persist);
+    const attribution = currentAttribution();
+    let files = 0;
+    let chunks = 0;
+    let codeChunks = 0;
+    let bytes = 0;
+    for (const filePath of walked.files) {
+      if (matchFilePathDenyPattern(filePath, projectDir)) {
+        skip("denied");
+        continue;
+      }
+      const rel = relative(walked.root, filePath).split(sep).join("/");
+      try {
+        const result = store.index({
+          path: filePath,
+          source: source ? `${source}/${rel}` : filePath,
+          attribution,
+        });
+        applySourceTags(store, result.label, tags, pinned);
+        files++;
+        chunks += result.totalChunks;
+        codeChunks += result.codeChunks;
+        bytes += statSync(filePath).size;
+      } catch {
+        skip("unreadable");
+      }
+    }
+    trackIndexed(bytes);
+    enforceDurableRetention(persist);
+
+    const label = source ?? walked.root;
+    const skippedTotal = [...skipCounts.values()].reduce((a, b) => a + b, 0);
+    const lines = [
+      `Indexed ${files} files (${chunks} sections, ${codeChunks} with code) from: ${label}${persist ? " (persisted to project knowledge base)" : ""}`,
+    ];
+    if (skippedTotal > 0) {
+      const detail = [...skipCounts.entries()].map(([reason, n]) => `${n} ${reason}`).join(", ");
+      lines.push(`Skipped ${skippedTotal} files: ${detail}`);
+    }
+    lines.push(
+      files > 0
+        ? `Use ctx_search(queries: ["..."]) to query this content. Use source: "${label}" to scope results.`
+        : "No indexable files matched — check the path, include/exclude globs, and .gitignore.",
+    );
+    return trackResponse("ctx_index", {
+      content: [{ type: "text" as const, text: lines.join("\n") }],
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    return trackResponse("ctx_index", {
+      content: [{ type: "text" as const, text: `Index error: ${message}` }],
+      isError: true,
+    });
+  }
+}
+
 server.registerTool(
   "ctx_index",
   {
@@ -1849,6 +2473,11 @@ server.registerTool(
     description:
       "Index documentation or knowledge content into a searchable BM25 knowledge base. " +
       "Chunks markdown by headings (keeping code blocks intact) and stores in ephemeral FTS5 database. " +
+      "Source files passed by `path` (.ts/.js/.py/.go/.rs) are chunked by top-level declaration and method, titled by symbol path (e.g. 'ContentStore > search'). " +
+      "YAML, TOML and XML (by extension, or detected from content) are chunked by key path like JSON (e.g. 'spec > template > spec > containers'). " +
+      "Jupyter notebooks (.ipynb) are chunked one cell per chunk, titled by nearest heading and cell index, with code outputs truncated. " +
+      "CSV/TSV (a .csv/.tsv `path`, or `source` label) is chunked into header-prefixed row batches titled by row range and key column; the response lists the column schema. " +
+      "Logs (.log, or content of timestamped ISO / syslog / JSON-lines records) are chunked by request id or time window with severity and time range — filter with ctx_search level/since/until. " +
       "The full content does NOT stay in context — only a brief summary is returned.\n\n" +
       "WHEN TO USE:\n" +
       "- Documentation from Context7, Skills, or MCP tools (API docs, framework guides, code examples)\n" +
@@ -1856,10 +2485,13 @@ server.registerTool(
       "- MCP tools/list output (exact tool signatures and descriptions)\n" +
       "- Skill prompts and instructions that are too large for context\n" +
       "- README files, migration guides, changelog entries\n" +
-      "- Any content with code examples you may need to reference precisely\n\n" +
+      "- Any content with code examples you may need to reference precisely\n" +
+      "- Exported metrics and fixture tables (CSV/TSV) you need row-level hits on\n\n" +
       "After indexing, use 'ctx_search' to retrieve specific sections on-demand.\n" +
       "When `path` is provided, a content hash is stored for automatic stale detection in search results.\n" +
-      "Do NOT use for: log files, test output, CSV, build output — use 'ctx_execute_file' for those.",
+      "`path` may also be a directory or glob (e.g. 'docs', 'src/**/*.ts'): every text file is indexed as its own source in ONE call, " +
+      "honouring .gitignore and `include`/`exclude` globs, skipping binaries.\n" +
+      "Do NOT use for: log files, test output, build output — use 'ctx_execute_file' for those.",
     inputSchema: z.object({
       content: z
         .string()
@@ -1871,17 +2503,42 @@ server.registerTool(
         .string()
         .optional()
         .describe(
-          "File path to read and index (content never enters context). Provide this OR content.",
+          "File, directory, or glob to read and index (content never enters context). Provide this OR content.",
         ),
       source: z
         .string()
         .optional()
         .describe(
-          "Label for the indexed content (e.g., 'Context7: React useEffect', 'Skill: frontend-design')",
+          "Label for the indexed content (e.g., 'Context7: React useEffect', 'Skill: frontend-design'). " +
+          "For a directory/glob, each file is labelled '<source>/<relative path>'.",
         ),
+      include: z.preprocess(coerceJsonArray, z
+        .array(z.string())
+        .optional()
+        .describe("Directory/glob mode: only index files matching these globs (e.g. ['*.md', 'src/**/*.ts']).")),
+      exclude: z.preprocess(coerceJsonArray, z
+        .array(z.string())
+        .optional()
+        .describe("Directory/glob mode: skip files or directories matching these globs (in addition to .gitignore).")),
+      persist: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe(
+          "Keep this content in the durable per-project knowledge base so it survives server restarts " +
+          "(vendor docs, API references). ctx_search merges it with session content.",
+        ),
+      language: z
+        .string()
+        .optional()
+        .describe(
+          "ISO 639-1 language of the content (e.g. 'de', 'tr', 'ja'). Detected when omitted. " +
+          "Non-English sources also get a tokenizer with accent folding (or CJK bigrams).",
+        ),
+      tags: sourceTagsParam,
+      pinned: pinnedParam,
     }),
   },
-  async ({ content, path, source }) => {
+  async ({ content, path, source, include, exclude, persist, language, tags, pinned }) => {
     if (!content && !path) {
       return trackResponse("ctx_index", {
         content: [
@@ -1903,6 +2560,10 @@ server.registerTool(
       if (pathDenied) return pathDenied;
     }
 
+    if (path && !content && (isGlobPattern(path) || isDirectoryPath(resolveProjectPath(path)))) {
+      return indexDirectory(path, source, include, exclude, persist, tags, pinned);
+    }
+
     try {
       const resolvedPath = path ? resolveProjectPath(path) : undefined;
       // Track the raw bytes being indexed (content or file)
@@ -1913,14 +2574,20 @@ server.registerTool(
           trackIndexed(fs.readFileSync(resolvedPath).byteLength);
         } catch { /* ignore — file read errors handled by store */ }
       }
-      const store = getStore();
-      const result = store.index({ content, path: resolvedPath, source: source ?? resolvedPath, attribution: currentAttribution() });
+      const store = getTargetStore(persist);
+      const result = store.index({ content, path: resolvedPath, source: source ?? resolvedPath, attribution: currentAttribution(), language });
+      applySourceTags(store, result.label, tags, pinned);
+      enforceDurableRetention(persist);
 
       return trackResponse("ctx_index", {
         content: [
           {
             type: "text" as const,
-            text: `Indexed ${result.totalChunks} sections (${result.codeChunks} with code) from: ${result.label}\nUse ctx_search(queries: ["..."]) to query this content. Use source: "${result.label}" to scope results.`,
+            text: `Indexed ${result.totalChunks} sections (${result.codeChunks} with code) from: ${result.label}${persist ? " (persisted to project knowledge base)" : ""}` +
+              (result.language ? ` (language: ${result.language})` : "") + "\n" +
+              (result.tableSchema ? `Columns: ${result.tableSchema}\n` : "") +
+              (result.summary ? `Summary: ${result.summary}\n` : "") +
+              `Use ctx_search(queries: ["..."]) to query this content. Use source: "${result.label}" to scope results.`,
           },
         ],
       });
@@ -1936,6 +2603,105 @@ server.registerTool(
   },
 );
 
+// ─────────────────────────────────────────────────────────
+// Tool: index_git
+// ─────────────────────────────────────────────────────────
+
+/** Cap on `git log -p` output read per ctx_index_git call. */
+const GIT_LOG_MAX_BUFFER = 64 * 1024 * 1024;
+
+server.registerTool(
+  "ctx_index_git",
+  {
+    title: "Index Git History",
+    description:
+      "Index a range of local git history into the searchable knowledge base: one section per commit " +
+      "(per file, or hunk group, for large commits), titled '<short sha> · <author> · <date> · <subject>', " +
+      "with the full message, changed file paths and diff. Runs local `git log` in the project directory — no network. " +
+      "ctx_search results from these sections show the commit SHA and files, so `git show <sha>` finds the change.\n\n" +
+      "WHEN TO USE:\n" +
+      "- \"When / why did X change?\" — search commit messages and diffs instead of reading `git log -p`\n" +
+      "- Reviewing what a release range touched (range: 'v1.2.0..HEAD')\n" +
+      "- History of one area of the code (paths: ['src/auth'])",
+    inputSchema: z.object({
+      range: z
+        .string()
+        .optional()
+        .describe("Revision range or ref, e.g. 'v1.2.0..HEAD', 'main~50..main', 'feature-branch'. Default: HEAD."),
+      maxCommits: z
+        .preprocess((v) => (typeof v === "string" ? Number(v) : v), z.number().int().min(1).max(5000))
+        .optional()
+        .default(200)
+        .describe("Most recent commits in the range to index (default 200)."),
+      paths: z.preprocess(coerceJsonArray, z
+        .array(z.string())
+        .optional()
+        .describe("Only commits touching these paths (git pathspecs, relative to the project directory).")),
+      source: z
+        .string()
+        .optional()
+        .describe("Label for the indexed history. Default: 'git:<range>'."),
+      persist: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe("Keep the history in the durable per-project knowledge base so it survives server restarts."),
+      tags: sourceTagsParam,
+      pinned: pinnedParam,
+    }),
+  },
+  async ({ range, maxCommits, paths, source, persist, tags, pinned }) => {
+    const fail = (text: string) => trackResponse("ctx_index_git", {
+      content: [{ type: "text" as const, text }],
+      isError: true,
+    });
+    if (range && !isSafeRevisionRange(range)) {
+      return fail(`Index git error: invalid revision range "${range}"`);
+    }
+
+    const projectDir = getProjectDir();
+    const git = spawnSync("git", ["-C", projectDir, ...gitLogArgs({ range, maxCommits, paths })], {
+      encoding: "utf-8",
+      maxBuffer: GIT_LOG_MAX_BUFFER,
+      timeout: 60_000,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_PAGER: "cat", LC_ALL: "C" },
+    });
+    if (git.error) {
+      const code = (git.error as NodeJS.ErrnoException).code;
+      return fail(code === "ENOENT"
+        ? "Index git error: `git` was not found on PATH"
+        : code === "ENOBUFS"
+          ? `Index git error: git log output exceeds ${GIT_LOG_MAX_BUFFER / 1024 / 1024}MB — lower maxCommits or narrow range / paths`
+          : `Index git error: ${git.error.message}`);
+    }
+    if (git.status !== 0) {
+      const stderr = (git.stderr ?? "").trim().split("\n")[0] || `git exited with code ${git.status}`;
+      return fail(`Index git error: ${stderr} (in ${projectDir})`);
+    }
+
+    try {
+      const label = source ?? `git:${range ?? "HEAD"}${paths && paths.length > 0 ? ` -- ${paths.join(" ")}` : ""}`;
+      trackIndexed(Buffer.byteLength(git.stdout));
+      const store = getTargetStore(persist);
+      const result = store.indexGitLog(git.stdout, label, currentAttribution());
+      applySourceTags(store, result.label, tags, pinned);
+      enforceDurableRetention(persist);
+
+      const commits = countGitLogCommits(git.stdout);
+      const text = commits === 0
+        ? `No commits found in ${range ?? "HEAD"}${paths && paths.length > 0 ? ` touching ${paths.join(", ")}` : ""}.`
+        : `Indexed ${commits} commit${commits === 1 ? "" : "s"} (${result.totalChunks} sections) from: ${result.label}` +
+          `${persist ? " (persisted to project knowledge base)" : ""}\n` +
+          `Use ctx_search(queries: ["..."]) to query this history. Use source: "${result.label}" to scope results.`;
+      return trackResponse("ctx_index_git", {
+        content: [{ type: "text" as const, text }],
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return fail(`Index git error: ${message}`);
+    }
+  },
+);
+
 // ─────────────────────────────────────────────────────────
 // Tool: search — progressive throttling
 // ─────────────────────────────────────────────────────────
@@ -2020,8 +2786,14 @@ server.registerTool(
     description:
       "Search indexed content. Requires prior indexing via ctx_batch_execute, ctx_index, or ctx_fetch_and_index. " +
       "Pass ALL search questions as queries array in ONE call. " +
-      "File-backed sources are auto-refreshed when the source file changes.\n\n" +
-      "TIPS: 2-4 specific terms per query. Use 'source' to scope results.\n\n" +
+      "File-backed sources are auto-refreshed when the source file changes. " +
+      "Sources indexed with persist: true are searched too (shown as project-kb).\n\n" +
+      "TIPS: 2-4 specific terms per query. Use 'source' to scope results.\n" +
+      "QUERY SYNTAX: \"exact phrase\", -exclude, title:heading, source:label — e.g. 'retry -test title:backoff'.\n" +
+      "FULL CHUNK: results are snippets tagged with a chunkId; pass chunkId (and neighbors) instead of queries to read the whole chunk and the chunks around it.\n" +
+      "LOGS: timestamped logs are chunked by time window or request id; filter with level (minimum severity) and since/until (ISO time or relative like '15m', '2h').\n" +
+      "SCOPE: scope 'project' also searches this project's content DBs from other sessions/platforms; 'all' searches every project's. Results are tagged with their origin DB.\n" +
+      "TAGS: tags ['api', 'billing'] keeps sources tagged at index time with any of them; tagMatch 'all' requires every tag.\n\n" +
       "SESSION STATE: If skills, roles, or decisions were set earlier in this conversation, they are still active. Do not discard or contradict them.",
     inputSchema: z.object({
       queries: z.preprocess(coerceJsonArray, z
@@ -2054,19 +2826,63 @@ server.registerTool(
         .optional()
         .default("relevance")
         .describe(
-          "Sort mode. 'relevance' (default): BM25 ranked, current session only. " +
-          "'timeline': chronological across current session, prior sessions, and auto-memory."
+          "Sort mode. 'relevance' (default): BM25 ranked, current session plus persisted (persist: true) sources. " +
+          "'timeline': chronological across current session, the durable project KB, prior sessions, and auto-memory."
         ),
+      chunkId: z
+        .string()
+        .optional()
+        .describe("Retrieval mode: a chunkId from an earlier result. Returns the full chunk instead of searching."),
+      neighbors: z
+        .coerce.number()
+        .int()
+        .min(0)
+        .optional()
+        .default(1)
+        .describe("With chunkId: also return this many chunks before and after it from the same source (default: 1)."),
+      explain: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .default(false)
+        .describe("Append the ranking breakdown to each result: porter/trigram rank, RRF score, title/proximity/phrase boosts, and fuzzy corrections. Relevance sort only."),
+      level: z
+        .enum(["trace", "debug", "info", "warn", "error", "fatal"])
+        .optional()
+        .describe("Only log chunks whose highest severity is at least this level. Relevance sort only."),
+      since: z
+        .string()
+        .optional()
+        .describe("Only log chunks with records at or after this time: ISO timestamp (UTC if no zone) or relative age like '15m', '2h', '1d'."),
+      until: z
+        .string()
+        .optional()
+        .describe("Only log chunks with records at or before this time (same formats as since)."),
+      scope: z
+        .enum(["project", "all"])
+        .optional()
+        .describe("Also search other content DBs, read-only: 'project' = this project's DBs from other platforms/sessions, 'all' = every project's. Results are tagged with their origin DB. Relevance sort only."),
+      tags: z.preprocess(coerceJsonArray, z
+        .array(z.string())
+        .optional()
+        .describe("Only sources tagged (ctx_index / ctx_fetch_and_index / ctx_batch_execute `tags`) with these tags. Relevance sort only.")),
+      tagMatch: z
+        .enum(["any", "all"])
+        .optional()
+        .default("any")
+        .describe("With tags: 'any' (default) = a source needs one of the tags, 'all' = every tag."),
     }),
   },
   async (params) => {
     try {
       const store = getStore();
       const sort = (params as Record<string, unknown>).sort as string || "relevance";
+      const scope = (params as Record<string, unknown>).scope as SearchScope | undefined;
 
       // Guard: redirect when the index is empty — ctx_search is a follow-up
-      // tool that requires prior indexing. Skip for timeline mode (SessionDB/auto-memory may have data).
-      if (sort !== "timeline" && store.getStats().chunks === 0) {
+      // tool that requires prior indexing. Skip for timeline mode (SessionDB/auto-memory may have data)
+      // and scoped searches (other content DBs may have data).
+      const durable = getDurableStore({ create: false });
+      if (sort !== "timeline" && !scope && store.getStats().chunks === 0 && (durable?.getStats().chunks ?? 0) === 0) {
         return trackResponse("ctx_search", {
           content: [{
             type: "text" as const,
@@ -2084,6 +2900,24 @@ server.registerTool(
 
       const raw = params as Record<string, unknown>;
 
+      // Retrieval mode: full chunk + neighbors for a chunkId from a prior result.
+      if (typeof raw.chunkId === "string" && raw.chunkId.length > 0) {
+        const neighbors = typeof raw.neighbors === "number" ? raw.neighbors : 1;
+        const text = formatChunkWindow(raw.chunkId, neighbors, 40 * 1024);
+        if (!text) {
+          return trackResponse("ctx_search", {
+            content: [{
+              type: "text" as const,
+              text: `Chunk "${raw.chunkId}" not found — its source may have been re-indexed or removed. Search again for a fresh chunkId.`,
+            }],
+            isError: true,
+          });
+        }
+        return trackResponse("ctx_search", {
+          content: [{ type: "text" as const, text }],
+        });
+      }
+
       // Normalize: accept both query (string) and queries (array)
       const queryList: string[] = [];
       if (Array.isArray(raw.queries) && raw.queries.length > 0) {
@@ -2099,7 +2933,31 @@ server.registerTool(
         });
       }
 
-      const { limit = 3, source, contentType } = params as { limit?: number; source?: string; contentType?: "code" | "prose" };
+      const { limit = 3, source, contentType, explain = false, level, since, until, tags, tagMatch = "any" } = params as {
+        limit?: number; source?: string; contentType?: "code" | "prose"; explain?: boolean;
+        level?: LogFilter["level"]; since?: string; until?: string; tags?: string[]; tagMatch?: TagFilter["match"];
+      };
+      const tagFilter: TagFilter | undefined = tags && tags.length > 0 ? { tags, match: tagMatch } : undefined;
+
+      // Log filter: since/until accept ISO or relative ages ("15m").
+      let logFilter: LogFilter | undefined;
+      if (level || since || until) {
+        logFilter = { level };
+        for (const [key, value] of [["since", since], ["until", until]] as const) {
+          if (!value) continue;
+          const bound = parseTimeBound(value);
+          if (!bound) {
+            return trackResponse("ctx_search", {
+              content: [{
+                type: "text" as const,
+                text: `Error: ${key} "${value}" is not a time — use an ISO timestamp (2024-05-01T10:00:00Z) or a relative age (15m, 2h, 1d).`,
+              }],
+              isError: true,
+            });
+          }
+          logFilter[key] = bound;
+        }
+      }
 
       // Progressive throttling: track calls in time window
       const now = Date.now();
@@ -2144,6 +3002,16 @@ server.registerTool(
         } catch { /* SessionDB unavailable — search ContentStore + auto-memory only */ }
       }
 
+      // Open the scoped content DBs once for all queries.
+      let federated: FederatedStore[] = [];
+      let federatedNote = "";
+      if (scope && sort !== "timeline") {
+        const opened = openFederatedStores(scope);
+        federated = opened.stores;
+        federatedNote = `> scope ${scope}: searched ${federated.length} other content DB${federated.length === 1 ? "" : "s"}` +
+          (opened.skipped > 0 ? ` (${opened.skipped} unreadable, skipped)` : "") + ".\n\n";
+      }
+
       const configDir = _detectedAdapter?.getConfigDir() ?? resolveClaudeConfigRoot();
 
       try {
@@ -2159,6 +3027,7 @@ server.registerTool(
             query: q,
             limit: effectiveLimit,
             store,
+            durableStore: durable,
             sort,
             source,
             contentType,
@@ -2168,7 +3037,7 @@ server.registerTool(
             adapter: _detectedAdapter ?? undefined,
           });
         } else {
-          results = store.searchWithFallback(q, effectiveLimit, source, contentType);
+          results = searchSessionAndDurable(q, effectiveLimit, source, contentType, explain, logFilter, tagFilter, federated);
         }
 
         if (results.length === 0) {
@@ -2180,25 +3049,49 @@ server.registerTool(
           .map((r, i) => {
             const origin = (r as any).origin || "current-session";
             const ts = (r as any).timestamp ? (r as any).timestamp.slice(0, 16).replace("T", " ") : "";
-            const header = `--- [${origin}${ts ? " | " + ts : ""} | ${r.source}] ---`;
-            const heading = `### ${r.title}`;
+            const chunkId = (r as SearchResult).chunkId;
+            const id = chunkId ? ` | chunkId ${chunkId}` : "";
+            const log = (r as SearchResult).log;
+            const level = log ? ` | ${log.level}${log.requestId ? ` · request ${log.requestId}` : ""}` : "";
+            const tagList = (r as SearchResult).tags;
+            const tagged = tagList ? ` | tags ${tagList.join(", ")}` : "";
+            const git = (r as SearchResult).git;
+            const commit = git ? ` | commit ${git.sha.slice(0, 12)}` : "";
+            const header = `--- [${origin}${ts ? " | " + ts : ""} | ${r.source}${tagged}${level}${commit}${id}] ---`;
+            const heading = git
+              ? `### ${r.title}\n\`git show ${git.sha}\`${git.files.length > 0 ? ` — ${formatGitFiles(git.files)}` : ""}`
+              : `### ${r.title}`;
             const snippet = extractSnippet(r.content, q, 1500, r.highlighted);
-            return `${header}\n${heading}\n\n${snippet}`;
+            const breakdown = (r as SearchResult).explain
+              ? `\n\n${formatExplain((r as SearchResult).explain!, r.matchLayer)}`
+              : "";
+            return `${header}\n${heading}\n\n${snippet}${breakdown}`;
           })
           .join("\n\n");
 
-        sections.push(`## ${q}\n\n${formatted}`);
+        const hidden = results.reduce((n, r) => n + ((r as SearchResult).hiddenDuplicates ?? 0), 0);
+        const dupNote = hidden > 0
+          ? `> ${hidden} near-duplicate result${hidden > 1 ? "s" : ""} hidden (same content under another source — showing the freshest copy).\n\n`
+          : "";
+        const expansions = (results as SearchResult[]).find((r) => r.expansions)?.expansions;
+        const synonymNote = expansions
+          ? `> synonyms: ${expansions.map((e) => `${e.term} → ${e.synonyms.join(", ")}`).join(" · ")}\n\n`
+          : "";
+        sections.push(`## ${q}\n\n${synonymNote}${dupNote}${formatted}`);
         totalSize += formatted.length;
       }
       } finally {
         try { timelineDB?.close(); } catch {}
+        for (const f of federated) f.store.close();
       }
 
       let output = sections.join("\n\n---\n\n");
+      if (federatedNote) output = federatedNote + output;
 
       // Report auto-refreshed stale sources
-      if (store.lastRefreshCount > 0) {
-        output = `> Auto-refreshed ${store.lastRefreshCount} stale source${store.lastRefreshCount > 1 ? "s" : ""} (file changed since indexing).\n\n` + output;
+      const refreshed = store.lastRefreshCount + (durable?.lastRefreshCount ?? 0);
+      if (refreshed > 0) {
+        output = `> Auto-refreshed ${refreshed} stale source${refreshed > 1 ? "s" : ""} (file changed since indexing).\n\n` + output;
       }
 
       // Add throttle warning after threshold
@@ -2209,7 +3102,7 @@ server.registerTool(
       }
 
       if (output.trim().length === 0) {
-        const sources = store.listSources();
+        const sources = [...store.listSources(), ...(durable?.listSources() ?? [])];
         const sourceList = sources.length > 0
           ? `\nIndexed sources: ${sources.map((s) => `"${s.label}" (${s.chunkCount} sections)`).join(", ")}`
           : "";
@@ -2231,6 +3124,185 @@ server.registerTool(
   },
 );
 
+// ─────────────────────────────────────────────────────────
+// Tool: sources
+// ─────────────────────────────────────────────────────────
+
+/** "3h ago" / "12m ago" / "just now" for an elapsed time in ms. */
+function formatAge(ageMs: number): string {
+  const ageDays = Math.floor(ageMs / (24 * 60 * 60 * 1000));
+  const ageHours = Math.floor(ageMs / (60 * 60 * 1000));
+  const ageMin = Math.floor(ageMs / (60 * 1000));
+  if (ageDays > 0) return `${ageDays}d ago`;
+  return ageHours > 0 ? `${ageHours}h ago` : ageMin > 0 ? `${ageMin}m ago` : "just now";
+}
+
+type SourceEntry = SourceInfo & { store: ContentStore; durable: boolean };
+
+/** Sources from the session store and the durable project KB, newest first per store. */
+function listAllSources(): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  const session = getStore();
+  entries.push(...session.listSourceInfo().map((s) => ({ ...s, store: session, durable: false })));
+  const durable = getDurableStore({ create: false });
+  if (durable) {
+    entries.push(...durable.listSourceInfo().map((s) => ({ ...s, store: durable, durable: true })));
+  }
+  return entries;
+}
+
+function formatSourceLine(s: SourceEntry): string {
+  const counts = `${s.chunkCount} chunk${s.chunkCount === 1 ? "" : "s"}` +
+    (s.codeChunkCount > 0 ? ` (${s.codeChunkCount} code)` : "");
+  const indexed = `indexed ${s.indexedAt.slice(0, 16)} UTC (${formatAge(Date.now() - new Date(s.indexedAt + "Z").getTime())})`;
+  const parts = [counts, indexed];
+  const state = sourceFileState(s);
+  if (s.filePath) {
+    const note = state === "modified" ? "modified since indexing — refreshed on next search"
+      : state === "missing" ? "file missing — cached content only"
+      : "fresh";
+    parts.push(`file: ${s.filePath} (${note})`);
+  }
+  if (s.tags.length > 0) parts.push(`tags: ${s.tags.join(", ")}`);
+  if (s.pinned) parts.push("pinned");
+  if (s.durable) parts.push("project-kb");
+  return parts.join(" · ");
+}
+
+/**
+ * Render chunk titles as a tree: " > " separates heading levels and
+ * Class > method paths. Each node lists the chunk ids that carry exactly
+ * that title, for ctx_search({ chunkId }).
+ */
+function formatTitleTree(chunks: SearchResult[], idPrefix: string): string {
+  interface TitleNode { ids: string[]; children: Map<string, TitleNode> }
+  const root: TitleNode = { ids: [], children: new Map() };
+  for (const c of chunks) {
+    let node = root;
+    for (const segment of c.title.split(" > ")) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { ids: [], children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    if (c.chunkId) node.ids.push(`${idPrefix}${c.chunkId}`);
+  }
+
+  const lines: string[] = [];
+  const walk = (node: TitleNode, depth: number) => {
+    for (const [name, child] of node.children) {
+      const ids = child.ids.length > 3
+        ? `${child.ids.slice(0, 3).join(", ")} +${child.ids.length - 3} more`
+        : child.ids.join(", ");
+      lines.push(`${"  ".repeat(depth)}- ${name}${ids ? ` · ${ids}` : ""}`);
+      walk(child, depth + 1);
+    }
+  };
+  walk(root, 0);
+  return lines.join("\n");
+}
+
+function formatSourceDetail(s: SourceEntry): string {
+  const terms = s.store.getDistinctiveTerms(s.id, 15);
+  const chunks = s.store.getChunksBySource(s.id);
+  const lines = [
+    `## ${s.label}`,
+    formatSourceLine(s),
+  ];
+  if (s.summary) lines.push(`Summary: ${s.summary}`);
+  if (terms.length > 0) lines.push(`Distinctive terms: ${terms.join(", ")}`);
+  lines.push("", "### Chunk titles", formatTitleTree(chunks, s.durable ? DURABLE_CHUNK_ID_PREFIX : ""));
+  lines.push(
+    "",
+    `Search it with ctx_search(queries: [...], source: ${JSON.stringify(s.label)}), ` +
+    "or read a section with ctx_search(chunkId: \"...\").",
+  );
+  return lines.join("\n");
+}
+
+server.registerTool(
+  "ctx_sources",
+  {
+    title: "List Indexed Sources",
+    description:
+      "List what is in the knowledge base before searching it. For each indexed source: chunk and code-chunk counts, " +
+      "when it was indexed, its file path and whether the file changed since, a short extractive summary, and its most distinctive terms. " +
+      "Pass source for one source's chunk title tree (headings / symbols with chunk ids), " +
+      "then use those titles and terms in ctx_search queries.",
+    inputSchema: z.object({
+      source: z
+        .string()
+        .optional()
+        .describe("Show the detail view for this source label (exact match first, then partial)."),
+      limit: z
+        .coerce.number()
+        .optional()
+        .default(20)
+        .describe("Max sources in the list view, newest first (default: 20)."),
+    }),
+  },
+  async (params) => {
+    try {
+      const { source, limit = 20 } = params as { source?: string; limit?: number };
+      let sources = listAllSources();
+
+      if (sources.length === 0) {
+        return trackResponse("ctx_sources", {
+          content: [{
+            type: "text" as const,
+            text: "Knowledge base is empty — index content with ctx_index, ctx_fetch_and_index, or ctx_batch_execute first.",
+          }],
+        });
+      }
+
+      if (source) {
+        const exact = sources.filter((s) => s.label === source);
+        const needle = source.toLowerCase();
+        const matches = exact.length > 0 ? exact : sources.filter((s) => s.label.toLowerCase().includes(needle));
+        if (matches.length === 0) {
+          return trackResponse("ctx_sources", {
+            content: [{ type: "text" as const, text: `No indexed source matches "${source}". Call ctx_sources() to list them.` }],
+            isError: true,
+          });
+        }
+        if (matches.length === 1) {
+          let text = formatSourceDetail(matches[0]);
+          const MAX_BYTES = 40 * 1024;
+          if (Buffer.byteLength(text) > MAX_BYTES) {
+            text = Buffer.from(text).subarray(0, MAX_BYTES).toString("utf-8") + "\n… (title tree truncated at output cap)";
+          }
+          return trackResponse("ctx_sources", { content: [{ type: "text" as const, text }] });
+        }
+        sources = matches;
+      }
+
+      const shown = sources.slice(0, Math.max(1, limit));
+      const blocks = shown.map((s) => {
+        const terms = s.store.getDistinctiveTerms(s.id, 8);
+        return `- **${s.label}** — ${formatSourceLine(s)}` +
+          (s.summary ? `\n  summary: ${s.summary}` : "") +
+          (terms.length > 0 ? `\n  terms: ${terms.join(", ")}` : "");
+      });
+      const heading = source
+        ? `## ${sources.length} sources match "${source}" — pass an exact label for the title tree`
+        : `## Indexed sources (${sources.length})`;
+      let text = `${heading}\n\n${blocks.join("\n")}`;
+      if (sources.length > shown.length) {
+        text += `\n\n… ${sources.length - shown.length} more. Raise limit or pass source to narrow.`;
+      }
+      return trackResponse("ctx_sources", { content: [{ type: "text" as const, text }] });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return trackResponse("ctx_sources", {
+        content: [{ type: "text" as const, text: `Sources error: ${message}` }],
+        isError: true,
+      });
+    }
+  },
+);
+
 // ─────────────────────────────────────────────────────────
 // Turndown path resolution (external dep, like better-sqlite3)
 // ─────────────────────────────────────────────────────────
@@ -2510,7 +3582,13 @@ async function main() {
     return;
   }
 
-  // --- Everything else: plain text, CSV, XML, etc. ---
+  // --- CSV / TSV: chunked by row batch under the header ---
+  if (contentType.includes('text/csv') || contentType.includes('text/tab-separated-values')) {
+    emit('csv', await resp.text());
+    return;
+  }
+
+  // --- Everything else: plain text, XML, etc. ---
   const text = await resp.text();
   emit('text', text);
 }
@@ -2527,7 +3605,7 @@ const FETCH_PREVIEW_LIMIT = 3072;
 
 type FetchOneResult =
   | { kind: "cached"; label: string; chunkCount: number; estimatedBytes: number; ageStr: string }
-  | { kind: "fetched"; url: string; source?: string; markdown: string; header: string }
+  | { kind: "fetched"; url: string; source?: string; markdown: string; header: string; persist?: boolean }
   | { kind: "fetch_error"; url: string; error: string; reason: "exit" | "read" | "empty" | "throw" };
 
 /**
@@ -2616,59 +3694,12 @@ async function ssrfGuard(rawUrl: string): Promise<FetchOneResult | null> {
   return null; // safe to fetch
 }
 
-/**
- * Classify an IP address.
- *   - "block":    always blocked (link-local/IMDS/multicast/reserved/malformed)
- *   - "private":  loopback or RFC1918 — allowed by default, blocked in strict mode
- *   - "public":   safe to fetch
- *
- * Exported (via the function name) so SSRF tests can exercise the matcher directly.
- */
-export function classifyIp(rawIp: string): "block" | "private" | "public" {
-  // RFC 6874 zone identifiers (`fe80::1%eth0`, URL-encoded `%25eth0`) must
-  // be stripped BEFORE any prefix/equality classification. Without the strip,
-  // a loopback `::1%eth0` no longer matches `lower === "::1"` and falls
-  // through to "public" — silently bypassing the SSRF guard. Strip first,
-  // classify second.
-  const pctIdx = rawIp.indexOf("%");
-  const ip = pctIdx === -1 ? rawIp : rawIp.slice(0, pctIdx);
-  const lower = ip.toLowerCase();
-
-  // IPv6 takes priority — check for `:` first so IPv4-mapped addresses
-  // (`::ffff:127.0.0.1`) don't get incorrectly routed through the IPv4 parser.
-  if (lower.includes(":")) {
-    // IPv4-mapped IPv6 (`::ffff:127.0.0.1`) — recurse through IPv4 classifier
-    const v4MappedMatch = lower.match(/^::ffff:([\d.]+)$/);
-    if (v4MappedMatch) return classifyIp(v4MappedMatch[1]);
-    // Hard-block
-    if (lower === "::") return "block"; // unspecified
-    if (lower.startsWith("fe8") || lower.startsWith("fe9") ||
-        lower.startsWith("fea") || lower.startsWith("feb")) return "block"; // fe80::/10 link-local
-    if (lower.startsWith("ff")) return "block"; // ff00::/8 multicast
-    // Private (loopback + ULA)
-    if (lower === "::1") return "private";
-    if (lower.startsWith("fc") || lower.startsWith("fd")) return "private"; // fc00::/7 ULA
-    return "public";
-  }
-
-  // IPv4 (or non-IP string — malformed = block)
-  if (!ip.includes(".")) return "block"; // not an IP at all
-  const parts = ip.split(".").map((p) => parseInt(p, 10));
-  if (parts.length !== 4 || parts.some((p) => isNaN(p) || p < 0 || p > 255)) return "block";
-  const [a, b] = parts;
-  // Hard-block (no legitimate use)
-  if (a === 169 && b === 254) return "block"; // link-local incl. 169.254.169.254 (IMDS)
-  if (a === 0) return "block";                 // 0.0.0.0/8 (current network)
-  if (a >= 224) return "block";                // 224.0.0.0+ multicast/reserved
-  // Private (loopback + RFC1918) — allow by default
-  if (a === 127) return "private";                          // 127.0.0.0/8 loopback
-  if (a === 10) return "private";                           // 10.0.0.0/8
-  if (a === 172 && b >= 16 && b <= 31) return "private";    // 172.16.0.0/12
-  if (a === 192 && b === 168) return "private";             // 192.168.0.0/16
-  return "public";
-}
-
-async function fetchOneUrl(url: string, source: string | undefined, force: boolean | undefined): Promise<FetchOneResult> {
+async function fetchOneUrl(
+  url: string,
+  source: string | undefined,
+  force: boolean | undefined,
+  persist?: boolean,
+): Promise<FetchOneResult> {
   // SSRF guard — reject file://, javascript:, loopback, RFC1918, IMDS, link-local
   // BEFORE any cache lookup or subprocess spawn. Even cached entries shouldn't
   // serve a previously-poisoned source label.
@@ -2676,7 +3707,7 @@ async function fetchOneUrl(url: string, source: string | undefined, force: boole
   if (ssrfBlock) return ssrfBlock;
 
   if (!force) {
-    const store = getStore();
+    const store = getTargetStore(persist);
     // Cache key composes (source, url) so two distinct URLs sharing the same
     // `source` label do not collide — they each get their own cache slot
     // (commit 1f1243e regression test enforced).
@@ -2686,9 +3717,7 @@ async function fetchOneUrl(url: string, source: string | undefined, force: boole
       const indexedAt = new Date(meta.indexedAt + "Z"); // SQLite datetime is UTC without Z
       const ageMs = Date.now() - indexedAt.getTime();
       if (ageMs < FETCH_TTL_MS) {
-        const ageHours = Math.floor(ageMs / (60 * 60 * 1000));
-        const ageMin = Math.floor(ageMs / (60 * 1000));
-        const ageStr = ageHours > 0 ? `${ageHours}h ago` : ageMin > 0 ? `${ageMin}m ago` : "just now";
+        const ageStr = formatAge(ageMs);
         const estimatedBytes = meta.chunkCount * 1600; // ~1.6KB/chunk avg
         return { kind: "cached", label: meta.label, chunkCount: meta.chunkCount, estimatedBytes, ageStr };
       }
@@ -2717,7 +3746,7 @@ async function fetchOneUrl(url: string, source: string | undefined, force: boole
     if (markdown.length === 0) {
       return { kind: "fetch_error", url, error: "empty content", reason: "empty" };
     }
-    return { kind: "fetched", url, source, markdown, header };
+    return { kind: "fetched", url, source, markdown, header, persist };
   } catch (err: unknown) {
     return {
       kind: "fetch_error",
@@ -2735,6 +3764,10 @@ interface IndexedFetchResult {
   totalChunks: number;
   totalBytes: number;
   preview: string;
+  /** Column schema summary when the response was indexed as a table. */
+  tableSchema?: string;
+  /** Extractive summary of the indexed page (see summary.ts). */
+  summary?: string;
 }
 
 /**
@@ -2742,23 +3775,37 @@ interface IndexedFetchResult {
  * fetched results and calls this one-at-a-time to avoid SQLite WAL contention
  * (PRD finding E).
  */
-function indexFetched(f: { url: string; source?: string; markdown: string; header: string }): IndexedFetchResult {
-  const store = getStore();
+function indexFetched(f: { url: string; source?: string; markdown: string; header: string; persist?: boolean }): IndexedFetchResult {
+  const store = getTargetStore(f.persist);
   // Storage label composed via composeFetchCacheKey so two URLs sharing a
   // `source` label do not overwrite each other (commit 1f1243e). ctx_search()
   // still finds both via LIKE-mode source filter on the `source` substring.
   const storageLabel = composeFetchCacheKey(f.source, f.url);
   const attribution = currentAttribution();
   let indexed: IndexResult;
-  if (f.header === "__CM_CT__:json") {
+  if (isNotebookPath(f.url) && f.header !== "__CM_CT__:html") {
+    indexed = store.indexNotebook(f.markdown, storageLabel, attribution);
+  } else if (f.header === "__CM_CT__:json") {
     indexed = store.indexJSON(f.markdown, storageLabel, undefined, attribution);
+  } else if (f.header === "__CM_CT__:csv") {
+    indexed = store.indexTable(f.markdown, storageLabel, false, attribution);
   } else if (f.header === "__CM_CT__:text") {
-    indexed = store.indexPlainText(f.markdown, storageLabel, undefined, attribution);
+    // Servers often label CSV, YAML and XML as text/plain — trust the URL
+    // extension, or sniff the content.
+    const format = isTablePath(f.url) ? null : detectStructuredFormat(f.url, f.markdown);
+    if (format) {
+      indexed = store.indexStructured(f.markdown, storageLabel, format, attribution);
+    } else if (isTablePath(f.url) || detectDelimiter(f.markdown, 5)) {
+      indexed = store.indexTable(f.markdown, storageLabel, !isTablePath(f.url), attribution);
+    } else {
+      indexed = store.indexPlainText(f.markdown, storageLabel, undefined, attribution);
+    }
   } else {
     indexed = store.index({ content: f.markdown, source: storageLabel, attribution });
   }
   // Track AFTER the FTS5 write succeeds — failed indexes shouldn't inflate the counter.
   trackIndexed(Buffer.byteLength(f.markdown));
+  enforceDurableRetention(f.persist);
   const preview = f.markdown.length > FETCH_PREVIEW_LIMIT
     ? f.markdown.slice(0, FETCH_PREVIEW_LIMIT) + "\n\n…[truncated — use ctx_search() for full content]"
     : f.markdown;
@@ -2767,6 +3814,8 @@ function indexFetched(f: { url: string; source?: string; markdown: string; heade
     totalChunks: indexed.totalChunks,
     totalBytes: Buffer.byteLength(f.markdown),
     preview,
+    tableSchema: indexed.tableSchema,
+    summary: indexed.summary,
   };
 }
 
@@ -2778,7 +3827,7 @@ server.registerTool(
       "Fetches URL content, converts HTML to markdown, indexes into searchable knowledge base, " +
       "and returns a ~3KB preview. Full content stays in sandbox — use ctx_search() for deeper lookups.\n\n" +
       "Better than WebFetch: preview is immediate, full content is searchable, raw HTML never enters context.\n\n" +
-      "Content-type aware: HTML is converted to markdown, JSON is chunked by key paths, plain text is indexed directly.\n\n" +
+      "Content-type aware: HTML is converted to markdown, JSON, YAML, TOML and XML are chunked by key paths, CSV/TSV by header-prefixed row batches, plain text is indexed directly.\n\n" +
       "PARALLELIZE I/O: For multi-URL research (library evaluation, migration scans, doc comparisons), pass `requests: [{url, source}, ...]` with `concurrency: 4-8` — speeds up by 3-5x on real workloads.\n" +
       "  ✅ Use concurrency: 4-8 for: library docs sweep, multi-changelog scan, competitive pricing pages, multi-region docs, GitHub raw file pulls.\n" +
       "  ❌ Single URL → use the legacy {url, source} shape (concurrency irrelevant).\n" +
@@ -2822,9 +3871,18 @@ server.registerTool(
         .boolean()
         .optional()
         .describe("Skip cache and re-fetch even if content was recently indexed"),
+      persist: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe(
+          "Keep fetched content in the durable per-project knowledge base so it survives server restarts. " +
+          "Applies to every URL in the call.",
+        ),
+      tags: sourceTagsParam,
+      pinned: pinnedParam,
     }),
   },
-  async ({ url, source, requests, concurrency, force }) => {
+  async ({ url, source, requests, concurrency, force, persist, tags, pinned }) => {
     // Normalize input: legacy {url} or new {requests: [...]}.
     // requests wins when both are provided (explicit batch intent).
     const batch: { url: string; source?: string }[] = requests
@@ -2849,7 +3907,7 @@ server.registerTool(
     // Parallel fetch via shared runPool primitive. capByCpuCount only for batch
     // — single-URL doesn't need the cap (only one job, executor is one subprocess).
     const jobs: PoolJob<FetchOneResult>[] = batch.map((req) => ({
-      run: () => fetchOneUrl(req.url, req.source, force),
+      run: () => fetchOneUrl(req.url, req.source, force, persist),
     }));
     const { settled, effectiveConcurrency, capped } = await runPool(jobs, {
       concurrency: requestedConcurrency,
@@ -2887,12 +3945,15 @@ server.registerTool(
             bytesAvoided: cachedBytes,
           })
         );
+        applySourceTags(getTargetStore(persist), v.label, tags, pinned);
         finalized.push({ kind: "cached", label: v.label, chunkCount: v.chunkCount, ageStr: v.ageStr });
       } else if (v.kind === "fetch_error") {
         finalized.push({ kind: "fetch_error", url: v.url, error: v.error, reason: v.reason });
       } else {
         // Serial FTS5 write here — no parallel store.index calls.
-        finalized.push({ kind: "fetched", indexed: indexFetched(v) });
+        const indexed = indexFetched(v);
+        applySourceTags(getTargetStore(persist), indexed.label, tags, pinned);
+        finalized.push({ kind: "fetched", indexed });
       }
     }
 
@@ -2912,6 +3973,8 @@ server.registerTool(
         const text = [
           `Fetched and indexed **${r.indexed.totalChunks} sections** (${totalKB}KB) from: ${r.indexed.label}`,
           `Full content indexed in sandbox — use ctx_search(queries: [...], source: "${r.indexed.label}") for specific lookups.`,
+          ...(r.indexed.tableSchema ? [`Columns: ${r.indexed.tableSchema}`] : []),
+          ...(r.indexed.summary ? [`Summary: ${r.indexed.summary}`] : []),
           "",
           "---",
           "",
@@ -2961,6 +4024,8 @@ server.registerTool(
         totalBytes += r.indexed.totalBytes;
         const kb = (r.indexed.totalBytes / 1024).toFixed(1);
         lines.push(`- [new]   ${r.indexed.label} — ${r.indexed.totalChunks} sections (${kb}KB)`);
+        if (r.indexed.tableSchema) lines.push(`          Columns: ${r.indexed.tableSchema}`);
+        if (r.indexed.summary) lines.push(`          Summary: ${r.indexed.summary}`);
         const snippet = r.indexed.preview.length > FETCH_BATCH_PREVIEW_LIMIT
           ? r.indexed.preview.slice(0, FETCH_BATCH_PREVIEW_LIMIT).trimEnd() + "…"
           : r.indexed.preview;
@@ -3064,9 +4129,18 @@ server.registerTool(
           ">1 switches to per-command timeouts (no shared budget) and " +
           "individual `(timed out)` blocks instead of cascading skip.",
         ),
+      readOnly: z
+        .preprocess(coerceBoolean, z.boolean())
+        .optional()
+        .describe(
+          "Mount the project directory read-only while the commands run (Linux) and report any project files they changed. " +
+          "On by default for research batches — pass false for commands that build, install, format or otherwise write to the project.",
+        ),
+      tags: sourceTagsParam,
+      pinned: pinnedParam,
     }),
   },
-  async ({ commands, queries, timeout, concurrency }) => {
+  async ({ commands, queries, timeout, concurrency, readOnly, tags, pinned }) => {
     // Security: check each command against deny patterns
     for (const cmd of commands) {
       const denied = checkDenyPolicy(cmd.command, "batch_execute");
@@ -3079,6 +4153,11 @@ server.registerTool(
       // as an inline shell prefix. This only affects child `node` invocations.
       const nodeOptsPrefix = buildBatchNodeOptionsPrefix(runtimes.shell, CM_FS_PRELOAD);
 
+      // Every command runs under the read-only mount, but the project is
+      // snapshotted once for the whole batch.
+      const batchReadOnly = readOnly ?? readOnlyDefault("batch");
+      const snapshot = batchReadOnly ? await executor.snapshotProject() : null;
+
       // Full stdout is preserved per-command and indexed into FTS5 (Issue #61, #197).
       // Concurrency>1 switches to a worker pool with per-command timeouts.
       const { outputs: perCommandOutputs, timedOut } = await runBatchCommands(
@@ -3087,10 +4166,13 @@ server.registerTool(
           timeout,
           concurrency,
           nodeOptsPrefix,
+          network: () => sandboxNetwork("ctx_batch_execute"),
+          readOnly: batchReadOnly,
           onFsBytes: (bytes) => { sessionStats.bytesSandboxed += bytes; },
         },
         executor,
       );
+      const projectChanges = snapshot && await executor.projectChangesSince(snapshot);
 
       const stdout = perCommandOutputs.join("\n");
       const totalBytes = Buffer.byteLength(stdout);
@@ -3118,6 +4200,7 @@ server.registerTool(
         .join(",")
         .slice(0, 80)}`;
       const indexed = store.index({ content: stdout, source, attribution: currentAttribution() });
+      applySourceTags(store, indexed.label, tags, pinned);
 
       // Build section inventory — direct query by source_id (no FTS5 MATCH needed)
       const allSections = store.getChunksBySource(indexed.sourceId);
@@ -3141,6 +4224,8 @@ server.registerTool(
       const output = [
         `Executed ${commands.length} commands (${totalLines} lines, ${(totalBytes / 1024).toFixed(1)}KB). ` +
           `Indexed ${indexed.totalChunks} sections. Searched ${queries.length} queries.`,
+        ...(projectChanges ? [projectChanges] : []),
+        ...(indexed.summary ? [`Summary: ${indexed.summary}`] : []),
         "",
         ...inventory,
         "",
@@ -3168,6 +4253,84 @@ server.registerTool(
   },
 );
 
+// ─────────────────────────────────────────────────────────
+// Tool: processes
+// ─────────────────────────────────────────────────────────
+
+server.registerTool(
+  "ctx_processes",
+  {
+    title: "Background Processes",
+    description:
+      "List processes started with ctx_execute(background: true) — dev servers, watchers — with their command, age and listening ports. " +
+      "action 'tail' returns the latest captured stdout/stderr of one job; 'terminate' stops one job (SIGTERM, then SIGKILL after 3s). " +
+      "Terminate servers you no longer need: otherwise they keep running, and holding their ports, until context-mode exits.",
+    inputSchema: z.object({
+      action: z
+        .enum(["list", "tail", "terminate"])
+        .optional()
+        .default("list")
+        .describe("list (default): all jobs. tail: output of job id. terminate: stop job id."),
+      id: z
+        .coerce.number()
+        .int()
+        .optional()
+        .describe("Job id (#N in the list) for tail and terminate."),
+      bytes: z
+        .coerce.number()
+        .int()
+        .min(1)
+        .optional()
+        .default(4096)
+        .describe(`For tail: max bytes of each stream, newest last (default 4096; the last ${BACKGROUND_OUTPUT_BYTES / 1024}KB of each stream is kept).`),
+    }),
+  },
+  async ({ action, id, bytes }) => {
+    if (action === "list") {
+      const jobs = executor.backgroundJobs;
+      const text = jobs.length === 0
+        ? "No background jobs. Start one with ctx_execute(background: true, timeout: …)."
+        : `## Background jobs (${jobs.filter((j) => j.running).length} running)\n\n` +
+          jobs.map((j) => `- ${formatBackgroundJob(j.info())}`).join("\n");
+      return trackResponse("ctx_processes", { content: [{ type: "text" as const, text }] });
+    }
+
+    const job = id === undefined ? undefined : executor.backgroundJob(id);
+    if (!job) {
+      return trackResponse("ctx_processes", {
+        content: [{
+          type: "text" as const,
+          text: id === undefined
+            ? `action '${action}' needs the job id. Call ctx_processes() to list jobs.`
+            : `No background job #${id}. Call ctx_processes() to list jobs.`,
+        }],
+        isError: true,
+      });
+    }
+
+    if (action === "tail") {
+      const cap = Math.min(bytes, BACKGROUND_OUTPUT_BYTES);
+      const stream = (name: string, ring: OutputRing) => {
+        if (ring.totalBytes === 0) return `${name}: (empty)`;
+        const tail = ring.tail(cap);
+        const shown = Buffer.byteLength(tail);
+        const label = shown < ring.totalBytes ? `last ${shown} of ${ring.totalBytes} bytes` : `${shown} bytes`;
+        return `${name} (${label}):\n${tail.replace(/\n?$/, "\n")}`;
+      };
+      const text = `${formatBackgroundJob(job.info())}\n\n${stream("stdout", job.stdout)}\n${stream("stderr", job.stderr)}`;
+      return trackResponse("ctx_processes", { content: [{ type: "text" as const, text }] });
+    }
+
+    const outcome = await executor.terminateBackgroundJob(job.id);
+    const text = {
+      terminated: `Terminated job #${job.id} (pid ${job.pid}).`,
+      killed: `Job #${job.id} (pid ${job.pid}) did not exit on SIGTERM — killed.`,
+      exited: `Job #${job.id} had already exited (${job.exit?.signal ?? `code ${job.exit?.code}`}); removed from the list.`,
+    }[outcome ?? "exited"];
+    return trackResponse("ctx_processes", { content: [{ type: "text" as const, text }] });
+  },
+);
+
 // ─────────────────────────────────────────────────────────
 // Tool: stats
 // ─────────────────────────────────────────────────────────
@@ -3309,6 +4472,9 @@ server.registerTool(
       text = formatReport(report, VERSION, _latestVersion, (lifetime || multiAdapter) ? { lifetime, multiAdapter } : undefined);
     }
 
+    const quota = formatQuotaStatus();
+    if (quota) text += `\n\n${quota}`;
+
     return trackResponse("ctx_stats", {
       content: [{ type: "text" as const, text }],
     });
@@ -3350,6 +4516,40 @@ server.registerTool(
       lines.push("[WARN] Performance: NORMAL — install Bun for 3-5x speed boost");
     }
 
+    // Resource limits — grouped so languages sharing limits print once
+    if (resourceLimitsSupported()) {
+      const groups = new Map<string, string[]>();
+      for (const language of available) {
+        const desc = formatResourceLimits(executor.resourceLimits(language));
+        groups.set(desc, [...(groups.get(desc) ?? []), language]);
+      }
+      const detail = [...groups].map(([desc, langs]) => `${langs.join(", ")}: ${desc}`).join("; ");
+      lines.push(`[OK] Resource limits: ${detail}`);
+    } else {
+      lines.push(`[WARN] Resource limits: not enforced — needs Linux with prlimit (util-linux), running on ${process.platform}`);
+    }
+
+    // Network egress policy — JS is shimmed; other clients need the proxy
+    {
+      const policy = currentNetworkPolicy();
+      const projectAllow = policy?.projectAllow?.length ? ` (+${policy.projectAllow.length} project allow)` : "";
+      const rules = policy && `${policy.allow.length} allow${projectAllow} / ${policy.deny.length} deny rules, cloud metadata blocked`;
+      if (!policy) {
+        lines.push("[OK] Network policy: none — add network.json to the context-mode dir to restrict sandboxed code");
+      } else if (hasUpstreamProxy()) {
+        lines.push(`[WARN] Network policy: ${rules} — the server runs behind a proxy, so ${EGRESS_PARTIAL}`);
+      } else {
+        lines.push(`[OK] Network policy: ${rules}`);
+      }
+    }
+
+    // Read-only mode — mount where possible, write detection everywhere
+    if (await probeReadOnlyMount()) {
+      lines.push("[OK] Read-only mode: project mounted read-only (unshare) + write detection");
+    } else {
+      lines.push(`[WARN] Read-only mode: write detection only — mounting needs Linux with unshare and user namespaces, running on ${process.platform}`);
+    }
+
     // Server test — cleanup executor to prevent resource leaks (#247)
     {
       const testExecutor = new PolyglotExecutor({ runtimes });
@@ -3578,8 +4778,8 @@ server.registerTool(
       "      Deletes ONLY that session's events + per-session FTS5 chunks.\n" +
       "      Preserves stats file and ALL other sessions.\n\n" +
       "  • { confirm: true, scope: \"project\" }\n" +
-      "      Wipes the ENTIRE project: FTS5 knowledge base, every session DB row,\n" +
-      "      events markdown, AND resets the stats file.\n\n" +
+      "      Wipes the ENTIRE project: FTS5 knowledge base, durable (persist: true)\n" +
+      "      knowledge base, every session DB row, events markdown, AND resets the stats file.\n\n" +
       "REFUSAL RULES (tool returns an error):\n" +
       "  • confirm: false                              → 'purge cancelled'\n" +
       "  • Both sessionId AND scope:'project' provided → 'ambiguous — pick one'\n" +
@@ -3664,6 +4864,10 @@ server.registerTool(
       try { _store.cleanup(); } catch { /* best effort */ }
       _store = null;
     }
+    if (_durableStore) {
+      try { _durableStore.close(); } catch { /* best effort */ }
+      _durableStore = null;
+    }
 
     // FTS5 store: pass contentDir so purgeSession sweeps BOTH canonical
     // and legacy raw-casing variants (dual-hash, mirrors session events).
@@ -3676,6 +4880,7 @@ server.registerTool(
       sessionsDir: getSessionDir(),
       storePath: storePathForPurge,
       contentDir,
+      kbDir: getDurableKbDir(),
       legacyContentDir: join(homedir(), ".context-mode", "content"),
       // hashProjectDirLegacy mirrors the deployed (≤ v1.0.111) raw-casing
       // hash that named files under ~/.context-mode/content/. Using the
@@ -4152,11 +5357,18 @@ async function main() {
   const mcpSentinelDir = process.platform === "win32" ? tmpdir() : "/tmp";
   const mcpSentinel = join(mcpSentinelDir, `context-mode-mcp-ready-${process.pid}`);
 
+  // Probe read-only mount support now, off the request path. Read-only runs
+  // (and plugin hosts that skip main()) wait for the same probe.
+  void probeReadOnlyMount();
+
   // Clean up own DB + backgrounded processes + preload script on shutdown
   const shutdown = () => {
     executor.cleanupBackgrounded();
     if (_store) _store.close(); // persist DB for --continue sessions
+    try { _durableStore?.close(); } catch { /* best effort */ }
     try { unlinkSync(CM_FS_PRELOAD); } catch { /* best effort */ }
+    try { unlinkSync(CM_EGRESS_PRELOAD); } catch { /* best effort */ }
+    egressProxy.close();
     // Remove MCP readiness sentinel (#230)
     try { unlinkSync(mcpSentinel); } catch { /* best effort */ }
     // Stop ctx_insight dashboard so it does not outlive Claude.
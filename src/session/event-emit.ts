@@ -130,3 +130,32 @@ export function emitCacheHitEvent(opts: {
     );
   });
 }
+
+/**
+ * Record a sandbox connection refused by the network egress policy
+ * (network-policy.ts), so blocked attempts show up in the session history.
+ */
+export function emitEgressBlockedEvent(opts: {
+  sessionDbPath: string;
+  toolName: string;
+  host: string;
+  ip: string | null;
+  reason: string;
+}): void {
+  const addr = opts.ip && opts.ip !== opts.host ? ` (${opts.ip})` : "";
+  withLatestSession(opts.sessionDbPath, (sdb, sid) => {
+    sdb.insertEvent(
+      sid,
+      {
+        type: "egress-blocked",
+        category: "sandbox",
+        priority: 2,
+        data: `${opts.toolName}: ${opts.host}${addr} — ${opts.reason}`,
+        project_dir: "",
+        attribution_source: "server",
+        attribution_confidence: 1,
+      },
+      "ctx-server",
+    );
+  });
+}
@@ -35,6 +35,7 @@
 import { existsSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
 import { loadDatabase } from "../db-base.js";
+import { LANGUAGE_TABLES } from "../language.js";
 import {
   getWorktreeSuffix,
   hashProjectDirCanonical,
@@ -86,6 +87,14 @@ export interface PurgeOpts {
    * caller's responsibility.
    */
   contentDir?: string;
+  /**
+   * Durable knowledge-base directory (e.g. `~/.claude/context-mode/kb`)
+   * holding `<canonicalHash>.db` — sources indexed with `persist: true`.
+   * Swept (with sidecars) on project-scope purges only; a session-scoped
+   * purge never touches it because durable content is not tied to any one
+   * session. Caller closes any open handle first, as with `contentDir`.
+   */
+  kbDir?: string;
   /**
    * Legacy shared content directory at `~/.context-mode/content`. When
    * omitted, the legacy content sweep is skipped.
@@ -132,6 +141,7 @@ export interface PurgeResult {
    * Human-readable labels rendered to the user by the ctx_purge handler.
    * MUST stay backward-compatible with the existing UI strings:
    *   "knowledge base (FTS5)", "session events DB", "session events markdown".
+   *   "durable knowledge base" is added when a persisted store was removed.
    * Each label appears at most once, and only when at least one matching
    * file was actually unlinked.
    */
@@ -176,7 +186,7 @@ function tryUnlinkSqliteTriple(path: string, wipedPaths: string[]): boolean {
  * without `contentHash`), which is a programmer bug not a runtime concern.
  */
 export function purgeSession(opts: PurgeOpts): PurgeResult {
-  const { projectDir, sessionsDir, storePath, contentDir, legacyContentDir, contentHash, sessionId, scope } = opts;
+  const { projectDir, sessionsDir, storePath, contentDir, kbDir, legacyContentDir, contentHash, sessionId, scope } = opts;
   const deleted: string[] = [];
   const wipedPaths: string[] = [];
 
@@ -255,11 +265,24 @@ export function purgeSession(opts: PurgeOpts): PurgeResult {
         const Database = loadDatabase();
         const fts = new Database(path, { timeout: 30000 });
         try {
+          // Pinned sources (ctx_index `pinned: true`) survive a session
+          // purge. DBs from before source_tags have no pins.
+          const hasPins = !!fts.prepare(
+            "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'source_tags'"
+          ).get();
+          const unpinned = hasPins
+            ? " AND source_id NOT IN (SELECT source_id FROM source_tags WHERE pinned = 1)"
+            : "";
           const before = (fts.prepare(
-            "SELECT COUNT(*) AS c FROM chunks WHERE session_id = ?"
+            `SELECT COUNT(*) AS c FROM chunks WHERE session_id = ?${unpinned}`
           ).get(sessionId) as { c: number }).c;
-          fts.prepare("DELETE FROM chunks WHERE session_id = ?").run(sessionId);
-          fts.prepare("DELETE FROM chunks_trigram WHERE session_id = ?").run(sessionId);
+          fts.prepare(`DELETE FROM chunks WHERE session_id = ?${unpinned}`).run(sessionId);
+          fts.prepare(`DELETE FROM chunks_trigram WHERE session_id = ?${unpinned}`).run(sessionId);
+          // Per-language tables (non-English sources) exist only in DBs
+          // written since they were introduced.
+          for (const { table } of Object.values(LANGUAGE_TABLES)) {
+            try { fts.prepare(`DELETE FROM ${table} WHERE session_id = ?${unpinned}`).run(sessionId); } catch { /* table absent */ }
+          }
           if (before > 0) chunksRemoved = true;
         } finally {
           try { fts.close(); } catch { /* best effort */ }
@@ -300,6 +323,16 @@ export function purgeSession(opts: PurgeOpts): PurgeResult {
   }
   if (storeFound) deleted.push("knowledge base (FTS5)");
 
+  // ── 1b. Durable knowledge base (persist: true sources). ──────────────
+  // Created after the case-fold migration, so only the canonical hash
+  // can exist on disk.
+  let kbFound = false;
+  if (kbDir) {
+    const kbPath = join(kbDir, `${hashProjectDirCanonical(projectDir)}.db`);
+    kbFound = tryUnlinkSqliteTriple(kbPath, wipedPaths);
+  }
+  if (kbFound) deleted.push("durable knowledge base");
+
   // ── 2. Legacy shared content DB at ~/.context-mode/content/<hash>.db.
   // Same reasoning as (1) — single hash, legacy code-path only.
   if (legacyContentDir) {
@@ -15,6 +15,16 @@ import { readFileSync, readdirSync, unlinkSync, existsSync, statSync, openSync,
 import { createHash } from "node:crypto";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { chunkCode, detectCodeLanguage } from "./code-chunker.js";
+import { chunkTable, detectDelimiter, formatTableSchema, isTablePath } from "./table-chunker.js";
+import { chunkStructured, detectStructuredFormat, type StructuredFormat } from "./structured-chunker.js";
+import { chunkNotebook, isNotebookPath } from "./notebook-chunker.js";
+import { chunkGitLog } from "./git-chunker.js";
+import { summarizeChunks } from "./summary.js";
+import { chunkLog, isLogPath, levelRank, looksLikeLog } from "./log-chunker.js";
+import { collapseNearDuplicates, fingerprint } from "./search/near-duplicate.js";
+import { expandQuery, type SynonymTable } from "./search/synonyms.js";
+import { cjkBigrams, detectLanguage, LANGUAGE_TABLES, languageFamily, normalizeLanguage, type LanguageFamily } from "./language.js";
 
 // ─────────────────────────────────────────────────────────
 // Types
@@ -24,10 +34,29 @@ interface Chunk {
   title: string;
   content: string;
   hasCode: boolean;
+  /** Severity / time range for chunks produced by log mode. */
+  log?: LogChunkMeta;
+  /** Commit SHA and file paths for chunks produced by indexGitLog. */
+  git?: GitChunkMeta;
 }
 
 type SourceMatchMode = "like" | "exact";
 
+/** Row shape of the per-language tables' search statements. */
+type LanguageSearchRow = {
+  title: string;
+  content: string;
+  raw_title: string | null;
+  raw_content: string | null;
+  content_type: string;
+  timestamp: string | null;
+  label: string;
+  rank: number;
+  highlighted: string;
+  source_id: number;
+  ordinal: number;
+};
+
 type SearchRow = {
   title: string;
   content: string;
@@ -36,10 +65,13 @@ type SearchRow = {
   label: string;
   rank: number;
   highlighted: string;
+  source_id: number;
+  /** NULL only in a read-only DB written before chunks carried their ordinal. */
+  ordinal: number | null;
 };
 
-import type { IndexResult, SearchResult, StoreStats } from "./types.js";
-export type { IndexResult, SearchResult, StoreStats } from "./types.js";
+import type { GitChunkMeta, IndexResult, LogChunkMeta, LogFilter, LogLevel, SearchExplain, SearchResult, StoreStats, SynonymExpansion, TagFilter } from "./types.js";
+export type { GitChunkMeta, IndexResult, LogChunkMeta, LogFilter, LogLevel, SearchExplain, SearchResult, StoreStats, SynonymExpansion, TagFilter } from "./types.js";
 
 // ─────────────────────────────────────────────────────────
 // Constants
@@ -121,6 +153,281 @@ export function sanitizeTrigramQuery(query: string, mode: "AND" | "OR" = "AND"):
   return final.map((w) => `"${w}"`).join(mode === "OR" ? " OR " : " ");
 }
 
+// ── Query syntax ──
+//
+// ctx_search accepts a small query language on top of free text:
+//   "exact phrase"   phrase match (no stopword filtering)
+//   -word / -"a b"   exclude chunks containing the term or phrase
+//   title:foo        match only in the chunk title (title:"a b" for phrases)
+//   source:bar       partial match on the source label
+// Bare words keep sanitizeQuery semantics. Queries that use none of this, or
+// that don't parse (unbalanced quote, empty field), take the plain path.
+
+export interface QueryClause {
+  text: string;
+  phrase: boolean;
+  field: "title" | null;
+  negate: boolean;
+}
+
+export interface ParsedQuery {
+  /** Bare words, compiled with the same rules as sanitizeQuery. */
+  terms: string[];
+  /** Phrases, title: filters and exclusions. */
+  clauses: QueryClause[];
+  /** Value of `source:` (partial label match), or null. */
+  source: string | null;
+}
+
+/**
+ * Parse ctx_search query syntax. Returns null for plain queries and for
+ * anything that fails to parse — callers then fall back to sanitizeQuery.
+ */
+export function parseQuerySyntax(query: string): ParsedQuery | null {
+  const parsed: ParsedQuery = { terms: [], clauses: [], source: null };
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    // Only `-word` / `-"phrase"` exclude: `--save-dev` and `-1` stay literal terms.
+    let negate = false;
+    if (query[i] === "-" && /[\p{L}"]/u.test(query[i + 1] ?? "")) {
+      negate = true;
+      i++;
+    }
+
+    let field: "title" | "source" | null = null;
+    const prefix = /^(title|source):/i.exec(query.slice(i));
+    if (prefix) {
+      field = prefix[1].toLowerCase() as "title" | "source";
+      i += prefix[0].length;
+    }
+
+    let text: string;
+    let phrase = false;
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) return null;
+      text = query.slice(i + 1, close).trim();
+      phrase = true;
+      i = close + 1;
+    } else {
+      const start = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      text = query.slice(start, i);
+      if (text.includes('"')) return null;
+    }
+    if (!text) return null;
+
+    if (field === "source") {
+      if (negate || parsed.source !== null) return null;
+      parsed.source = text;
+    } else if (field === null && !phrase && !negate) {
+      parsed.terms.push(text);
+    } else {
+      parsed.clauses.push({ text, phrase, field, negate });
+    }
+  }
+
+  if (parsed.clauses.length === 0 && parsed.source === null) return null;
+  // FTS5 has no unary NOT — an all-exclusion query has nothing to subtract from.
+  const hasPositive = parsed.terms.length > 0 || parsed.clauses.some((c) => !c.negate);
+  return hasPositive ? parsed : null;
+}
+
+/** Render a parsed query back to ctx_search syntax (used after fuzzy correction). */
+export function formatQuerySyntax(parsed: ParsedQuery): string {
+  const parts = [...parsed.terms];
+  for (const c of parsed.clauses) {
+    const body = c.phrase || /\s/.test(c.text) ? `"${c.text}"` : c.text;
+    parts.push(`${c.negate ? "-" : ""}${c.field ? `${c.field}:` : ""}${body}`);
+  }
+  if (parsed.source !== null) parts.push(`source:"${parsed.source}"`);
+  return parts.join(" ");
+}
+
+/** The positive text of a parsed query — what proximity/title boosts should score. */
+export function querySyntaxText(parsed: ParsedQuery): string {
+  return [...parsed.terms, ...parsed.clauses.filter((c) => !c.negate).map((c) => c.text)].join(" ");
+}
+
+/**
+ * Compile a parsed query into an FTS5 MATCH expression. Bare words are
+ * joined by `mode`; phrases and title: filters are always required and
+ * exclusions are subtracted with NOT.
+ *
+ * Returns "" when the trigram table cannot honour a clause (shorter than
+ * 3 characters) — the caller skips that layer rather than widen the match.
+ */
+export function compileQuerySyntax(
+  parsed: ParsedQuery,
+  tokenizer: "porter" | "trigram",
+  mode: "AND" | "OR" = "AND",
+): string {
+  const required: string[] = [];
+  const excluded: string[] = [];
+
+  if (parsed.terms.length > 0) {
+    const free = tokenizer === "porter"
+      ? sanitizeQuery(parsed.terms.join(" "), mode)
+      : sanitizeTrigramQuery(parsed.terms.join(" "), mode);
+    if (free && free !== '""') required.push(`(${free})`);
+  }
+
+  for (const c of parsed.clauses) {
+    if (tokenizer === "trigram" && c.text.length < 3) return "";
+    // A clause with nothing for the porter tokenizer to index (pure
+    // punctuation) can never match — drop it instead of matching nothing.
+    if (tokenizer === "porter" && !/[\p{L}\p{N}]/u.test(c.text)) continue;
+    const expr = `${c.field ? `${c.field} : ` : ""}"${c.text.replace(/"/g, '""')}"`;
+    (c.negate ? excluded : required).push(expr);
+  }
+
+  if (required.length === 0) return tokenizer === "porter" ? '""' : "";
+  const match = required.join(" AND ");
+  return excluded.length > 0 ? `(${match}) NOT (${excluded.join(" OR ")})` : match;
+}
+
+// ── Source info ──
+
+/** Content hash for sources without a file hash: SHA-256 over titles and contents. */
+function bundleChunkHash(chunks: Array<{ title: string; content: string }>): string {
+  const hash = createHash("sha256");
+  for (const c of chunks) hash.update(c.title).update("\0").update(c.content).update("\0");
+  return hash.digest("hex");
+}
+
+export interface SourceInfo {
+  id: number;
+  label: string;
+  chunkCount: number;
+  codeChunkCount: number;
+  /** SQLite `datetime('now')` — UTC without a zone suffix. */
+  indexedAt: string;
+  filePath: string | null;
+  contentHash: string | null;
+  /** Extractive summary (see summary.ts); null for sources without prose or indexed before summaries. */
+  summary: string | null;
+  tags: string[];
+  /** Pinned sources survive age cleanup, retention trims, quota eviction and session purge. */
+  pinned: boolean;
+}
+
+/**
+ * Normalize source tags: trimmed, lowercased, inner whitespace collapsed
+ * to `-`, empty and duplicate tags dropped.
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const out = tags.map((t) => t.trim().toLowerCase().replace(/\s+/g, "-")).filter((t) => t.length > 0);
+  return [...new Set(out)];
+}
+
+// ── Quota ──
+
+/** Size limits for one store (see ContentStore.setQuota); 0 or absent = unlimited. */
+export interface StoreQuota {
+  maxBytes?: number;
+  maxChunks?: number;
+}
+
+/** A source dropped to bring the store back under its quota. */
+export interface EvictedSource {
+  label: string;
+  bytes: number;
+  chunks: number;
+}
+
+/** Current size against the quota, plus evictions since the store was opened. */
+export interface QuotaUsage {
+  bytes: number;
+  chunks: number;
+  maxBytes: number;
+  maxChunks: number;
+  evictedSources: number;
+  evictedBytes: number;
+}
+
+// ── KB bundles ──
+
+/** Version written to the first line of a kb bundle; import rejects newer ones. */
+export const KB_BUNDLE_VERSION = 1;
+
+/** First line of a kb bundle. */
+export interface KbBundleHeader {
+  type: "context-mode-kb";
+  version: number;
+  exportedAt: string;
+  sources: number;
+}
+
+/** One line per source: its metadata and every chunk, in source order. */
+export interface KbBundleSource {
+  type: "source";
+  label: string;
+  indexedAt: string;
+  /** Path the source was indexed from on the exporting machine; informational. */
+  filePath: string | null;
+  /** File SHA-256 for file-backed sources, else a hash of the chunks. Import dedupes on label + this. */
+  contentHash: string;
+  /** Language of a non-English source (see language.ts); absent for English. */
+  language?: string;
+  /** Absent when the source has no tags. */
+  tags?: string[];
+  pinned?: boolean;
+  chunks: Array<{
+    title: string;
+    content: string;
+    contentType: "code" | "prose";
+    log?: LogChunkMeta;
+    git?: GitChunkMeta;
+  }>;
+}
+
+export interface KbImportResult {
+  /** Sources whose label was new to this store. */
+  imported: number;
+  /** Sources whose label existed with different content, now overwritten. */
+  replaced: number;
+  /** Sources already present with the same label and content hash. */
+  skipped: number;
+}
+
+/**
+ * Cheap staleness check for a file-backed source, using the same mtime gate
+ * as the auto-refresh in searchWithFallback: "modified" sources are
+ * re-indexed on the next search. Returns null for sources without a file.
+ */
+export function sourceFileState(
+  source: Pick<SourceInfo, "filePath" | "indexedAt">,
+): "fresh" | "modified" | "missing" | null {
+  if (!source.filePath) return null;
+  try {
+    const mtime = statSync(source.filePath).mtime;
+    return mtime > new Date(source.indexedAt + "Z") ? "modified" : "fresh";
+  } catch {
+    return "missing";
+  }
+}
+
+// ── Chunk ids ──
+//
+// `<sourceId>:<ordinal>` — the source row id (never reused: AUTOINCREMENT)
+// and the chunk's position within that source. The same chunk gets the same
+// id from the porter and trigram tables and across searches, until the
+// source is re-indexed.
+
+export function formatChunkId(sourceId: number, ordinal: number): string {
+  return `${sourceId}:${ordinal}`;
+}
+
+export function parseChunkId(chunkId: string): { sourceId: number; ordinal: number } | null {
+  const m = /^(\d+):(\d+)$/.exec(chunkId.trim());
+  return m ? { sourceId: Number(m[1]), ordinal: Number(m[2]) } : null;
+}
+
 function levenshtein(a: string, b: string): number {
   if (a.length === 0) return b.length;
   if (b.length === 0) return a.length;
@@ -149,6 +456,12 @@ function maxEditDistance(wordLength: number): number {
 // boundaries when a chunk exceeds this cap.
 const MAX_CHUNK_BYTES = 4096;
 
+/** Consistent data rows required before unlabelled text is indexed as a table. */
+const TABLE_STRICT_MIN_ROWS = 5;
+
+/** RRF weight of hits found only through a synonym variant of the query. */
+const SYNONYM_WEIGHT = 0.5;
+
 // ─────────────────────────────────────────────────────────
 // ContentStore
 // ─────────────────────────────────────────────────────────
@@ -328,9 +641,53 @@ function findMinSpan(positionLists: number[][]): number {
   return minSpan;
 }
 
+/**
+ * Plain side tables (name → column definitions). Metadata tables are keyed
+ * like chunk ids (source_id:ordinal): log-mode and git metadata, and MinHash
+ * fingerprints for near-duplicate collapse at search time. Per-source
+ * tables are keyed by source_id alone.
+ */
+const SIDE_TABLES: Record<string, string> = {
+  vocabulary: "word TEXT PRIMARY KEY",
+  log_chunks: "source_id INTEGER NOT NULL, ordinal INTEGER NOT NULL, level TEXT NOT NULL, " +
+    "level_rank INTEGER NOT NULL, time_start TEXT NOT NULL, time_end TEXT NOT NULL, " +
+    "request_id TEXT, PRIMARY KEY (source_id, ordinal)",
+  // files: JSON array of the paths whose diffs the chunk holds.
+  git_chunks: "source_id INTEGER NOT NULL, ordinal INTEGER NOT NULL, sha TEXT NOT NULL, " +
+    "files TEXT NOT NULL, PRIMARY KEY (source_id, ordinal)",
+  chunk_fingerprints: "source_id INTEGER NOT NULL, ordinal INTEGER NOT NULL, " +
+    "fingerprint TEXT NOT NULL, PRIMARY KEY (source_id, ordinal)",
+  source_languages: "source_id INTEGER PRIMARY KEY, language TEXT NOT NULL",
+  // bytes is NULL for sources indexed before this table existed (backfilled
+  // on first quota check); last_hit_at is NULL until a search returns it.
+  source_usage: "source_id INTEGER PRIMARY KEY, bytes INTEGER, last_hit_at TEXT",
+  // tags: JSON array of normalized tags (see normalizeTags).
+  source_tags: "source_id INTEGER PRIMARY KEY, tags TEXT NOT NULL DEFAULT '[]', pinned INTEGER NOT NULL DEFAULT 0",
+};
+
+/** Ids of pinned sources, for the cleanup / eviction statements to skip. */
+const PINNED_IDS = "SELECT source_id FROM source_tags WHERE pinned = 1";
+
+/**
+ * Per-language FTS5 table DDL (see language.ts). Rows carry the chunk's
+ * ordinal so results map straight to chunk ids; CJK rows index bigram text
+ * and keep the original in raw_title / raw_content.
+ */
+function languageTableSql(family: Exclude<LanguageFamily, "porter">, schema: "main" | "temp" = "main"): string {
+  const { table, tokenize } = LANGUAGE_TABLES[family];
+  return `CREATE VIRTUAL TABLE IF NOT EXISTS ${schema}.${table} USING fts5(
+    title, content, source_id UNINDEXED, ordinal UNINDEXED, content_type UNINDEXED,
+    session_id UNINDEXED, timestamp UNINDEXED, raw_title UNINDEXED, raw_content UNINDEXED,
+    tokenize='${tokenize}'
+  )`;
+}
+
+const LANGUAGE_FAMILIES = Object.keys(LANGUAGE_TABLES) as Array<Exclude<LanguageFamily, "porter">>;
+
 export class ContentStore {
   #db: DatabaseInstance;
   #dbPath: string;
+  #readonly = false;
   // Optional deny-policy callback. When set (by server.ts at startup),
   // #refreshStaleSources consults it before re-reading file_path during
   // auto-refresh. This catches policy edits between initial indexing and
@@ -338,6 +695,15 @@ export class ContentStore {
   // added to the Read deny list afterwards. Without this hook, refresh
   // would re-read and re-expose the file. See #442 round-3.
   #denyChecker?: (filePath: string) => boolean;
+  // Optional synonyms lookup, consulted on every search so edits to the
+  // synonyms files apply without reopening the store.
+  #synonymSource?: () => SynonymTable;
+  // Size quota (see setQuota). Evictions accumulate in #pendingEvictions
+  // until the server reports them, and in #evicted for ctx_stats.
+  #quota: Required<StoreQuota> = { maxBytes: 0, maxChunks: 0 };
+  #usageBackfilled = false;
+  #pendingEvictions: EvictedSource[] = [];
+  #evicted = { sources: 0, bytes: 0 };
 
   // ── Cached Prepared Statements ──
   // Prepared once at construction, reused on every call to avoid
@@ -349,11 +715,22 @@ export class ContentStore {
   #stmtInsertChunk!: PreparedStatement;
   #stmtInsertChunkTrigram!: PreparedStatement;
   #stmtInsertVocab!: PreparedStatement;
+  #stmtVocabHas!: PreparedStatement;
+  /** Absent on a read-only DB that predates the summary column. */
+  #stmtSetSummary?: PreparedStatement;
+  #stmtInsertLogChunk!: PreparedStatement;
+  #stmtInsertGitChunk!: PreparedStatement;
+  #stmtInsertFingerprint!: PreparedStatement;
 
   // Dedup path (delete previous source with same label before re-indexing)
   #stmtDeleteChunksByLabel!: PreparedStatement;
   #stmtDeleteChunksTrigramByLabel!: PreparedStatement;
   #stmtDeleteSourcesByLabel!: PreparedStatement;
+  #stmtDeleteLogChunksByLabel!: PreparedStatement;
+  #stmtDeleteGitChunksByLabel!: PreparedStatement;
+  #stmtDeleteFingerprintsByLabel!: PreparedStatement;
+  #stmtDeleteUsageByLabel!: PreparedStatement;
+  #stmtDeleteTagsByLabel!: PreparedStatement;
 
   // Search path (hot)
   #stmtSearchPorter!: PreparedStatement;
@@ -372,16 +749,58 @@ export class ContentStore {
 
   // Read path
   #stmtListSources!: PreparedStatement;
+  #stmtListSourceInfo!: PreparedStatement;
   #stmtChunksBySource!: PreparedStatement;
   #stmtSourceChunkCount!: PreparedStatement;
   #stmtChunkContent!: PreparedStatement;
   #stmtStats!: PreparedStatement;
   #stmtSourceMeta!: PreparedStatement;
+  #stmtLogChunkMeta!: PreparedStatement;
+  #stmtGitChunkMeta!: PreparedStatement;
+  #stmtChunkFingerprint!: PreparedStatement;
+  #stmtLanguageFamilies!: PreparedStatement;
+  #stmtSourceLanguage!: PreparedStatement;
 
   // Cleanup path
   #stmtCleanupChunks!: PreparedStatement;
   #stmtCleanupChunksTrigram!: PreparedStatement;
   #stmtCleanupSources!: PreparedStatement;
+  #stmtTrimChunks!: PreparedStatement;
+  #stmtTrimChunksTrigram!: PreparedStatement;
+  #stmtTrimSources!: PreparedStatement;
+  #stmtPruneLogChunks!: PreparedStatement;
+  #stmtPruneGitChunks!: PreparedStatement;
+  #stmtPruneFingerprints!: PreparedStatement;
+  #stmtPruneLanguages!: PreparedStatement;
+  #stmtPruneUsage!: PreparedStatement;
+  #stmtPruneTags!: PreparedStatement;
+
+  // Tags and pins
+  #stmtInsertTags!: PreparedStatement;
+  #stmtTagsBySourceId!: PreparedStatement;
+  #stmtTagsByLabel!: PreparedStatement;
+  #stmtSourceIdByLabel!: PreparedStatement;
+
+  // Quota path: usage tracking and LRU eviction
+  #stmtInsertUsage!: PreparedStatement;
+  #stmtRecordHit!: PreparedStatement;
+  #stmtBackfillUsage!: PreparedStatement;
+  #stmtBackfillUsageBytes!: PreparedStatement;
+  #stmtUsageTotals!: PreparedStatement;
+  #stmtEvictionCandidates!: PreparedStatement;
+
+  // Per-language tables (see language.ts): insert / delete-by-label / prune
+  // per family, plus search statements prepared on first use.
+  #stmtInsertSourceLanguage!: PreparedStatement;
+  #stmtDeleteLanguageByLabel!: PreparedStatement;
+  #languageStmts = {} as Record<Exclude<LanguageFamily, "porter">, {
+    insert: PreparedStatement;
+    deleteByLabel: PreparedStatement;
+    prune: PreparedStatement;
+  }>;
+  #languageSearchStmts = new Map<string, PreparedStatement>();
+  // Families with at least one indexed source — search skips the others.
+  #languageFamilies = new Set<Exclude<LanguageFamily, "porter">>();
 
   // FTS5 optimization: track inserts and optimize periodically to defragment
   // the index. FTS5 b-trees fragment over many insert/delete cycles, degrading
@@ -397,10 +816,28 @@ export class ContentStore {
   #fuzzyCache = new Map<string, string | null>();
   static readonly FUZZY_CACHE_SIZE = 256;
 
-  constructor(dbPath?: string) {
+  /**
+   * With `readonly`, the DB must already exist and is never written: no
+   * schema migration, no WAL pragmas, no stale-source refresh on search.
+   * Used by federated search to query other processes' content DBs.
+   */
+  constructor(dbPath?: string, opts?: { readonly?: boolean }) {
     const Database = loadDatabase();
     this.#dbPath =
       dbPath ?? join(tmpdir(), `context-mode-${process.pid}.db`);
+    if (opts?.readonly) {
+      if (!existsSync(this.#dbPath)) throw new Error(`Content DB not found: ${this.#dbPath}`);
+      this.#readonly = true;
+      this.#db = new Database(this.#dbPath, { readonly: true, fileMustExist: true, timeout: 5000 });
+      try {
+        this.#shadowMissingSideTables();
+        this.#prepareStatements();
+      } catch (err) {
+        try { this.#db.close(); } catch { /* ignore */ }
+        throw err;
+      }
+      return;
+    }
     cleanOrphanedWALFiles(this.#dbPath);
     let db: DatabaseInstance;
     try {
@@ -449,7 +886,8 @@ export class ContentStore {
         code_chunk_count INTEGER NOT NULL DEFAULT 0,
         indexed_at TEXT NOT NULL DEFAULT (datetime('now')),
         file_path TEXT,
-        content_hash TEXT
+        content_hash TEXT,
+        summary TEXT
       );
 
       CREATE VIRTUAL TABLE IF NOT EXISTS chunks USING fts5(
@@ -461,6 +899,7 @@ export class ContentStore {
         session_id UNINDEXED,
         event_id UNINDEXED,
         timestamp UNINDEXED,
+        ordinal UNINDEXED,
         tokenize='porter unicode61'
       );
 
@@ -473,15 +912,15 @@ export class ContentStore {
         session_id UNINDEXED,
         event_id UNINDEXED,
         timestamp UNINDEXED,
+        ordinal UNINDEXED,
         tokenize='trigram'
       );
 
-      CREATE TABLE IF NOT EXISTS vocabulary (
-        word TEXT PRIMARY KEY
-      );
+      ${Object.entries(SIDE_TABLES).map(([name, columns]) => `CREATE TABLE IF NOT EXISTS ${name} (${columns});`).join("\n")}
 
       CREATE INDEX IF NOT EXISTS idx_sources_label ON sources(label);
     `);
+    for (const family of LANGUAGE_FAMILIES) this.#db.exec(languageTableSql(family));
 
     // FTS5 schema migration: old schema (4 cols) → new schema (8 cols).
     // FTS5 virtual tables do not support ALTER TABLE ADD COLUMN, so we must
@@ -509,6 +948,7 @@ export class ContentStore {
             session_id UNINDEXED,
             event_id UNINDEXED,
             timestamp UNINDEXED,
+            ordinal UNINDEXED,
             tokenize='porter unicode61'
           );
           CREATE VIRTUAL TABLE chunks_trigram USING fts5(
@@ -520,18 +960,82 @@ export class ContentStore {
             session_id UNINDEXED,
             event_id UNINDEXED,
             timestamp UNINDEXED,
+            ordinal UNINDEXED,
             tokenize='trigram'
           );
         `);
       }
     } catch { /* pragma_table_xinfo may fail if table doesn't exist yet — safe to ignore */ }
+    this.#addChunkOrdinals();
 
     // Stale detection columns — safe for existing DBs (ALTER is O(1) in SQLite)
     try { this.#db.exec("ALTER TABLE sources ADD COLUMN file_path TEXT"); } catch { /* already exists */ }
     try { this.#db.exec("ALTER TABLE sources ADD COLUMN content_hash TEXT"); } catch { /* already exists */ }
+    // Extractive summary (see summary.ts) — NULL for sources indexed before it existed
+    try { this.#db.exec("ALTER TABLE sources ADD COLUMN summary TEXT"); } catch { /* already exists */ }
+  }
+
+  /**
+   * Chunk ids are `<sourceId>:<ordinal>`. DBs written before the FTS5
+   * tables had an ordinal column are rebuilt with one, keeping rowids.
+   * Their ordinals are derived once from rowids, which were contiguous per
+   * source because a source's chunks are inserted in one transaction.
+   */
+  #addChunkOrdinals(): void {
+    for (const table of ["chunks", "chunks_trigram"] as const) {
+      const cols = (this.#db.prepare(`SELECT name FROM pragma_table_xinfo('${table}')`).all() as Array<{ name: string }>)
+        .map((c) => c.name);
+      if (cols.includes("ordinal")) continue;
+      const tokenize = table === "chunks" ? "porter unicode61" : "trigram";
+      const columns = "title, content, source_id, content_type, source_category, session_id, event_id, timestamp";
+      this.#db.transaction(() => {
+        this.#db.exec(`
+          CREATE VIRTUAL TABLE ${table}_migrating USING fts5(
+            title, content, source_id UNINDEXED, content_type UNINDEXED, source_category UNINDEXED,
+            session_id UNINDEXED, event_id UNINDEXED, timestamp UNINDEXED, ordinal UNINDEXED,
+            tokenize='${tokenize}'
+          );
+          CREATE TEMP TABLE first_rowids AS SELECT source_id, MIN(rowid) AS first FROM ${table} GROUP BY source_id;
+          INSERT INTO ${table}_migrating (rowid, ${columns}, ordinal)
+            SELECT t.rowid, ${columns.split(", ").map((c) => `t.${c}`).join(", ")}, t.rowid - f.first
+            FROM ${table} t JOIN first_rowids f ON f.source_id = t.source_id;
+          DROP TABLE first_rowids;
+          DROP TABLE ${table};
+          ALTER TABLE ${table}_migrating RENAME TO ${table};
+        `);
+      })();
+    }
+  }
+
+  /**
+   * Read-only open: a DB written by an older release may lack side tables
+   * added since. Shadow each missing one with an empty temp table (temp
+   * tables stay writable on a read-only connection) so statements prepare
+   * and lookups simply miss. The FTS5 tables themselves are required.
+   */
+  #shadowMissingSideTables(): void {
+    const names = new Set((this.#db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table'",
+    ).all() as Array<{ name: string }>).map((r) => r.name));
+    if (!names.has("sources") || !names.has("chunks") || !names.has("chunks_trigram")) {
+      throw new Error(`Not a context-mode content DB: ${this.#dbPath}`);
+    }
+    for (const [name, columns] of Object.entries(SIDE_TABLES)) {
+      if (!names.has(name)) this.#db.exec(`CREATE TEMP TABLE ${name} (${columns})`);
+    }
+    for (const family of LANGUAGE_FAMILIES) {
+      if (!names.has(LANGUAGE_TABLES[family].table)) this.#db.exec(languageTableSql(family, "temp"));
+    }
   }
 
   #prepareStatements(): void {
+    // A read-only store cannot add the summary column to an older DB.
+    const hasSummary = (this.#db.prepare("SELECT name FROM pragma_table_info('sources')").all() as Array<{ name: string }>)
+      .some((c) => c.name === "summary");
+    // Nor the chunk ordinal column; chunk ids are then omitted from results.
+    const hasOrdinal = (this.#db.prepare("SELECT name FROM pragma_table_xinfo('chunks')").all() as Array<{ name: string }>)
+      .some((c) => c.name === "ordinal");
+
     // Write path
     this.#stmtInsertSourceEmpty = this.#db.prepare(
       "INSERT INTO sources (label, chunk_count, code_chunk_count, file_path, content_hash) VALUES (?, 0, 0, ?, ?)",
@@ -540,14 +1044,25 @@ export class ContentStore {
       "INSERT INTO sources (label, chunk_count, code_chunk_count, file_path, content_hash) VALUES (?, ?, ?, ?, ?)",
     );
     this.#stmtInsertChunk = this.#db.prepare(
-      "INSERT INTO chunks (title, content, source_id, content_type, source_category, session_id, event_id, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO chunks (title, content, source_id, content_type, source_category, session_id, event_id, timestamp, ordinal) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
     );
     this.#stmtInsertChunkTrigram = this.#db.prepare(
-      "INSERT INTO chunks_trigram (title, content, source_id, content_type, source_category, session_id, event_id, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO chunks_trigram (title, content, source_id, content_type, source_category, session_id, event_id, timestamp, ordinal) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
     );
     this.#stmtInsertVocab = this.#db.prepare(
       "INSERT OR IGNORE INTO vocabulary (word) VALUES (?)",
     );
+    this.#stmtVocabHas = this.#db.prepare("SELECT 1 FROM vocabulary WHERE word = ?");
+    if (hasSummary) this.#stmtSetSummary = this.#db.prepare("UPDATE sources SET summary = ? WHERE id = ?");
+    this.#stmtInsertLogChunk = this.#db.prepare(
+      "INSERT INTO log_chunks (source_id, ordinal, level, level_rank, time_start, time_end, request_id) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    );
+    this.#stmtInsertGitChunk = this.#db.prepare(
+      "INSERT INTO git_chunks (source_id, ordinal, sha, files) VALUES (?, ?, ?, ?)",
+    );
+    this.#stmtInsertFingerprint = this.#db.prepare(
+      "INSERT INTO chunk_fingerprints (source_id, ordinal, fingerprint) VALUES (?, ?, ?)",
+    );
 
     // Dedup path: delete previous source with same label before re-indexing
     // Prevents stale outputs from accumulating in iterative workflows (build-fix-build)
@@ -560,6 +1075,15 @@ export class ContentStore {
     this.#stmtDeleteSourcesByLabel = this.#db.prepare(
       "DELETE FROM sources WHERE label = ?",
     );
+    this.#stmtDeleteLogChunksByLabel = this.#db.prepare(
+      "DELETE FROM log_chunks WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
+    );
+    this.#stmtDeleteGitChunksByLabel = this.#db.prepare(
+      "DELETE FROM git_chunks WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
+    );
+    this.#stmtDeleteFingerprintsByLabel = this.#db.prepare(
+      "DELETE FROM chunk_fingerprints WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
+    );
 
     // Search path (hot)
     this.#stmtSearchPorter = this.#db.prepare(`
@@ -569,6 +1093,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -584,6 +1110,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -599,6 +1127,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -614,6 +1144,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -629,6 +1161,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -644,6 +1178,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -661,6 +1197,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -676,6 +1214,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -691,6 +1231,8 @@ export class ContentStore {
         chunks.content_type,
         chunks.timestamp,
         sources.label,
+        chunks.source_id,
+        ${hasOrdinal ? "chunks.ordinal" : "NULL"} AS ordinal,
         bm25(chunks, 5.0, 1.0) AS rank,
         highlight(chunks, 1, char(2), char(3)) AS highlighted
       FROM chunks
@@ -706,6 +1248,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -721,6 +1265,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -736,6 +1282,8 @@ export class ContentStore {
         chunks_trigram.content_type,
         chunks_trigram.timestamp,
         sources.label,
+        chunks_trigram.source_id,
+        ${hasOrdinal ? "chunks_trigram.ordinal" : "NULL"} AS ordinal,
         bm25(chunks_trigram, 5.0, 1.0) AS rank,
         highlight(chunks_trigram, 1, char(2), char(3)) AS highlighted
       FROM chunks_trigram
@@ -754,12 +1302,19 @@ export class ContentStore {
     this.#stmtListSources = this.#db.prepare(
       "SELECT label, chunk_count as chunkCount FROM sources ORDER BY id DESC",
     );
+    this.#stmtListSourceInfo = this.#db.prepare(
+      `SELECT id, label, chunk_count AS chunkCount, code_chunk_count AS codeChunkCount,
+              indexed_at AS indexedAt, file_path AS filePath, content_hash AS contentHash,
+              ${hasSummary ? "summary" : "NULL"} AS summary, COALESCE(t.tags, '[]') AS tags, COALESCE(t.pinned, 0) AS pinned
+       FROM sources LEFT JOIN source_tags t ON t.source_id = sources.id
+       ORDER BY id DESC`,
+    );
     this.#stmtChunksBySource = this.#db.prepare(
       `SELECT c.title, c.content, c.content_type, s.label
        FROM chunks c
        JOIN sources s ON s.id = c.source_id
        WHERE c.source_id = ?
-       ORDER BY c.rowid`,
+       ORDER BY ${hasOrdinal ? "c.ordinal" : "c.rowid"}`,
     );
     this.#stmtSourceChunkCount = this.#db.prepare(
       "SELECT chunk_count FROM sources WHERE id = ?",
@@ -770,6 +1325,15 @@ export class ContentStore {
     this.#stmtSourceMeta = this.#db.prepare(
       "SELECT label, chunk_count, code_chunk_count, indexed_at, file_path, content_hash FROM sources WHERE label = ?",
     );
+    this.#stmtLogChunkMeta = this.#db.prepare(
+      "SELECT level, time_start, time_end, request_id FROM log_chunks WHERE source_id = ? AND ordinal = ?",
+    );
+    this.#stmtGitChunkMeta = this.#db.prepare(
+      "SELECT sha, files FROM git_chunks WHERE source_id = ? AND ordinal = ?",
+    );
+    this.#stmtChunkFingerprint = this.#db.prepare(
+      "SELECT fingerprint FROM chunk_fingerprints WHERE source_id = ? AND ordinal = ?",
+    );
     this.#stmtStats = this.#db.prepare(`
       SELECT
         (SELECT COUNT(*) FROM sources) AS sources,
@@ -779,14 +1343,120 @@ export class ContentStore {
 
     // Cleanup path — cached to avoid recompiling SQL on each periodic call
     this.#stmtCleanupChunks = this.#db.prepare(
-      "DELETE FROM chunks WHERE source_id IN (SELECT id FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days'))",
+      `DELETE FROM chunks WHERE source_id IN (SELECT id FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days') AND id NOT IN (${PINNED_IDS}))`,
     );
     this.#stmtCleanupChunksTrigram = this.#db.prepare(
-      "DELETE FROM chunks_trigram WHERE source_id IN (SELECT id FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days'))",
+      `DELETE FROM chunks_trigram WHERE source_id IN (SELECT id FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days') AND id NOT IN (${PINNED_IDS}))`,
     );
     this.#stmtCleanupSources = this.#db.prepare(
-      "DELETE FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days')",
+      `DELETE FROM sources WHERE datetime(indexed_at) < datetime('now', '-' || ? || ' days') AND id NOT IN (${PINNED_IDS})`,
+    );
+    // Newest-first; OFFSET ? skips the sources to keep. Pinned sources are
+    // kept on top of the limit.
+    const overflow = `SELECT id FROM sources WHERE id NOT IN (${PINNED_IDS}) ORDER BY datetime(indexed_at) DESC, id DESC LIMIT -1 OFFSET ?`;
+    this.#stmtTrimChunks = this.#db.prepare(`DELETE FROM chunks WHERE source_id IN (${overflow})`);
+    this.#stmtTrimChunksTrigram = this.#db.prepare(`DELETE FROM chunks_trigram WHERE source_id IN (${overflow})`);
+    this.#stmtTrimSources = this.#db.prepare(`DELETE FROM sources WHERE id IN (${overflow})`);
+    this.#stmtPruneLogChunks = this.#db.prepare(
+      "DELETE FROM log_chunks WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+    this.#stmtPruneGitChunks = this.#db.prepare(
+      "DELETE FROM git_chunks WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+    this.#stmtPruneFingerprints = this.#db.prepare(
+      "DELETE FROM chunk_fingerprints WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+    this.#stmtPruneLanguages = this.#db.prepare(
+      "DELETE FROM source_languages WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+    this.#stmtPruneUsage = this.#db.prepare(
+      "DELETE FROM source_usage WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+    this.#stmtPruneTags = this.#db.prepare(
+      "DELETE FROM source_tags WHERE source_id NOT IN (SELECT id FROM sources)",
+    );
+
+    // Tags and pins
+    this.#stmtInsertTags = this.#db.prepare(
+      "INSERT OR REPLACE INTO source_tags (source_id, tags, pinned) VALUES (?, ?, ?)",
+    );
+    this.#stmtDeleteTagsByLabel = this.#db.prepare(
+      "DELETE FROM source_tags WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
     );
+    this.#stmtTagsBySourceId = this.#db.prepare(
+      "SELECT tags, pinned FROM source_tags WHERE source_id = ?",
+    );
+    this.#stmtSourceIdByLabel = this.#db.prepare(
+      "SELECT id FROM sources WHERE label = ?",
+    );
+    this.#stmtTagsByLabel = this.#db.prepare(
+      "SELECT t.tags, t.pinned FROM source_tags t JOIN sources s ON s.id = t.source_id WHERE s.label = ?",
+    );
+
+    // Quota: per-source bytes and last search hit. Hit times carry
+    // milliseconds so they sort after an indexed_at in the same second.
+    this.#stmtInsertUsage = this.#db.prepare(
+      "INSERT OR REPLACE INTO source_usage (source_id, bytes, last_hit_at) VALUES (?, ?, NULL)",
+    );
+    this.#stmtDeleteUsageByLabel = this.#db.prepare(
+      "DELETE FROM source_usage WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
+    );
+    this.#stmtRecordHit = this.#db.prepare(
+      `INSERT INTO source_usage (source_id, bytes, last_hit_at) VALUES (?, NULL, strftime('%Y-%m-%d %H:%M:%f', 'now'))
+       ON CONFLICT(source_id) DO UPDATE SET last_hit_at = excluded.last_hit_at`,
+    );
+    this.#stmtBackfillUsage = this.#db.prepare(
+      "INSERT OR IGNORE INTO source_usage (source_id, bytes) SELECT id, NULL FROM sources",
+    );
+    this.#stmtBackfillUsageBytes = this.#db.prepare(
+      `UPDATE source_usage SET bytes = (
+         SELECT COALESCE(SUM(length(CAST(title AS BLOB)) + length(CAST(content AS BLOB))), 0)
+         FROM chunks WHERE chunks.source_id = source_usage.source_id
+       ) WHERE bytes IS NULL`,
+    );
+    this.#stmtUsageTotals = this.#db.prepare(
+      `SELECT COALESCE(SUM(u.bytes), 0) AS bytes, COALESCE(SUM(s.chunk_count), 0) AS chunks
+       FROM sources s LEFT JOIN source_usage u ON u.source_id = s.id`,
+    );
+    // Least recently used first: last search hit, else when it was indexed.
+    this.#stmtEvictionCandidates = this.#db.prepare(
+      `SELECT s.id, s.label, s.chunk_count, COALESCE(u.bytes, 0) AS bytes
+       FROM sources s LEFT JOIN source_usage u ON u.source_id = s.id
+       WHERE s.id != ? AND s.id NOT IN (${PINNED_IDS})
+       ORDER BY COALESCE(u.last_hit_at, s.indexed_at), s.id`,
+    );
+
+    // Per-language tables
+    this.#stmtInsertSourceLanguage = this.#db.prepare(
+      "INSERT OR REPLACE INTO source_languages (source_id, language) VALUES (?, ?)",
+    );
+    this.#stmtDeleteLanguageByLabel = this.#db.prepare(
+      "DELETE FROM source_languages WHERE source_id IN (SELECT id FROM sources WHERE label = ?)",
+    );
+    this.#stmtLanguageFamilies = this.#db.prepare(
+      "SELECT DISTINCT language FROM source_languages",
+    );
+    this.#stmtSourceLanguage = this.#db.prepare(
+      "SELECT language FROM source_languages WHERE source_id = ?",
+    );
+    for (const family of LANGUAGE_FAMILIES) {
+      const { table } = LANGUAGE_TABLES[family];
+      this.#languageStmts[family] = {
+        insert: this.#db.prepare(
+          `INSERT INTO ${table} (title, content, source_id, ordinal, content_type, session_id, timestamp, raw_title, raw_content) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ),
+        deleteByLabel: this.#db.prepare(
+          `DELETE FROM ${table} WHERE source_id IN (SELECT id FROM sources WHERE label = ?)`,
+        ),
+        prune: this.#db.prepare(
+          `DELETE FROM ${table} WHERE source_id NOT IN (SELECT id FROM sources)`,
+        ),
+      };
+    }
+    for (const { language } of this.#stmtLanguageFamilies.all() as Array<{ language: string }>) {
+      const family = languageFamily(language);
+      if (family !== "porter") this.#languageFamilies.add(family);
+    }
   }
 
   // ── Deny Policy Hook ──
@@ -801,6 +1471,15 @@ export class ContentStore {
     this.#denyChecker = fn;
   }
 
+  /**
+   * Register a synonyms lookup. When set, searchWithFallback expands each
+   * query with it (see search/synonyms.ts). server.ts wires this to the
+   * project and user synonyms files.
+   */
+  setSynonymSource(fn: (() => SynonymTable) | undefined): void {
+    this.#synonymSource = fn;
+  }
+
   // ── Index ──
 
   index(options: {
@@ -813,8 +1492,15 @@ export class ContentStore {
      * chunks fall back to empty-string columns (legacy behaviour).
      */
     attribution?: { sessionId?: string; eventId?: string };
+    /**
+     * ISO 639-1 language of the content (`de`, `ja`, …). Non-English sources
+     * are also indexed into a table with a matching tokenizer (see
+     * language.ts). Detected from the text when omitted.
+     */
+    language?: string;
   }): IndexResult {
     const { content, path, source, attribution } = options;
+    const declaredLanguage = options.language ? normalizeLanguage(options.language) ?? undefined : undefined;
 
     // Treat empty string as "no content" so an empty `content` paired with a
     // valid `path` falls back to reading the file. Some MCP clients
@@ -851,13 +1537,51 @@ export class ContentStore {
       }
     }
     const label = source ?? path ?? "untitled";
-    const chunks = this.#chunkMarkdown(text);
 
     // Stale detection: store file_path + SHA-256 for file-backed sources
     const filePath = path ?? undefined;
     const contentHash = filePath ? createHash("sha256").update(text).digest("hex") : undefined;
 
-    return withRetry(() => this.#insertChunks(chunks, label, text, filePath, contentHash, attribution));
+    // .csv / .tsv files (or inline content labelled as one) chunk by row
+    // batch under their header.
+    const formatHint = path ?? source;
+    const table = formatHint && isTablePath(formatHint) ? chunkTable(text, MAX_CHUNK_BYTES) : null;
+    if (table) {
+      const chunks = table.chunks.map((c) => ({ ...c, hasCode: false }));
+      const result = withRetry(() => this.#insertChunks(chunks, label, text, filePath, contentHash, attribution, declaredLanguage));
+      return { ...result, tableSchema: formatTableSchema(table.schema) };
+    }
+
+    // Notebooks chunk per cell: markdown as prose, code with its outputs.
+    const cells = formatHint && isNotebookPath(formatHint) ? chunkNotebook(text, MAX_CHUNK_BYTES) : null;
+    if (cells && cells.length > 0) {
+      return withRetry(() => this.#insertChunks(cells, label, text, filePath, contentHash, attribution, declaredLanguage));
+    }
+
+    // Source files split on declarations so a function never straddles two
+    // chunks and titles carry symbol paths (`ContentStore > index`).
+    const language = path ? detectCodeLanguage(path) : null;
+
+    // Logs (.log, or content whose lines are mostly timestamped records)
+    // chunk by request id or time window, with severity / time metadata.
+    const logChunks = (formatHint && isLogPath(formatHint)) || (!language && looksLikeLog(text))
+      ? chunkLog(text, MAX_CHUNK_BYTES)
+      : null;
+    if (logChunks && logChunks.length > 0) {
+      return withRetry(() => this.#insertChunks(logChunks, label, text, filePath, contentHash, attribution, declaredLanguage));
+    }
+
+    // YAML / TOML / XML — by extension, or sniffed from unlabelled content —
+    // chunk along their structure with key-path titles, like indexJSON.
+    const format = language ? null : detectStructuredFormat(formatHint, text);
+    const structured = format ? chunkStructured(text, format, MAX_CHUNK_BYTES) : null;
+    const chunks = language
+      ? chunkCode(text, language, MAX_CHUNK_BYTES).map((c) => ({ ...c, hasCode: true }))
+      : structured
+        ? structured.map((c) => ({ ...c, hasCode: true }))
+        : this.#chunkMarkdown(text);
+
+    return withRetry(() => this.#insertChunks(chunks, label, text, filePath, contentHash, attribution, declaredLanguage));
   }
 
   // ── Index Plain Text ──
@@ -865,7 +1589,9 @@ export class ContentStore {
   /**
    * Index plain-text output (logs, build output, test results) by splitting
    * into fixed-size line groups. Unlike markdown indexing, this does not
-   * look for headings — it chunks by line count with overlap.
+   * look for headings — it chunks by line count with overlap. Output that
+   * looks like a timestamped log is chunked in log mode instead (see
+   * log-chunker.ts).
    */
   indexPlainText(
     content: string,
@@ -877,6 +1603,11 @@ export class ContentStore {
       return this.#insertChunks([], source, "", undefined, undefined, attribution);
     }
 
+    const logChunks = chunkLog(content, MAX_CHUNK_BYTES);
+    if (logChunks && logChunks.length > 0) {
+      return withRetry(() => this.#insertChunks(logChunks, source, content, undefined, undefined, attribution));
+    }
+
     const chunks = this.#chunkPlainText(content, linesPerChunk);
 
     return withRetry(() => this.#insertChunks(
@@ -889,6 +1620,88 @@ export class ContentStore {
     ));
   }
 
+  // ── Index Table ──
+
+  /**
+   * Index CSV / TSV content as header-prefixed row batches titled by row
+   * range and key column (see table-chunker.ts), plus a `(schema)` chunk.
+   * `strict` demands several consistent rows before treating the text as a
+   * table — for content with no .csv/.tsv hint. Falls back to
+   * `indexPlainText` when the content is not tabular.
+   */
+  indexTable(
+    content: string,
+    source: string,
+    strict: boolean = false,
+    attribution?: { sessionId?: string; eventId?: string },
+  ): IndexResult {
+    const delimiter = detectDelimiter(content, strict ? TABLE_STRICT_MIN_ROWS : 1);
+    const table = delimiter ? chunkTable(content, MAX_CHUNK_BYTES, delimiter) : null;
+    if (!table) {
+      return this.indexPlainText(content, source, undefined, attribution);
+    }
+    const chunks = table.chunks.map((c) => ({ ...c, hasCode: false }));
+    const result = withRetry(() => this.#insertChunks(chunks, source, content, undefined, undefined, attribution));
+    return { ...result, tableSchema: formatTableSchema(table.schema) };
+  }
+
+  // ── Index Structured ──
+
+  /**
+   * Index YAML, TOML or XML along its structure, titling chunks by key path
+   * the way indexJSON does (see structured-chunker.ts). Falls back to
+   * `indexPlainText` when the content does not parse as `format`.
+   */
+  indexStructured(
+    content: string,
+    source: string,
+    format: StructuredFormat,
+    attribution?: { sessionId?: string; eventId?: string },
+  ): IndexResult {
+    const structured = chunkStructured(content, format, MAX_CHUNK_BYTES);
+    if (!structured) {
+      return this.indexPlainText(content, source, undefined, attribution);
+    }
+    const chunks = structured.map((c) => ({ ...c, hasCode: true }));
+    return withRetry(() => this.#insertChunks(chunks, source, content, undefined, undefined, attribution));
+  }
+
+  // ── Index Notebook ──
+
+  /**
+   * Index a Jupyter notebook one chunk per cell, titled by the nearest
+   * markdown heading and cell index (see notebook-chunker.ts). Falls back
+   * to `indexJSON` when the content is not a notebook.
+   */
+  indexNotebook(
+    content: string,
+    source: string,
+    attribution?: { sessionId?: string; eventId?: string },
+  ): IndexResult {
+    const cells = chunkNotebook(content, MAX_CHUNK_BYTES);
+    if (!cells || cells.length === 0) {
+      return this.indexJSON(content, source, undefined, attribution);
+    }
+    return withRetry(() => this.#insertChunks(cells, source, content, undefined, undefined, attribution));
+  }
+
+  // ── Index Git Log ──
+
+  /**
+   * Index `git log` output produced with gitLogArgs one chunk per commit
+   * (per file or hunk group for large commits), titled with short SHA,
+   * author, date and subject (see git-chunker.ts). Each chunk records its
+   * commit SHA and file paths, returned on search results as `git`.
+   */
+  indexGitLog(
+    output: string,
+    source: string,
+    attribution?: { sessionId?: string; eventId?: string },
+  ): IndexResult {
+    const chunks = chunkGitLog(output, MAX_CHUNK_BYTES);
+    return withRetry(() => this.#insertChunks(chunks, source, output, undefined, undefined, attribution));
+  }
+
   // ── Index JSON ──
 
   /**
@@ -939,8 +1752,12 @@ export class ContentStore {
     filePath?: string,
     contentHash?: string,
     attribution?: { sessionId?: string; eventId?: string },
+    language?: string,
   ): IndexResult {
     const codeChunks = chunks.filter((c) => c.hasCode).length;
+    // Non-English sources are also indexed into their family's table.
+    const lang = chunks.length === 0 ? "en" : language ?? detectLanguage(text || chunks.map((c) => c.content).join("\n"));
+    const family = languageFamily(lang);
     // FK columns on chunks. Empty-string fallback preserves the FTS5-friendly
     // "not-null but unattributed" sentinel used by legacy rows.
     const sessionIdCol = attribution?.sessionId ?? "";
@@ -950,30 +1767,55 @@ export class ContentStore {
     // then insert new content — all within a single transaction.
     // Prevents stale results in iterative workflows. (See: GitHub issue #67)
     const transaction = this.#db.transaction(() => {
-      this.#stmtDeleteChunksByLabel.run(label);
-      this.#stmtDeleteChunksTrigramByLabel.run(label);
-      this.#stmtDeleteSourcesByLabel.run(label);
+      // Re-indexing a label keeps its tags and pin.
+      const kept = this.#stmtTagsByLabel.get(label) as { tags: string; pinned: number } | undefined;
+      this.#deleteSourceByLabel(label);
 
       if (chunks.length === 0) {
         const info = this.#stmtInsertSourceEmpty.run(label, filePath ?? null, contentHash ?? null);
+        this.#stmtInsertUsage.run(Number(info.lastInsertRowid), 0);
+        if (kept) this.#stmtInsertTags.run(Number(info.lastInsertRowid), kept.tags, kept.pinned);
         return Number(info.lastInsertRowid);
       }
 
       const info = this.#stmtInsertSource.run(label, chunks.length, codeChunks, filePath ?? null, contentHash ?? null);
       const sourceId = Number(info.lastInsertRowid);
+      if (kept) this.#stmtInsertTags.run(sourceId, kept.tags, kept.pinned);
+      const bytes = chunks.reduce((n, c) => n + Buffer.byteLength(c.title) + Buffer.byteLength(c.content), 0);
+      this.#stmtInsertUsage.run(sourceId, bytes);
 
       const now = new Date().toISOString();
-      for (const chunk of chunks) {
+      if (family !== "porter") this.#stmtInsertSourceLanguage.run(sourceId, lang);
+      for (const [ordinal, chunk] of chunks.entries()) {
         const ct = chunk.hasCode ? "code" : "prose";
-        this.#stmtInsertChunk.run(chunk.title, chunk.content, sourceId, ct, null, sessionIdCol, eventIdCol, now);
-        this.#stmtInsertChunkTrigram.run(chunk.title, chunk.content, sourceId, ct, null, sessionIdCol, eventIdCol, now);
+        this.#stmtInsertChunk.run(chunk.title, chunk.content, sourceId, ct, null, sessionIdCol, eventIdCol, now, ordinal);
+        this.#stmtInsertChunkTrigram.run(chunk.title, chunk.content, sourceId, ct, null, sessionIdCol, eventIdCol, now, ordinal);
+        const fp = fingerprint(chunk.content);
+        if (fp) this.#stmtInsertFingerprint.run(sourceId, ordinal, fp);
+        if (chunk.log) {
+          const { level, start, end, requestId } = chunk.log;
+          this.#stmtInsertLogChunk.run(sourceId, ordinal, level, levelRank(level), start, end, requestId ?? null);
+        }
+        if (chunk.git) this.#stmtInsertGitChunk.run(sourceId, ordinal, chunk.git.sha, JSON.stringify(chunk.git.files));
+        if (family === "cjk") {
+          this.#languageStmts.cjk.insert.run(
+            cjkBigrams(chunk.title), cjkBigrams(chunk.content), sourceId, ordinal, ct, sessionIdCol, now, chunk.title, chunk.content,
+          );
+        } else if (family !== "porter") {
+          this.#languageStmts[family].insert.run(chunk.title, chunk.content, sourceId, ordinal, ct, sessionIdCol, now, null, null);
+        }
       }
 
       return sourceId;
     });
 
     const sourceId = transaction();
+    if (family !== "porter") this.#languageFamilies.add(family);
     if (text) this.#extractAndStoreVocabulary(text);
+    // After the vocabulary update, so the source's own words count as terms.
+    const summary = chunks.length > 0 ? this.#summarize(chunks) : null;
+    if (summary) this.#stmtSetSummary?.run(summary, sourceId);
+    this.#enforceQuota(sourceId);
 
     // Periodically optimize FTS5 indexes to merge b-tree segments.
     // Fragmentation accumulates over insert/delete cycles (dedup re-indexes
@@ -989,9 +1831,167 @@ export class ContentStore {
       label,
       totalChunks: chunks.length,
       codeChunks,
+      ...(family !== "porter" && { language: lang }),
+      ...(summary && { summary }),
+    };
+  }
+
+  /** Extractive summary of a source's chunks, with vocabulary words as terms. */
+  #summarize(chunks: Chunk[]): string | null {
+    const known = new Map<string, boolean>();
+    return summarizeChunks(chunks, (word) => {
+      let hit = known.get(word);
+      if (hit === undefined) {
+        hit = this.#stmtVocabHas.get(word) !== undefined;
+        known.set(word, hit);
+      }
+      return hit;
+    });
+  }
+
+  /** Delete a source and its rows in every table. Call inside a transaction. */
+  #deleteSourceByLabel(label: string): void {
+    this.#stmtDeleteChunksByLabel.run(label);
+    this.#stmtDeleteChunksTrigramByLabel.run(label);
+    this.#stmtDeleteLogChunksByLabel.run(label);
+    this.#stmtDeleteGitChunksByLabel.run(label);
+    this.#stmtDeleteFingerprintsByLabel.run(label);
+    for (const f of LANGUAGE_FAMILIES) this.#languageStmts[f].deleteByLabel.run(label);
+    this.#stmtDeleteLanguageByLabel.run(label);
+    this.#stmtDeleteUsageByLabel.run(label);
+    this.#stmtDeleteTagsByLabel.run(label);
+    this.#stmtDeleteSourcesByLabel.run(label);
+  }
+
+  // ── Tags ──
+
+  /**
+   * Set the tags and / or pin of the source indexed as `label`; an omitted
+   * field keeps its current value. Tags are normalized (see normalizeTags).
+   * Returns false when no such source exists.
+   */
+  setSourceTags(label: string, opts: { tags?: string[]; pinned?: boolean }): boolean {
+    const meta = this.#stmtSourceIdByLabel.get(label) as { id: number } | undefined;
+    if (!meta) return false;
+    const current = this.#stmtTagsBySourceId.get(meta.id) as { tags: string; pinned: number } | undefined;
+    const tags = opts.tags ? JSON.stringify(normalizeTags(opts.tags)) : current?.tags ?? "[]";
+    const pinned = opts.pinned === undefined ? current?.pinned ?? 0 : opts.pinned ? 1 : 0;
+    this.#stmtInsertTags.run(meta.id, tags, pinned);
+    return true;
+  }
+
+  /**
+   * Attach source tags to results; with a filter, keep only results whose
+   * source carries any / all of its tags.
+   */
+  #withTags(results: SearchResult[], filter?: TagFilter): SearchResult[] {
+    const wanted = filter ? normalizeTags(filter.tags) : [];
+    const cache = new Map<number, string[]>();
+    const out: SearchResult[] = [];
+    for (const r of results) {
+      const parsed = r.chunkId ? parseChunkId(r.chunkId) : null;
+      let tags: string[] = [];
+      if (parsed) {
+        if (!cache.has(parsed.sourceId)) {
+          const row = this.#stmtTagsBySourceId.get(parsed.sourceId) as { tags: string } | undefined;
+          cache.set(parsed.sourceId, row ? JSON.parse(row.tags) as string[] : []);
+        }
+        tags = cache.get(parsed.sourceId)!;
+      }
+      if (wanted.length > 0) {
+        const match = filter!.match === "all"
+          ? wanted.every((t) => tags.includes(t))
+          : wanted.some((t) => tags.includes(t));
+        if (!match) continue;
+      }
+      out.push(tags.length > 0 ? { ...r, tags } : r);
+    }
+    return out;
+  }
+
+  // ── Quota ──
+
+  /**
+   * Cap the store's total chunk bytes and chunk count. Whenever an index
+   * pushes the store over either limit, the least recently used sources —
+   * by last search hit, else by index time — are evicted until it fits
+   * again; the source just indexed and pinned sources are never evicted.
+   * Applied immediately.
+   */
+  setQuota(quota: StoreQuota): void {
+    this.#quota = { maxBytes: quota.maxBytes ?? 0, maxChunks: quota.maxChunks ?? 0 };
+    if (!this.#readonly) this.#enforceQuota(-1);
+  }
+
+  /** Sources evicted since the last call, oldest first. */
+  takeEvictions(): EvictedSource[] {
+    const evicted = this.#pendingEvictions;
+    this.#pendingEvictions = [];
+    return evicted;
+  }
+
+  /** Size against the quota, for ctx_stats. */
+  getQuotaUsage(): QuotaUsage {
+    if (!this.#readonly) this.#backfillUsage();
+    const totals = this.#stmtUsageTotals.get() as { bytes: number; chunks: number };
+    return {
+      bytes: totals.bytes,
+      chunks: totals.chunks,
+      maxBytes: this.#quota.maxBytes,
+      maxChunks: this.#quota.maxChunks,
+      evictedSources: this.#evicted.sources,
+      evictedBytes: this.#evicted.bytes,
     };
   }
 
+  /** Give sources indexed before source_usage existed their byte size, once. */
+  #backfillUsage(): void {
+    if (this.#usageBackfilled) return;
+    this.#db.transaction(() => {
+      this.#stmtBackfillUsage.run();
+      this.#stmtBackfillUsageBytes.run();
+    })();
+    this.#usageBackfilled = true;
+  }
+
+  #enforceQuota(keepSourceId: number): void {
+    const { maxBytes, maxChunks } = this.#quota;
+    if (maxBytes <= 0 && maxChunks <= 0) return;
+    this.#backfillUsage();
+    let { bytes, chunks } = this.#stmtUsageTotals.get() as { bytes: number; chunks: number };
+    const over = () => (maxBytes > 0 && bytes > maxBytes) || (maxChunks > 0 && chunks > maxChunks);
+    if (!over()) return;
+
+    const victims: EvictedSource[] = [];
+    for (const row of this.#stmtEvictionCandidates.all(keepSourceId) as Array<{ label: string; chunk_count: number; bytes: number }>) {
+      if (!over()) break;
+      victims.push({ label: row.label, bytes: row.bytes, chunks: row.chunk_count });
+      bytes -= row.bytes;
+      chunks -= row.chunk_count;
+    }
+    this.#db.transaction(() => {
+      for (const v of victims) this.#deleteSourceByLabel(v.label);
+    })();
+    this.#pendingEvictions.push(...victims);
+    this.#evicted.sources += victims.length;
+    this.#evicted.bytes += victims.reduce((n, v) => n + v.bytes, 0);
+  }
+
+  /** Mark the sources of returned results as just used (LRU eviction order). */
+  #recordHits(results: SearchResult[]): void {
+    if (this.#readonly || results.length === 0) return;
+    const ids = new Set<number>();
+    for (const r of results) {
+      const parsed = r.chunkId ? parseChunkId(r.chunkId) : null;
+      if (parsed) ids.add(parsed.sourceId);
+    }
+    try {
+      this.#db.transaction(() => {
+        for (const id of ids) this.#stmtRecordHit.run(id);
+      })();
+    } catch { /* best effort — a busy DB must not fail the search */ }
+  }
+
   // ── Search ──
 
   #mapSearchRows(rows: SearchRow[]): SearchResult[] {
@@ -1003,6 +2003,7 @@ export class ContentStore {
       contentType: r.content_type as "code" | "prose",
       highlighted: r.highlighted,
       timestamp: r.timestamp ?? undefined,
+      chunkId: r.ordinal === null ? undefined : formatChunkId(r.source_id, r.ordinal),
     }));
   }
 
@@ -1018,8 +2019,21 @@ export class ContentStore {
     contentType?: "code" | "prose",
     sourceMatchMode: SourceMatchMode = "like",
   ): SearchResult[] {
-    const sanitized = sanitizeQuery(query, mode);
+    const parsed = parseQuerySyntax(query);
+    if (parsed) {
+      const results = this.#searchParsed(parsed, "porter", limit, source, mode, contentType, sourceMatchMode);
+      if (results) return results;
+    }
+    return this.#matchPorter(sanitizeQuery(query, mode), limit, source, contentType, sourceMatchMode);
+  }
 
+  #matchPorter(
+    sanitized: string,
+    limit: number,
+    source: string | undefined,
+    contentType: "code" | "prose" | undefined,
+    sourceMatchMode: SourceMatchMode,
+  ): SearchResult[] {
     let stmt: PreparedStatement;
     let params: unknown[];
 
@@ -1054,7 +2068,21 @@ export class ContentStore {
     contentType?: "code" | "prose",
     sourceMatchMode: SourceMatchMode = "like",
   ): SearchResult[] {
-    const sanitized = sanitizeTrigramQuery(query, mode);
+    const parsed = parseQuerySyntax(query);
+    if (parsed) {
+      const results = this.#searchParsed(parsed, "trigram", limit, source, mode, contentType, sourceMatchMode);
+      if (results) return results;
+    }
+    return this.#matchTrigram(sanitizeTrigramQuery(query, mode), limit, source, contentType, sourceMatchMode);
+  }
+
+  #matchTrigram(
+    sanitized: string,
+    limit: number,
+    source: string | undefined,
+    contentType: "code" | "prose" | undefined,
+    sourceMatchMode: SourceMatchMode,
+  ): SearchResult[] {
     if (!sanitized) return [];
 
     let stmt: PreparedStatement;
@@ -1081,6 +2109,44 @@ export class ContentStore {
     return withRetry(() => this.#mapSearchRows(stmt.all(...params) as SearchRow[]));
   }
 
+  // ── Query syntax ──
+
+  /**
+   * Run a parsed ctx_search query against one FTS5 table. `source:` becomes
+   * the label filter, or narrows an explicit `source` argument further.
+   * Returns null when FTS5 rejects the compiled expression so the caller
+   * can fall back to the plain sanitized query.
+   */
+  #searchParsed(
+    parsed: ParsedQuery,
+    tokenizer: "porter" | "trigram",
+    limit: number,
+    source: string | undefined,
+    mode: "AND" | "OR",
+    contentType: "code" | "prose" | undefined,
+    sourceMatchMode: SourceMatchMode,
+  ): SearchResult[] | null {
+    const match = compileQuerySyntax(parsed, tokenizer, mode);
+    const run = tokenizer === "porter"
+      ? (src: string | undefined, n: number, srcMode: SourceMatchMode) =>
+          this.#matchPorter(match, n, src, contentType, srcMode)
+      : (src: string | undefined, n: number, srcMode: SourceMatchMode) =>
+          this.#matchTrigram(match, n, src, contentType, srcMode);
+
+    try {
+      if (!parsed.source) return run(source, limit, sourceMatchMode);
+      if (!source) return run(parsed.source, limit, "like");
+      const needle = parsed.source.toLowerCase();
+      return run(source, Math.max(limit * 4, 20), sourceMatchMode)
+        .filter((r) => r.source.toLowerCase().includes(needle))
+        .slice(0, limit);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes("SQLITE_BUSY") || msg.includes("database is locked")) throw err;
+      return null;
+    }
+  }
+
   // ── Fuzzy Correction (Layer 3) ──
 
   fuzzyCorrect(query: string): string | null {
@@ -1138,40 +2204,165 @@ export class ContentStore {
     source?: string,
     contentType?: "code" | "prose",
     sourceMatchMode: SourceMatchMode = "like",
+    explain: boolean = false,
+    variants: string[] = [],
   ): SearchResult[] {
     const K = 60; // Standard RRF constant
     const fetchLimit = Math.max(limit * 2, 10);
 
-    const porterResults = this.search(query, fetchLimit, source, "OR", contentType, sourceMatchMode);
-    const trigramResults = this.searchTrigram(query, fetchLimit, source, "OR", contentType, sourceMatchMode);
-
-    const scoreMap = new Map<string, { result: SearchResult; score: number }>();
+    const scoreMap = new Map<string, { result: SearchResult; score: number; explain: SearchExplain }>();
     const key = (r: SearchResult) => `${r.source}::${r.title}`;
+    const blankExplain = (): SearchExplain => ({
+      porterRank: null,
+      porterBm25: null,
+      trigramRank: null,
+      trigramBm25: null,
+      languageRank: null,
+      synonymRank: null,
+      rrfScore: 0,
+      titleBoost: 0,
+      proximityBoost: 0,
+      phraseBoost: 0,
+      fuzzyCorrections: [],
+    });
 
-    for (const [i, r] of porterResults.entries()) {
-      const k = key(r);
-      const existing = scoreMap.get(k);
-      if (existing) {
-        existing.score += 1 / (K + i + 1);
-      } else {
-        scoreMap.set(k, { result: r, score: 1 / (K + i + 1) });
+    // Fuse one ranked list at `weight`; `note` records the result's
+    // position in that layer for explain.
+    const fuse = (list: SearchResult[], weight: number, note: (e: SearchExplain, rank: number, r: SearchResult) => void) => {
+      for (const [i, r] of list.entries()) {
+        const k = key(r);
+        const entry = scoreMap.get(k) ?? { result: r, score: 0, explain: blankExplain() };
+        entry.score += weight / (K + i + 1);
+        note(entry.explain, i + 1, r);
+        scoreMap.set(k, entry);
+      }
+    };
+    const best = (current: number | null, rank: number) => (current === null || rank < current ? rank : current);
+
+    fuse(this.search(query, fetchLimit, source, "OR", contentType, sourceMatchMode), 1, (e, rank, r) => {
+      if (e.porterRank === null) {
+        e.porterRank = rank;
+        e.porterBm25 = r.rank;
+      }
+    });
+    fuse(this.searchTrigram(query, fetchLimit, source, "OR", contentType, sourceMatchMode), 1, (e, rank, r) => {
+      if (e.trigramRank === null) {
+        e.trigramRank = rank;
+        e.trigramBm25 = r.rank;
       }
+    });
+    // Non-English sources: one list per language table in use.
+    for (const list of this.#searchLanguages(query, fetchLimit, source, contentType, sourceMatchMode)) {
+      fuse(list, 1, (e, rank) => { e.languageRank = best(e.languageRank, rank); });
     }
 
-    for (const [i, r] of trigramResults.entries()) {
-      const k = key(r);
-      const existing = scoreMap.get(k);
-      if (existing) {
-        existing.score += 1 / (K + i + 1);
-      } else {
-        scoreMap.set(k, { result: r, score: 1 / (K + i + 1) });
+    // Synonym variants: the query with one term swapped for an alias.
+    // Their lists fuse like the original's, at SYNONYM_WEIGHT.
+    for (const variant of variants) {
+      const lists = [
+        this.search(variant, fetchLimit, source, "OR", contentType, sourceMatchMode),
+        this.searchTrigram(variant, fetchLimit, source, "OR", contentType, sourceMatchMode),
+        ...this.#searchLanguages(variant, fetchLimit, source, contentType, sourceMatchMode),
+      ];
+      for (const list of lists) {
+        fuse(list, SYNONYM_WEIGHT, (e, rank) => { e.synonymRank = best(e.synonymRank, rank); });
       }
     }
 
     return Array.from(scoreMap.values())
       .sort((a, b) => b.score - a.score)
       .slice(0, limit)
-      .map(({ result, score }) => ({ ...result, rank: -score }));
+      .map(({ result, score, explain: breakdown }) => (explain
+        ? { ...result, rank: -score, explain: { ...breakdown, rrfScore: score } }
+        : { ...result, rank: -score }));
+  }
+
+  /**
+   * Search the per-language tables that hold at least one source, one
+   * ranked list per table. Query syntax is honoured as in the porter layer;
+   * the CJK table (bigram-indexed) matches on the positive text only and
+   * drops exclusions afterwards.
+   */
+  #searchLanguages(
+    query: string,
+    limit: number,
+    source: string | undefined,
+    contentType: "code" | "prose" | undefined,
+    sourceMatchMode: SourceMatchMode,
+  ): SearchResult[][] {
+    if (this.#languageFamilies.size === 0) return [];
+    const parsed = parseQuerySyntax(query);
+    const excluded = parsed
+      ? parsed.clauses.filter((c) => c.negate).map((c) => c.text.toLowerCase())
+      : [];
+    // A source: clause filters like the `source` param; with both, the
+    // clause narrows the param's results.
+    const srcFilter = source ?? parsed?.source ?? undefined;
+    const srcMode = source ? sourceMatchMode : "like";
+    const needle = source && parsed?.source ? parsed.source.toLowerCase() : null;
+
+    const lists: SearchResult[][] = [];
+    for (const family of this.#languageFamilies) {
+      let match: string;
+      if (family === "cjk") {
+        match = sanitizeQuery(cjkBigrams(parsed ? querySyntaxText(parsed) : query), "OR");
+      } else {
+        match = parsed ? compileQuerySyntax(parsed, "porter", "OR") : sanitizeQuery(query, "OR");
+      }
+      if (!match || match === '""') continue;
+
+      const { table } = LANGUAGE_TABLES[family];
+      const filters = [
+        srcFilter ? (srcMode === "exact" ? "sources.label = ?" : "sources.label LIKE ?") : null,
+        contentType ? `${table}.content_type = ?` : null,
+      ].filter(Boolean);
+      const sql = `
+        SELECT ${table}.title, ${table}.content, ${table}.raw_title, ${table}.raw_content,
+          ${table}.content_type, ${table}.timestamp, ${table}.source_id, ${table}.ordinal,
+          sources.label,
+          bm25(${table}, 5.0, 1.0) AS rank,
+          highlight(${table}, 1, char(2), char(3)) AS highlighted
+        FROM ${table}
+        JOIN sources ON sources.id = ${table}.source_id
+        WHERE ${[`${table} MATCH ?`, ...filters].join(" AND ")}
+        ORDER BY rank
+        LIMIT ?`;
+      let stmt = this.#languageSearchStmts.get(sql);
+      if (!stmt) {
+        stmt = this.#db.prepare(sql);
+        this.#languageSearchStmts.set(sql, stmt);
+      }
+      const params: unknown[] = [match];
+      if (srcFilter) params.push(this.#sourceFilterParam(srcFilter, srcMode));
+      if (contentType) params.push(contentType);
+      params.push(needle ? Math.max(limit * 4, 20) : limit);
+
+      let rows: LanguageSearchRow[];
+      try {
+        rows = withRetry(() => stmt!.all(...params) as LanguageSearchRow[]);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        if (msg.includes("SQLITE_BUSY") || msg.includes("database is locked")) throw err;
+        continue; // FTS5 syntax this tokenizer rejects — skip the layer
+      }
+      const results = rows
+        .map((r): SearchResult => ({
+          title: r.raw_title ?? r.title,
+          content: r.raw_content ?? r.content,
+          source: r.label,
+          rank: r.rank,
+          contentType: r.content_type as "code" | "prose",
+          // Highlights of bigram text do not map onto the original.
+          ...(r.raw_content === null && { highlighted: r.highlighted }),
+          timestamp: r.timestamp ?? undefined,
+          chunkId: formatChunkId(r.source_id, r.ordinal),
+        }))
+        .filter((r) => !needle || r.source.toLowerCase().includes(needle))
+        .filter((r) => family !== "cjk" || !excluded.some((x) => r.content.toLowerCase().includes(x)))
+        .slice(0, limit);
+      if (results.length > 0) lists.push(results);
+    }
+    return lists;
   }
 
   // ── Proximity Reranking ──
@@ -1220,7 +2411,10 @@ export class ContentStore {
           }
         }
 
-        return { result: r, boost: titleBoost + proximityBoost + phraseBoost };
+        const result = r.explain
+          ? { ...r, explain: { ...r.explain, titleBoost, proximityBoost, phraseBoost } }
+          : r;
+        return { result, boost: titleBoost + proximityBoost + phraseBoost };
       })
       .sort((a, b) => b.boost - a.boost || a.result.rank - b.result.rank)
       .map(({ result }) => result);
@@ -1228,27 +2422,63 @@ export class ContentStore {
 
   // ── Unified Fallback Search ──
 
+  /**
+   * With `explain`, every result carries a SearchExplain breakdown of the
+   * porter/trigram ranks, RRF score, rerank boosts and fuzzy corrections.
+   * Results from log-mode chunks carry their severity / time range; with
+   * `logFilter`, only log chunks matching it are returned. Near-duplicate
+   * chunks (mirrors, copies under another label) collapse into their
+   * freshest copy, which reports the number hidden in `hiddenDuplicates`.
+   * With a synonym source set, results carry the expansions applied to the
+   * query in `expansions`.
+   */
   searchWithFallback(
     query: string,
     limit: number = 3,
     source?: string,
     contentType?: "code" | "prose",
     sourceMatchMode: SourceMatchMode = "like",
+    explain: boolean = false,
+    logFilter?: LogFilter,
+    tagFilter?: TagFilter,
   ): SearchResult[] {
     // Step 0: Auto-refresh stale file-backed sources before searching
-    this.#refreshStaleSources();
+    if (!this.#readonly) this.#refreshStaleSources();
+
+    // The level / time / tag filters and near-duplicate collapse run after
+    // ranking, so over-fetch to leave enough candidates.
+    const logFiltering = !!(logFilter && (logFilter.level || logFilter.since || logFilter.until));
+    const tagFiltering = !!(tagFilter && tagFilter.tags.length > 0);
+    const fetchLimit = logFiltering || tagFiltering ? Math.max(limit * 10, 50) : limit * 3;
+    const candidates = (q: string) => {
+      const { variants, expansions } = this.#synonymSource
+        ? expandQuery(q, this.#synonymSource())
+        : { variants: [], expansions: [] as SynonymExpansion[] };
+      const results = collapseNearDuplicates(this.#withFingerprints(this.#withGitMeta(this.#withTags(this.#withLogMeta(
+        this.#rrfSearch(q, fetchLimit, source, contentType, sourceMatchMode, explain, variants),
+        logFiltering ? logFilter : undefined,
+      ), tagFiltering ? tagFilter : undefined)))).slice(0, limit);
+      return expansions.length > 0 ? results.map((r) => ({ ...r, expansions })) : results;
+    };
 
     // Step 1: RRF fusion (porter OR + trigram OR → merge)
-    const rrfResults = this.#rrfSearch(query, limit, source, contentType, sourceMatchMode);
+    // Query syntax (phrases, -exclusions, title:/source:) is compiled inside
+    // search()/searchTrigram(); reranking only scores the positive text.
+    const parsed = parseQuerySyntax(query);
+    const rankText = parsed ? querySyntaxText(parsed) : query;
+    const rrfResults = candidates(query);
     if (rrfResults.length > 0) {
-      const reranked = this.#applyProximityReranking(rrfResults, query);
+      const reranked = this.#applyProximityReranking(rrfResults, rankText);
+      this.#recordHits(reranked);
       return reranked.map((r) => ({ ...r, matchLayer: "rrf" as const }));
     }
 
     // Step 2: Fuzzy correction → RRF re-run
     // Skip stopwords — they'll be filtered by sanitizeQuery anyway, and each
     // fuzzyCorrect call hits the vocab DB + runs levenshtein comparisons.
-    const words = query
+    // With query syntax only the bare words are corrected — phrases, titles
+    // and exclusions are taken literally.
+    const words = (parsed ? parsed.terms.join(" ") : query)
       .toLowerCase()
       .trim()
       .split(/\s+/)
@@ -1258,16 +2488,87 @@ export class ContentStore {
     const correctedQuery = correctedWords.join(" ");
 
     if (correctedQuery !== original) {
-      const fuzzyResults = this.#rrfSearch(correctedQuery, limit, source, contentType, sourceMatchMode);
+      const retryQuery = parsed ? formatQuerySyntax({ ...parsed, terms: correctedWords }) : correctedQuery;
+      const retryRankText = parsed ? querySyntaxText({ ...parsed, terms: correctedWords }) : correctedQuery;
+      const fuzzyResults = candidates(retryQuery);
       if (fuzzyResults.length > 0) {
-        const reranked = this.#applyProximityReranking(fuzzyResults, correctedQuery);
-        return reranked.map((r) => ({ ...r, matchLayer: "rrf-fuzzy" as const }));
+        const reranked = this.#applyProximityReranking(fuzzyResults, retryRankText);
+        const corrections = words
+          .map((w, i) => ({ from: w, to: correctedWords[i] }))
+          .filter((c) => c.from !== c.to);
+        this.#recordHits(reranked);
+        return reranked.map((r) => ({
+          ...r,
+          matchLayer: "rrf-fuzzy" as const,
+          ...(r.explain && { explain: { ...r.explain, fuzzyCorrections: corrections } }),
+        }));
       }
     }
 
     return [];
   }
 
+  /**
+   * Attach log-mode metadata to results by chunk id; with a filter, drop
+   * results that are not log chunks or do not match it.
+   */
+  #withLogMeta(results: SearchResult[], filter?: LogFilter): SearchResult[] {
+    const annotated = results.map((r) => {
+      const id = r.chunkId ? parseChunkId(r.chunkId) : null;
+      const row = id
+        ? this.#stmtLogChunkMeta.get(id.sourceId, id.ordinal) as
+          { level: LogLevel; time_start: string; time_end: string; request_id: string | null } | undefined
+        : undefined;
+      if (!row) return r;
+      const log: LogChunkMeta = {
+        level: row.level,
+        start: row.time_start,
+        end: row.time_end,
+        ...(row.request_id && { requestId: row.request_id }),
+      };
+      return { ...r, log };
+    });
+    if (!filter) return annotated;
+    return annotated.filter((r) => {
+      if (!r.log) return false;
+      if (filter.level && levelRank(r.log.level) < levelRank(filter.level)) return false;
+      // Overlap: the chunk's range touches [since, until].
+      if (filter.since && r.log.end < filter.since) return false;
+      if (filter.until && r.log.start > filter.until) return false;
+      return true;
+    });
+  }
+
+  /** Attach the commit SHA and file paths of chunks indexed by indexGitLog. */
+  #withGitMeta(results: SearchResult[]): SearchResult[] {
+    return results.map((r) => {
+      const git = r.chunkId ? this.#gitMeta(parseChunkId(r.chunkId)) : undefined;
+      return git ? { ...r, git } : r;
+    });
+  }
+
+  #gitMeta(id: { sourceId: number; ordinal: number } | null): GitChunkMeta | undefined {
+    const row = id
+      ? this.#stmtGitChunkMeta.get(id.sourceId, id.ordinal) as { sha: string; files: string } | undefined
+      : undefined;
+    return row ? { sha: row.sha, files: JSON.parse(row.files) as string[] } : undefined;
+  }
+
+  /**
+   * Attach each result's content fingerprint for near-duplicate collapse.
+   * Chunks indexed before fingerprints existed are fingerprinted on the fly.
+   */
+  #withFingerprints(results: SearchResult[]): SearchResult[] {
+    return results.map((r) => {
+      const id = r.chunkId ? parseChunkId(r.chunkId) : null;
+      const row = id
+        ? this.#stmtChunkFingerprint.get(id.sourceId, id.ordinal) as { fingerprint: string } | undefined
+        : undefined;
+      const fp = row?.fingerprint ?? fingerprint(r.content);
+      return fp ? { ...r, fingerprint: fp } : r;
+    });
+  }
+
   /** Number of sources auto-refreshed in the last searchWithFallback call. */
   lastRefreshCount = 0;
 
@@ -1279,8 +2580,10 @@ export class ContentStore {
   #refreshStaleSources(): void {
     this.lastRefreshCount = 0;
     const sources = this.#db.prepare(
-      "SELECT label, file_path, content_hash, indexed_at FROM sources WHERE file_path IS NOT NULL",
-    ).all() as Array<{ label: string; file_path: string; content_hash: string; indexed_at: string }>;
+      `SELECT label, file_path, content_hash, indexed_at, source_languages.language
+       FROM sources LEFT JOIN source_languages ON source_languages.source_id = sources.id
+       WHERE file_path IS NOT NULL`,
+    ).all() as Array<{ label: string; file_path: string; content_hash: string; indexed_at: string; language: string | null }>;
 
     for (const src of sources) {
       try {
@@ -1314,7 +2617,7 @@ export class ContentStore {
         // by going through index() which stores them. Since we pass
         // content, index() does NOT re-read; the bytes hashed above
         // are exactly the bytes indexed.
-        this.index({ content: newContent, path: src.file_path, source: src.label });
+        this.index({ content: newContent, path: src.file_path, source: src.label, language: src.language ?? undefined });
         this.lastRefreshCount++;
       } catch {
         // Graceful degradation — never break search for stale detection
@@ -1337,6 +2640,12 @@ export class ContentStore {
     }>;
   }
 
+  /** Every source with its metadata and row id, newest first (ctx_sources). */
+  listSourceInfo(): SourceInfo[] {
+    const rows = this.#stmtListSourceInfo.all() as Array<Omit<SourceInfo, "tags" | "pinned"> & { tags: string; pinned: number }>;
+    return rows.map((r) => ({ ...r, tags: JSON.parse(r.tags) as string[], pinned: r.pinned === 1 }));
+  }
+
   /**
    * Get all chunks for a given source by ID — bypasses FTS5 MATCH entirely.
    * Use this for inventory/listing where you need all sections, not search.
@@ -1349,15 +2658,38 @@ export class ContentStore {
       label: string;
     }>;
 
-    return rows.map((r) => ({
+    return rows.map((r, i) => ({
       title: r.title,
       content: r.content,
       source: r.label,
       rank: 0,
       contentType: r.content_type as "code" | "prose",
+      chunkId: formatChunkId(sourceId, i),
     }));
   }
 
+  /**
+   * Full chunk for a `chunkId` from search results plus up to `neighbors`
+   * chunks on each side, in source order. Returns null when the id is
+   * malformed or its source has since been re-indexed or removed.
+   */
+  getChunkWithNeighbors(
+    chunkId: string,
+    neighbors: number = 1,
+  ): { source: string; totalChunks: number; index: number; chunks: SearchResult[] } | null {
+    const parsed = parseChunkId(chunkId);
+    if (!parsed) return null;
+    const all = this.getChunksBySource(parsed.sourceId);
+    if (parsed.ordinal >= all.length) return null;
+    const span = Math.max(0, Math.floor(neighbors));
+    return {
+      source: all[parsed.ordinal].source,
+      totalChunks: all.length,
+      index: parsed.ordinal,
+      chunks: all.slice(Math.max(0, parsed.ordinal - span), parsed.ordinal + span + 1),
+    };
+  }
+
   // ── Vocabulary ──
 
   getDistinctiveTerms(sourceId: number, maxTerms: number = 40): string[] {
@@ -1422,6 +2754,129 @@ export class ContentStore {
     };
   }
 
+  // ── KB Bundles ──
+
+  /**
+   * Serialize sources with their chunks and metadata to a versioned JSONL
+   * bundle: a KbBundleHeader line, then one KbBundleSource line per source,
+   * oldest first. `labels` restricts the export to those exact labels.
+   */
+  exportBundle(labels?: string[]): string {
+    const wanted = labels && labels.length > 0 ? new Set(labels) : null;
+    const sources = this.listSourceInfo()
+      .filter((s) => !wanted || wanted.has(s.label))
+      .reverse();
+    const lines: string[] = [];
+    for (const s of sources) {
+      const chunks = this.getChunksBySource(s.id).map((c, ordinal) => {
+        const log = this.#stmtLogChunkMeta.get(s.id, ordinal) as
+          { level: LogLevel; time_start: string; time_end: string; request_id: string | null } | undefined;
+        const git = this.#gitMeta({ sourceId: s.id, ordinal });
+        return {
+          title: c.title,
+          content: c.content,
+          contentType: c.contentType,
+          ...(log && {
+            log: {
+              level: log.level,
+              start: log.time_start,
+              end: log.time_end,
+              ...(log.request_id && { requestId: log.request_id }),
+            },
+          }),
+          ...(git && { git }),
+        };
+      });
+      const language = (this.#stmtSourceLanguage.get(s.id) as { language: string } | undefined)?.language;
+      const line: KbBundleSource = {
+        type: "source",
+        label: s.label,
+        indexedAt: s.indexedAt,
+        filePath: s.filePath,
+        contentHash: s.contentHash ?? bundleChunkHash(chunks),
+        ...(language && { language }),
+        ...(s.tags.length > 0 && { tags: s.tags }),
+        ...(s.pinned && { pinned: true }),
+        chunks,
+      };
+      lines.push(JSON.stringify(line));
+    }
+    const header: KbBundleHeader = {
+      type: "context-mode-kb",
+      version: KB_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      sources: lines.length,
+    };
+    return [JSON.stringify(header), ...lines].join("\n") + "\n";
+  }
+
+  /**
+   * Import a bundle written by exportBundle. A source whose label already
+   * exists with the same content hash is skipped; a differing one replaces
+   * it. Imported sources are not file-backed here (the exporting machine's
+   * paths mean nothing locally), so auto-refresh leaves them alone. Throws
+   * on a missing header, a newer bundle version, or a malformed line.
+   */
+  importBundle(jsonl: string): KbImportResult {
+    const lines = jsonl.split("\n").filter((l) => l.trim().length > 0);
+    let header: Partial<KbBundleHeader> | undefined;
+    try {
+      header = lines.length > 0 ? JSON.parse(lines[0]) : undefined;
+    } catch { /* reported below */ }
+    if (!header || header.type !== "context-mode-kb" || typeof header.version !== "number") {
+      throw new Error("not a context-mode kb bundle (missing header line)");
+    }
+    if (header.version > KB_BUNDLE_VERSION) {
+      throw new Error(`kb bundle version ${header.version} is newer than supported version ${KB_BUNDLE_VERSION} — upgrade context-mode`);
+    }
+
+    const sources: KbBundleSource[] = lines.slice(1).map((line, i) => {
+      let parsed: Partial<KbBundleSource>;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`kb bundle line ${i + 2}: invalid JSON`);
+      }
+      if (parsed.type !== "source" || typeof parsed.label !== "string" || !Array.isArray(parsed.chunks)) {
+        throw new Error(`kb bundle line ${i + 2}: expected a source entry`);
+      }
+      return parsed as KbBundleSource;
+    });
+
+    const result: KbImportResult = { imported: 0, replaced: 0, skipped: 0 };
+    const existingByLabel = new Map(this.listSourceInfo().map((s) => [s.label, s]));
+    for (const source of sources) {
+      const chunks: Chunk[] = source.chunks.map((c) => ({
+        title: c.title,
+        content: c.content,
+        hasCode: c.contentType === "code",
+        ...(c.log && { log: c.log }),
+        ...(c.git && { git: c.git }),
+      }));
+      const contentHash = source.contentHash || bundleChunkHash(source.chunks);
+      const existing = existingByLabel.get(source.label);
+      if (existing) {
+        const existingHash = existing.contentHash ?? bundleChunkHash(this.getChunksBySource(existing.id));
+        if (existingHash === contentHash) {
+          result.skipped++;
+          continue;
+        }
+      }
+      const text = chunks.map((c) => c.content).join("\n");
+      const language = typeof source.language === "string" ? normalizeLanguage(source.language) ?? undefined : undefined;
+      withRetry(() => this.#insertChunks(chunks, source.label, text, undefined, contentHash, undefined, language));
+      if (Array.isArray(source.tags) || source.pinned) {
+        this.setSourceTags(source.label, {
+          tags: Array.isArray(source.tags) ? source.tags.filter((t): t is string => typeof t === "string") : undefined,
+          pinned: source.pinned === true,
+        });
+      }
+      if (existing) result.replaced++;
+      else result.imported++;
+    }
+    return result;
+  }
+
   // ── Cleanup ──
 
   /**
@@ -1432,12 +2887,42 @@ export class ContentStore {
     const cleanup = this.#db.transaction((days: number) => {
       this.#stmtCleanupChunks.run(days);
       this.#stmtCleanupChunksTrigram.run(days);
-      return this.#stmtCleanupSources.run(days);
+      const info = this.#stmtCleanupSources.run(days);
+      this.#stmtPruneLogChunks.run();
+      this.#stmtPruneGitChunks.run();
+      this.#stmtPruneFingerprints.run();
+      this.#stmtPruneLanguages.run();
+      this.#stmtPruneUsage.run();
+      this.#stmtPruneTags.run();
+      for (const f of LANGUAGE_FAMILIES) this.#languageStmts[f].prune.run();
+      return info;
     });
     const info = cleanup(maxAgeDays);
     return info.changes;
   }
 
+  /**
+   * Keep only the `maxSources` most recently indexed sources, deleting the
+   * rest with their chunks. Retention limit for the durable project store.
+   * Returns count of deleted sources.
+   */
+  trimToMaxSources(maxSources: number): number {
+    const trim = this.#db.transaction((keep: number) => {
+      this.#stmtTrimChunks.run(keep);
+      this.#stmtTrimChunksTrigram.run(keep);
+      const info = this.#stmtTrimSources.run(keep);
+      this.#stmtPruneLogChunks.run();
+      this.#stmtPruneGitChunks.run();
+      this.#stmtPruneFingerprints.run();
+      this.#stmtPruneLanguages.run();
+      this.#stmtPruneUsage.run();
+      this.#stmtPruneTags.run();
+      for (const f of LANGUAGE_FAMILIES) this.#languageStmts[f].prune.run();
+      return info;
+    });
+    return trim(maxSources).changes;
+  }
+
   /** Get DB file size in bytes. */
   getDBSizeBytes(): number {
     try {
@@ -1456,6 +2941,10 @@ export class ContentStore {
   }
 
   close(): void {
+    if (this.#readonly) {
+      try { this.#db.close(); } catch { /* ignore */ }
+      return;
+    }
     this.#optimizeFTS(); // defragment before close
     closeDB(this.#db); // WAL checkpoint before close — important for persistent DBs
   }
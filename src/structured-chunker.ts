@@ -0,0 +1,660 @@
+/**
+ * structured-chunker — Key-path chunking for YAML, TOML and XML.
+ *
+ * ContentStore.indexJSON walks parsed JSON and titles each chunk with its
+ * key path (`spec > template > spec > containers`). Config and data files
+ * in other formats fell through to the markdown / plain-text chunker, which
+ * cuts a k8s manifest or a pom.xml wherever the byte cap lands. This module
+ * builds a structure tree per format — indentation for YAML, table headers
+ * for TOML, elements for XML — and walks it with indexJSON's rules:
+ *
+ *   - nodes with nested structure recurse, so key paths become titles;
+ *   - flat nodes stay whole, and runs of scalar siblings share a chunk
+ *     titled by their parent's path;
+ *   - sequences (YAML lists, TOML `[[tables]]`, repeated XML elements)
+ *     batch by size, titled by identity field (`containers > web, sidecar`)
+ *     or index range (`steps > [0-3]`), like JSON arrays.
+ *
+ * Chunks carry the original source text rather than a re-serialisation, so
+ * comments and quoting survive. There is no parser dependency: the trees are
+ * structural approximations, and input that does not fit the format returns
+ * null so the caller falls back to plain chunking.
+ */
+
+export type StructuredFormat = "yaml" | "toml" | "xml";
+
+export interface StructuredChunk {
+  title: string;
+  content: string;
+}
+
+const EXTENSION_FORMATS: Record<string, StructuredFormat> = {
+  yaml: "yaml",
+  yml: "yaml",
+  toml: "toml",
+  xml: "xml",
+  xsd: "xml",
+  xsl: "xml",
+  xslt: "xml",
+  plist: "xml",
+  pom: "xml",
+  csproj: "xml",
+  props: "xml",
+  targets: "xml",
+  wsdl: "xml",
+  rss: "xml",
+  atom: "xml",
+};
+
+/** Extensions whose content is never sniffed — prose that may look like YAML. */
+const PROSE_EXTENSIONS = new Set(["md", "markdown", "mdx", "rst", "adoc", "html", "htm"]);
+
+/**
+ * ContentStore's JSON identity fields, plus the keys Maven dependencies
+ * (`artifactId`) and sitemap entries (`loc`) are identified by.
+ */
+const IDENTITY_FIELDS = ["id", "name", "title", "path", "slug", "key", "label", "artifactId", "loc"];
+
+const SNIFF_BYTES = 16 * 1024;
+const MAX_TITLE_VALUE = 40;
+
+/**
+ * Pick a structured format from a path or label extension, falling back
+ * to sniffing `content` when the hint has no known extension. Sniffing is
+ * strict (the whole sample must parse, with several keys) so prose and
+ * command output keep the markdown chunker.
+ */
+export function detectStructuredFormat(hint?: string | null, content?: string): StructuredFormat | null {
+  const ext = hint ? /\.([A-Za-z0-9]+)$/.exec(hint.split(/[?#]/)[0])?.[1].toLowerCase() : undefined;
+  if (ext && EXTENSION_FORMATS[ext]) return EXTENSION_FORMATS[ext];
+  if (ext && PROSE_EXTENSIONS.has(ext)) return null;
+  return content ? sniffFormat(content) : null;
+}
+
+function sniffFormat(content: string): StructuredFormat | null {
+  const truncated = content.length > SNIFF_BYTES;
+  let sample = content.slice(0, SNIFF_BYTES).replace(/^\uFEFF/, "");
+  // Drop a line cut off by the sample window.
+  if (truncated) sample = sample.slice(0, Math.max(0, sample.lastIndexOf("\n")));
+  const head = sample.trimStart();
+
+  if (head.startsWith("<?xml")) return "xml";
+  if (/^<[A-Za-z_][\w:.-]*[\s>/]/.test(head) && !/^<html[\s>]/i.test(head)) {
+    return truncated || parseXml(sample) ? "xml" : null;
+  }
+
+  const toml = parseToml(sample);
+  if (toml && toml.keyLines >= 2) return "toml";
+  if (looksLikeYaml(sample)) return "yaml";
+  return null;
+}
+
+/**
+ * YAML's grammar accepts almost any text, so sniffing checks the shape:
+ * every unindented line is a `key:` (identifier-like key), a `- ` item or a
+ * document marker, with at least two keys.
+ */
+function looksLikeYaml(sample: string): boolean {
+  let keys = 0;
+  let first = true;
+  for (const line of sample.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+    if (/^\s/.test(line)) {
+      if (first) return false;
+      continue;
+    }
+    first = false;
+    if (/^(---|\.\.\.)(\s|$)/.test(line) || /^-(\s|$)/.test(line)) continue;
+    if (/^("[^"]+"|'[^']+'|[\w./-]+)\s*:(\s|$)/.test(line)) keys++;
+    else return false;
+  }
+  return keys >= 2;
+}
+
+// ─────────────────────────────────────────────────────────
+// Structure tree
+// ─────────────────────────────────────────────────────────
+
+interface StructNode {
+  /** Mapping key, TOML table or XML element name; null for sequence items. */
+  key: string | null;
+  /** [start, end) offsets of text owned by this node itself. */
+  spans: Array<[number, number]>;
+  children: StructNode[];
+  /** Scalar fields of this node — identity lookup for sequence titles. */
+  fields: Record<string, string>;
+}
+
+function newNode(key: string | null): StructNode {
+  return { key, spans: [], children: [], fields: {} };
+}
+
+interface LineSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function lineSpans(text: string): LineSpan[] {
+  const lines: LineSpan[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const nl = text.indexOf("\n", start);
+    const end = nl === -1 ? text.length : nl;
+    const lineEnd = text[end - 1] === "\r" ? end - 1 : end;
+    lines.push({ start, end: lineEnd, text: text.slice(start, lineEnd) });
+    if (nl === -1) break;
+    start = nl + 1;
+  }
+  return lines;
+}
+
+function unquote(s: string): string {
+  const t = s.trim();
+  if (t.length >= 2 && (t[0] === '"' || t[0] === "'") && t[t.length - 1] === t[0]) return t.slice(1, -1);
+  return t;
+}
+
+/** Plain scalar value for identity fields, or undefined for structured / block values. */
+function scalarValue(raw: string | undefined): string | undefined {
+  if (raw === undefined) return undefined;
+  const value = raw.replace(/\s+#.*$/, "").trim();
+  if (value === "" || /^[|>[{&*!]/.test(value)) return undefined;
+  return unquote(value);
+}
+
+// ── YAML ──
+
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s"'#\-[\]{},|>&*!%@`?][^:#]*?)\s*:(?:[ \t]+(.*))?$/;
+const YAML_BLOCK_SCALAR = /^[|>][-+0-9]*\s*(#.*)?$/;
+
+/**
+ * Indentation trees for YAML, one per `---` document. List items sit half a
+ * level deeper than their key so `key:\n- item` (same column) still nests.
+ */
+function parseYaml(text: string): StructNode[] | null {
+  const docs: StructNode[] = [];
+  let doc = newNode(null);
+  let stack: Array<{ node: StructNode; indent: number }> = [{ node: doc, indent: -1 }];
+  let pending: Array<[number, number]> = [];
+  let blockIndent = -1;
+  let keyLines = 0;
+
+  const finishDoc = () => {
+    if (doc.children.length > 0 || doc.spans.length > 0) docs.push(doc);
+  };
+
+  for (const line of lineSpans(text)) {
+    const span: [number, number] = [line.start, line.end];
+    if (/^(---|\.\.\.)(\s|$)/.test(line.text)) {
+      finishDoc();
+      doc = newNode(null);
+      stack = [{ node: doc, indent: -1 }];
+      pending = [];
+      blockIndent = -1;
+      continue;
+    }
+
+    const top = stack[stack.length - 1].node;
+    const trimmed = line.text.trim();
+    const indent = line.text.length - line.text.trimStart().length;
+    if (blockIndent >= 0 && (trimmed === "" || indent > blockIndent)) {
+      top.spans.push(...pending, span);
+      pending = [];
+      continue;
+    }
+    blockIndent = -1;
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      pending.push(span);
+      continue;
+    }
+
+    // A line may open several nodes: `- - name: x` is two items and a key.
+    const opened: Array<{ node: StructNode; indent: number; value?: string }> = [];
+    let rest = line.text.slice(indent);
+    let col = indent;
+    while (/^-(\s|$)/.test(rest)) {
+      opened.push({ node: newNode(null), indent: col + 0.5 });
+      const skip = /^-\s*/.exec(rest)![0].length;
+      col += skip;
+      rest = rest.slice(skip);
+    }
+    const kv = rest ? YAML_KEY.exec(rest) : null;
+    if (kv) {
+      opened.push({ node: newNode(unquote(kv[1])), indent: col, value: kv[2] });
+      keyLines++;
+      if (kv[2] !== undefined && YAML_BLOCK_SCALAR.test(kv[2].trim())) blockIndent = col;
+    }
+
+    if (opened.length === 0) {
+      // Continuation of a multi-line scalar or flow collection.
+      top.spans.push(...pending, span);
+      pending = [];
+      continue;
+    }
+
+    while (stack.length > 1 && stack[stack.length - 1].indent >= opened[0].indent) stack.pop();
+    let parent = stack[stack.length - 1].node;
+    for (const o of opened) {
+      parent.children.push(o.node);
+      if (o.node.key !== null) {
+        const value = scalarValue(o.value);
+        if (value !== undefined) parent.fields[o.node.key] = value;
+      }
+      stack.push({ node: o.node, indent: o.indent });
+      parent = o.node;
+    }
+    parent.spans.push(...pending, span);
+    pending = [];
+  }
+  finishDoc();
+
+  return keyLines > 0 && docs.length > 0 ? docs : null;
+}
+
+/**
+ * Title prefix for one document of a multi-document stream: an identity
+ * field, `kind/metadata.name` for Kubernetes manifests, else its index.
+ */
+function documentLabel(doc: StructNode, index: number): string {
+  const field = IDENTITY_FIELDS.find((f) => doc.fields[f] !== undefined);
+  if (field) return doc.fields[field];
+  const metaName = doc.children.find((c) => c.key === "metadata")?.fields.name;
+  if (doc.fields.kind && metaName) return `${doc.fields.kind}/${metaName}`;
+  return `[${index}]`;
+}
+
+// ── TOML ──
+
+/** Split a dotted TOML key, honouring quoted segments (`tool."my.pkg"`). */
+function splitTomlKey(raw: string): string[] {
+  const parts: string[] = [];
+  const re = /\s*("(?:[^"\\]|\\.)*"|'[^']*'|[^.\s"']+)\s*(?:\.|$)/gy;
+  let m: RegExpExecArray | null;
+  while (re.lastIndex < raw.length && (m = re.exec(raw)) !== null) parts.push(unquote(m[1]));
+  return parts;
+}
+
+const TOML_HEADER = /^\s*(\[\[?)\s*([^\]]+?)\s*(\]\]?)\s*(#.*)?$/;
+const TOML_KEY_VALUE = /^\s*((?:"(?:[^"\\]|\\.)*"|'[^']*'|[\w-]+)(?:\s*\.\s*(?:"(?:[^"\\]|\\.)*"|'[^']*'|[\w-]+))*)\s*=\s*(.*)$/;
+
+function isSequence(node: StructNode): boolean {
+  return node.children.length > 0 && node.children.every((c) => c.key === null);
+}
+
+/**
+ * Table tree for TOML: `[a.b]` headers create nested tables, `[[a.b]]`
+ * appends an item to the sequence at `a.b`, and `key = value` lines are
+ * leaves of the current table. Multi-line strings and arrays stay with
+ * their key. Returns null on any line that is not TOML.
+ */
+function parseToml(text: string): (StructNode & { keyLines: number }) | null {
+  const root = Object.assign(newNode(null), { keyLines: 0 });
+  let current: StructNode = root;
+  let pending: Array<[number, number]> = [];
+  let lastLeaf: StructNode | null = null;
+  let openString: string | null = null;
+  let arrayDepth = 0;
+
+  const ensureTable = (path: string[], forItem: boolean): StructNode => {
+    let node: StructNode = root;
+    path.forEach((seg, i) => {
+      let child = node.children.find((c) => c.key === seg);
+      if (!child) {
+        child = newNode(seg);
+        node.children.push(child);
+      }
+      node = child;
+      const last = i === path.length - 1;
+      if (isSequence(node) && !(last && forItem)) node = node.children[node.children.length - 1];
+    });
+    return node;
+  };
+
+  for (const line of lineSpans(text)) {
+    const span: [number, number] = [line.start, line.end];
+    if (openString || arrayDepth > 0) {
+      lastLeaf!.spans.push(span);
+      if (openString) {
+        if (line.text.split(openString).length % 2 === 0) openString = null;
+      } else {
+        arrayDepth += bracketDelta(line.text);
+      }
+      continue;
+    }
+    const trimmed = line.text.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      pending.push(span);
+      continue;
+    }
+
+    const header = TOML_HEADER.exec(line.text);
+    if (header && header[1].length === header[3].length) {
+      const path = splitTomlKey(header[2]);
+      if (path.length === 0) return null;
+      if (header[1] === "[[") {
+        const container = ensureTable(path, true);
+        current = newNode(null);
+        container.children.push(current);
+      } else {
+        current = ensureTable(path, false);
+      }
+      current.spans.push(...pending, span);
+      pending = [];
+      root.keyLines++;
+      continue;
+    }
+
+    const kv = TOML_KEY_VALUE.exec(line.text);
+    if (!kv) return null;
+    const key = splitTomlKey(kv[1]).join(".");
+    const leaf = newNode(key);
+    leaf.spans.push(...pending, span);
+    pending = [];
+    current.children.push(leaf);
+    lastLeaf = leaf;
+    root.keyLines++;
+
+    const value = kv[2].trim();
+    const delim = value.startsWith('"""') ? '"""' : value.startsWith("'''") ? "'''" : null;
+    if (delim && value.split(delim).length % 2 === 0) {
+      openString = delim;
+    } else if (value.startsWith("[")) {
+      arrayDepth = bracketDelta(value);
+    } else {
+      const scalar = scalarValue(value);
+      if (scalar !== undefined) current.fields[key] = scalar;
+    }
+  }
+
+  return root.keyLines > 0 && !openString && arrayDepth === 0 ? root : null;
+}
+
+/** Net `[` minus `]` outside quoted strings and comments. */
+function bracketDelta(s: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "#") break;
+    else if (ch === "[") depth++;
+    else if (ch === "]") depth--;
+  }
+  return depth;
+}
+
+// ── XML ──
+
+const XML_OPEN_TAG = /<([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/y;
+const XML_CLOSE_TAG = /<\/([A-Za-z_][\w:.-]*)\s*>/y;
+const XML_ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Element tree for XML. Each element owns its whole source span; fields
+ * hold attributes and the text of leaf child elements. Returns the
+ * document element, or null for malformed markup (unclosed or mismatched
+ * tags, e.g. HTML void elements).
+ */
+function parseXml(text: string): StructNode | null {
+  const doc = newNode(null);
+  const stack: Array<{ node: StructNode; start: number; text: string }> = [{ node: doc, start: 0, text: "" }];
+  let i = 0;
+
+  const skipTo = (from: number, terminator: string): number => {
+    const end = text.indexOf(terminator, from);
+    return end === -1 ? -1 : end + terminator.length;
+  };
+
+  while (i < text.length) {
+    const lt = text.indexOf("<", i);
+    const top = stack[stack.length - 1];
+    if (lt === -1) {
+      top.text += text.slice(i);
+      break;
+    }
+    top.text += text.slice(i, lt);
+
+    if (text.startsWith("<!--", lt)) i = skipTo(lt + 4, "-->");
+    else if (text.startsWith("<![CDATA[", lt)) {
+      i = skipTo(lt + 9, "]]>");
+      if (i !== -1) top.text += text.slice(lt + 9, i - 3);
+    } else if (text.startsWith("<?", lt)) i = skipTo(lt + 2, "?>");
+    else if (text.startsWith("<!", lt)) i = skipTo(lt + 2, ">");
+    else if (text.startsWith("</", lt)) {
+      XML_CLOSE_TAG.lastIndex = lt;
+      const m = XML_CLOSE_TAG.exec(text);
+      if (!m || stack.length < 2 || m[1] !== top.node.key) return null;
+      i = XML_CLOSE_TAG.lastIndex;
+      top.node.spans.push([top.start, i]);
+      stack.pop();
+      const parent = stack[stack.length - 1].node;
+      const value = top.text.trim();
+      if (top.node.children.length === 0 && value && !/[<\n]/.test(value)) {
+        parent.fields[top.node.key!] ??= value;
+      }
+    } else {
+      XML_OPEN_TAG.lastIndex = lt;
+      const m = XML_OPEN_TAG.exec(text);
+      if (!m) return null;
+      i = XML_OPEN_TAG.lastIndex;
+      const el = newNode(m[1]);
+      for (const a of m[2].matchAll(XML_ATTRIBUTE)) el.fields[a[1]] = a[2] ?? a[3];
+      top.node.children.push(el);
+      if (m[3]) el.spans.push([lt, i]);
+      else stack.push({ node: el, start: lt, text: "" });
+    }
+    if (i === -1) return null;
+  }
+
+  if (stack.length !== 1 || doc.children.length !== 1) return null;
+  return doc.children[0];
+}
+
+// ─────────────────────────────────────────────────────────
+// Walk
+// ─────────────────────────────────────────────────────────
+
+interface WalkContext {
+  text: string;
+  maxChunkBytes: number;
+  chunks: StructuredChunk[];
+}
+
+function collectSpans(node: StructNode, out: Array<[number, number]>): void {
+  out.push(...node.spans);
+  for (const c of node.children) collectSpans(c, out);
+}
+
+/** Source text of several nodes in document order; nested spans are not repeated. */
+function textOf(ctx: WalkContext, nodes: StructNode[]): string {
+  const spans: Array<[number, number]> = [];
+  for (const n of nodes) collectSpans(n, spans);
+  spans.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+  const parts: string[] = [];
+  let coveredTo = -1;
+  for (const [start, end] of spans) {
+    if (end <= coveredTo) continue;
+    parts.push(ctx.text.slice(start, end));
+    coveredTo = end;
+  }
+  return parts.join("\n").replace(/^\s*\n/, "").trimEnd();
+}
+
+function emit(ctx: WalkContext, title: string, content: string): void {
+  if (content.trim().length === 0) return;
+  if (Buffer.byteLength(content) <= ctx.maxChunkBytes) {
+    ctx.chunks.push({ title, content });
+    return;
+  }
+  // Oversized scalar or leaf run — split at line boundaries, hard-cutting
+  // single lines (minified XML) that exceed the cap on their own.
+  let current = "";
+  const flush = () => {
+    if (current.trim().length > 0) ctx.chunks.push({ title, content: current });
+    current = "";
+  };
+  for (let line of content.split("\n")) {
+    while (Buffer.byteLength(line) > ctx.maxChunkBytes) {
+      flush();
+      let cut = ctx.maxChunkBytes;
+      while (Buffer.byteLength(line.slice(0, cut)) > ctx.maxChunkBytes) cut = Math.floor(cut * 0.9);
+      ctx.chunks.push({ title, content: line.slice(0, cut) });
+      line = line.slice(cut);
+    }
+    const candidate = current ? `${current}\n${line}` : line;
+    if (Buffer.byteLength(candidate) > ctx.maxChunkBytes) {
+      flush();
+      current = line;
+    } else {
+      current = candidate;
+    }
+  }
+  flush();
+}
+
+function findIdentityField(items: StructNode[]): string | null {
+  const first = items[0]?.fields ?? {};
+  return IDENTITY_FIELDS.find((f) => first[f] !== undefined) ?? null;
+}
+
+/** Same shapes as ContentStore's JSON batch titles. */
+function batchTitle(prefix: string, start: number, end: number, batch: StructNode[], identityField: string | null): string {
+  const sep = `${prefix} > `;
+  const ids = identityField
+    ? batch.map((n) => n.fields[identityField]).filter((v): v is string => v !== undefined)
+    : [];
+  if (ids.length !== batch.length) {
+    return start === end ? `${sep}[${start}]` : `${sep}[${start}-${end}]`;
+  }
+  const shorten = (v: string) => (v.length > MAX_TITLE_VALUE ? `${v.slice(0, MAX_TITLE_VALUE)}…` : v);
+  if (ids.length === 1) return sep + shorten(ids[0]);
+  if (ids.length <= 3) return sep + ids.map(shorten).join(", ");
+  return `${sep}${shorten(ids[0])}…${shorten(ids[ids.length - 1])}`;
+}
+
+/**
+ * Emit a sequence whole when it fits (with its key line, if the owner is
+ * given), else in identity-titled batches.
+ */
+function walkSequence(ctx: WalkContext, items: StructNode[], path: string[], owner?: StructNode): void {
+  const prefix = path.length > 0 ? path.join(" > ") : "(root)";
+  const whole = textOf(ctx, owner ? [owner] : items);
+  if (Buffer.byteLength(whole) <= ctx.maxChunkBytes) {
+    emit(ctx, prefix, whole);
+    return;
+  }
+
+  const identityField = findIdentityField(items);
+  let batch: StructNode[] = [];
+  let batchStart = 0;
+  const flush = () => {
+    if (batch.length === 0) return;
+    const end = batchStart + batch.length - 1;
+    emit(ctx, batchTitle(prefix, batchStart, end, batch, identityField), textOf(ctx, batch));
+    batchStart = end + 1;
+    batch = [];
+  };
+
+  items.forEach((item, i) => {
+    const itemBytes = Buffer.byteLength(textOf(ctx, [item]));
+    if (itemBytes > ctx.maxChunkBytes) {
+      // One item over the cap on its own — walk into it like any mapping.
+      flush();
+      const label = identityField ? item.fields[identityField] : undefined;
+      walk(ctx, item, [...path, label ?? `[${i}]`]);
+      batchStart = i + 1;
+      return;
+    }
+    if (batch.length > 0 && Buffer.byteLength(textOf(ctx, [...batch, item])) > ctx.maxChunkBytes) flush();
+    batch.push(item);
+  });
+  flush();
+}
+
+function walk(ctx: WalkContext, node: StructNode, path: string[]): void {
+  const title = path.length > 0 ? path.join(" > ") : "(root)";
+  const children = node.children;
+  if (children.length === 0) {
+    emit(ctx, title, textOf(ctx, [node]));
+    return;
+  }
+  if (isSequence(node)) {
+    walkSequence(ctx, children, path, node);
+    return;
+  }
+
+  // Flat mappings stay whole; anything nested recurses so key paths
+  // become titles, even when the subtree would fit in one chunk.
+  const text = textOf(ctx, [node]);
+  if (children.every((c) => c.children.length === 0) && Buffer.byteLength(text) <= ctx.maxChunkBytes) {
+    emit(ctx, title, text);
+    return;
+  }
+
+  // The parent's own lines (a YAML key line, a TOML header) lead its first
+  // run of scalar siblings. XML elements own their whole span, which would
+  // repeat the children, so only the leaves are used there.
+  let header: StructNode[] = ownsChildren(node) ? [] : [{ ...node, children: [] }];
+  let leaves: StructNode[] = [];
+  const flushLeaves = () => {
+    if (leaves.length === 0) return;
+    emit(ctx, title, textOf(ctx, [...header, ...leaves]));
+    header = [];
+    leaves = [];
+  };
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    // XML repeats an element instead of nesting a list — treat the run as one.
+    let j = i;
+    while (child.key !== null && j + 1 < children.length && children[j + 1].key === child.key) j++;
+    if (j > i) {
+      flushLeaves();
+      walkSequence(ctx, children.slice(i, j + 1), [...path, child.key!]);
+      i = j;
+      continue;
+    }
+    if (child.children.length === 0) {
+      leaves.push(child);
+      continue;
+    }
+    flushLeaves();
+    walk(ctx, child, [...path, child.key ?? `[${i}]`]);
+  }
+  flushLeaves();
+}
+
+/** True when the node's own span already encloses its children (XML elements). */
+function ownsChildren(node: StructNode): boolean {
+  const first = node.children[0]?.spans[0];
+  return !!first && node.spans.some(([s, e]) => s <= first[0] && e >= first[1]);
+}
+
+/**
+ * Chunk YAML, TOML or XML text along its structure with key-path titles.
+ * Returns null when the text does not parse as `format` or yields nothing.
+ */
+export function chunkStructured(
+  text: string,
+  format: StructuredFormat,
+  maxChunkBytes: number,
+): StructuredChunk[] | null {
+  const source = text.replace(/^\uFEFF/, "");
+  const ctx: WalkContext = { text: source, maxChunkBytes, chunks: [] };
+  if (format === "yaml") {
+    // Each document of a stream is walked on its own, like separate files.
+    const docs = parseYaml(source);
+    if (!docs) return null;
+    docs.forEach((doc, i) => walk(ctx, doc, docs.length > 1 ? [documentLabel(doc, i)] : []));
+  } else {
+    const tree = format === "toml" ? parseToml(source) : parseXml(source);
+    if (!tree) return null;
+    // XML titles start at the document element (`project > dependencies`).
+    walk(ctx, tree, format === "xml" ? [tree.key!] : []);
+  }
+  return ctx.chunks.length > 0 ? ctx.chunks : null;
+}
@@ -0,0 +1,161 @@
+/**
+ * summary — Extractive per-source summaries, computed at index time.
+ *
+ * The index response lists section titles and a first-line preview, which
+ * says little about a 200-section doc. ContentStore summarizes each source
+ * with TextRank (Mihalcea & Tarau, 2004) over its prose sentences: sentences
+ * are graph nodes, edges are weighted by shared terms normalized by
+ * sentence length, and PageRank picks the sentences most of the source
+ * "agrees with". The top sentences are joined in document order within a
+ * byte budget. No model is involved.
+ *
+ * Terms are the words the store's vocabulary table holds (same tokenizer
+ * and stopwords as fuzzy correction), so identifiers count and filler
+ * words do not.
+ */
+
+/** Hard cap on a stored summary, in UTF-8 bytes. */
+export const SUMMARY_MAX_BYTES = 400;
+
+/** Sentences ranked per source — TextRank is quadratic in this. */
+const MAX_SENTENCES = 300;
+/** Sentences considered per chunk, so the summary draws on the whole source rather than its intro. */
+const MAX_SENTENCES_PER_CHUNK = 4;
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** Same word split and length floor as the vocabulary table. */
+function terms(sentence: string, isTerm: (word: string) => boolean): Set<string> {
+  return new Set(
+    sentence
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}_-]+/u)
+      .filter((w) => w.length >= 3 && isTerm(w)),
+  );
+}
+
+/**
+ * Markdown reduced to prose paragraphs: fenced code, headings, tables and
+ * quotes dropped, link and emphasis markup stripped. Each list item becomes
+ * its own paragraph so items do not run together into one "sentence".
+ */
+function proseText(content: string): string {
+  const out: string[] = [];
+  let fence: string | null = null;
+  for (const line of content.split("\n")) {
+    const marker = /^\s*(```|~~~)/.exec(line)?.[1];
+    if (marker && (fence === null || marker === fence)) {
+      fence = fence === null ? marker : null;
+      out.push("");
+      continue;
+    }
+    if (fence !== null || /^\s*(#{1,6}\s|\||>|<!--|[-*_]{3,}\s*$)/.test(line)) {
+      out.push("");
+      continue;
+    }
+    const item = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    out.push(item ? `\n${item[2]}\n` : line);
+  }
+  return out
+    .join("\n")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.*?)\1/g, "$2");
+}
+
+/**
+ * Prose sentences of a chunk: split at sentence punctuation and blank
+ * lines, keeping only sentences that read like prose — five or more words,
+ * mostly letters, little code punctuation — so code, logs and tables do
+ * not qualify.
+ */
+export function splitSentences(content: string): string[] {
+  return proseText(content)
+    .split(/\n\s*\n|(?<=[.!?。！？])\s+/u)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter((s) => {
+      // CJK sentences have no spaces to count words by.
+      if (s.length < 20 || (s.split(" ").length < 5 && !CJK.test(s))) return false;
+      const letters = s.match(/[\p{L}\s]/gu)?.length ?? 0;
+      const symbols = s.match(/[{}[\]<>=;$|\\]/g)?.length ?? 0;
+      return letters / s.length >= 0.75 && symbols <= 1 && !/[;{(,]$/.test(s);
+    });
+}
+
+/** Truncate to at most `maxBytes` UTF-8 bytes at a word boundary, marking the cut. */
+function truncateBytes(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text) <= maxBytes) return text;
+  let out = "";
+  for (const ch of text) {
+    if (Buffer.byteLength(out + ch) > maxBytes - Buffer.byteLength("…")) break;
+    out += ch;
+  }
+  const space = out.lastIndexOf(" ");
+  return (space > out.length / 2 ? out.slice(0, space) : out).trimEnd() + "…";
+}
+
+/** TextRank score per sentence, given each sentence's term set. */
+function textRank(sentenceTerms: Array<Set<string>>): number[] {
+  const n = sentenceTerms.length;
+  const weights: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const a = sentenceTerms[i];
+      const b = sentenceTerms[j];
+      if (a.size < 2 || b.size < 2) continue;
+      let shared = 0;
+      for (const t of a) if (b.has(t)) shared++;
+      if (shared === 0) continue;
+      const w = shared / (Math.log(a.size) + Math.log(b.size));
+      weights[i][j] = w;
+      weights[j][i] = w;
+    }
+  }
+  const outSum = weights.map((row) => row.reduce((s, w) => s + w, 0));
+  let scores = new Array<number>(n).fill(1);
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    scores = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) rank += (weights[j][i] / outSum[j]) * scores[j];
+      }
+      return 1 - DAMPING + DAMPING * rank;
+    });
+  }
+  return scores;
+}
+
+/**
+ * Extractive summary of a source's chunks: the highest-ranked sentences
+ * that fit `maxBytes`, in document order. A lone best sentence longer than
+ * the budget is truncated. Returns null when the source has no prose.
+ */
+export function summarizeChunks(
+  chunks: ReadonlyArray<{ content: string }>,
+  isTerm: (word: string) => boolean,
+  maxBytes: number = SUMMARY_MAX_BYTES,
+): string | null {
+  const perChunk = Math.max(1, Math.min(MAX_SENTENCES_PER_CHUNK, Math.ceil(MAX_SENTENCES / Math.max(chunks.length, 1))));
+  const sentences: string[] = [];
+  for (const chunk of chunks) {
+    if (sentences.length >= MAX_SENTENCES) break;
+    sentences.push(...splitSentences(chunk.content).slice(0, perChunk));
+  }
+  const unique = [...new Set(sentences)].slice(0, MAX_SENTENCES);
+  if (unique.length === 0) return null;
+
+  const scores = textRank(unique.map((s) => terms(s, isTerm)));
+  // Ties (e.g. no shared terms at all) keep document order.
+  const ranked = unique.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+  const picked: number[] = [];
+  let bytes = 0;
+  for (const i of ranked) {
+    const size = Buffer.byteLength(unique[i]) + (picked.length > 0 ? 1 : 0);
+    if (bytes + size > maxBytes) continue;
+    picked.push(i);
+    bytes += size;
+  }
+  if (picked.length === 0) return truncateBytes(unique[ranked[0]], maxBytes);
+  return picked.sort((a, b) => a - b).map((i) => unique[i]).join(" ");
+}
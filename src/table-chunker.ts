@@ -0,0 +1,242 @@
+/**
+ * table-chunker — Header-aware chunking for CSV / TSV data.
+ *
+ * Tabular text indexed as plain text is split every 20 lines with no header,
+ * so a search hit on row 4,210 arrives without its column names. This module
+ * detects the delimiter, parses quoted fields (RFC 4180: `""` escapes, line
+ * breaks inside quotes), and batches rows under the byte cap with the header
+ * repeated at the top of every chunk. Titles carry the row range and the
+ * key-column values, the same way ContentStore titles JSON array batches by
+ * identity field — `rows 1–48 (id 1001…1048)`.
+ *
+ * A leading `(schema)` chunk lists each column with its inferred type so
+ * "which column holds latency" is itself searchable.
+ */
+
+export type TableDelimiter = "," | "\t" | ";" | "|";
+
+export type ColumnType = "integer" | "number" | "boolean" | "date" | "string" | "empty";
+
+export interface TableSchema {
+  delimiter: TableDelimiter;
+  rowCount: number;
+  columns: Array<{ name: string; type: ColumnType }>;
+  /** Column whose values title each row batch. */
+  keyColumn: string;
+}
+
+export interface TableChunk {
+  title: string;
+  content: string;
+}
+
+/** Detection order doubles as tie-break priority. */
+const DELIMITERS: TableDelimiter[] = ["\t", ",", ";", "|"];
+
+const DELIMITER_NAMES: Record<TableDelimiter, string> = {
+  "\t": "tab",
+  ",": "comma",
+  ";": "semicolon",
+  "|": "pipe",
+};
+
+/** Same preference list as ContentStore's JSON identity-field lookup. */
+const KEY_CANDIDATES = ["id", "name", "title", "path", "slug", "key", "label"];
+
+/** Bytes sampled for delimiter detection — enough for a few dozen rows. */
+const SAMPLE_BYTES = 16 * 1024;
+const SAMPLE_RECORDS = 25;
+const MAX_TITLE_VALUE = 40;
+
+/** True for paths whose extension marks them as delimited tables. */
+export function isTablePath(path: string): boolean {
+  return /\.(csv|tsv|tab)$/i.test(path.split(/[?#]/)[0]);
+}
+
+interface TableRecord {
+  fields: string[];
+  raw: string;
+}
+
+/**
+ * Split delimited text into records. Quoted fields may contain the
+ * delimiter, `""` escapes and line breaks; blank lines are dropped.
+ * `raw` is the record's original text, without the line terminator.
+ */
+function parseRecords(text: string, delimiter: string, maxRecords = Infinity): TableRecord[] {
+  const records: TableRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let atFieldStart = true;
+  let recordStart = 0;
+
+  const endRecord = (end: number) => {
+    fields.push(field);
+    const raw = text.slice(recordStart, end).replace(/\r$/, "");
+    if (raw.trim().length > 0) records.push({ fields, raw });
+    fields = [];
+    field = "";
+    atFieldStart = true;
+  };
+
+  for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+      atFieldStart = true;
+    } else if (ch === "\n") {
+      endRecord(i);
+      recordStart = i + 1;
+    } else if (ch !== "\r" || text[i + 1] !== "\n") {
+      field += ch;
+      atFieldStart = false;
+    }
+  }
+  if (records.length < maxRecords && recordStart < text.length) endRecord(text.length);
+  return records;
+}
+
+/**
+ * Pick the delimiter that splits the sample into a consistent number of
+ * columns (≥ 2) on every record, with at least `minRows` data rows in the
+ * sample — callers raise it when there is no .csv/.tsv extension to go on.
+ * Returns null when the text does not look tabular.
+ */
+export function detectDelimiter(text: string, minRows = 1): TableDelimiter | null {
+  const truncated = text.length > SAMPLE_BYTES;
+  const sample = truncated ? text.slice(0, SAMPLE_BYTES) : text;
+
+  let best: { delimiter: TableDelimiter; columns: number } | null = null;
+  for (const delimiter of DELIMITERS) {
+    if (!sample.includes(delimiter)) continue;
+    const records = parseRecords(sample, delimiter, SAMPLE_RECORDS);
+    // A record cut off by the sample window may be short — ignore it.
+    if (truncated && records.length < SAMPLE_RECORDS) records.pop();
+    if (records.length < minRows + 1) continue;
+    const columns = records[0].fields.length;
+    if (columns < 2) continue;
+    if (!records.every((r) => r.fields.length === columns)) continue;
+    if (!best || columns > best.columns) best = { delimiter, columns };
+  }
+  return best?.delimiter ?? null;
+}
+
+function inferType(values: string[]): ColumnType {
+  const present = values.map((v) => v.trim()).filter((v) => v.length > 0);
+  if (present.length === 0) return "empty";
+  if (present.every((v) => /^[+-]?\d+$/.test(v))) return "integer";
+  if (present.every((v) => /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v))) return "number";
+  if (present.every((v) => /^(true|false)$/i.test(v))) return "boolean";
+  if (present.every((v) => /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(v))) return "date";
+  return "string";
+}
+
+function findKeyColumn(header: string[]): number {
+  const lower = header.map((h) => h.trim().toLowerCase());
+  for (const candidate of KEY_CANDIDATES) {
+    const idx = lower.indexOf(candidate);
+    if (idx !== -1) return idx;
+  }
+  return 0;
+}
+
+/** One-line schema summary for tool responses. */
+export function formatTableSchema(schema: TableSchema): string {
+  const cols = schema.columns.map((c) => `${c.name} (${c.type})`).join(", ");
+  return `${schema.columns.length} columns × ${schema.rowCount} rows, ${DELIMITER_NAMES[schema.delimiter]}-delimited: ${cols}`;
+}
+
+function batchTitle(start: number, end: number, keyName: string, keys: string[]): string {
+  const range = start === end ? `row ${start}` : `rows ${start}–${end}`;
+  const shorten = (v: string) => (v.length > MAX_TITLE_VALUE ? `${v.slice(0, MAX_TITLE_VALUE)}…` : v);
+  const present = keys.map((k) => shorten(k.trim())).filter((k) => k.length > 0);
+  if (present.length === 0) return range;
+  const values = present.length <= 3
+    ? present.join(", ")
+    : `${present[0]}…${present[present.length - 1]}`;
+  return `${range} (${keyName} ${values})`;
+}
+
+/**
+ * Chunk delimited text into a `(schema)` chunk plus header-prefixed row
+ * batches under `maxChunkBytes`. `delimiter` skips detection. Returns null
+ * when the text is not a table (no consistent delimiter, or no data rows).
+ */
+export function chunkTable(
+  text: string,
+  maxChunkBytes: number,
+  delimiter?: TableDelimiter | null,
+): { chunks: TableChunk[]; schema: TableSchema } | null {
+  const delim = delimiter ?? detectDelimiter(text);
+  if (!delim) return null;
+
+  const records = parseRecords(text.replace(/^\uFEFF/, ""), delim);
+  if (records.length < 2) return null;
+  const [header, ...rows] = records;
+  const names = header.fields.map((h, i) => h.trim() || `column_${i + 1}`);
+
+  const columns = names.map((name, i) => ({
+    name,
+    type: inferType(rows.map((r) => r.fields[i] ?? "")),
+  }));
+  const keyIdx = findKeyColumn(header.fields);
+  const schema: TableSchema = {
+    delimiter: delim,
+    rowCount: rows.length,
+    columns,
+    keyColumn: names[keyIdx],
+  };
+
+  const chunks: TableChunk[] = [{
+    title: "(schema)",
+    content: [
+      `${rows.length} rows, ${DELIMITER_NAMES[delim]}-delimited, key column: ${schema.keyColumn}`,
+      ...columns.map((c) => `- ${c.name}: ${c.type}`),
+    ].join("\n"),
+  }];
+
+  const headerBytes = Buffer.byteLength(header.raw) + 1;
+  let batch: TableRecord[] = [];
+  let batchBytes = headerBytes;
+  let batchStart = 1;
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    const end = batchStart + batch.length - 1;
+    chunks.push({
+      title: batchTitle(batchStart, end, schema.keyColumn, batch.map((r) => r.fields[keyIdx] ?? "")),
+      content: [header.raw, ...batch.map((r) => r.raw)].join("\n"),
+    });
+    batchStart = end + 1;
+    batch = [];
+    batchBytes = headerBytes;
+  };
+
+  for (const row of rows) {
+    const bytes = Buffer.byteLength(row.raw) + 1;
+    if (batch.length > 0 && batchBytes + bytes > maxChunkBytes) flush();
+    batch.push(row);
+    batchBytes += bytes;
+  }
+  flush();
+
+  return { chunks, schema };
+}
@@ -62,6 +62,8 @@ export interface ExecResult {
   timedOut: boolean;
   /** Process was detached and continues running in the background. */
   backgrounded?: boolean;
+  /** Background job id, for ctx_processes (set when `backgrounded`). */
+  jobId?: number;
 }
 
 // ─────────────────────────────────────────────────────────
@@ -78,6 +80,12 @@ export interface IndexResult {
   label: string;
   totalChunks: number;
   codeChunks: number;
+  /** Column schema summary, set when the content was indexed as a CSV/TSV table. */
+  tableSchema?: string;
+  /** Declared or detected language, set for non-English sources (also indexed in that language's table). */
+  language?: string;
+  /** Extractive summary of the source (see summary.ts); absent when it has no prose. */
+  summary?: string;
 }
 
 /**
@@ -93,6 +101,95 @@ export interface SearchResult {
   matchLayer?: "porter" | "trigram" | "fuzzy" | "rrf" | "rrf-fuzzy";
   highlighted?: string;
   timestamp?: string;
+  /** Stable `<sourceId>:<ordinal>` id — pass to ctx_search `chunkId` for the full chunk. */
+  chunkId?: string;
+  /** Scoring breakdown, present only when the search ran with `explain`. */
+  explain?: SearchExplain;
+  /** Severity and time range, present for chunks indexed in log mode. */
+  log?: LogChunkMeta;
+  /** MinHash content fingerprint (see search/near-duplicate.ts). */
+  fingerprint?: string;
+  /** Near-duplicate results collapsed into this one at search time. */
+  hiddenDuplicates?: number;
+  /** Synonym expansions applied to the query that found this result. */
+  expansions?: SynonymExpansion[];
+  /** Tags of the result's source, when it has any. */
+  tags?: string[];
+  /** Commit SHA and file paths, present for chunks indexed by ctx_index_git. */
+  git?: GitChunkMeta;
+}
+
+/** One synonym expansion applied to a query: `term` was also searched as each of `synonyms`. */
+export interface SynonymExpansion {
+  term: string;
+  synonyms: string[];
+}
+
+/** Log severity, lowest first: trace < debug < info < warn < error < fatal. */
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+/**
+ * Metadata of a log chunk (see log-chunker.ts): the highest severity among
+ * its records and the ISO time range they span.
+ */
+export interface LogChunkMeta {
+  level: LogLevel;
+  start: string;
+  end: string;
+  /** Set when the chunk groups a single request's records. */
+  requestId?: string;
+}
+
+/**
+ * Metadata of a git history chunk (see git-chunker.ts): the full commit
+ * SHA and the paths of the files whose diffs the chunk holds.
+ */
+export interface GitChunkMeta {
+  sha: string;
+  files: string[];
+}
+
+/**
+ * ctx_search level / time filter. `level` keeps chunks whose highest
+ * severity is at least that level; `since` / `until` (ISO) keep chunks
+ * whose time range overlaps the window.
+ */
+export interface LogFilter {
+  level?: LogLevel;
+  since?: string;
+  until?: string;
+}
+
+/** ctx_search tag filter: sources carrying any (or all) of `tags`. */
+export interface TagFilter {
+  tags: string[];
+  match: "any" | "all";
+}
+
+/**
+ * Per-result ranking signals from ContentStore.searchWithFallback. Final
+ * order sorts by `titleBoost + proximityBoost + phraseBoost`, then by
+ * `rrfScore`.
+ */
+export interface SearchExplain {
+  /** 1-based position in the porter (stemmed) list, null if absent. */
+  porterRank: number | null;
+  /** Raw porter bm25() score (lower is better), null if absent. */
+  porterBm25: number | null;
+  /** 1-based position in the trigram (substring) list, null if absent. */
+  trigramRank: number | null;
+  trigramBm25: number | null;
+  /** Best 1-based position in a per-language table list (non-English sources), null if absent. */
+  languageRank: number | null;
+  /** Best 1-based position in a synonym-variant list, null if absent. */
+  synonymRank: number | null;
+  /** Reciprocal rank fusion score: Σ 1 / (60 + rank), synonym-variant ranks at half weight. */
+  rrfScore: number;
+  titleBoost: number;
+  proximityBoost: number;
+  phraseBoost: number;
+  /** Typo corrections applied before this result was found (rrf-fuzzy layer). */
+  fuzzyCorrections: Array<{ from: string; to: string }>;
 }
 
 /**
@@ -0,0 +1,62 @@
+/**
+ * Behavioral tests for src/background-jobs.ts.
+ *
+ * Covers the output ring buffer (byte cap, tails that start on a UTF-8
+ * character boundary) and the one-line job summary used by ctx_processes.
+ * Jobs driven by real processes are covered in tests/executor.test.ts.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { formatBackgroundJob, formatDuration, OutputRing } from "../src/background-jobs.js";
+
+describe("OutputRing", () => {
+  test("keeps only the last capBytes bytes and counts everything written", () => {
+    const ring = new OutputRing(10);
+    ring.push(Buffer.from("abcdef"));
+    ring.push(Buffer.from("ghijkl"));
+    assert.equal(ring.tail(), "cdefghijkl");
+    assert.equal(ring.tail(4), "ijkl");
+    assert.equal(ring.totalBytes, 12);
+    ring.push(Buffer.from("0123456789XYZ"));
+    assert.equal(ring.tail(), "3456789XYZ");
+  });
+
+  test("does not start a tail inside a multi-byte character", () => {
+    const ring = new OutputRing(64);
+    ring.push(Buffer.from("aé€"));
+    // "€" is 3 bytes; 4 bytes would start inside "é".
+    assert.equal(ring.tail(4), "€");
+    assert.equal(ring.tail(5), "é€");
+  });
+});
+
+describe("formatDuration", () => {
+  test("uses seconds, then minutes, then hours", () => {
+    assert.equal(formatDuration(45_000), "45s");
+    assert.equal(formatDuration(192_000), "3m12s");
+    assert.equal(formatDuration(2 * 3_600_000 + 5 * 60_000), "2h05m");
+  });
+});
+
+describe("formatBackgroundJob", () => {
+  const base = { id: 2, pid: 4242, language: "shell" as const, startedAt: 0, exit: null, ports: [] };
+
+  test("shows state, age, ports and the first line of the command", () => {
+    assert.equal(
+      formatBackgroundJob({ ...base, command: "npm run dev\necho done", ports: [3000, 9229] }, 192_000),
+      "#2 pid 4242 · shell · running 3m12s · ports 3000, 9229 · npm run dev (+1 lines)",
+    );
+  });
+
+  test("shows the exit code or signal of an exited job", () => {
+    assert.equal(
+      formatBackgroundJob({ ...base, command: "make watch", exit: { code: 2, signal: null } }, 5_000),
+      "#2 pid 4242 · shell · exited (code 2), started 5s ago · make watch",
+    );
+    assert.match(
+      formatBackgroundJob({ ...base, command: "x", exit: { code: null, signal: "SIGTERM" } }, 0),
+      /exited \(SIGTERM\)/,
+    );
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Behavioral tests for src/code-chunker.ts.
+ *
+ * Covers extension → language detection, declaration boundaries and
+ * symbol-path titles for each supported language, doc-comment attachment,
+ * brace tracking through strings/comments, and oversized-chunk splitting.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { chunkCode, detectCodeLanguage } from "../src/code-chunker.js";
+
+const titles = (chunks: Array<{ title: string }>) => chunks.map((c) => c.title);
+
+// ─────────────────────────────────────────────────────────
+// detectCodeLanguage
+// ─────────────────────────────────────────────────────────
+
+describe("detectCodeLanguage", () => {
+  test("maps supported extensions", () => {
+    assert.equal(detectCodeLanguage("src/store.ts"), "typescript");
+    assert.equal(detectCodeLanguage("App.TSX"), "typescript");
+    assert.equal(detectCodeLanguage("cli.mjs"), "javascript");
+    assert.equal(detectCodeLanguage("/x/y/main.py"), "python");
+    assert.equal(detectCodeLanguage("main.go"), "go");
+    assert.equal(detectCodeLanguage("lib.rs"), "rust");
+  });
+
+  test("returns null for docs, data and extensionless paths", () => {
+    assert.equal(detectCodeLanguage("README.md"), null);
+    assert.equal(detectCodeLanguage("data.json"), null);
+    assert.equal(detectCodeLanguage("Makefile"), null);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// TypeScript
+// ─────────────────────────────────────────────────────────
+
+describe("chunkCode — TypeScript", () => {
+  const source = [
+    'import { join } from "node:path";',
+    'import type { Foo } from "./foo.js";',
+    "",
+    "export const MAX = 10;",
+    "",
+    "/** Strips the prefix. */",
+    "export function strip(s: string): string {",
+    '  if (s.startsWith("{")) return s.slice(1);',
+    "  return s;",
+    "}",
+    "",
+    "export class ContentStore {",
+    "  #db: unknown;",
+    "",
+    "  constructor(path: string) {",
+    "    this.#db = path;",
+    "  }",
+    "",
+    "  /** Search with fallback. */",
+    "  searchWithFallback(query: string, limit = 3): string[] {",
+    "    for (const x of [query]) {",
+    "      if (x) return [x];",
+    "    }",
+    "    return [];",
+    "  }",
+    "",
+    "  async #refresh(): Promise<void> {",
+    "    const s = `}${limit}`;",
+    "  }",
+    "}",
+    "",
+    "export type Mode = \"a\" | \"b\";",
+  ].join("\n");
+
+  test("splits on top-level declarations and class methods", () => {
+    const chunks = chunkCode(source, "typescript", 4096);
+    assert.deepEqual(titles(chunks), [
+      "(imports)",
+      "MAX",
+      "strip",
+      "ContentStore",
+      "ContentStore > constructor",
+      "ContentStore > searchWithFallback",
+      "ContentStore > #refresh",
+      "Mode",
+    ]);
+  });
+
+  test("doc comments travel with the declaration they precede", () => {
+    const chunks = chunkCode(source, "typescript", 4096);
+    const strip = chunks.find((c) => c.title === "strip")!;
+    assert.ok(strip.content.startsWith("/** Strips the prefix. */"));
+    const search = chunks.find((c) => c.title === "ContentStore > searchWithFallback")!;
+    assert.ok(search.content.trimStart().startsWith("/** Search with fallback. */"));
+    const ctor = chunks.find((c) => c.title === "ContentStore > constructor")!;
+    assert.ok(!ctor.content.includes("Search with fallback"));
+  });
+
+  test("braces inside strings and comments do not break nesting", () => {
+    const chunks = chunkCode(source, "typescript", 4096);
+    // `"{"` in strip() and `}` in the template literal must not close scopes early.
+    const strip = chunks.find((c) => c.title === "strip")!;
+    assert.ok(strip.content.trimEnd().endsWith("}"));
+    assert.ok(chunks.some((c) => c.title === "Mode"));
+  });
+
+  test("regex literals and nested template interpolations keep depth", () => {
+    const chunks = chunkCode(
+      [
+        "function quote(v: string): string {",
+        "  return `'${v.replace(/'/g, `'\\\\''`)}'`;",
+        "}",
+        "",
+        "const strip = (s: string) => s.replace(/[{}[\\]]/g, \"\");",
+        "",
+        "export function after(): void {}",
+      ].join("\n"),
+      "typescript",
+      4096,
+    );
+    assert.deepEqual(titles(chunks), ["quote", "strip", "after"]);
+  });
+
+  test("groups top-level calls and titles them by their first statement", () => {
+    const chunks = chunkCode(
+      ['server.registerTool(', '  "ctx_index",', "  {},", ");", "", 'server.registerTool(', '  "ctx_search",', ");"].join("\n"),
+      "typescript",
+      4096,
+    );
+    assert.deepEqual(titles(chunks), ['server.registerTool("ctx_index"', 'server.registerTool("ctx_search"']);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// Python / Go / Rust
+// ─────────────────────────────────────────────────────────
+
+describe("chunkCode — Python", () => {
+  test("splits on def/class and titles methods under their class", () => {
+    const source = [
+      "import os",
+      "",
+      "@dataclass",
+      "class Store:",
+      '    """Holds things."""',
+      "",
+      "    def search(self, q):",
+      '        return """',
+      "def not_a_def():",
+      '"""',
+      "",
+      "    async def refresh(self):",
+      "        pass",
+      "",
+      "def main():",
+      "    Store().search('x')",
+      "",
+      'if __name__ == "__main__":',
+      "    main()",
+    ].join("\n");
+    const chunks = chunkCode(source, "python", 4096);
+    assert.deepEqual(titles(chunks), [
+      "(imports)",
+      "Store",
+      "Store > search",
+      "Store > refresh",
+      "main",
+      'if __name__ == "__main__":',
+    ]);
+    assert.ok(chunks[1].content.startsWith("@dataclass"));
+  });
+});
+
+describe("chunkCode — Go", () => {
+  test("titles receiver methods as Type > Method", () => {
+    const source = [
+      "package main",
+      "",
+      'import "fmt"',
+      "",
+      "type Server struct {",
+      "\tname string",
+      "}",
+      "",
+      "// Start boots the server.",
+      "func (s *Server) Start() error {",
+      "\tfmt.Println('{')",
+      "\treturn nil",
+      "}",
+      "",
+      "func main() {",
+      "\t_ = `{`",
+      "}",
+    ].join("\n");
+    const chunks = chunkCode(source, "go", 4096);
+    assert.deepEqual(titles(chunks), ["(imports)", "Server", "Server > Start", "main"]);
+    assert.ok(chunks[2].content.startsWith("// Start boots the server."));
+  });
+});
+
+describe("chunkCode — Rust", () => {
+  test("splits impl blocks into Type > method chunks", () => {
+    const source = [
+      "use std::fmt;",
+      "",
+      "#[derive(Debug)]",
+      "pub struct Point<'a> {",
+      "    name: &'a str,",
+      "}",
+      "",
+      "impl<'a> fmt::Display for Point<'a> {",
+      "    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result {",
+      "        write!(f, \"{}\", '}')",
+      "    }",
+      "}",
+      "",
+      "pub fn origin() -> i32 {",
+      "    0",
+      "}",
+    ].join("\n");
+    const chunks = chunkCode(source, "rust", 4096);
+    assert.deepEqual(titles(chunks), [
+      "(imports)",
+      "Point",
+      "impl Display for Point",
+      "Point > fmt",
+      "origin",
+    ]);
+    assert.ok(chunks[1].content.startsWith("#[derive(Debug)]"));
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// Size cap
+// ─────────────────────────────────────────────────────────
+
+describe("chunkCode — oversized declarations", () => {
+  test("splits at blank lines with numbered titles under the byte cap", () => {
+    const body = Array.from({ length: 40 }, (_, i) => `  const v${i} = ${i};\n`).join("\n");
+    const source = `export function big() {\n${body}}\n`;
+    const chunks = chunkCode(source, "typescript", 512);
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks[0].title, "big (1)");
+    for (const c of chunks) {
+      assert.ok(Buffer.byteLength(c.content) <= 512, `${c.title} exceeds cap`);
+    }
+  });
+
+  test("returns no chunks for empty input", () => {
+    assert.deepEqual(chunkCode("", "typescript", 4096), []);
+  });
+});
@@ -9,17 +9,26 @@
  *   5. Fuzzy Search (searchTrigram, fuzzyCorrect, three-layer cascade, edge cases)
  *   6. Intent Search (intent search vs smart truncation comparison)
  *   7. Extract Snippet (positionsFromHighlight, extractSnippet, store integration)
+ *  13. Near-duplicate collapse (MinHash fingerprints, freshest copy wins)
+ *  14. Federated search (scope: project / all — DB discovery, read-only stores)
+ *  15. Synonym expansion (synonyms files, query variants at lower weight)
+ *  16. Per-language tables (language detection, diacritic folding, CJK bigrams)
  */
 
 import { describe, test, expect, it, beforeEach, afterEach } from "vitest";
 import { strict as assert } from "node:assert";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { mkdirSync, writeFileSync, rmSync, statSync } from "node:fs";
 import { randomUUID } from "node:crypto";
 import { ContentStore } from "../../src/store.js";
+import { loadDatabase } from "../../src/db-base.js";
 import { SessionDB } from "../../src/session/db.js";
-import { searchAllSources, type UnifiedSearchResult } from "../../src/search/unified.js";
+import { fuseRankedLists, searchAllSources, type UnifiedSearchResult } from "../../src/search/unified.js";
+import { collapseNearDuplicates, fingerprint, fingerprintSimilarity, NEAR_DUPLICATE_SIMILARITY } from "../../src/search/near-duplicate.js";
+import { federatedRoots, listFederatedDbs } from "../../src/search/federated.js";
+import { expandQuery, loadSynonyms, parseSynonyms } from "../../src/search/synonyms.js";
+import { cjkBigrams, detectLanguage, languageFamily, normalizeLanguage } from "../../src/language.js";
 import { searchAutoMemory } from "../../src/search/auto-memory.js";
 import { extractSnippet, formatBatchQueryResults, positionsFromHighlight } from "../../src/server.js";
 
@@ -2876,6 +2885,41 @@ describe("sort=relevance returns ContentStore only", () => {
   });
 });
 
+describe("durable project KB (persist: true)", () => {
+  test("timeline mode tags durable-store hits as project-kb", () => {
+    const store = createUnifiedStore();
+    store.indexPlainText("Session notes: the deploy pipeline runs nightly.", "execute:shell");
+    const durable = createUnifiedStore();
+    durable.index({ content: "# Vendor API\n\nThe deploy endpoint accepts a manifest.", source: "vendor-docs" });
+
+    const results = searchAllSources({
+      query: "deploy",
+      limit: 10,
+      store,
+      durableStore: durable,
+      sort: "timeline",
+      projectDir: "/project",
+      configDir: "/nonexistent",
+    });
+
+    const origins = new Set(results.map((r) => r.origin));
+    expect(origins.has("current-session")).toBe(true);
+    expect(origins.has("project-kb")).toBe(true);
+    expect(results.find((r) => r.origin === "project-kb")!.source).toBe("vendor-docs");
+  });
+
+  test("fuseRankedLists interleaves by list position and merges duplicate keys", () => {
+    const a = [{ id: "a1" }, { id: "a2" }, { id: "shared" }];
+    const b = [{ id: "b1" }, { id: "shared" }];
+    const fused = fuseRankedLists([a, b], 10, (r) => r.id).map((r) => r.id);
+    // "shared" collects score from both lists and overtakes the second-place entries.
+    expect(fused[0]).toBe("shared");
+    expect(fused.slice(1, 3)).toEqual(["a1", "b1"]);
+    expect(fused).toHaveLength(4);
+    expect(fuseRankedLists([a, b], 2, (r) => r.id)).toHaveLength(2);
+  });
+});
+
 describe("sort=timeline merges 3 sources chronologically", () => {
   test("timeline mode merges ContentStore, SessionDB, and auto-memory results", () => {
     const store = createUnifiedStore();
@@ -3359,3 +3403,256 @@ describe("SessionDB.searchEvents (unified)", () => {
 // ═══════════════════════════════════════════════════════════
 // 11. Knowledge-reuse event (removed — read path must not mutate state)
 // ═══════════════════════════════════════════════════════════
+
+// ═══════════════════════════════════════════════════════════
+// 13. Near-duplicate collapse (MinHash fingerprints)
+// ═══════════════════════════════════════════════════════════
+
+describe("Near-duplicate fingerprints", () => {
+  const section = [
+    "## Retry policy",
+    "",
+    "The client retries idempotent requests up to five times with exponential backoff.",
+    "Each attempt doubles the delay, starting at two hundred milliseconds and capped at",
+    "thirty seconds. Non-idempotent requests are never retried automatically; callers",
+    "must opt in with the retryUnsafe flag and accept the risk of duplicate writes.",
+  ].join("\n");
+
+  test("fingerprintSimilarity is high for lightly edited copies and low for other text", () => {
+    const mirror = section.replace("five", "5").replace(/\n/g, "\n\n") + "\nMirrored from docs.example.org";
+    const other = "## Rate limits\n\nEach API key may issue sixty requests per minute; bursts above that are rejected with 429.";
+    expect(fingerprintSimilarity(fingerprint(section)!, fingerprint(section.toUpperCase())!)).toBe(1);
+    expect(fingerprintSimilarity(fingerprint(section)!, fingerprint(mirror)!)).toBeGreaterThanOrEqual(NEAR_DUPLICATE_SIMILARITY);
+    expect(fingerprintSimilarity(fingerprint(section)!, fingerprint(other)!)).toBeLessThan(0.3);
+    expect(fingerprint("  ---  ")).toBeNull();
+  });
+
+  test("collapseNearDuplicates keeps the best position, shows the freshest copy, counts the rest", () => {
+    const fp = fingerprint(section)!;
+    const collapsed = collapseNearDuplicates([
+      { id: "old", rank: -3, timestamp: "2026-01-01T00:00:00.000Z", fingerprint: fp },
+      { id: "distinct", rank: -2, timestamp: "2026-01-01T00:00:00.000Z", fingerprint: fingerprint("something else entirely")! },
+      { id: "new", rank: -1, timestamp: "2026-02-01T00:00:00.000Z", fingerprint: fp, hiddenDuplicates: 1 },
+      { id: "unfingerprinted", rank: 0 },
+    ]);
+    expect(collapsed.map((r) => r.id)).toEqual(["new", "distinct", "unfingerprinted"]);
+    expect(collapsed[0]).toMatchObject({ rank: -3, hiddenDuplicates: 2 });
+  });
+
+  test("searchWithFallback collapses copies indexed under different labels", async () => {
+    const store = createStore();
+    store.index({ content: section, source: "https://docs.example.com/retries" });
+    await new Promise((r) => setTimeout(r, 5));
+    store.index({ content: section.replace("five", "5"), source: "https://mirror.example.org/retries" });
+    store.index({ content: "## Timeouts\n\nRequests time out after thirty seconds unless retries are disabled.", source: "timeouts" });
+
+    const results = store.searchWithFallback("retries requests", 3);
+    const copies = results.filter((r) => r.title === "Retry policy");
+    expect(copies).toHaveLength(1);
+    expect(copies[0].source).toBe("https://mirror.example.org/retries");
+    expect(copies[0].hiddenDuplicates).toBe(1);
+    expect(results.some((r) => r.source === "timeouts")).toBe(true);
+    store.close();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════
+// 14. Federated search
+// ═══════════════════════════════════════════════════════════
+
+describe("Federated search", () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = join(tmpdir(), `ctx-federated-${randomUUID()}`);
+  });
+
+  afterEach(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function seed(root: string, kind: "content" | "kb", hash: string, text: string, label: string): string {
+    mkdirSync(join(home, root, "context-mode", kind), { recursive: true });
+    const path = join(home, root, "context-mode", kind, `${hash}.db`);
+    const store = new ContentStore(path);
+    store.index({ content: text, source: label });
+    store.close();
+    return path;
+  }
+
+  test("project scope finds this project's DBs on other platforms; all scope finds every project", () => {
+    const own = seed(".claude", "content", "aaaaaaaaaaaaaaaa", "# Own\n\nown session", "own");
+    seed(".claude", "kb", "bbbbbbbbbbbbbbbb", "# Other kb\n\nother project", "other-kb");
+    seed(".cursor", "content", "aaaaaaaaaaaaaaaa", "# Cursor\n\ncursor session", "cursor");
+    seed(join(".config", "opencode"), "content", "cccccccccccccccc", "# Opencode\n\nthird project", "oc");
+
+    const roots = federatedRoots({ name: "claude-code", root: join(home, ".claude", "context-mode") }, home);
+    const opts = { roots, projectHashes: ["aaaaaaaaaaaaaaaa"], exclude: [own] };
+
+    expect(listFederatedDbs({ ...opts, scope: "project" }).map((d) => d.origin)).toEqual(["cursor:content/aaaaaaaa"]);
+    expect(listFederatedDbs({ ...opts, scope: "all" }).map((d) => d.origin).sort()).toEqual([
+      "claude-code:kb/bbbbbbbb",
+      "cursor:content/aaaaaaaa",
+      "opencode:content/cccccccc",
+    ]);
+    expect(listFederatedDbs({ ...opts, scope: "all", max: 1 })).toHaveLength(1);
+  });
+
+  test("read-only store searches without writing and rejects indexing", () => {
+    const path = seed(".cursor", "content", "aaaaaaaaaaaaaaaa", "# Deploy\n\nRun the blue green deploy script.", "deploy-notes");
+    const before = statSync(path).mtimeMs;
+
+    const store = new ContentStore(path, { readonly: true });
+    const results = store.searchWithFallback("blue green deploy", 3);
+    expect(results.map((r) => r.source)).toEqual(["deploy-notes"]);
+    expect(() => store.index({ content: "# New\n\nnew", source: "new" })).toThrow();
+    store.close();
+
+    expect(statSync(path).mtimeMs).toBe(before);
+    expect(() => new ContentStore(join(home, "missing.db"), { readonly: true })).toThrow(/not found/);
+  });
+
+  test("read-only store opens DBs from releases without the side tables", () => {
+    const path = seed(".codex", "content", "dddddddddddddddd", "# Cache\n\nWarm the cache before traffic.", "cache");
+    const Database = loadDatabase();
+    const db = new Database(path);
+    db.exec("DROP TABLE log_chunks; DROP TABLE chunk_fingerprints");
+    db.close();
+
+    const store = new ContentStore(path, { readonly: true });
+    expect(store.searchWithFallback("warm cache", 3).map((r) => r.source)).toEqual(["cache"]);
+    store.close();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════
+// 15. Synonym expansion
+// ═══════════════════════════════════════════════════════════
+
+describe("Synonym expansion", () => {
+  const table = parseSynonyms(JSON.stringify({ k8s: ["Kubernetes", "kube"], PR: "pull request" }));
+
+  test("parseSynonyms adds reverse entries and normalizes case", () => {
+    expect(table.get("k8s")).toEqual(["kubernetes", "kube"]);
+    expect(table.get("kubernetes")).toEqual(["k8s"]);
+    expect(table.get("pull request")).toEqual(["pr"]);
+    expect(() => parseSynonyms("[]")).toThrow(/JSON object/);
+  });
+
+  test("expandQuery swaps one matched term per variant, longest phrase first", () => {
+    expect(expandQuery("K8s ingress", table)).toEqual({
+      variants: ["kubernetes ingress", "kube ingress"],
+      expansions: [{ term: "k8s", synonyms: ["kubernetes", "kube"] }],
+    });
+    expect(expandQuery("open a pull request", table).variants).toEqual(["open a pr"]);
+    expect(expandQuery("k8sfoo prune", table).variants).toEqual([]);
+  });
+
+  test("loadSynonyms merges files and skips missing or invalid ones", () => {
+    const dir = join(tmpdir(), `ctx-synonyms-${randomUUID()}`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "project.json"), JSON.stringify({ authn: "authentication" }));
+    writeFileSync(join(dir, "user.json"), JSON.stringify({ authn: ["auth"] }));
+    writeFileSync(join(dir, "broken.json"), "{ nope");
+    const merged = loadSynonyms(["project.json", "user.json", "broken.json", "missing.json"].map((f) => join(dir, f)));
+    expect(merged.get("authn")).toEqual(["authentication", "auth"]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("searchWithFallback finds alias-only chunks, ranked below direct matches", () => {
+    const store = createStore();
+    store.index({ content: "## Cluster setup\n\nThe Kubernetes cluster runs three nodes behind the ingress.", source: "infra" });
+    store.index({ content: "## Migration\n\nMove the k8s ingress to the new controller.", source: "plan" });
+    expect(store.searchWithFallback("k8s", 3).map((r) => r.source)).toEqual(["plan"]);
+
+    store.setSynonymSource(() => table);
+    const results = store.searchWithFallback("k8s", 3, undefined, undefined, "like", true);
+    expect(results.map((r) => r.source)).toEqual(["plan", "infra"]);
+    expect(results[0].expansions).toEqual([{ term: "k8s", synonyms: ["kubernetes", "kube"] }]);
+    expect(results[1].explain).toMatchObject({ porterRank: null, synonymRank: 1 });
+    store.close();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════
+// 16. Per-language tables
+// ═══════════════════════════════════════════════════════════
+
+describe("Per-language tables", () => {
+  const GERMAN =
+    "## Überprüfung\n\nDie Überprüfung der Konfiguration wird beim Start ausgeführt. " +
+    "Wenn die Datei nicht gefunden wird, ist das kein Fehler, und der Server startet mit den " +
+    "Standardwerten. Für eine neue Umgebung muss die Datei von Hand angelegt werden, damit sich " +
+    "das Verhalten nicht ändert.";
+  const JAPANESE = "## 設定\n\n東京都の設定ファイルは起動時に読み込まれます。ファイルがない場合は既定値を使います。";
+
+  test("detectLanguage recognizes stopwords and CJK scripts, defaulting to English", () => {
+    expect(detectLanguage(GERMAN)).toBe("de");
+    expect(detectLanguage(JAPANESE)).toBe("ja");
+    expect(detectLanguage("서버는 시작할 때 설정 파일을 읽습니다")).toBe("ko");
+    expect(detectLanguage("服务器启动时读取配置文件")).toBe("zh");
+    expect(detectLanguage("const x = 1;")).toBe("en");
+  });
+
+  test("normalizeLanguage, languageFamily and cjkBigrams", () => {
+    expect(normalizeLanguage("de-AT")).toBe("de");
+    expect(normalizeLanguage("German")).toBeNull();
+    expect(languageFamily("en")).toBe("porter");
+    expect(languageFamily("tr")).toBe("unicode");
+    expect(languageFamily("ja")).toBe("cjk");
+    expect(cjkBigrams("東京都 v2").trim().split(/\s+/)).toEqual(["東京", "京都", "v2"]);
+  });
+
+  test("diacritic-folded search finds accented German text", () => {
+    const store = createStore();
+    const result = store.index({ content: GERMAN, source: "de-docs" });
+    expect(result.language).toBe("de");
+    const results = store.searchWithFallback("uberprufung", 3, undefined, undefined, "like", true);
+    expect(results.map((r) => r.source)).toEqual(["de-docs"]);
+    expect(results[0].explain?.languageRank).toBe(1);
+    store.close();
+  });
+
+  test("CJK bigram search returns the original text", () => {
+    const store = createStore();
+    expect(store.index({ content: JAPANESE, source: "ja-docs" }).language).toBe("ja");
+    const results = store.searchWithFallback("設定ファイル", 3);
+    expect(results.map((r) => r.source)).toEqual(["ja-docs"]);
+    expect(results[0].content).toContain("東京都の設定ファイル");
+    expect(results[0].chunkId).toMatch(/^\d+:0$/);
+    store.close();
+  });
+
+  test("declared language overrides detection and survives re-index and bundles", () => {
+    const store = createStore();
+    const result = store.index({ content: "## Güncelleştirme\n\nSunucu güncellenir", source: "tr-docs", language: "tr-TR" });
+    expect(result.language).toBe("tr");
+    expect(store.searchWithFallback("guncellestirme", 3).map((r) => r.source)).toEqual(["tr-docs"]);
+    expect(store.index({ content: "## Run\n\nThe server starts", source: "tr-docs" }).language).toBeUndefined();
+    expect(store.searchWithFallback("guncellestirme", 3)).toEqual([]);
+
+    const de = createStore();
+    de.index({ content: GERMAN, source: "de-docs" });
+    const bundle = de.exportBundle();
+    de.close();
+    store.importBundle(bundle);
+    expect(store.searchWithFallback("uberprufung", 3).map((r) => r.source)).toEqual(["de-docs"]);
+    store.close();
+  });
+
+  test("read-only store searches DBs created before the language tables", () => {
+    const path = join(tmpdir(), `ctx-lang-${randomUUID()}.db`);
+    const seeded = new ContentStore(path);
+    seeded.index({ content: "# Cache\n\nWarm the cache before traffic.", source: "cache" });
+    seeded.close();
+    const Database = loadDatabase();
+    const db = new Database(path);
+    db.exec("DROP TABLE source_languages; DROP TABLE chunks_unicode; DROP TABLE chunks_cjk");
+    db.close();
+
+    const store = new ContentStore(path, { readonly: true });
+    expect(store.searchWithFallback("warm cache", 3).map((r) => r.source)).toEqual(["cache"]);
+    store.close();
+    rmSync(path, { force: true });
+  });
+});
@@ -3140,6 +3140,48 @@ describe("runBatchCommands edge cases", () => {
     expect(seen[0]).toBe('NODE_OPTIONS="--require /tmp/x" echo hi 2>&1');
   });
 
+  test("blocks collected for a command become notes; markers it prints do not", async () => {
+    const forged = '__CM_EGRESS__:{"host":"forged.test","ip":null,"reason":"forged"}';
+    const exec = mkMockExecutor(() => ({ stdout: `ECTXEGRESS\n${forged}\n` }));
+    const cmds: BatchCommand[] = [{ label: "A", command: "node probe.js" }];
+    const block = { host: "169.254.169.254", ip: "169.254.169.254", reason: "blocked for test" };
+    const { outputs } = await runBatchCommands(
+      cmds,
+      { timeout: 1000, concurrency: 1, nodeOptsPrefix: NOOP_PREFIX, network: async () => ({ env: {}, finish: () => [block] }) },
+      exec,
+    );
+    expect(outputs[0]).toContain("[network policy] blocked 169.254.169.254: blocked for test");
+    expect(outputs[0]).not.toContain("[network policy] blocked forged.test");
+  });
+
+  test("a partly enforced network policy is noted under each command", async () => {
+    const exec = mkMockExecutor(() => ({ stdout: "ok\n" }));
+    const notice = "[network policy] the server runs behind a proxy: only Node processes are checked";
+    const { outputs } = await runBatchCommands(
+      [{ label: "A", command: "curl x" }],
+      { timeout: 1000, concurrency: 1, nodeOptsPrefix: NOOP_PREFIX, network: async () => ({ env: {}, finish: () => [], notice }) },
+      exec,
+    );
+    expect(outputs[0]).toContain(`ok\n${notice}`);
+  });
+
+  test("network env and readOnly are passed to the executor, one network run per command", async () => {
+    const seen: Array<{ env?: Record<string, string>; readOnly?: boolean }> = [];
+    const exec = {
+      execute: async (input: { language: "shell"; code: string; timeout: number | undefined; env?: Record<string, string>; readOnly?: boolean }) => {
+        seen.push({ env: input.env, readOnly: input.readOnly });
+        return { stdout: "ok" };
+      },
+    };
+    const cmds: BatchCommand[] = [{ label: "A", command: "x" }, { label: "B", command: "y" }];
+    let runs = 0;
+    let finished = 0;
+    const network = async () => ({ env: { RUN: String(++runs) }, finish: () => { finished++; return []; } });
+    await runBatchCommands(cmds, { timeout: 1000, concurrency: 1, nodeOptsPrefix: NOOP_PREFIX, network, readOnly: true }, exec);
+    expect(seen).toEqual([{ env: { RUN: "1" }, readOnly: true }, { env: { RUN: "2" }, readOnly: true }]);
+    expect(finished).toBe(2);
+  });
+
   test("buildBatchNodeOptionsPrefix formats POSIX shell assignment", () => {
     const prefix = buildBatchNodeOptionsPrefix("bash", "/tmp/cm fs'preload.js");
     expect(prefix).toBe("NODE_OPTIONS='--require /tmp/cm fs'\\''preload.js' ");
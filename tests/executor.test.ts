@@ -1,6 +1,6 @@
 import { describe, test, expect, afterAll } from "vitest";
 import { strict as assert } from "node:assert";
-import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import {
@@ -15,6 +15,8 @@ import {
   getRuntimeSummary,
   type RuntimeMap,
 } from "../src/runtime.js";
+import { resourceLimitsSupported } from "../src/resource-limits.js";
+import { probeReadOnlyMount } from "../src/read-only.js";
 
 const runtimes = detectRuntimes();
 const executor = new PolyglotExecutor({ runtimes });
@@ -485,6 +487,16 @@ describe("Shell Execution", () => {
     assert.ok(r.stdout.trim() === "ok");
   });
 
+  test("env option is applied after the denylist", async () => {
+    const r = await executor.execute({
+      language: "shell",
+      code: 'echo "$NODE_OPTIONS|$HTTPS_PROXY"',
+      timeout: 5_000,
+      env: { NODE_OPTIONS: "--require /tmp/egress.js", HTTPS_PROXY: "http://127.0.0.1:9" },
+    });
+    assert.equal(r.stdout.trim(), "--require /tmp/egress.js|http://127.0.0.1:9");
+  });
+
   test("Shell: for loop + wc", async () => {
     const r = await executor.execute({
       language: "shell",
@@ -1019,6 +1031,63 @@ using (var doc = System.Text.Json.JsonDocument.Parse(FILE_CONTENT)) {
     assert.ok(r.stdout.includes("Users: 3"));
   });
 
+  // --- execute_file: notebook CELLS prelude ---
+
+  const notebookFile = join(testDir, "analysis.ipynb");
+  writeFileSync(
+    notebookFile,
+    JSON.stringify({
+      cells: [
+        { cell_type: "markdown", metadata: {}, source: ["# Churn\n"] },
+        {
+          cell_type: "code",
+          metadata: {},
+          source: ["df.shape"],
+          outputs: [{ output_type: "execute_result", data: { "text/plain": ["(120, 4)"] } }],
+        },
+      ],
+      metadata: {},
+      nbformat: 4,
+      nbformat_minor: 5,
+    }),
+    "utf-8",
+  );
+
+  test("execute_file: JS gets parsed CELLS for .ipynb", async () => {
+    const r = await executor.executeFile({
+      path: notebookFile,
+      language: "javascript",
+      code: `
+        const c = CELLS.find((cell) => cell.type === "code");
+        console.log(CELLS.length + " cells; " + c.index + ": " + c.source + " -> " + c.outputs);
+      `,
+    });
+    assert.equal(r.exitCode, 0, r.stderr);
+    assert.ok(r.stdout.includes("2 cells; 1: df.shape -> (120, 4)"));
+  });
+
+  test.runIf(runtimes.python)("execute_file: Python gets parsed CELLS for .ipynb", async () => {
+    const r = await executor.executeFile({
+      path: notebookFile,
+      language: "python",
+      code: `
+md = [c for c in CELLS if c["type"] == "markdown"]
+print(f"{len(CELLS)} cells; heading: {md[0]['source'].strip()}; out: {CELLS[1]['outputs']}")
+      `,
+    });
+    assert.equal(r.exitCode, 0, r.stderr);
+    assert.ok(r.stdout.includes("2 cells; heading: # Churn; out: (120, 4)"));
+  });
+
+  test("execute_file: CELLS is not defined for other files", async () => {
+    const r = await executor.executeFile({
+      path: testFile,
+      language: "javascript",
+      code: `console.log(typeof CELLS);`,
+    });
+    assert.ok(r.stdout.includes("undefined"));
+  });
+
   // --- execute_file: shell $ expansion in paths ---
 
   const dollarDir = join(testDir, "path$SHOULD_NOT_EXPAND");
@@ -1726,6 +1795,388 @@ describe("Background Mode", () => {
     try { process.kill(pid, 0); alive = true; } catch { /* ESRCH */ }
     assert.equal(alive, false, `Process ${pid} should be dead after cleanup`);
   }, 10_000);
+
+  test("a background job keeps capturing output and reports its listening port", async () => {
+    const bgExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const code = `const s = require("net").createServer().listen(0, "127.0.0.1", () => console.log("port", s.address().port));
+let n = 0; setInterval(() => console.log("tick", ++n), 100);`;
+      const r = await bgExecutor.execute({ language: "javascript", code, timeout: 500, background: true });
+      assert.ok(r.jobId, "backgrounded result should carry a job id");
+      const port = Number(/port (\d+)/.exec(r.stdout)?.[1]);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+
+      const job = bgExecutor.backgroundJob(r.jobId!)!;
+      assert.equal(job.command, code);
+      assert.ok(job.running);
+      assert.match(job.stdout.tail(), /^port \d+\n/, "output before detach is kept");
+      const ticks = [...job.stdout.tail().matchAll(/tick (\d+)/g)].map((m) => Number(m[1]));
+      assert.ok(Math.max(...ticks) > Math.max(0, ...[...r.stdout.matchAll(/tick (\d+)/g)].map((m) => Number(m[1]))),
+        "output after detach is captured");
+      if (process.platform === "linux") assert.deepEqual(job.info().ports, [port]);
+    } finally {
+      bgExecutor.cleanupBackgrounded();
+    }
+  }, 10_000);
+
+  test.runIf(process.platform !== "win32")("terminateBackgroundJob stops one job at a time", async () => {
+    const bgExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const start = (code: string) =>
+        bgExecutor.execute({ language: "shell", code, timeout: 300, background: true });
+      const a = await start("echo a; while :; do sleep 1; done");
+      const b = await start("trap '' TERM; echo b; while :; do sleep 1; done");
+      assert.deepEqual(bgExecutor.backgroundJobs.map((j) => j.id), [a.jobId, b.jobId]);
+
+      assert.equal(await bgExecutor.terminateBackgroundJob(a.jobId!), "terminated");
+      assert.deepEqual(bgExecutor.backgroundJobs.map((j) => j.id), [b.jobId]);
+      assert.ok(bgExecutor.backgroundJob(b.jobId!)!.running, "other jobs keep running");
+
+      const bJob = bgExecutor.backgroundJob(b.jobId!)!;
+      assert.equal(await bgExecutor.terminateBackgroundJob(b.jobId!, 300), "killed");
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      assert.equal(bJob.exit?.signal, "SIGKILL");
+      assert.equal(await bgExecutor.terminateBackgroundJob(b.jobId!), null);
+    } finally {
+      bgExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test.runIf(process.platform !== "win32")("children that outlive the job's leader are still stopped", async () => {
+    const bgExecutor = new PolyglotExecutor({ runtimes });
+    const isAlive = (pid: number) => { try { process.kill(pid, 0); return true; } catch { return false; } };
+    try {
+      // The leader exits at once; its child keeps the pipes open, so the
+      // job is only created after the leader's exit event has fired.
+      const start = () => bgExecutor.execute({ language: "shell", code: "sleep 300 & echo child $!", timeout: 300, background: true });
+      const a = await start();
+      const b = await start();
+      const [childA, childB] = [a, b].map((r) => Number(/child (\d+)/.exec(r.stdout)?.[1]));
+      const jobA = bgExecutor.backgroundJob(a.jobId!)!;
+      assert.equal(jobA.running, false);
+      assert.deepEqual(jobA.exit, { code: 0, signal: null });
+      assert.ok(isAlive(childA) && isAlive(childB));
+
+      assert.equal(await bgExecutor.terminateBackgroundJob(a.jobId!), "terminated");
+      assert.equal(isAlive(childA), false);
+
+      bgExecutor.cleanupBackgrounded();
+      for (let i = 0; i < 30 && isAlive(childB); i++) await new Promise((resolve) => setTimeout(resolve, 100));
+      assert.equal(isAlive(childB), false);
+    } finally {
+      bgExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("a job that exits on its own keeps its exit status and output", async () => {
+    const bgExecutor = new PolyglotExecutor({ runtimes });
+    const r = await bgExecutor.execute({
+      language: "javascript",
+      code: `console.log("up"); setTimeout(() => { console.error("bye"); process.exit(3); }, 600);`,
+      timeout: 300,
+      background: true,
+    });
+    const job = bgExecutor.backgroundJob(r.jobId!)!;
+    for (let i = 0; i < 50 && job.running; i++) await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.deepEqual(job.exit, { code: 3, signal: null });
+    assert.equal(job.stderr.tail(), "bye\n");
+    assert.equal(await bgExecutor.terminateBackgroundJob(r.jobId!), "exited");
+    assert.equal(bgExecutor.backgroundJobs.length, 0);
+  }, 10_000);
+});
+
+describe("Persistent Sessions", () => {
+  test("javascript: top-level declarations persist between calls", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const first = await sessExecutor.execute({
+        language: "javascript",
+        code: `const rows = [3, 4, 5]; function total() { return rows.reduce((a, b) => a + b, 0); }`,
+        session: "js",
+      });
+      assert.equal(first.exitCode, 0, first.stderr);
+      assert.equal(first.stdout, "");
+      const second = await sessExecutor.execute({
+        language: "javascript",
+        code: `await Promise.resolve(); console.log(total(), rows.length);`,
+        session: "js",
+      });
+      assert.equal(second.stdout.trim(), "12 3");
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("javascript: the same top-level declaration can run again in one session", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const code = `const data = [1, 2]; let note = "await is just a word here"; class Row {}`;
+      const first = await sessExecutor.execute({ language: "javascript", code, session: "redeclare" });
+      assert.equal(first.exitCode, 0, first.stderr);
+      const second = await sessExecutor.execute({ language: "javascript", code, session: "redeclare" });
+      assert.equal(second.exitCode, 0, second.stderr);
+      const r = await sessExecutor.execute({
+        language: "javascript",
+        code: `console.log(data.length, note.split(" ")[0], typeof Row)`,
+        session: "redeclare",
+      });
+      assert.equal(r.stdout.trim(), "2 await function");
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("the prelude runs once, before a new session's first call, and its output is dropped", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const prelude = `globalThis.preludeRuns = (globalThis.preludeRuns || 0) + 1; console.log("from prelude");`;
+      const first = await sessExecutor.execute({ language: "javascript", code: "console.log(preludeRuns)", session: "p", sessionPrelude: prelude });
+      assert.equal(first.stdout.trim(), "1");
+      const second = await sessExecutor.execute({ language: "javascript", code: "console.log(preludeRuns)", session: "p", sessionPrelude: prelude });
+      assert.equal(second.stdout.trim(), "1");
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test.runIf(runtimes.python)("python: state persists and errors keep the session alive", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      await sessExecutor.execute({ language: "python", code: "import json\ndata = {'a': 1}", session: "py" });
+      const err = await sessExecutor.execute({ language: "python", code: "raise ValueError('boom')", session: "py" });
+      assert.equal(err.exitCode, 1);
+      assert.ok(err.stderr.includes("ValueError: boom"), err.stderr);
+      const r = await sessExecutor.execute({ language: "python", code: "print(json.dumps(data))", session: "py" });
+      assert.equal(r.stdout.trim(), '{"a": 1}');
+      assert.equal(r.exitCode, 0);
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test.runIf(runtimes.ruby)("ruby: locals and methods persist between calls", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      await sessExecutor.execute({ language: "ruby", code: "counts = {a: 2}\ndef double(n); n * 2; end", session: "rb" });
+      const r = await sessExecutor.execute({ language: "ruby", code: "puts double(counts[:a])", session: "rb" });
+      assert.equal(r.stdout.trim(), "4");
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("the end-of-call marker is not visible on argv or in the environment", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const js = await sessExecutor.execute({
+        language: "javascript",
+        code: `console.log(JSON.stringify(process.argv.slice(2)), "CTX_SESSION_MARKER" in process.env,
+  require("child_process").execSync("env").toString().includes("CTX_SESSION_MARKER"))`,
+        session: "m",
+      });
+      assert.equal(js.stdout.trim(), "[] false false");
+      if (runtimes.python) {
+        const py = await sessExecutor.execute({
+          language: "python",
+          code: "import os, sys\nprint(sys.argv[1:], 'CTX_SESSION_MARKER' in os.environ)",
+          session: "m-py",
+        });
+        assert.equal(py.stdout.trim(), "[] False");
+      }
+      if (runtimes.ruby) {
+        const rb = await sessExecutor.execute({ language: "ruby", code: "p ARGV, ENV.key?('CTX_SESSION_MARKER')", session: "m-rb" });
+        assert.equal(rb.stdout.trim(), "[]\nfalse");
+      }
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("rejects unsupported languages, background and language mismatches", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      const shell = await sessExecutor.execute({ language: "shell", code: "echo hi", session: "s" });
+      assert.equal(shell.exitCode, 1);
+      assert.ok(shell.stderr.includes("Sessions support"), shell.stderr);
+      const bg = await sessExecutor.execute({ language: "javascript", code: "1", session: "s", background: true });
+      assert.ok(bg.stderr.includes("background"), bg.stderr);
+      await sessExecutor.execute({ language: "javascript", code: "1", session: "s" });
+      const mismatch = await sessExecutor.execute({ language: "ruby", code: "1", session: "s" });
+      assert.ok(mismatch.stderr.includes("is a javascript session"), mismatch.stderr);
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("a timed-out call ends the session and the next call restarts it", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    try {
+      await sessExecutor.execute({ language: "javascript", code: "globalThis.kept = 1", session: "t" });
+      const r = await sessExecutor.execute({ language: "javascript", code: "while (true) {}", session: "t", timeout: 500 });
+      assert.equal(r.timedOut, true);
+      const next = await sessExecutor.execute({ language: "javascript", code: "console.log(typeof kept)", session: "t" });
+      assert.ok(next.stdout.includes('session "t" restarted'), next.stdout);
+      assert.ok(next.stdout.trim().endsWith("undefined"), next.stdout);
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("idle timeout closes the session", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes, sessionIdleTimeoutMs: 300 });
+    try {
+      await sessExecutor.execute({ language: "javascript", code: "globalThis.kept = 1", session: "idle" });
+      assert.deepEqual(sessExecutor.sessions, [{ name: "idle", language: "javascript" }]);
+      await new Promise((r) => setTimeout(r, 1000));
+      assert.deepEqual(sessExecutor.sessions, []);
+    } finally {
+      sessExecutor.cleanupBackgrounded();
+    }
+  }, 15_000);
+
+  test("cleanupBackgrounded kills session interpreters", async () => {
+    const sessExecutor = new PolyglotExecutor({ runtimes });
+    const r = await sessExecutor.execute({ language: "javascript", code: "console.log(process.pid)", session: "c" });
+    const pid = parseInt(r.stdout.trim(), 10);
+    assert.ok(pid > 0, `Expected valid PID, got: "${r.stdout}"`);
+
+    sessExecutor.cleanupBackgrounded();
+    await new Promise((r) => setTimeout(r, 300));
+
+    let alive = false;
+    try { process.kill(pid, 0); alive = true; } catch { /* ESRCH */ }
+    assert.equal(alive, false, `Session ${pid} should be dead after cleanup`);
+    assert.deepEqual(sessExecutor.sessions, []);
+  }, 10_000);
+});
+
+describe.runIf(resourceLimitsSupported())("Resource Limits", () => {
+  test.runIf(runtimes.python)("reports the memory limit when allocation fails", async () => {
+    const limitedExecutor = new PolyglotExecutor({
+      runtimes,
+      resourceLimits: () => ({ memoryMb: 256, cpuSeconds: 0, maxProcesses: 0, fileMb: 0 }),
+    });
+    const r = await limitedExecutor.execute({ language: "python", code: "x = bytearray(1024 * 1024 * 1024)" });
+    assert.notEqual(r.exitCode, 0);
+    assert.ok(r.stderr.includes("[killed: memory limit 256MB]"), r.stderr);
+  }, 15_000);
+
+  test("reports the CPU time limit", async () => {
+    const limitedExecutor = new PolyglotExecutor({
+      runtimes,
+      resourceLimits: () => ({ memoryMb: 0, cpuSeconds: 1, maxProcesses: 0, fileMb: 0 }),
+    });
+    const r = await limitedExecutor.execute({ language: "javascript", code: "while (true) {}", timeout: 10_000 });
+    assert.equal(r.timedOut, false);
+    assert.ok(r.stderr.includes("[killed: CPU time limit 1s]"), r.stderr);
+  }, 15_000);
+
+  test("reports the file size limit", async () => {
+    const limitedExecutor = new PolyglotExecutor({
+      runtimes,
+      resourceLimits: () => ({ memoryMb: 0, cpuSeconds: 0, maxProcesses: 0, fileMb: 1 }),
+    });
+    const r = await limitedExecutor.execute({
+      language: "javascript",
+      code: `require("fs").writeFileSync("big.bin", Buffer.alloc(3 * 1024 * 1024));`,
+    });
+    assert.notEqual(r.exitCode, 0);
+    assert.ok(r.stderr.includes("[killed: file size limit 1MB]"), r.stderr);
+  }, 15_000);
+
+  test("apply to session interpreters too", async () => {
+    const limitedExecutor = new PolyglotExecutor({
+      runtimes,
+      resourceLimits: () => ({ memoryMb: 0, cpuSeconds: 1, maxProcesses: 0, fileMb: 1 }),
+    });
+    try {
+      const cpu = await limitedExecutor.execute({ language: "javascript", code: "while (true) {}", session: "cpu", timeout: 10_000 });
+      assert.equal(cpu.timedOut, false);
+      assert.ok(cpu.stderr.includes('[session "cpu" ended: killed: CPU time limit 1s'), cpu.stderr);
+      const file = await limitedExecutor.execute({
+        language: "javascript",
+        code: `require("fs").writeFileSync(require("path").join(require("os").tmpdir(), "ctx-session-big-" + process.pid), Buffer.alloc(3 * 1024 * 1024));`,
+        session: "file",
+      });
+      assert.match(file.stderr, /EFBIG|File too large/);
+    } finally {
+      limitedExecutor.cleanupBackgrounded();
+    }
+  }, 20_000);
+});
+
+const mountSupported = await probeReadOnlyMount();
+
+describe("Read-Only Mode", () => {
+  function makeProject(): string {
+    const dir = join(tmpdir(), `ctx-readonly-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "notes.txt"), "original");
+    return dir;
+  }
+
+  test.runIf(mountSupported)("shell writes under the project root fail", async () => {
+    const dir = makeProject();
+    try {
+      const roExecutor = new PolyglotExecutor({ runtimes, projectRoot: dir });
+      const r = await roExecutor.execute({
+        language: "shell",
+        code: 'echo changed > notes.txt; echo new > extra.txt; cat notes.txt',
+        readOnly: true,
+        timeout: 10_000,
+      });
+      assert.equal(r.stdout.trim(), "original");
+      assert.ok(r.stderr.includes("Read-only file system"), r.stderr);
+      assert.ok(!existsSync(join(dir, "extra.txt")));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 15_000);
+
+  test.skipIf(mountSupported)("reports project files changed when mounting is unavailable", async () => {
+    const dir = makeProject();
+    try {
+      const roExecutor = new PolyglotExecutor({ runtimes, projectRoot: dir });
+      const r = await roExecutor.execute({
+        language: "shell",
+        code: 'echo new > extra.txt; echo done',
+        readOnly: true,
+        timeout: 10_000,
+      });
+      assert.equal(r.stdout, "done\n[read-only] project files changed during this run — created: extra.txt\n");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 15_000);
+
+  test("reportChanges: false leaves the report to one snapshot around several runs", async () => {
+    const dir = makeProject();
+    try {
+      const roExecutor = new PolyglotExecutor({ runtimes, projectRoot: dir });
+      const before = await roExecutor.snapshotProject();
+      const r = await roExecutor.execute({
+        language: "shell",
+        code: `echo new > ${JSON.stringify(join(dir, "extra.txt"))} 2>/dev/null; echo done`,
+        readOnly: true,
+        reportChanges: false,
+        timeout: 10_000,
+      });
+      assert.equal(r.stdout, "done\n");
+      writeFileSync(join(dir, "later.txt"), "x");
+      assert.equal(
+        await roExecutor.projectChangesSince(before),
+        `[read-only] project files changed during this run — created: ${mountSupported ? "" : "extra.txt, "}later.txt`,
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 15_000);
+
+  test("cannot be combined with a session", async () => {
+    const r = await executor.execute({ language: "python", code: "x = 1", session: "ro", readOnly: true });
+    assert.equal(r.exitCode, 1);
+    assert.match(r.stderr, /readOnly cannot be combined with session/);
+  });
 });
 
 describe("hardCapBytes Enforcement", () => {
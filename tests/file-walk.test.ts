@@ -0,0 +1,144 @@
+/**
+ * Behavioral tests for src/file-walk.ts — directory / glob expansion used by
+ * ctx_index: .gitignore handling (nested, negation, ancestor files),
+ * include / exclude globs, binary and size skipping, and the file cap —
+ * plus the stat-free listing read-only snapshots fall back to.
+ */
+
+import { describe, test, beforeAll, afterAll } from "vitest";
+import { strict as assert } from "node:assert";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { tmpdir } from "node:os";
+import { isGlobPattern, listProjectFiles, parseGitignore, walkIndexableFiles } from "../src/file-walk.js";
+
+let root: string;
+
+function write(rel: string, content: string | Buffer = "text\n"): void {
+  const full = join(root, rel);
+  mkdirSync(join(full, ".."), { recursive: true });
+  writeFileSync(full, content);
+}
+
+const rels = (files: string[], base = root) =>
+  files.map((f) => relative(base, f).split("\\").join("/"));
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), "ctx-file-walk-"));
+  write(".gitignore", "dist/\n*.log\n!keep.log\n");
+  write("README.md");
+  write("keep.log");
+  write("debug.log");
+  write("dist/bundle.js");
+  write("docs/guide.md");
+  write("docs/api/ref.md");
+  write("docs/.gitignore", "drafts\n");
+  write("docs/drafts/wip.md");
+  write("src/a.ts");
+  write("src/nested/b.ts");
+  write("src/nested/c.test.ts");
+  write("src/logo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x01]));
+  write(".git/HEAD", "ref: refs/heads/main\n");
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("walkIndexableFiles", () => {
+  test("honours root and nested .gitignore, negation, and skips hidden entries", () => {
+    const { files } = walkIndexableFiles(".", root);
+    const got = rels(files);
+    assert.ok(got.includes("README.md"));
+    assert.ok(got.includes("keep.log"), "negated pattern re-includes keep.log");
+    assert.ok(!got.includes("debug.log"));
+    assert.ok(!got.some((f) => f.startsWith("dist/")));
+    assert.ok(!got.some((f) => f.startsWith("docs/drafts/")), "nested .gitignore applies");
+    assert.ok(!got.some((f) => f.startsWith(".git/")));
+  });
+
+  test("skips binaries and reports them", () => {
+    const { files, skipped } = walkIndexableFiles("src", root);
+    assert.ok(!rels(files).some((f) => f.endsWith("logo.png")));
+    assert.deepEqual(
+      skipped.map((s) => [rels([s.path])[0], s.reason]),
+      [["src/logo.png", "binary"]],
+    );
+  });
+
+  test("glob target walks from its static prefix", () => {
+    const { root: walkRoot, files } = walkIndexableFiles("src/**/*.ts", root);
+    assert.equal(walkRoot, join(root, "src"));
+    assert.deepEqual(rels(files), ["src/a.ts", "src/nested/b.ts", "src/nested/c.test.ts"]);
+  });
+
+  test("include and exclude globs filter relative to the walk root", () => {
+    const { files } = walkIndexableFiles("src", root, {
+      include: ["*.ts"],
+      exclude: ["*.test.ts"],
+    });
+    assert.deepEqual(rels(files), ["src/a.ts", "src/nested/b.ts"]);
+
+    const docs = walkIndexableFiles("docs", root, { exclude: ["api"] });
+    assert.deepEqual(rels(docs.files), ["docs/guide.md"]);
+  });
+
+  test("ancestor .gitignore still applies when walking a subdirectory", () => {
+    write("pkg/dist/out.md");
+    write("pkg/index.md");
+    const { files } = walkIndexableFiles("pkg", root);
+    assert.deepEqual(rels(files), ["pkg/index.md"]);
+  });
+
+  test("size and count limits skip the remainder", () => {
+    write("big/large.md", "x".repeat(2048));
+    write("big/small.md", "ok\n");
+    const sized = walkIndexableFiles("big", root, { maxFileBytes: 1024 });
+    assert.deepEqual(rels(sized.files), ["big/small.md"]);
+    assert.equal(sized.skipped[0].reason, "too-large");
+
+    const capped = walkIndexableFiles("src", root, { maxFiles: 1 });
+    assert.equal(capped.files.length, 1);
+    assert.ok(capped.skipped.some((s) => s.reason === "limit"));
+  });
+
+  test("the count limit stops the walk instead of collecting the whole tree", () => {
+    write("many/a.md");
+    write("many/b/c.md");
+    write("many/d/e.md");
+    write("many/d/f.md");
+    const capped = walkIndexableFiles("many", root, { maxFiles: 1 });
+    assert.deepEqual(rels(capped.files), ["many/a.md"]);
+    assert.deepEqual(
+      capped.skipped.map((s) => ({ ...s, path: rels([s.path])[0] })),
+      [{ path: "many/b/c.md", reason: "limit" }],
+    );
+  });
+});
+
+describe("listProjectFiles", () => {
+  test("lists ignored-aware relative paths, binaries included, up to the cap", () => {
+    const { paths } = listProjectFiles(root, 1000);
+    for (const rel of ["README.md", "keep.log", "docs/api/ref.md", "src/logo.png"]) assert.ok(paths.includes(rel), rel);
+    for (const rel of ["debug.log", "dist/bundle.js", "docs/drafts/wip.md", ".git/HEAD"]) assert.ok(!paths.includes(rel), rel);
+
+    assert.deepEqual(listProjectFiles(join(root, "src"), 2), { paths: ["a.ts", "logo.png"], truncated: true });
+    assert.equal(listProjectFiles(join(root, "src"), 4).truncated, false);
+  });
+});
+
+describe("parseGitignore", () => {
+  test("anchored, unanchored and directory-only rules", () => {
+    const rules = parseGitignore("# comment\n/build\n*.tmp\ncache/\n", "");
+    assert.equal(rules.length, 3);
+    assert.ok(rules[0].regex.test("build"));
+    assert.ok(!rules[0].regex.test("src/build"));
+    assert.ok(rules[1].regex.test("a/b/c.tmp"));
+    assert.equal(rules[2].dirOnly, true);
+  });
+
+  test("isGlobPattern distinguishes globs from plain paths", () => {
+    assert.equal(isGlobPattern("src/**/*.ts"), true);
+    assert.equal(isGlobPattern("docs"), false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Behavioral tests for src/git-chunker.ts.
+ *
+ * Covers log parsing (header fields, per-file diffs, renames), commit
+ * titles, per-file and per-hunk splitting of oversized commits, revision
+ * range validation, and a round trip through a real `git log`.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { chunkGitLog, countGitLogCommits, gitLogArgs, isSafeRevisionRange, parseGitLog } from "../src/git-chunker.js";
+
+const SHA_A = "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678";
+const SHA_B = "0f1e2d3c4b5a69788796a5b4c3d2e1f009876543";
+
+function diff(path: string, hunks: string[]): string {
+  return [`diff --git a/${path} b/${path}`, "index 1111111..2222222 100644", `--- a/${path}`, `+++ b/${path}`, ...hunks].join("\n");
+}
+
+function record(sha: string, subject: string, body: string, diffs: string[]): string {
+  const fields = [sha, "Jane Doe", "jane@example.com", "2024-05-01T10:20:30+02:00", subject, body];
+  return `\x1e${fields.join("\x1f")}\x1f\n\n${diffs.join("\n")}\n`;
+}
+
+describe("parseGitLog", () => {
+  test("reads header fields and splits the patch per file", () => {
+    const output = record(SHA_A, "Fix retry backoff", "Cap the delay at 30s.", [
+      diff("src/retry.ts", ["@@ -1,2 +1,2 @@", "-const MAX = 60;", "+const MAX = 30;"]),
+      diff("README.md", ["@@ -5 +5 @@", "-60s", "+30s"]),
+    ]) + record(SHA_B, "Initial commit", "", []);
+
+    const commits = parseGitLog(output);
+    assert.equal(commits.length, 2);
+    assert.equal(commits[0].sha, SHA_A);
+    assert.equal(commits[0].author, "Jane Doe");
+    assert.equal(commits[0].subject, "Fix retry backoff");
+    assert.equal(commits[0].body, "Cap the delay at 30s.");
+    assert.deepEqual(commits[0].files.map((f) => f.path), ["src/retry.ts", "README.md"]);
+    assert.deepEqual(commits[1].files, []);
+    assert.equal(countGitLogCommits(output), 2);
+  });
+
+  test("reports the new path of a rename", () => {
+    const output = record(SHA_A, "Move helper", "", [
+      "diff --git a/src/old.ts b/src/util/new.ts\nsimilarity index 100%\nrename from src/old.ts\nrename to src/util/new.ts",
+    ]);
+    assert.deepEqual(parseGitLog(output)[0].files.map((f) => f.path), ["src/util/new.ts"]);
+  });
+});
+
+describe("chunkGitLog", () => {
+  test("titles one chunk per commit with short sha, author, date and subject", () => {
+    const output = record(SHA_A, "Fix retry backoff", "", [diff("src/retry.ts", ["@@ -1 +1 @@", "-a", "+b"])]);
+    const chunks = chunkGitLog(output, 4096);
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].title, "a1b2c3d · Jane Doe · 2024-05-01 · Fix retry backoff");
+    assert.match(chunks[0].content, new RegExp(`^commit ${SHA_A}\nAuthor: Jane Doe <jane@example.com>`));
+    assert.match(chunks[0].content, /Files:  src\/retry\.ts/);
+    assert.deepEqual(chunks[0].git, { sha: SHA_A, files: ["src/retry.ts"] });
+    assert.equal(chunks[0].hasCode, true);
+  });
+
+  test("splits an oversized commit per file, then between hunks", () => {
+    const big = (n: number) => Array.from({ length: 40 }, (_, i) => `+line ${n}-${i} ${"x".repeat(20)}`).join("\n");
+    const output = record(SHA_A, "Large refactor", "", [
+      diff("src/a.ts", ["@@ -1 +1,40 @@", big(1)]),
+      diff("src/b.ts", ["@@ -1 +1,40 @@", big(2), "@@ -90 +130,40 @@", big(3)]),
+    ]);
+    const chunks = chunkGitLog(output, 2048);
+    assert.deepEqual(chunks.map((c) => c.title.split(" · ").pop()), [
+      "Large refactor > src/a.ts",
+      "Large refactor > src/b.ts (part 1/2)",
+      "Large refactor > src/b.ts (part 2/2)",
+    ]);
+    for (const chunk of chunks) {
+      assert.match(chunk.content, /^commit a1b2c3d4/);
+      assert.equal(chunk.git.sha, SHA_A);
+    }
+    assert.deepEqual(chunks[2].git.files, ["src/b.ts"]);
+    assert.match(chunks[2].content, /diff --git a\/src\/b\.ts[\s\S]*@@ -90 \+130,40 @@/);
+  });
+
+  test("ignores output that is not in the gitLogArgs format", () => {
+    assert.deepEqual(chunkGitLog("commit abc\nAuthor: x\n\n    plain log\n", 4096), []);
+  });
+});
+
+describe("isSafeRevisionRange", () => {
+  test("accepts refs and ranges, rejects options and shell text", () => {
+    for (const ok of ["HEAD", "v1.2.0..HEAD", "main~20..main", "origin/feature-x", "HEAD@{2}", "a1b2c3d^"]) {
+      assert.equal(isSafeRevisionRange(ok), true, ok);
+    }
+    for (const bad of ["--output=/tmp/x", "-p", "HEAD; rm -rf /", "a b"]) {
+      assert.equal(isSafeRevisionRange(bad), false, bad);
+    }
+  });
+});
+
+describe("gitLogArgs with a real repository", () => {
+  test("produces output chunkGitLog parses", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ctx-git-chunker-"));
+    const git = (...args: string[]) => execFileSync("git", ["-C", dir, ...args], {
+      encoding: "utf-8",
+      env: { ...process.env, GIT_AUTHOR_NAME: "Jane Doe", GIT_AUTHOR_EMAIL: "jane@example.com", GIT_COMMITTER_NAME: "Jane Doe", GIT_COMMITTER_EMAIL: "jane@example.com" },
+    });
+    try {
+      git("init", "-q");
+      writeFileSync(join(dir, "retry.ts"), "export const MAX = 60;\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "Add retry constant");
+      writeFileSync(join(dir, "retry.ts"), "export const MAX = 30;\n");
+      git("commit", "-q", "-am", "Lower retry cap", "-m", "Thirty seconds is enough.");
+
+      const chunks = chunkGitLog(git(...gitLogArgs({ maxCommits: 10 })), 4096);
+      assert.equal(chunks.length, 2);
+      assert.match(chunks[0].title, /^[0-9a-f]{7} · Jane Doe · \d{4}-\d{2}-\d{2} · Lower retry cap$/);
+      assert.match(chunks[0].content, /Thirty seconds is enough\.[\s\S]*\+export const MAX = 30;/);
+      assert.deepEqual(chunks[0].git.files, ["retry.ts"]);
+
+      assert.equal(chunkGitLog(git(...gitLogArgs({ range: "HEAD~1..HEAD", maxCommits: 10 })), 4096).length, 1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
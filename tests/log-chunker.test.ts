@@ -0,0 +1,137 @@
+/**
+ * Behavioral tests for src/log-chunker.ts.
+ *
+ * Covers log detection across ISO, syslog and JSON-lines formats, level
+ * normalization, continuation lines, time-window and request-id grouping,
+ * severity titles / metadata, and since/until bound parsing.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { chunkLog, isLogPath, looksLikeLog, normalizeLevel, parseTimeBound } from "../src/log-chunker.js";
+
+const titles = (chunks: Array<{ title: string }> | null) => (chunks ?? []).map((c) => c.title);
+const NOW = Date.parse("2024-06-01T00:00:00Z");
+
+describe("isLogPath / normalizeLevel", () => {
+  test("matches .log and rotated logs, ignoring query strings", () => {
+    assert.equal(isLogPath("/var/log/app.log"), true);
+    assert.equal(isLogPath("server.LOG.1"), true);
+    assert.equal(isLogPath("https://ci.example.com/build.log?raw=1"), true);
+    assert.equal(isLogPath("changelog.md"), false);
+  });
+
+  test("maps level spellings and numeric levels", () => {
+    assert.equal(normalizeLevel("WARNING"), "warn");
+    assert.equal(normalizeLevel("err"), "error");
+    assert.equal(normalizeLevel("CRITICAL"), "fatal");
+    assert.equal(normalizeLevel(50), "error");
+    assert.equal(normalizeLevel("verbose"), null);
+  });
+});
+
+describe("looksLikeLog", () => {
+  test("recognizes ISO, syslog and JSON-lines records", () => {
+    assert.equal(looksLikeLog([
+      "2024-05-01T10:00:00.123Z INFO server started",
+      "2024-05-01 10:00:01,456 WARN slow query",
+      "[2024-05-01T10:00:02+02:00] ERROR boom",
+    ].join("\n"), NOW), true);
+    assert.equal(looksLikeLog([
+      "May  1 10:00:00 web-1 sshd[812]: Accepted publickey",
+      "May  1 10:00:03 web-1 sshd[812]: session opened",
+      "May  1 10:00:09 web-1 CRON[90]: (root) CMD (run-parts)",
+    ].join("\n"), NOW), true);
+    assert.equal(looksLikeLog([
+      '{"ts":1714557600,"level":"info","msg":"up"}',
+      '{"time":"2024-05-01T10:00:01Z","level":"error","msg":"down"}',
+      '{"@timestamp":"2024-05-01T10:00:02Z","severity":"WARNING"}',
+    ].join("\n"), NOW), true);
+  });
+
+  test("ignores indented continuation lines but rejects prose", () => {
+    const trace = [
+      "2024-05-01T10:00:00Z ERROR request failed",
+      "    at handler (app.js:10:5)",
+      "    at next (router.js:4:1)",
+      "2024-05-01T10:00:01Z INFO retrying",
+      "2024-05-01T10:00:02Z INFO ok",
+    ].join("\n");
+    assert.equal(looksLikeLog(trace, NOW), true);
+    assert.equal(looksLikeLog("# Release notes\n\n2024-05-01 shipped v2\nMore prose.\nAnd more.", NOW), false);
+  });
+});
+
+describe("chunkLog", () => {
+  test("windows by quiet gap, titles by range and severity, keeps stack traces with their record", () => {
+    const log = [
+      "2024-05-01T10:00:03Z INFO GET /health 200",
+      "2024-05-01T10:00:20Z WARN pool nearly exhausted",
+      "2024-05-01T10:00:41Z ERROR upstream timeout",
+      "Traceback (most recent call last):",
+      "  File \"app.py\", line 3",
+      "2024-05-01T10:05:00Z INFO GET /health 200",
+    ].join("\n");
+    const chunks = chunkLog(log, 4096, NOW)!;
+    assert.deepEqual(titles(chunks), [
+      "2024-05-01 10:00:03–10:00:41 (1 error, 1 warn)",
+      "2024-05-01 10:05:00",
+    ]);
+    assert.ok(chunks[0].content.endsWith('File "app.py", line 3'));
+    assert.deepEqual(chunks[0].log, {
+      level: "error",
+      start: "2024-05-01T10:00:03.000Z",
+      end: "2024-05-01T10:00:41.000Z",
+    });
+    assert.equal(chunks[1].log.level, "info");
+  });
+
+  test("normalizes offsets to UTC and caps window span", () => {
+    // One record every 30s: no quiet gap, so only the 5-minute span cuts.
+    const lines = Array.from({ length: 24 }, (_, i) =>
+      `2024-05-01T12:${String(Math.floor(i / 2)).padStart(2, "0")}:${i % 2 ? "30" : "00"}+02:00 level=debug tick ${i}`);
+    const chunks = chunkLog(lines.join("\n"), 4096, NOW)!;
+    assert.equal(chunks.length, 3);
+    assert.equal(chunks[0].log.start, "2024-05-01T10:00:00.000Z");
+    assert.equal(chunks[0].log.level, "debug");
+  });
+
+  test("groups by request id when most records carry one", () => {
+    const log = [
+      '{"time":"2024-05-01T10:00:00Z","level":"info","request_id":"req-a","msg":"start"}',
+      '{"time":"2024-05-01T10:00:01Z","level":"info","request_id":"req-b","msg":"start"}',
+      '{"time":"2024-05-01T10:00:02Z","level":"error","request_id":"req-a","msg":"db down"}',
+      '{"time":"2024-05-01T10:00:03Z","level":"info","request_id":"req-b","msg":"done"}',
+    ].join("\n");
+    const chunks = chunkLog(log, 4096, NOW)!;
+    assert.deepEqual(titles(chunks), [
+      "request req-a · 2024-05-01 10:00:00–10:00:02 (1 error)",
+      "request req-b · 2024-05-01 10:00:01–10:00:03",
+    ]);
+    assert.equal(chunks[0].log.requestId, "req-a");
+    assert.ok(chunks[0].content.includes("db down") && !chunks[0].content.includes("req-b"));
+  });
+
+  test("splits under the byte cap", () => {
+    const lines = Array.from({ length: 80 }, (_, i) =>
+      `2024-05-01T10:00:${String(i % 60).padStart(2, "0")}Z INFO ${"x".repeat(40)}`);
+    const chunks = chunkLog(lines.join("\n"), 512, NOW)!;
+    assert.ok(chunks.length > 5);
+    assert.ok(chunks.every((c) => Buffer.byteLength(c.content) <= 512));
+  });
+
+  test("returns null for text that is not a log", () => {
+    assert.equal(chunkLog("just some words\nand more words\nand more", 4096, NOW), null);
+  });
+});
+
+describe("parseTimeBound", () => {
+  test("accepts ISO timestamps, dates and relative ages", () => {
+    assert.equal(parseTimeBound("2024-05-01T10:00:00+02:00", NOW), "2024-05-01T08:00:00.000Z");
+    assert.equal(parseTimeBound("2024-05-01 10:00:00", NOW), "2024-05-01T10:00:00.000Z");
+    assert.equal(parseTimeBound("2024-05-01", NOW), "2024-05-01T00:00:00.000Z");
+    assert.equal(parseTimeBound("15m", NOW), "2024-05-31T23:45:00.000Z");
+    assert.equal(parseTimeBound("1d", NOW), "2024-05-31T00:00:00.000Z");
+    assert.equal(parseTimeBound("yesterday", NOW), null);
+  });
+});
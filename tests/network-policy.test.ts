@@ -0,0 +1,184 @@
+/**
+ * Behavioral tests for src/network-policy.ts.
+ *
+ * Covers rule matching (hosts, wildcards, IPs, CIDR), verdict ordering
+ * (deny over allow, the always-blocked metadata range), policy file
+ * loading, and the Node shim end to end in a child process reporting to a
+ * real egress proxy.
+ */
+
+import { afterAll, describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { execFile } from "node:child_process";
+import { createServer, type Server } from "node:http";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EgressProxy } from "../src/egress-proxy.js";
+import {
+  buildNodeEgressShim,
+  egressVerdict,
+  loadNetworkPolicy,
+  matchesEgressRule,
+  parseNetworkPolicy,
+  type NetworkPolicy,
+} from "../src/network-policy.js";
+
+const dir = mkdtempSync(join(tmpdir(), "network-policy-test-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const METADATA = "link-local / cloud metadata / multicast / reserved address";
+
+describe("matchesEgressRule", () => {
+  test("matches exact hosts case-insensitively and wildcards on subdomains only", () => {
+    assert.ok(matchesEgressRule("api.github.com", "API.GitHub.com.", null));
+    assert.ok(matchesEgressRule("*.github.com", "api.github.com", null));
+    assert.ok(!matchesEgressRule("*.github.com", "github.com", null));
+    assert.ok(!matchesEgressRule("*.github.com", "evilgithub.com", null));
+    assert.ok(matchesEgressRule("*", "anything.test", "203.0.113.9"));
+  });
+
+  test("matches IPs and IPv4 CIDR ranges against the resolved address", () => {
+    assert.ok(matchesEgressRule("10.0.0.0/8", "db.internal", "10.20.30.40"));
+    assert.ok(matchesEgressRule("10.0.0.0/8", "db.internal", "::ffff:10.1.2.3"));
+    assert.ok(!matchesEgressRule("10.0.0.0/8", "db.internal", "11.0.0.1"));
+    assert.ok(!matchesEgressRule("10.0.0.0/8", "db.internal", null));
+    assert.ok(matchesEgressRule("192.168.1.7", "printer", "192.168.1.7"));
+  });
+});
+
+describe("egressVerdict", () => {
+  test("blocks cloud metadata and link-local addresses under the empty policy", () => {
+    const empty = { allow: [], deny: [] };
+    assert.equal(egressVerdict("169.254.169.254", "169.254.169.254", empty), METADATA);
+    assert.equal(egressVerdict("metadata.google.internal", "169.254.169.254", empty), METADATA);
+    assert.equal(egressVerdict("example.com", "93.184.215.14", empty), null);
+    assert.equal(egressVerdict("localhost", "127.0.0.1", empty), null);
+  });
+
+  test("a wildcard allow does not open the metadata range; an explicit address rule does", () => {
+    assert.equal(egressVerdict("x", "169.254.169.254", { allow: ["*"], deny: [] }), METADATA);
+    assert.equal(egressVerdict("x", "169.254.169.254", { allow: ["169.254.0.0/16"], deny: [] }), null);
+  });
+
+  test("deny wins over allow, and an allow list blocks everything it does not match", () => {
+    const policy = { allow: ["*.github.com"], deny: ["gist.github.com"] };
+    assert.equal(egressVerdict("api.github.com", null, policy), null);
+    assert.equal(egressVerdict("gist.github.com", null, policy), 'denied by rule "gist.github.com"');
+    assert.equal(egressVerdict("pypi.org", null, policy), "not in the allow list");
+  });
+
+  test("defers allow-list checks on names until resolution when the list has address rules", () => {
+    const policy = { allow: ["10.0.0.0/8"], deny: [] };
+    assert.equal(egressVerdict("db.internal", null, policy), null);
+    assert.equal(egressVerdict("db.internal", "10.0.0.5", policy), null);
+    assert.equal(egressVerdict("db.internal", "8.8.8.8", policy), "not in the allow list");
+  });
+
+  test("the project allow list only narrows and cannot open the metadata range", () => {
+    const policy = { allow: ["*.github.com", "pypi.org"], deny: [], projectAllow: ["api.github.com", "169.254.169.254"] };
+    assert.equal(egressVerdict("api.github.com", null, policy), null);
+    assert.equal(egressVerdict("pypi.org", "151.101.0.223", policy), "not in the project allow list");
+    assert.equal(egressVerdict("example.com", null, { allow: [], deny: [], projectAllow: ["*"] }), null);
+    assert.equal(egressVerdict("169.254.169.254", "169.254.169.254", { allow: [], deny: [], projectAllow: ["*", "169.254.169.254"] }), METADATA);
+  });
+});
+
+describe("loadNetworkPolicy", () => {
+  test("the project file adds deny rules and narrows the user allow list", () => {
+    const project = join(dir, "project.json");
+    const user = join(dir, "user.json");
+    const missing = join(dir, "missing.json");
+    writeFileSync(project, JSON.stringify({ allow: ["*"], deny: ["gist.github.com", 42] }));
+    writeFileSync(user, JSON.stringify({ allow: ["*.github.com"], deny: ["10.0.0.0/8"] }));
+    assert.deepEqual(loadNetworkPolicy(user, project), {
+      allow: ["*.github.com"],
+      deny: ["10.0.0.0/8", "gist.github.com"],
+      projectAllow: ["*"],
+    });
+    assert.deepEqual(loadNetworkPolicy(missing, project), { allow: [], deny: ["gist.github.com"], projectAllow: ["*"] });
+    assert.equal(loadNetworkPolicy(missing, missing), null);
+  });
+
+  test("re-reads a file when it changes and treats invalid JSON as empty", () => {
+    const file = join(dir, "changing.json");
+    writeFileSync(file, JSON.stringify({ deny: ["a.test"] }));
+    utimesSync(file, 1_000, 1_000);
+    const missing = join(dir, "missing.json");
+    assert.deepEqual(loadNetworkPolicy(file, missing)?.deny, ["a.test"]);
+    writeFileSync(file, "{ not json");
+    utimesSync(file, 2_000, 2_000);
+    assert.deepEqual(loadNetworkPolicy(file, missing), { allow: [], deny: [], projectAllow: [] });
+  });
+
+  test("parseNetworkPolicy rejects a non-object root", () => {
+    assert.throws(() => parseNetworkPolicy("[]"), /JSON object/);
+  });
+});
+
+describe("buildNodeEgressShim", () => {
+  let server: Server;
+  let port = 0;
+  let policy: NetworkPolicy = { allow: [], deny: [] };
+  const proxy = new EgressProxy({ policy: () => policy });
+  afterAll(() => proxy.close());
+
+  /** Run `code` under the shim; `blocked` is what the proxy collected for the run. */
+  async function runWithShim(runPolicy: NetworkPolicy, code: string) {
+    policy = runPolicy;
+    const shim = join(dir, `shim-${Math.random().toString(36).slice(2)}.js`);
+    writeFileSync(shim, buildNodeEgressShim(runPolicy));
+    const run = proxy.beginRun();
+    const env = { ...process.env, CTX_EGRESS_PROXY: EgressProxy.env(await proxy.start(), run).CTX_EGRESS_PROXY };
+    const { stdout, stderr } = await new Promise<{ stdout: string; stderr: string }>((resolve) => {
+      execFile(process.execPath, ["--require", shim, "-e", code], { timeout: 15_000, env }, (_err, stdout, stderr) => {
+        resolve({ stdout: String(stdout), stderr: String(stderr) });
+      });
+    });
+    return { stdout, stderr, blocked: proxy.endRun(run) };
+  }
+
+  test("blocks metadata and denied hosts, lets other connections through", async () => {
+    server = createServer((_req, res) => res.end("hello"));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as { port: number }).port;
+    try {
+      const { stdout, stderr, blocked } = await runWithShim({ allow: [], deny: ["localhost"] }, `
+        const http = require("http");
+        const get = (url) => new Promise((r) => http.get(url, (res) => { res.resume(); r("ok " + res.statusCode); }).on("error", (e) => r(e.code)));
+        (async () => {
+          console.log("metadata", await get("http://169.254.169.254/latest/meta-data/"));
+          console.log("denied", await get("http://localhost:${port}/"));
+          console.log("fetch", await fetch("http://169.254.169.254/").then(() => "ok", (e) => e.code));
+          console.log("allowed", await get("http://127.0.0.1:${port}/"));
+        })();
+      `);
+      assert.match(stdout, /metadata ECTXEGRESS/);
+      assert.match(stdout, /denied ECTXEGRESS/);
+      assert.match(stdout, /fetch ECTXEGRESS/);
+      assert.match(stdout, /allowed ok 200/);
+      assert.deepEqual(blocked.map((b) => b.host).sort(), ["169.254.169.254", "localhost"]);
+      assert.equal(stderr, "", "blocks are not reported through the sandbox's own output");
+    } finally {
+      server.close();
+    }
+  });
+
+  test("checks the addresses a hostname resolves to", async () => {
+    const { stdout, blocked } = await runWithShim({ allow: [], deny: ["127.0.0.0/8"] }, `
+      require("net").connect(9, "localhost").on("error", (e) => console.log(e.code));
+    `);
+    assert.match(stdout, /ECTXEGRESS/);
+    assert.deepEqual(blocked, [{ host: "localhost", ip: "127.0.0.1", reason: 'denied by rule "127.0.0.0/8"' }]);
+  });
+
+  test("a forged report of an allowed host records nothing", async () => {
+    const { stdout, blocked } = await runWithShim({ allow: [], deny: ["*.blocked.test"] }, `
+      const { auth, port } = (() => { const u = new URL(process.env.CTX_EGRESS_PROXY); return { auth: Buffer.from(u.username + ":" + u.password).toString("base64"), port: u.port }; })();
+      const s = require("net").connect(port, "127.0.0.1", () => s.write("CONNECT 127.0.0.1:9 HTTP/1.1\\r\\nProxy-Authorization: Basic " + auth + "\\r\\nX-Ctx-Egress-Check: 1\\r\\n\\r\\n"));
+      s.on("data", (d) => { console.log(String(d).split("\\r\\n")[0]); s.destroy(); });
+    `);
+    assert.match(stdout, /204 No Content/);
+    assert.deepEqual(blocked, []);
+  });
+});
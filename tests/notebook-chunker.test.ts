@@ -0,0 +1,99 @@
+/**
+ * Behavioral tests for src/notebook-chunker.ts.
+ *
+ * Covers notebook detection, cell parsing (string and list sources, output
+ * types), heading-plus-index titles, output truncation and oversized cells.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { chunkNotebook, isNotebookPath, parseNotebook } from "../src/notebook-chunker.js";
+
+const titles = (chunks: Array<{ title: string }> | null) => (chunks ?? []).map((c) => c.title);
+
+function notebook(cells: unknown[], language = "python"): string {
+  return JSON.stringify({
+    cells,
+    metadata: { language_info: { name: language } },
+    nbformat: 4,
+    nbformat_minor: 5,
+  });
+}
+
+const md = (source: string | string[]) => ({ cell_type: "markdown", metadata: {}, source });
+const code = (source: string | string[], outputs: unknown[] = []) => ({
+  cell_type: "code",
+  execution_count: 1,
+  metadata: {},
+  outputs,
+  source,
+});
+
+describe("isNotebookPath", () => {
+  test("matches .ipynb, ignoring query strings", () => {
+    assert.equal(isNotebookPath("analysis/Churn.ipynb"), true);
+    assert.equal(isNotebookPath("https://example.com/nb.IPYNB?raw=1"), true);
+    assert.equal(isNotebookPath("notes.json"), false);
+  });
+});
+
+describe("parseNotebook", () => {
+  test("joins list sources and collects text outputs", () => {
+    const parsed = parseNotebook(notebook([
+      code(["import pandas as pd\n", "df = pd.read_csv('x.csv')"], [
+        { output_type: "stream", name: "stdout", text: ["loaded\n"] },
+        { output_type: "execute_result", data: { "text/plain": ["(120, 4)"] } },
+        { output_type: "display_data", data: { "image/png": "iVBOR..." } },
+        { output_type: "error", ename: "KeyError", evalue: "'x'", traceback: ["\u001b[31mKeyError\u001b[0m: 'x'"] },
+      ]),
+    ]))!;
+    assert.equal(parsed.language, "python");
+    assert.equal(parsed.cells[0].source, "import pandas as pd\ndf = pd.read_csv('x.csv')");
+    assert.equal(parsed.cells[0].outputs, "loaded\n\n(120, 4)\n[image/png output]\nKeyError: 'x'");
+  });
+
+  test("returns null for JSON that is not a notebook", () => {
+    assert.equal(parseNotebook('{"users": []}'), null);
+    assert.equal(parseNotebook("not json"), null);
+  });
+});
+
+describe("chunkNotebook", () => {
+  test("titles cells by nearest heading and index, code as fenced chunks", () => {
+    const chunks = chunkNotebook(notebook([
+      code("SEED = 7"),
+      md("# Load data\n\nRead the export."),
+      code("df = load()", [{ output_type: "stream", text: "ok" }]),
+      md(""),
+      md("## Clean\nDrop nulls."),
+      code("df = df.dropna()"),
+    ]), 4096)!;
+    assert.deepEqual(titles(chunks), [
+      "cell 0",
+      "Load data > cell 1",
+      "Load data > cell 2",
+      "Clean > cell 4",
+      "Clean > cell 5",
+    ]);
+    assert.deepEqual(chunks.map((c) => c.hasCode), [true, false, true, false, true]);
+    assert.equal(chunks[2].content, "```python\ndf = load()\n```\n\nOutput:\nok");
+  });
+
+  test("truncates long outputs", () => {
+    const chunks = chunkNotebook(notebook([
+      code("print(rows)", [{ output_type: "stream", text: "row\n".repeat(2000) }]),
+    ]), 4096)!;
+    assert.equal(chunks.length, 1);
+    assert.match(chunks[0].content, /…\[\d+ more bytes of output\]$/);
+    assert.ok(Buffer.byteLength(chunks[0].content) < 1300);
+  });
+
+  test("splits oversized cells under the cap, keeping the title", () => {
+    const source = Array.from({ length: 200 }, (_, i) => `x${i} = ${i}`).join("\n");
+    const chunks = chunkNotebook(notebook([md("# Setup"), code(source)], "r"), 512)!;
+    const codeChunks = chunks.filter((c) => c.hasCode);
+    assert.ok(codeChunks.length > 2);
+    assert.ok(codeChunks.every((c) => c.title === "Setup > cell 1" && Buffer.byteLength(c.content) <= 512));
+    assert.ok(codeChunks[0].content.startsWith("```r\n"));
+  });
+});
@@ -95,9 +95,12 @@ describe("ContextModePlugin", () => {
         "ctx_execute_file",
         "ctx_fetch_and_index",
         "ctx_index",
+        "ctx_index_git",
         "ctx_insight",
+        "ctx_processes",
         "ctx_purge",
         "ctx_search",
+        "ctx_sources",
         "ctx_stats",
         "ctx_upgrade",
       ]);
@@ -483,15 +483,18 @@ describe("OpenClawPlugin", () => {
     });
   });
 
-  // ── SLICE OClaw-1: registerTool exposes 11 ctx_* MCP tools ────────
+  // ── SLICE OClaw-1: registerTool exposes 14 ctx_* MCP tools ────────
   describe("registerTool (SLICE OClaw-1 — sidecar MCP)", () => {
     const EXPECTED_NAMES = [
       "ctx_execute",
       "ctx_execute_file",
       "ctx_index",
+      "ctx_index_git",
       "ctx_search",
+      "ctx_sources",
       "ctx_fetch_and_index",
       "ctx_batch_execute",
+      "ctx_processes",
       "ctx_stats",
       "ctx_doctor",
       "ctx_upgrade",
@@ -499,7 +502,7 @@ describe("OpenClawPlugin", () => {
       "ctx_insight",
     ] as const;
 
-    it("registers all 11 ctx_* tools via api.registerTool", async () => {
+    it("registers all 14 ctx_* tools via api.registerTool", async () => {
       const mock = await createTestPlugin(join(tempDir, "register-tool"));
       const names = mock.tools.map((t) => t.name);
       for (const expected of EXPECTED_NAMES) {
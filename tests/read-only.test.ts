@@ -0,0 +1,105 @@
+/**
+ * Behavioral tests for src/read-only.ts.
+ *
+ * Covers project snapshots (git and plain directories), snapshot diffs,
+ * the change note, the per-tool defaults, and the read-only mount where
+ * this machine supports it.
+ */
+
+import { afterAll, describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { execFileSync, spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyReadOnlyMount,
+  diffProjectSnapshots,
+  formatProjectChanges,
+  probeReadOnlyMount,
+  readOnlyDefault,
+  readOnlyMountSupported,
+  snapshotProject,
+} from "../src/read-only.js";
+
+const dirs: string[] = [];
+afterAll(() => {
+  for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+});
+
+function makeProject(git: boolean): string {
+  const dir = mkdtempSync(join(tmpdir(), "read-only-test-"));
+  dirs.push(dir);
+  writeFileSync(join(dir, "a.txt"), "a");
+  writeFileSync(join(dir, "b.txt"), "b");
+  writeFileSync(join(dir, ".gitignore"), "build/\n");
+  mkdirSync(join(dir, "build"));
+  if (git) execFileSync("git", ["init", "-q"], { cwd: dir });
+  return dir;
+}
+
+describe("snapshotProject / diffProjectSnapshots", () => {
+  for (const git of [true, false]) {
+    test(`reports modified, created and deleted files (${git ? "git" : "plain directory"})`, async () => {
+      const dir = makeProject(git);
+      const before = await snapshotProject(dir);
+      writeFileSync(join(dir, "a.txt"), "changed");
+      utimesSync(join(dir, "a.txt"), 1_000, 1_000);
+      unlinkSync(join(dir, "b.txt"));
+      writeFileSync(join(dir, "c.txt"), "new");
+      writeFileSync(join(dir, "build", "out.js"), "ignored");
+      const changes = diffProjectSnapshots(before, await snapshotProject(dir));
+      assert.deepEqual(changes, { modified: ["a.txt"], created: ["c.txt"], deleted: ["b.txt"] });
+    });
+  }
+
+  test("reports nothing for an untouched project", async () => {
+    const dir = makeProject(true);
+    const changes = diffProjectSnapshots(await snapshotProject(dir), await snapshotProject(dir));
+    assert.equal(formatProjectChanges(changes), null);
+  });
+});
+
+describe("formatProjectChanges", () => {
+  test("lists changes by kind and truncates long lists", () => {
+    const created = Array.from({ length: 12 }, (_, i) => `f${i}.txt`);
+    assert.equal(
+      formatProjectChanges({ modified: ["a.ts"], created, deleted: [] }),
+      "[read-only] project files changed during this run — modified: a.ts; " +
+        "created: f0.txt, f1.txt, f2.txt, f3.txt, f4.txt, f5.txt, f6.txt, f7.txt, f8.txt, f9.txt (+2 more)",
+    );
+  });
+});
+
+describe("readOnlyDefault", () => {
+  test("batch is read-only unless disabled; execute only when enabled", () => {
+    assert.equal(readOnlyDefault("batch", {}), true);
+    assert.equal(readOnlyDefault("execute", {}), false);
+    assert.equal(readOnlyDefault("execute", { CONTEXT_MODE_READ_ONLY: "1" }), true);
+    assert.equal(readOnlyDefault("batch", { CONTEXT_MODE_READ_ONLY: "false" }), false);
+  });
+});
+
+const mountSupported = await probeReadOnlyMount();
+
+describe("applyReadOnlyMount", () => {
+  test("the probe runs once and settles readOnlyMountSupported", async () => {
+    assert.equal(probeReadOnlyMount(), probeReadOnlyMount());
+    assert.equal(readOnlyMountSupported(), mountSupported);
+  });
+
+  test.runIf(mountSupported)("blocks writes under the root but not elsewhere", () => {
+    const dir = makeProject(false);
+    const outside = mkdtempSync(join(tmpdir(), "read-only-outside-"));
+    dirs.push(outside);
+    const cmd = applyReadOnlyMount(
+      ["sh", "-c", `echo x > a.txt; echo "rc=$?"; echo y > ${outside}/out.txt`],
+      dir,
+    );
+    const run = spawnSync(cmd[0], cmd.slice(1), { cwd: dir, encoding: "utf-8" });
+    assert.match(run.stdout, /rc=[1-9]/);
+    assert.match(run.stderr, /Read-only file system/);
+    assert.equal(readFileSync(join(dir, "a.txt"), "utf-8"), "a");
+    assert.equal(readFileSync(join(outside, "out.txt"), "utf-8"), "y\n");
+  });
+});
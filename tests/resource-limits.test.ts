@@ -0,0 +1,99 @@
+/**
+ * Behavioral tests for src/resource-limits.ts.
+ *
+ * Covers env resolution (per-language over global over language
+ * defaults), the prlimit command prefix, runtime exemptions, and mapping
+ * failed runs back to the limit they hit.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import {
+  applyResourceLimits,
+  describeLimitViolation,
+  DEFAULT_RESOURCE_LIMITS,
+  effectiveLimits,
+  formatResourceLimits,
+  resolveResourceLimits,
+  resourceLimitsSupported,
+} from "../src/resource-limits.js";
+
+describe("resolveResourceLimits", () => {
+  test("uses defaults, with shell limited to processes only", () => {
+    assert.deepEqual(resolveResourceLimits("python", {}), DEFAULT_RESOURCE_LIMITS);
+    assert.deepEqual(resolveResourceLimits("shell", {}), {
+      memoryMb: 0,
+      cpuSeconds: 0,
+      maxProcesses: DEFAULT_RESOURCE_LIMITS.maxProcesses,
+      fileMb: 0,
+    });
+  });
+
+  test("per-language env beats global env, which beats language defaults", () => {
+    const env = {
+      CONTEXT_MODE_LIMIT_MEMORY_MB: "512",
+      CONTEXT_MODE_LIMIT_MEMORY_MB_PYTHON: "8192",
+      CONTEXT_MODE_LIMIT_CPU_SEC: "0",
+      CONTEXT_MODE_LIMIT_FILE_MB: "not a number",
+    };
+    assert.equal(resolveResourceLimits("python", env).memoryMb, 8192);
+    assert.equal(resolveResourceLimits("ruby", env).memoryMb, 512);
+    assert.equal(resolveResourceLimits("shell", env).memoryMb, 512);
+    assert.equal(resolveResourceLimits("ruby", env).cpuSeconds, 0);
+    assert.equal(resolveResourceLimits("ruby", env).fileMb, DEFAULT_RESOURCE_LIMITS.fileMb);
+  });
+});
+
+describe("applyResourceLimits", () => {
+  test.runIf(resourceLimitsSupported())("prefixes the command with prlimit flags for enabled limits", () => {
+    const cmd = applyResourceLimits(["python3", "script.py"], { memoryMb: 512, cpuSeconds: 10, maxProcesses: 0, fileMb: 1 });
+    assert.deepEqual(cmd, [
+      "prlimit",
+      `--as=${512 * 1024 * 1024}`,
+      "--cpu=10:11",
+      `--fsize=${1024 * 1024}`,
+      "--",
+      "python3",
+      "script.py",
+    ]);
+  });
+
+  test.runIf(resourceLimitsSupported())("caps the heap instead of the address space for node", () => {
+    const cmd = applyResourceLimits(["/usr/bin/node", "script.js"], { memoryMb: 512, cpuSeconds: 0, maxProcesses: 0, fileMb: 0 });
+    assert.deepEqual(cmd, ["/usr/bin/node", "--max-old-space-size=512", "script.js"]);
+  });
+
+  test("leaves the command alone when every limit is disabled", () => {
+    const cmd = ["node", "script.js"];
+    assert.deepEqual(applyResourceLimits(cmd, { memoryMb: 0, cpuSeconds: 0, maxProcesses: 0, fileMb: 0 }), cmd);
+  });
+
+  test("drops the memory limit for runtimes that reserve large address spaces", () => {
+    assert.equal(effectiveLimits(["/usr/local/bin/bun", "run", "x.ts"], DEFAULT_RESOURCE_LIMITS).memoryMb, 0);
+    assert.equal(effectiveLimits(["tsx", "x.ts"], DEFAULT_RESOURCE_LIMITS).memoryMb, 0);
+    assert.equal(effectiveLimits(["python3", "x.py"], DEFAULT_RESOURCE_LIMITS).memoryMb, DEFAULT_RESOURCE_LIMITS.memoryMb);
+  });
+});
+
+describe("describeLimitViolation", () => {
+  const limits = { memoryMb: 512, cpuSeconds: 30, maxProcesses: 64, fileMb: 10 };
+
+  test("maps signals and failure messages to the limit hit", () => {
+    assert.equal(describeLimitViolation(limits, "SIGXCPU", ""), "CPU time limit 30s");
+    assert.equal(describeLimitViolation(limits, "SIGXFSZ", ""), "file size limit 10MB");
+    assert.equal(describeLimitViolation(limits, null, "Traceback ...\nMemoryError\n"), "memory limit 512MB");
+    assert.equal(describeLimitViolation(limits, null, "sh: fork: retry: Resource temporarily unavailable"), "process limit (+64 processes)");
+    assert.equal(describeLimitViolation(limits, null, "TypeError: x is undefined"), null);
+  });
+
+  test("ignores failures for limits that are disabled", () => {
+    assert.equal(describeLimitViolation({ ...limits, memoryMb: 0 }, null, "MemoryError"), null);
+  });
+});
+
+describe("formatResourceLimits", () => {
+  test("lists enabled limits", () => {
+    assert.equal(formatResourceLimits({ memoryMb: 512, cpuSeconds: 0, maxProcesses: 64, fileMb: 0 }), "memory 512MB, +64 processes");
+    assert.equal(formatResourceLimits({ memoryMb: 0, cpuSeconds: 0, maxProcesses: 0, fileMb: 0 }), "none");
+  });
+});
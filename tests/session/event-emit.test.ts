@@ -25,6 +25,7 @@ import { SessionDB } from "../../src/session/db.js";
 import { loadDatabase } from "../../src/db-base.js";
 import {
   emitCacheHitEvent,
+  emitEgressBlockedEvent,
   emitIndexWriteEvent,
   emitSandboxExecuteEvent,
 } from "../../src/session/event-emit.js";
@@ -137,6 +138,29 @@ describe("event-emit (Phase 5/7 server-side emitters)", () => {
     expect(rows[0].bytes_returned).toBe(0);
   });
 
+  test("emitEgressBlockedEvent records the blocked host and reason", () => {
+    const dbPath = tmpDbPath();
+    const sid = `sess-${randomUUID()}`;
+    const sdb = seedSession(dbPath, sid);
+    cleanups.push(() => { try { sdb.close(); } catch {} try { if (existsSync(dbPath)) unlinkSync(dbPath); } catch {} });
+
+    emitEgressBlockedEvent({
+      sessionDbPath: dbPath,
+      toolName: "ctx_execute",
+      host: "metadata.google.internal",
+      ip: "169.254.169.254",
+      reason: "link-local / cloud metadata / multicast / reserved address",
+    });
+    sdb.close();
+
+    const rows = readEvents(dbPath, sid, "egress-blocked");
+    expect(rows.length).toBe(1);
+    expect(rows[0].category).toBe("sandbox");
+    expect(rows[0].data).toBe(
+      "ctx_execute: metadata.google.internal (169.254.169.254) — link-local / cloud metadata / multicast / reserved address",
+    );
+  });
+
   test("emitters never throw on missing DB (best-effort)", () => {
     const missing = join(tmpdir(), `does-not-exist-${randomUUID()}.db`);
     expect(() => emitSandboxExecuteEvent({ sessionDbPath: missing, toolName: "x", bytesReturned: 1 })).not.toThrow();
@@ -236,6 +236,35 @@ describe("purgeSession — slice 5: knowledge base FTS5 store", () => {
   });
 });
 
+describe("purgeSession — durable knowledge base (persist: true)", () => {
+  it("wipes <kbDir>/<canonicalHash>.db + sidecars on project scope", () => {
+    const projectDir = makeRepo("kb");
+    const sessionsDir = makeTmpDir("sesskb");
+    const kbDir = makeTmpDir("kb");
+    const kbPath = join(kbDir, `${hashProjectDirCanonical(projectDir)}.db`);
+    touchSqliteTriple(kbPath);
+
+    const r = purgeSession({ projectDir, sessionsDir, kbDir, scope: "project" });
+
+    expect(existsSync(kbPath)).toBe(false);
+    expect(existsSync(`${kbPath}-wal`)).toBe(false);
+    expect(r.deleted).toContain("durable knowledge base");
+  });
+
+  it("leaves the durable store alone on session scope", () => {
+    const projectDir = makeRepo("kbs");
+    const sessionsDir = makeTmpDir("sesskbs");
+    const kbDir = makeTmpDir("kbs");
+    const kbPath = join(kbDir, `${hashProjectDirCanonical(projectDir)}.db`);
+    touchSqliteTriple(kbPath);
+
+    const r = purgeSession({ projectDir, sessionsDir, kbDir, scope: "session", sessionId: "s-1" });
+
+    expect(existsSync(kbPath)).toBe(true);
+    expect(r.deleted).not.toContain("durable knowledge base");
+  });
+});
+
 // ─────────────────────────────────────────────────────────
 // Slice 6 — legacy ~/.context-mode/content/<hash>.db store
 // ─────────────────────────────────────────────────────────
@@ -531,6 +560,30 @@ describe("purgeSession — issue #520 slice 3: per-session FTS5 chunk wipe", ()
   });
 });
 
+// Pinned sources (ctx_index `pinned: true`) survive a session-scoped wipe.
+describe("purgeSession — pinned sources", () => {
+  it("keeps chunks of pinned sources indexed by the purged session", async () => {
+    const { ContentStore } = await import("../../src/store.js");
+    const projectDir = makeRepo("pinned");
+    const sessionsDir = makeTmpDir("sess-pinned");
+    const storePath = join(makeTmpDir("content-pinned"), "ftshash.db");
+
+    const store = new ContentStore(storePath);
+    const attribution = { sessionId: "scratch" };
+    store.index({ content: "# Scratch\n\nthrowaway notes", source: "scratch-notes", attribution });
+    store.index({ content: "# Runbook\n\nrestart the ingest worker", source: "runbook", attribution });
+    store.setSourceTags("runbook", { pinned: true });
+    store.close();
+
+    purgeSession({ projectDir, sessionsDir, scope: "session", sessionId: "scratch", storePath });
+
+    const reopened = new ContentStore(storePath);
+    expect(reopened.searchWithFallback("throwaway notes", 3)).toEqual([]);
+    expect(reopened.searchWithFallback("ingest worker", 3).map((r) => r.source)).toEqual(["runbook"]);
+    reopened.close();
+  });
+});
+
 // Slice 2 — scoped wipe deletes target session's session_events rows
 // but preserves rows for OTHER sessions in the same project DB.
 describe("purgeSession — issue #520 slice 2: per-session DB row wipe", () => {
@@ -12,7 +12,7 @@ import { join, dirname } from "node:path";
 import { tmpdir } from "node:os";
 import { fileURLToPath } from "node:url";
 import { createRequire } from "node:module";
-import { ContentStore, cleanupStaleDBs } from "../src/store.js";
+import { ContentStore, cleanupStaleDBs, KB_BUNDLE_VERSION } from "../src/store.js";
 import {
   withRetry,
   closeDB,
@@ -49,7 +49,7 @@ describe("Schema & Lifecycle", () => {
     assert.doesNotThrow(() => store.close());
   });
 
-  test("Fresh DB creates new FTS5 schema with 8 columns", () => {
+  test("Fresh DB creates new FTS5 schema with 9 columns", () => {
     const dbPath = join(
       tmpdir(),
       `context-mode-test-fresh-${Date.now()}-${Math.random().toString(36).slice(2)}.db`,
@@ -62,7 +62,7 @@ describe("Schema & Lifecycle", () => {
     const cols = db.prepare("SELECT name FROM pragma_table_xinfo('chunks')").all() as Array<{ name: string }>;
     const colNames = cols.map(c => c.name);
 
-    // FTS5 tables should have 8 user columns + 2 hidden (table-name, rank) = 10 total
+    // FTS5 tables should have 9 user columns + 2 hidden (table-name, rank) = 11 total
     // pragma_table_xinfo includes hidden FTS5 internal columns
     expect(colNames).toContain("title");
     expect(colNames).toContain("content");
@@ -72,8 +72,9 @@ describe("Schema & Lifecycle", () => {
     expect(colNames).toContain("session_id");
     expect(colNames).toContain("event_id");
     expect(colNames).toContain("timestamp");
-    // 8 user-defined + 2 hidden FTS5 internal (chunks, rank)
-    expect(colNames.length).toBe(10);
+    expect(colNames).toContain("ordinal");
+    // 9 user-defined + 2 hidden FTS5 internal (chunks, rank)
+    expect(colNames.length).toBe(11);
 
     // Same check for trigram table
     const trigramCols = db.prepare("SELECT name FROM pragma_table_xinfo('chunks_trigram')").all() as Array<{ name: string }>;
@@ -82,7 +83,7 @@ describe("Schema & Lifecycle", () => {
     expect(trigramColNames).toContain("session_id");
     expect(trigramColNames).toContain("event_id");
     expect(trigramColNames).toContain("timestamp");
-    expect(trigramColNames.length).toBe(10);
+    expect(trigramColNames.length).toBe(11);
 
     db.close();
     store.close();
@@ -156,11 +157,12 @@ describe("Schema & Lifecycle", () => {
     expect(newColNames).toContain("session_id");
     expect(newColNames).toContain("event_id");
     expect(newColNames).toContain("timestamp");
-    expect(newColNames.length).toBe(10);
+    expect(newColNames).toContain("ordinal");
+    expect(newColNames.length).toBe(11);
 
     const newTrigramCols = checkDb.prepare("SELECT name FROM pragma_table_xinfo('chunks_trigram')").all() as Array<{ name: string }>;
     expect(newTrigramCols.map(c => c.name)).toContain("source_category");
-    expect(newTrigramCols.length).toBe(10);
+    expect(newTrigramCols.length).toBe(11);
 
     // Old chunk data is gone (DROP + re-CREATE clears data)
     const chunkCount = checkDb.prepare("SELECT COUNT(*) as cnt FROM chunks").get() as { cnt: number };
@@ -698,6 +700,246 @@ describe("Query Sanitization", () => {
   });
 });
 
+describe("Query Syntax", () => {
+  const docs = [
+    "# Retry Policy\n\nRequests are retried with exponential backoff on timeout.",
+    "# Timeout Handling\n\nA timeout aborts the request; no backoff applies.",
+    "# Connection Pool\n\nIdle connections time out after the pool timeout.",
+  ].join("\n\n");
+
+  test("parses phrases, exclusions and fields; plain queries return null", async () => {
+    const { parseQuerySyntax } = await import("../src/store.js");
+    assert.equal(parseQuerySyntax("retry timeout"), null);
+    assert.deepEqual(parseQuerySyntax('"exponential backoff" -pool title:retry source:docs'), {
+      terms: [],
+      clauses: [
+        { text: "exponential backoff", phrase: true, field: null, negate: false },
+        { text: "pool", phrase: false, field: null, negate: true },
+        { text: "retry", phrase: false, field: "title", negate: false },
+      ],
+      source: "docs",
+    });
+  });
+
+  test("invalid syntax parses to null (plain fallback)", async () => {
+    const { parseQuerySyntax } = await import("../src/store.js");
+    assert.equal(parseQuerySyntax('"unterminated phrase'), null);
+    assert.equal(parseQuerySyntax("title: retry"), null, "empty field value");
+    assert.equal(parseQuerySyntax("-timeout -pool"), null, "exclusions only");
+  });
+
+  test("flags and negative numbers are literal terms, not exclusions", async () => {
+    const { parseQuerySyntax } = await import("../src/store.js");
+    assert.equal(parseQuerySyntax("npm install --save-dev"), null);
+    assert.equal(parseQuerySyntax("exit code -1"), null);
+    assert.deepEqual(parseQuerySyntax("--save-dev -1 -pool"), {
+      terms: ["--save-dev", "-1"],
+      clauses: [{ text: "pool", phrase: false, field: null, negate: true }],
+      source: null,
+    });
+    assert.deepEqual(parseQuerySyntax('retry -"connection pool"')?.clauses, [
+      { text: "connection pool", phrase: true, field: null, negate: true },
+    ]);
+  });
+
+  test("searching a flag or negative number does not exclude it", () => {
+    const store = createStore();
+    store.index({
+      content: "# Install\n\nRun npm install --save-dev vitest.\n\n# Exit\n\nThe process exit code -1 means failure.",
+      source: "cli-docs",
+    });
+    assert.ok(store.search("npm install --save-dev").some((r) => r.content.includes("save-dev")));
+    assert.ok(store.search("exit code -1").some((r) => r.content.includes("exit code")));
+    store.close();
+  });
+
+  test("compiles to porter and trigram MATCH expressions", async () => {
+    const { parseQuerySyntax, compileQuerySyntax } = await import("../src/store.js");
+    const parsed = parseQuerySyntax('backoff "exponential backoff" -pool title:retry')!;
+    assert.equal(
+      compileQuerySyntax(parsed, "porter", "OR"),
+      '(("backoff") AND "exponential backoff" AND title : "retry") NOT ("pool")',
+    );
+    assert.equal(
+      compileQuerySyntax(parsed, "trigram", "OR"),
+      '(("backoff") AND "exponential backoff" AND title : "retry") NOT ("pool")',
+    );
+    // Trigram cannot enforce a 2-char clause, so that layer is skipped.
+    assert.equal(compileQuerySyntax(parseQuerySyntax("title:io")!, "trigram"), "");
+  });
+
+  test("exact phrase matches only the adjacent wording", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net-docs" });
+    const results = store.searchWithFallback('"exponential backoff"', 5);
+    assert.deepEqual(results.map((r) => r.title), ["Retry Policy"]);
+    store.close();
+  });
+
+  test("-exclude drops chunks containing the term", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net-docs" });
+    const titles = store.searchWithFallback("timeout -backoff", 5).map((r) => r.title);
+    assert.deepEqual(titles, ["Connection Pool"]);
+    store.close();
+  });
+
+  test("title: matches headings only", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net-docs" });
+    const titles = store.searchWithFallback("title:timeout", 5).map((r) => r.title);
+    assert.deepEqual(titles, ["Timeout Handling"]);
+    store.close();
+  });
+
+  test("source: filters by label and narrows an explicit source", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net-docs" });
+    store.index({ content: "# Timeout\n\nBuild timeout is 10 minutes.", source: "ci-notes" });
+    const scoped = store.searchWithFallback("timeout source:ci", 5);
+    assert.deepEqual(scoped.map((r) => r.source), ["ci-notes"]);
+    const narrowed = store.searchWithFallback("timeout source:net", 5, "docs");
+    assert.ok(narrowed.length > 0);
+    assert.ok(narrowed.every((r) => r.source === "net-docs"));
+    store.close();
+  });
+
+  test("unbalanced quote falls back to plain search", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net-docs" });
+    const results = store.searchWithFallback('"exponential backoff', 5);
+    assert.ok(results.some((r) => r.title === "Retry Policy"));
+    store.close();
+  });
+});
+
+describe("Chunk ids and neighbor retrieval", () => {
+  const sections = ["Alpha", "Bravo", "Charlie", "Delta", "Echo"]
+    .map((name) => `# ${name}\n\n${name.toLowerCase()} section body.`)
+    .join("\n\n");
+
+  test("porter and trigram hits carry the same sourceId:ordinal id", () => {
+    const store = createStore();
+    store.index({ content: "# Noise\n\nunrelated.", source: "first" });
+    const { sourceId } = store.index({ content: sections, source: "nato" });
+    const porter = store.search("charlie", 1);
+    const trigram = store.searchTrigram("charli", 1);
+    assert.equal(porter[0].chunkId, `${sourceId}:2`);
+    assert.equal(trigram[0].chunkId, `${sourceId}:2`);
+    assert.equal(store.searchWithFallback("charlie", 1)[0].chunkId, `${sourceId}:2`);
+    store.close();
+  });
+
+  test("getChunkWithNeighbors returns the chunk and its neighbors in order", () => {
+    const store = createStore();
+    const { sourceId } = store.index({ content: sections, source: "nato" });
+    const window = store.getChunkWithNeighbors(`${sourceId}:2`, 1)!;
+    assert.equal(window.source, "nato");
+    assert.equal(window.totalChunks, 5);
+    assert.equal(window.index, 2);
+    assert.deepEqual(window.chunks.map((c) => c.title), ["Bravo", "Charlie", "Delta"]);
+
+    const edge = store.getChunkWithNeighbors(`${sourceId}:0`, 2)!;
+    assert.deepEqual(edge.chunks.map((c) => c.title), ["Alpha", "Bravo", "Charlie"]);
+    store.close();
+  });
+
+  test("ids come from the stored ordinal, not from rowid gaps", () => {
+    const path = join(tmpdir(), `context-mode-test-ordinal-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    const store = new ContentStore(path);
+    const { sourceId } = store.index({ content: sections, source: "nato" });
+    const rawDb = new (loadDatabase())(path);
+    rawDb.exec(`DELETE FROM chunks WHERE title = 'Alpha'; DELETE FROM chunks_trigram WHERE title = 'Alpha';`);
+    rawDb.close();
+    assert.equal(store.search("charlie", 1)[0].chunkId, `${sourceId}:2`);
+    assert.equal(store.searchTrigram("charli", 1)[0].chunkId, `${sourceId}:2`);
+    store.close();
+  });
+
+  test("a DB from before the ordinal column is rebuilt with ordinals, keeping its chunks", () => {
+    const path = join(tmpdir(), `context-mode-test-ordinal-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+    const rawDb = new (loadDatabase())(path);
+    const columns = `title, content, source_id UNINDEXED, content_type UNINDEXED, source_category UNINDEXED,
+      session_id UNINDEXED, event_id UNINDEXED, timestamp UNINDEXED`;
+    rawDb.exec(`
+      CREATE TABLE sources (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT NOT NULL, chunk_count INTEGER NOT NULL DEFAULT 0,
+        code_chunk_count INTEGER NOT NULL DEFAULT 0, indexed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        file_path TEXT, content_hash TEXT
+      );
+      CREATE VIRTUAL TABLE chunks USING fts5(${columns}, tokenize='porter unicode61');
+      CREATE VIRTUAL TABLE chunks_trigram USING fts5(${columns}, tokenize='trigram');
+      INSERT INTO sources (label, chunk_count) VALUES ('one', 1), ('two', 3);
+    `);
+    const rows: Array<[string, number]> = [["solo", 1], ["first", 2], ["second", 2], ["third", 2]];
+    for (const table of ["chunks", "chunks_trigram"]) {
+      const insert = rawDb.prepare(`INSERT INTO ${table} (title, content, source_id, content_type) VALUES (?, ?, ?, 'prose')`);
+      for (const [title, sourceId] of rows) insert.run(title, `${title} body text`, sourceId);
+    }
+    rawDb.close();
+
+    const store = new ContentStore(path);
+    assert.equal(store.search("third", 1)[0].chunkId, "2:2");
+    assert.equal(store.searchTrigram("secon", 1)[0].chunkId, "2:1");
+    assert.equal(store.search("solo", 1)[0].chunkId, "1:0");
+    assert.deepEqual(store.getChunkWithNeighbors("2:1", 1)!.chunks.map((c) => c.title), ["first", "second", "third"]);
+    store.close();
+  });
+
+  test("ids go stale when the source is re-indexed", () => {
+    const store = createStore();
+    const { sourceId } = store.index({ content: sections, source: "nato" });
+    store.index({ content: sections, source: "nato" });
+    assert.equal(store.getChunkWithNeighbors(`${sourceId}:1`), null);
+    assert.equal(store.getChunkWithNeighbors("not-an-id"), null);
+    store.close();
+  });
+});
+
+describe("Search explain mode", () => {
+  const docs = [
+    "# Retry Policy\n\nRequests are retried with exponential backoff on timeout.",
+    "# Timeout Handling\n\nA timeout aborts the request; no backoff applies.",
+  ].join("\n\n");
+
+  test("no breakdown unless explain is requested", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net" });
+    assert.equal(store.searchWithFallback("timeout", 2)[0].explain, undefined);
+    store.close();
+  });
+
+  test("breakdown reports list ranks, RRF score and boosts consistent with the order", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net" });
+    const results = store.searchWithFallback("timeout backoff", 2, undefined, undefined, "like", true);
+    assert.equal(results.length, 2);
+    for (const r of results) {
+      const e = r.explain!;
+      assert.ok(e.porterRank !== null || e.trigramRank !== null);
+      const expected = [e.porterRank, e.trigramRank]
+        .filter((n): n is number => n !== null)
+        .reduce((sum, n) => sum + 1 / (60 + n), 0);
+      assert.ok(Math.abs(e.rrfScore - expected) < 1e-9);
+      assert.deepEqual(e.fuzzyCorrections, []);
+    }
+    const total = (r: (typeof results)[number]) =>
+      r.explain!.titleBoost + r.explain!.proximityBoost + r.explain!.phraseBoost;
+    assert.ok(total(results[0]) >= total(results[1]));
+    assert.ok(results[0].explain!.titleBoost > 0, "Timeout Handling title matches a query term");
+    store.close();
+  });
+
+  test("fuzzy corrections are listed on rrf-fuzzy results", () => {
+    const store = createStore();
+    store.index({ content: docs, source: "net" });
+    const [hit] = store.searchWithFallback("exponentail", 1, undefined, undefined, "like", true);
+    assert.equal(hit.matchLayer, "rrf-fuzzy");
+    assert.deepEqual(hit.explain!.fuzzyCorrections, [{ from: "exponentail", to: "exponential" }]);
+    store.close();
+  });
+});
+
 describe("Edge Cases", () => {
   test("content with no headings creates single chunk", () => {
     const store = createStore();
@@ -1294,6 +1536,442 @@ describe("JSON Chunking (Arrays)", () => {
   });
 });
 
+describe("CSV/TSV Table Chunking", () => {
+  const metrics = [
+    "id,endpoint,p99_ms",
+    ...Array.from({ length: 300 }, (_, i) => `${1001 + i},/api/route-${i},${(i * 7) % 500}`),
+  ].join("\n");
+
+  test("indexTable repeats the header in every row batch and reports the schema", () => {
+    const store = createStore();
+    const result = store.indexTable(metrics, "latency.csv");
+    assert.ok(result.totalChunks > 2, `Expected several batches, got ${result.totalChunks}`);
+    assert.equal(
+      result.tableSchema,
+      "3 columns × 300 rows, comma-delimited: id (integer), endpoint (string), p99_ms (integer)",
+    );
+
+    const hit = store.search("route-250", 1, "latency.csv")[0];
+    assert.ok(hit.content.startsWith("id,endpoint,p99_ms\n"), "row hit should carry the header");
+    assert.match(hit.title, /^rows \d+–\d+ \(id \d+…\d+\)$/);
+    store.close();
+  });
+
+  test("index() routes .csv paths to the table chunker and keeps stale tracking", () => {
+    const store = createStore();
+    const file = join(tmpdir(), `cm-table-${Date.now()}.tsv`);
+    writeFileSync(file, "name\tstatus\nalpha\tok\nbravo\tfailing\n");
+    try {
+      const result = store.index({ path: file });
+      assert.ok(result.tableSchema?.startsWith("2 columns × 2 rows, tab-delimited"));
+      const hit = store.search("failing", 1)[0];
+      assert.equal(hit.title, "rows 1–2 (name alpha, bravo)");
+    } finally {
+      unlinkSync(file);
+      store.close();
+    }
+  });
+
+  test("strict mode falls back to plain text for prose with stray commas", () => {
+    const store = createStore();
+    const prose = "First, we fetch.\nThen, we index.\nFinally it is searchable.";
+    const result = store.indexTable(prose, "notes", true);
+    assert.equal(result.tableSchema, undefined);
+    assert.ok(result.totalChunks >= 1);
+    store.close();
+  });
+});
+
+describe("YAML / TOML / XML Structured Chunking", () => {
+  const manifest = [
+    "apiVersion: apps/v1",
+    "kind: Deployment",
+    "spec:",
+    "  template:",
+    "    spec:",
+    "      containers:",
+    "      - name: api",
+    "        env:",
+    "        - name: DATABASE_URL",
+    "          value: postgres://db",
+  ].join("\n");
+
+  test("index() routes .yaml paths to key-path chunks", () => {
+    const store = createStore();
+    const file = join(tmpdir(), `cm-structured-${Date.now()}.yaml`);
+    writeFileSync(file, manifest);
+    try {
+      store.index({ path: file });
+      const hit = store.search("DATABASE_URL", 1)[0];
+      assert.equal(hit.title, "spec > template > spec > containers");
+      assert.ok(hit.content.includes("value: postgres://db"));
+    } finally {
+      unlinkSync(file);
+      store.close();
+    }
+  });
+
+  test("index() sniffs unlabelled YAML but leaves markdown alone", () => {
+    const store = createStore();
+    store.index({ content: manifest, source: "kubectl get deploy -o yaml" });
+    assert.equal(store.search("DATABASE_URL", 1)[0].title, "spec > template > spec > containers");
+
+    store.index({ content: "# Setup\n\nRun the installer: it takes a minute.", source: "guide" });
+    assert.equal(store.search("installer", 1)[0].title, "Setup");
+    store.close();
+  });
+
+  test("indexStructured chunks XML and falls back to plain text when malformed", () => {
+    const store = createStore();
+    const xml = '<testsuite name="unit"><testcase name="login"><failure>timeout</failure></testcase><testcase name="logout"/></testsuite>';
+    const result = store.indexStructured(xml, "junit-report", "xml");
+    assert.equal(result.codeChunks, result.totalChunks);
+    assert.equal(store.search("timeout", 1)[0].title, "testsuite > testcase");
+
+    const fallback = store.indexStructured("<a><b></a>", "broken", "xml");
+    assert.ok(fallback.totalChunks >= 1);
+    store.close();
+  });
+});
+
+describe("Jupyter Notebook Chunking", () => {
+  const nb = JSON.stringify({
+    cells: [
+      { cell_type: "markdown", metadata: {}, source: ["# Retention cohort\n", "Weekly actives."] },
+      {
+        cell_type: "code",
+        metadata: {},
+        source: ["cohort = build_cohort(events)"],
+        outputs: [{ output_type: "stream", name: "stdout", text: ["cohort size 4812\n"] }],
+      },
+    ],
+    metadata: { kernelspec: { language: "python" } },
+    nbformat: 4,
+    nbformat_minor: 5,
+  });
+
+  test("index() routes .ipynb paths to per-cell chunks", () => {
+    const store = createStore();
+    const file = join(tmpdir(), `cm-notebook-${Date.now()}.ipynb`);
+    writeFileSync(file, nb);
+    try {
+      const result = store.index({ path: file });
+      assert.equal(result.totalChunks, 2);
+      assert.equal(result.codeChunks, 1);
+      const hit = store.search("build_cohort", 1)[0];
+      assert.equal(hit.title, "Retention cohort > cell 1");
+      assert.equal(hit.contentType, "code");
+      assert.ok(hit.content.includes("cohort size 4812"));
+    } finally {
+      unlinkSync(file);
+      store.close();
+    }
+  });
+
+  test("indexNotebook falls back to indexJSON for other JSON", () => {
+    const store = createStore();
+    const result = store.indexNotebook('{"cells": "nope", "owner": {"name": "x"}}', "not-a-notebook");
+    assert.ok(result.totalChunks >= 1);
+    assert.ok(store.search("nope", 1).length > 0);
+    store.close();
+  });
+});
+
+describe("Log Mode Chunking", () => {
+  const log = [
+    "2024-05-01T10:00:03Z INFO GET /checkout 200",
+    "2024-05-01T10:00:09Z ERROR payment gateway timeout after 30s",
+    "2024-05-01T11:30:00Z INFO payment gateway reconnected",
+    "2024-05-01T11:30:05Z WARN payment gateway latency 900ms",
+  ].join("\n");
+
+  test("index() routes .log paths and stores severity / time range", () => {
+    const store = createStore();
+    const file = join(tmpdir(), `cm-log-${Date.now()}.log`);
+    writeFileSync(file, log);
+    try {
+      const result = store.index({ path: file });
+      assert.equal(result.totalChunks, 2);
+      const hit = store.searchWithFallback("payment gateway timeout", 1)[0];
+      assert.equal(hit.title, "2024-05-01 10:00:03–10:00:09 (1 error)");
+      assert.deepEqual(hit.log, { level: "error", start: "2024-05-01T10:00:03.000Z", end: "2024-05-01T10:00:09.000Z" });
+    } finally {
+      unlinkSync(file);
+      store.close();
+    }
+  });
+
+  test("indexPlainText detects logs; searchWithFallback filters by level and time", () => {
+    const store = createStore();
+    store.indexPlainText(log, "execute:shell");
+    store.index({ content: "# Payment gateway\n\nThe payment gateway handles cards.", source: "docs" });
+
+    const all = store.searchWithFallback("payment gateway", 5);
+    assert.equal(all.length, 3);
+
+    const errors = store.searchWithFallback("payment gateway", 5, undefined, undefined, "like", false, { level: "error" });
+    assert.deepEqual(errors.map((r) => r.log?.level), ["error"]);
+
+    const late = store.searchWithFallback("payment gateway", 5, undefined, undefined, "like", false, {
+      since: "2024-05-01T11:00:00.000Z",
+    });
+    assert.deepEqual(late.map((r) => r.log?.level), ["warn"]);
+
+    const none = store.searchWithFallback("payment gateway", 5, undefined, undefined, "like", false, {
+      level: "warn",
+      until: "2024-05-01T09:00:00.000Z",
+    });
+    assert.equal(none.length, 0);
+    store.close();
+  });
+
+  test("re-indexing a label replaces its log metadata", () => {
+    const store = createStore();
+    store.indexPlainText(log, "app-log");
+    store.indexPlainText(log.replace("ERROR", "INFO"), "app-log");
+    const errors = store.searchWithFallback("gateway", 5, undefined, undefined, "like", false, { level: "error" });
+    assert.equal(errors.length, 0);
+    store.close();
+  });
+});
+
+describe("KB Bundle Export / Import", () => {
+  test("round-trips sources, chunk types and log metadata", () => {
+    const source = createStore();
+    source.index({ content: "# Auth\n\nUse bearer tokens.\n\n```ts\nfetch(url, { headers })\n```", source: "internal-api" });
+    source.indexPlainText([
+      "2024-05-01T10:00:00Z INFO boot",
+      "2024-05-01T10:00:01Z ERROR disk full",
+      "2024-05-01T10:00:02Z INFO retry",
+    ].join("\n"), "app-log");
+    const bundle = source.exportBundle();
+    source.close();
+
+    const lines = bundle.trim().split("\n").map((l) => JSON.parse(l));
+    assert.deepEqual(
+      { type: lines[0].type, version: lines[0].version, sources: lines[0].sources },
+      { type: "context-mode-kb", version: KB_BUNDLE_VERSION, sources: 2 },
+    );
+    assert.deepEqual(lines.slice(1).map((l) => l.label), ["internal-api", "app-log"]);
+
+    const target = createStore();
+    assert.deepEqual(target.importBundle(bundle), { imported: 2, replaced: 0, skipped: 0 });
+    const hit = target.searchWithFallback("bearer tokens", 1)[0];
+    assert.equal(hit.source, "internal-api");
+    assert.equal(target.getSourceMeta("internal-api")!.codeChunkCount, 1);
+    const errors = target.searchWithFallback("disk", 3, undefined, undefined, "like", false, { level: "error" });
+    assert.equal(errors.length, 1);
+    target.close();
+  });
+
+  test("dedupes by label and content hash; replaces changed content", () => {
+    const source = createStore();
+    source.index({ content: "# Limits\n\n60 requests per minute.", source: "limits" });
+    source.index({ content: "# Regions\n\neu-west and us-east.", source: "regions" });
+    const bundle = source.exportBundle(["limits"]);
+    source.close();
+
+    const target = createStore();
+    target.index({ content: "# Limits\n\n60 requests per minute.", source: "limits" });
+    assert.deepEqual(target.importBundle(bundle), { imported: 0, replaced: 0, skipped: 1 });
+
+    target.index({ content: "# Limits\n\n10 requests per minute.", source: "limits" });
+    assert.deepEqual(target.importBundle(bundle), { imported: 0, replaced: 1, skipped: 0 });
+    assert.ok(target.searchWithFallback("requests per minute", 1)[0].content.includes("60"));
+    assert.equal(target.getSourceMeta("regions"), null);
+    target.close();
+  });
+
+  test("rejects bundles without a header or from a newer version", () => {
+    const store = createStore();
+    assert.throws(() => store.importBundle('{"type":"source","label":"x","chunks":[]}'), /missing header/);
+    assert.throws(
+      () => store.importBundle(JSON.stringify({ type: "context-mode-kb", version: KB_BUNDLE_VERSION + 1 })),
+      /newer than supported/,
+    );
+    assert.throws(
+      () => store.importBundle(`${JSON.stringify({ type: "context-mode-kb", version: 1 })}\n{oops`),
+      /line 2: invalid JSON/,
+    );
+    store.close();
+  });
+});
+
+describe("Size quota and LRU eviction", () => {
+  const doc = (topic: string) => `# ${topic}\n\nNotes about ${topic}.\n\n## More\n\nMore about ${topic}.`;
+
+  test("evicts least recently searched sources first, never the one just indexed", () => {
+    const store = createStore();
+    store.index({ content: doc("alpha"), source: "alpha" });
+    store.index({ content: doc("bravo"), source: "bravo" });
+    store.index({ content: doc("charlie"), source: "charlie" });
+    store.setQuota({ maxChunks: 6 });
+    assert.deepEqual(store.takeEvictions(), []);
+
+    assert.equal(store.searchWithFallback("alpha", 1)[0].source, "alpha");
+    store.index({ content: doc("delta"), source: "delta" });
+    assert.deepEqual(store.takeEvictions().map((e) => e.label), ["bravo"]);
+    assert.deepEqual(store.listSources().map((s) => s.label).sort(), ["alpha", "charlie", "delta"]);
+    assert.deepEqual(store.takeEvictions(), []);
+
+    store.index({ content: Array.from({ length: 8 }, (_, i) => `## Part ${i}\n\nbig ${i}`).join("\n\n"), source: "big" });
+    assert.deepEqual(store.listSources().map((s) => s.label), ["big"]);
+    const usage = store.getQuotaUsage();
+    assert.equal(usage.chunks, 8);
+    assert.equal(usage.evictedSources, 4);
+    store.close();
+  });
+
+  test("byte quota counts chunk bytes, including sources from DBs without usage rows", () => {
+    const path = join(tmpdir(), `context-mode-quota-${Date.now()}.db`);
+    const seeded = new ContentStore(path);
+    seeded.index({ content: doc("x".repeat(600)), source: "old" });
+    seeded.close();
+    const Database = loadDatabase();
+    const db = new Database(path);
+    db.exec("DROP TABLE source_usage");
+    db.close();
+
+    const store = new ContentStore(path);
+    assert.ok(store.getQuotaUsage().bytes > 1200);
+    store.setQuota({ maxBytes: 1500 });
+    store.index({ content: doc("new"), source: "new" });
+    assert.deepEqual(store.takeEvictions().map((e) => e.label), ["old"]);
+    assert.ok(store.getQuotaUsage().bytes < 1500);
+    store.cleanup();
+  });
+
+  test("searches through a read-only store do not count as hits", () => {
+    const path = join(tmpdir(), `context-mode-quota-ro-${Date.now()}.db`);
+    const seeded = new ContentStore(path);
+    seeded.index({ content: doc("alpha"), source: "alpha" });
+    seeded.index({ content: doc("bravo"), source: "bravo" });
+    seeded.close();
+
+    const ro = new ContentStore(path, { readonly: true });
+    assert.equal(ro.searchWithFallback("alpha", 1)[0].source, "alpha");
+    ro.close();
+
+    const store = new ContentStore(path);
+    store.setQuota({ maxChunks: 2 });
+    assert.deepEqual(store.takeEvictions().map((e) => e.label), ["alpha"]);
+    store.cleanup();
+  });
+});
+
+describe("Source tags and pinning", () => {
+  test("normalizes tags, lists them, and keeps them across re-index", () => {
+    const store = createStore();
+    store.index({ content: "# Billing\n\nInvoices are issued monthly.", source: "billing" });
+    assert.equal(store.setSourceTags("billing", { tags: [" API ", "Billing Docs", "api"] }), true);
+    assert.equal(store.setSourceTags("missing", { tags: ["x"] }), false);
+    store.setSourceTags("billing", { pinned: true });
+
+    store.index({ content: "# Billing\n\nInvoices are issued weekly.", source: "billing" });
+    const info = store.listSourceInfo()[0];
+    assert.deepEqual(info.tags, ["api", "billing-docs"]);
+    assert.equal(info.pinned, true);
+    store.close();
+  });
+
+  test("tag filter matches any or all tags and attaches tags to results", () => {
+    const store = createStore();
+    store.index({ content: "# Retry\n\nRetry the request with backoff.", source: "client" });
+    store.index({ content: "# Retry\n\nThe worker retries failed jobs.", source: "worker" });
+    store.index({ content: "# Retry\n\nRetry flaky tests once.", source: "ci" });
+    store.setSourceTags("client", { tags: ["api", "sdk"] });
+    store.setSourceTags("worker", { tags: ["api"] });
+
+    const search = (tags: string[], match: "any" | "all") =>
+      store.searchWithFallback("retry", 5, undefined, undefined, "like", false, undefined, { tags, match })
+        .map((r) => r.source).sort();
+    assert.deepEqual(search(["API"], "any"), ["client", "worker"]);
+    assert.deepEqual(search(["api", "sdk"], "all"), ["client"]);
+    assert.deepEqual(search(["docs"], "any"), []);
+    const client = store.searchWithFallback("backoff", 1)[0];
+    assert.deepEqual(client.tags, ["api", "sdk"]);
+    store.close();
+  });
+
+  test("pinned sources survive retention trims and quota eviction", () => {
+    const store = createStore();
+    store.index({ content: "# Runbook\n\nRestart the ingest worker.", source: "runbook" });
+    store.index({ content: "# Scratch\n\nTemporary notes.", source: "scratch" });
+    store.setSourceTags("runbook", { pinned: true });
+
+    assert.equal(store.trimToMaxSources(0), 1);
+    assert.deepEqual(store.listSources().map((s) => s.label), ["runbook"]);
+
+    store.setQuota({ maxChunks: 1 });
+    store.index({ content: "# Other\n\nMore notes.", source: "other" });
+    assert.deepEqual(store.takeEvictions(), []);
+    assert.deepEqual(store.listSources().map((s) => s.label).sort(), ["other", "runbook"]);
+    store.close();
+  });
+
+  test("tags and pins round-trip through kb bundles", () => {
+    const source = createStore();
+    source.index({ content: "# Limits\n\n60 requests per minute.", source: "limits" });
+    source.setSourceTags("limits", { tags: ["api"], pinned: true });
+    const bundle = source.exportBundle();
+    source.close();
+
+    const target = createStore();
+    target.importBundle(bundle);
+    const info = target.listSourceInfo()[0];
+    assert.deepEqual([info.tags, info.pinned], [["api"], true]);
+    target.close();
+  });
+});
+
+describe("Source summaries", () => {
+  test("stores an extractive summary within the byte budget", () => {
+    const store = createStore();
+    const sections = Array.from({ length: 30 }, (_, i) =>
+      `## Step ${i}\n\nThe deploy pipeline builds the image and pushes it to the registry in stage ${i}. ` +
+      `Operators can roll back the deploy pipeline from the registry when stage ${i} fails.`,
+    );
+    const result = store.index({ content: sections.join("\n\n"), source: "runbook" });
+    assert.ok(result.summary && result.summary.includes("deploy pipeline"), result.summary);
+    assert.ok(Buffer.byteLength(result.summary!) <= 400);
+    assert.equal(store.listSourceInfo()[0].summary, result.summary);
+
+    const code = store.index({ content: "export const retries = 3;\n", source: "src/config.ts" });
+    assert.equal(code.summary, undefined);
+    assert.equal(store.listSourceInfo().find((s) => s.label === "src/config.ts")?.summary, null);
+    store.close();
+  });
+});
+
+describe("Git history indexing", () => {
+  const sha = "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678";
+  const log = `\x1e${[sha, "Jane Doe", "jane@example.com", "2024-05-01T10:20:30Z", "Lower retry cap", "Thirty seconds is enough."].join("\x1f")}\x1f\n\n` +
+    "diff --git a/src/retry.ts b/src/retry.ts\n--- a/src/retry.ts\n+++ b/src/retry.ts\n@@ -1 +1 @@\n-export const MAX_BACKOFF = 60;\n+export const MAX_BACKOFF = 30;\n";
+
+  test("indexes one chunk per commit and attaches the commit to results", () => {
+    const store = createStore();
+    const result = store.indexGitLog(log, "git:HEAD");
+    assert.equal(result.totalChunks, 1);
+
+    const [hit] = store.searchWithFallback("MAX_BACKOFF", 1);
+    assert.equal(hit.title, "a1b2c3d · Jane Doe · 2024-05-01 · Lower retry cap");
+    assert.deepEqual(hit.git, { sha, files: ["src/retry.ts"] });
+    assert.equal(store.searchWithFallback("thirty seconds", 1)[0]?.git?.sha, sha);
+    store.close();
+  });
+
+  test("git metadata is replaced on re-index and round-trips through kb bundles", () => {
+    const store = createStore();
+    store.indexGitLog(log, "git:HEAD");
+    store.indexGitLog(log, "git:HEAD");
+    const target = createStore();
+    target.importBundle(store.exportBundle());
+    assert.deepEqual(target.searchWithFallback("backoff", 1)[0]?.git, { sha, files: ["src/retry.ts"] });
+    store.close();
+    target.close();
+  });
+});
+
 describe("Content-Type Routing", () => {
   test("indexJSON produces searchable chunks from pretty-printed JSON", () => {
     const store = createStore();
@@ -1322,6 +2000,50 @@ describe("Content-Type Routing", () => {
     assert.ok(result.totalChunks >= 1);
     store.close();
   });
+
+  test("index() chunks source files by declaration with symbol-path titles", () => {
+    const store = createStore();
+    const codePath = join(
+      tmpdir(),
+      `ctx-code-${Date.now()}-${Math.random().toString(36).slice(2)}.ts`,
+    );
+    writeFileSync(
+      codePath,
+      [
+        "export class ContentStore {",
+        "  searchWithFallback(query: string): string[] {",
+        "    return [query];",
+        "  }",
+        "",
+        "  close(): void {}",
+        "}",
+        "",
+        "export function sanitizeQuery(q: string): string {",
+        "  return q;",
+        "}",
+      ].join("\n"),
+    );
+    try {
+      const result = store.index({ path: codePath, source: "store.ts" });
+      assert.equal(result.totalChunks, 4);
+      assert.equal(result.codeChunks, 4);
+
+      const titles = store.getChunksBySource(result.sourceId).map((c) => c.title);
+      assert.deepEqual(titles, [
+        "ContentStore",
+        "ContentStore > searchWithFallback",
+        "ContentStore > close",
+        "sanitizeQuery",
+      ]);
+
+      const hits = store.search("searchWithFallback", 3, "store.ts");
+      assert.equal(hits[0].title, "ContentStore > searchWithFallback");
+      assert.equal(hits[0].contentType, "code");
+    } finally {
+      store.close();
+      unlinkSync(codePath);
+    }
+  });
 });
 
 // ── Source metadata & TTL cache ───────────────────────────────────────
@@ -1363,6 +2085,30 @@ describe("Source metadata (TTL cache)", () => {
     expect(meta2!.chunkCount).toBeGreaterThanOrEqual(meta1!.chunkCount);
     store.close();
   });
+
+  test("listSourceInfo returns ids and metadata newest first", () => {
+    const store = createStore();
+    const a = store.index({ content: "# A\nalpha", source: "first" });
+    const b = store.index({ content: "```js\nconst x = 1;\n```", source: "second" });
+    const info = store.listSourceInfo();
+    expect(info.map((s) => [s.id, s.label])).toEqual([[b.sourceId, "second"], [a.sourceId, "first"]]);
+    expect(info[0].codeChunkCount).toBe(1);
+    expect(info[1].filePath).toBeNull();
+    store.close();
+  });
+
+  test("sourceFileState reports fresh, modified and missing files", async () => {
+    const { sourceFileState } = await import("../src/store.js");
+    const file = join(tmpdir(), `ctx-state-${Date.now()}.md`);
+    writeFileSync(file, "# Doc\n");
+    const past = "2000-01-01 00:00:00";
+    const future = "2999-01-01 00:00:00";
+    expect(sourceFileState({ filePath: null, indexedAt: past })).toBeNull();
+    expect(sourceFileState({ filePath: file, indexedAt: future })).toBe("fresh");
+    expect(sourceFileState({ filePath: file, indexedAt: past })).toBe("modified");
+    unlinkSync(file);
+    expect(sourceFileState({ filePath: file, indexedAt: past })).toBe("missing");
+  });
 });
 
 // ── Persistent content store lifecycle ────────────────────────────────
@@ -1388,6 +2134,20 @@ describe("Persistent content store lifecycle", () => {
     store.close();
   });
 
+  test("trimToMaxSources keeps only the newest sources", () => {
+    const store = createStore();
+    for (const label of ["oldest", "middle", "newest"]) {
+      store.index({ content: `# ${label}\nContent for ${label}`, source: label });
+    }
+    const deleted = store.trimToMaxSources(2);
+    expect(deleted).toBe(1);
+    expect(store.getSourceMeta("oldest")).toBeNull();
+    expect(store.getSourceMeta("newest")).not.toBeNull();
+    expect(store.search("oldest", 5)).toHaveLength(0);
+    expect(store.trimToMaxSources(2)).toBe(0);
+    store.close();
+  });
+
   test("getDBSizeBytes returns positive number after indexing", () => {
     const store = createStore();
     store.index({ content: "# Test\nSome content for size", source: "size-test" });
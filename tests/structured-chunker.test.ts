@@ -0,0 +1,185 @@
+/**
+ * Behavioral tests for src/structured-chunker.ts.
+ *
+ * Covers extension / content detection, key-path titles for YAML, TOML and
+ * XML, sequence batching by identity field, multi-document YAML streams,
+ * and the null fallback for input that does not fit the format.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { chunkStructured, detectStructuredFormat } from "../src/structured-chunker.js";
+
+const titles = (chunks: Array<{ title: string }> | null) => (chunks ?? []).map((c) => c.title);
+
+// ─────────────────────────────────────────────────────────
+// detectStructuredFormat
+// ─────────────────────────────────────────────────────────
+
+describe("detectStructuredFormat", () => {
+  test("maps extensions, ignoring query strings", () => {
+    assert.equal(detectStructuredFormat(".github/workflows/ci.yml"), "yaml");
+    assert.equal(detectStructuredFormat("deploy/values.YAML"), "yaml");
+    assert.equal(detectStructuredFormat("Cargo.toml"), "toml");
+    assert.equal(detectStructuredFormat("pom.xml"), "xml");
+    assert.equal(detectStructuredFormat("https://example.com/sitemap.xml?page=2"), "xml");
+  });
+
+  test("sniffs unlabelled content", () => {
+    assert.equal(detectStructuredFormat("execute:shell", "apiVersion: v1\nkind: Pod\nmetadata:\n  name: x\n"), "yaml");
+    assert.equal(detectStructuredFormat(undefined, '[package]\nname = "demo"\nversion = "1"\n'), "toml");
+    assert.equal(detectStructuredFormat(undefined, '<?xml version="1.0"?>\n<a><b>1</b></a>'), "xml");
+    assert.equal(detectStructuredFormat(undefined, "<urlset><url><loc>x</loc></url></urlset>"), "xml");
+  });
+
+  test("leaves prose, markdown and HTML alone", () => {
+    assert.equal(detectStructuredFormat(undefined, "# Title\n\nSome prose: here.\nMore prose."), null);
+    assert.equal(detectStructuredFormat(undefined, "<p>hello<br></p>"), null);
+    assert.equal(detectStructuredFormat(undefined, "<html><body>x</body></html>"), null);
+    assert.equal(detectStructuredFormat("notes.md", "name: a\nkind: b\n"), null);
+    assert.equal(detectStructuredFormat(undefined, "total 8\nname: a\nkind: b"), null);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// YAML
+// ─────────────────────────────────────────────────────────
+
+describe("chunkStructured — YAML", () => {
+  const deployment = [
+    "apiVersion: apps/v1",
+    "kind: Deployment",
+    "metadata:",
+    "  name: web",
+    "spec:",
+    "  replicas: 2",
+    "  template:",
+    "    spec:",
+    "      containers:",
+    "      - name: web",
+    "        image: nginx:1.25",
+    "        env:",
+    "        - name: LOG_LEVEL",
+    "          value: debug",
+  ].join("\n");
+
+  test("titles chunks by key path and keeps scalar siblings together", () => {
+    const chunks = chunkStructured(deployment, "yaml", 4096)!;
+    assert.deepEqual(titles(chunks), [
+      "(root)",
+      "metadata",
+      "spec",
+      "spec > template > spec > containers",
+    ]);
+    assert.equal(chunks[0].content, "apiVersion: apps/v1\nkind: Deployment");
+    assert.equal(chunks[2].content, "spec:\n  replicas: 2");
+    assert.match(chunks[3].content, /^ {6}containers:\n {6}- name: web[\s\S]*LOG_LEVEL/);
+  });
+
+  test("batches oversized lists by identity field", () => {
+    const steps = Array.from({ length: 12 }, (_, i) => `  - name: step-${i}\n    run: echo ${"x".repeat(30)}`);
+    const chunks = chunkStructured(`jobs:\n${steps.join("\n")}`, "yaml", 200)!;
+    const batchTitles = titles(chunks);
+    assert.ok(batchTitles.length > 2, `expected several batches, got ${batchTitles.join(" | ")}`);
+    assert.equal(batchTitles[0], "jobs > step-0, step-1, step-2");
+    assert.ok(chunks.every((c) => Buffer.byteLength(c.content) <= 200));
+  });
+
+  test("falls back to index ranges when list items have no identity field", () => {
+    const items = Array.from({ length: 8 }, (_, i) => `- run: make target-${i} ${"y".repeat(40)}`);
+    const chunks = chunkStructured(`steps:\n${items.join("\n")}`, "yaml", 150)!;
+    assert.match(titles(chunks)[0], /^steps > \[0(-\d+)?\]$/);
+  });
+
+  test("keeps block scalars with their key", () => {
+    const yaml = "name: ci\nrun: |\n  echo foo: bar\n  make test\non: push\nenv:\n  A: 1";
+    const chunks = chunkStructured(yaml, "yaml", 4096)!;
+    assert.ok(chunks[0].content.includes("echo foo: bar\n  make test"));
+    assert.ok(!titles(chunks).some((t) => t.includes("echo")));
+  });
+
+  test("walks each document of a stream under its kind/name", () => {
+    const stream = `${deployment}\n---\napiVersion: v1\nkind: Service\nmetadata:\n  name: web\n`;
+    const chunkTitles = titles(chunkStructured(stream, "yaml", 4096));
+    assert.ok(chunkTitles.includes("Deployment/web > spec > template > spec > containers"));
+    assert.ok(chunkTitles.includes("Service/web > metadata"));
+  });
+
+  test("returns null for text with no keys", () => {
+    assert.equal(chunkStructured("just a sentence\nand another", "yaml", 4096), null);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// TOML
+// ─────────────────────────────────────────────────────────
+
+describe("chunkStructured — TOML", () => {
+  const cargo = [
+    "[package]",
+    'name = "demo"',
+    'authors = [',
+    '  "a",',
+    ']',
+    "",
+    "[package.metadata.docs]",
+    "all-features = true",
+    "",
+    "[[bin]]",
+    'name = "cli"',
+    "",
+    "[[bin]]",
+    'name = "srv"',
+  ].join("\n");
+
+  test("nests tables by header path and keeps multi-line arrays whole", () => {
+    const chunks = chunkStructured(cargo, "toml", 4096)!;
+    assert.deepEqual(titles(chunks), ["package", "package > metadata > docs", "bin"]);
+    assert.equal(chunks[0].content, '[package]\nname = "demo"\nauthors = [\n  "a",\n]');
+  });
+
+  test("titles array-of-tables batches by identity field", () => {
+    assert.deepEqual(titles(chunkStructured(cargo, "toml", 40)).slice(-2), ["bin > cli", "bin > srv"]);
+  });
+
+  test("returns null for lines that are not TOML", () => {
+    assert.equal(chunkStructured("[section]\nthis is prose", "toml", 4096), null);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// XML
+// ─────────────────────────────────────────────────────────
+
+describe("chunkStructured — XML", () => {
+  const pom = [
+    '<?xml version="1.0"?>',
+    "<project>",
+    "  <artifactId>demo</artifactId>",
+    "  <dependencies>",
+    "    <dependency><groupId>junit</groupId><artifactId>junit</artifactId></dependency>",
+    "    <dependency><groupId>org.mockito</groupId><artifactId>mockito-core</artifactId></dependency>",
+    "  </dependencies>",
+    "</project>",
+  ].join("\n");
+
+  test("titles from the document element and treats repeated elements as a list", () => {
+    const chunks = chunkStructured(pom, "xml", 4096)!;
+    assert.deepEqual(titles(chunks), ["project", "project > dependencies > dependency"]);
+    assert.equal(chunks[0].content, "<artifactId>demo</artifactId>");
+  });
+
+  test("identifies repeated elements by attribute or child text", () => {
+    assert.deepEqual(titles(chunkStructured(pom, "xml", 100)).slice(1), [
+      "project > dependencies > dependency > junit",
+      "project > dependencies > dependency > mockito-core",
+    ]);
+    const junit = '<testsuite name="s"><testcase name="a"><failure/></testcase><testcase name="b"><skipped/></testcase></testsuite>';
+    assert.deepEqual(titles(chunkStructured(junit, "xml", 50)), ["testsuite > testcase > a", "testsuite > testcase > b"]);
+  });
+
+  test("returns null for mismatched tags", () => {
+    assert.equal(chunkStructured("<a><b></a>", "xml", 4096), null);
+    assert.equal(chunkStructured("<p>line<br></p>", "xml", 4096), null);
+  });
+});
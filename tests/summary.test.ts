@@ -0,0 +1,72 @@
+/**
+ * Behavioral tests for src/summary.ts.
+ *
+ * Covers prose sentence extraction (code fences, lists, tables and code
+ * lines excluded), TextRank picking the central sentences in document
+ * order, and the byte budget.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { splitSentences, summarizeChunks, SUMMARY_MAX_BYTES } from "../src/summary.js";
+
+const anyTerm = () => true;
+
+describe("splitSentences", () => {
+  test("keeps prose and drops code, headings, tables and short fragments", () => {
+    const sentences = splitSentences([
+      "## Setup",
+      "",
+      "Install the package with npm before running the server. Then start it.",
+      "",
+      "  ```ts",
+      "  const server = createServer({ port: 3000 });",
+      "  ```",
+      "",
+      "| flag | meaning |",
+      "| --- | --- |",
+      "- Restart the [worker process](https://example.com) after changing the config",
+      "- Clear the cache directory when upgrading between major versions",
+      "const x = { a: [1, 2], b: \"value\" }; if (x) { run(); }",
+    ].join("\n"));
+    assert.deepEqual(sentences, [
+      "Install the package with npm before running the server.",
+      "Restart the worker process after changing the config",
+      "Clear the cache directory when upgrading between major versions",
+    ]);
+  });
+});
+
+describe("summarizeChunks", () => {
+  const chunks = [
+    { content: "The ingest worker reads events from the queue and writes them to the warehouse." },
+    { content: "Our office plants are watered every Tuesday by the facilities team." },
+    { content: "When the queue backs up, the ingest worker retries events with exponential backoff." },
+    { content: "Events that fail five times are moved from the queue to a dead letter table in the warehouse." },
+  ];
+
+  test("picks the sentences central to the source, in document order", () => {
+    const summary = summarizeChunks(chunks, anyTerm, 200)!;
+    assert.ok(!summary.includes("office plants"), summary);
+    assert.ok(summary.startsWith("The ingest worker reads events"), summary);
+    assert.ok(Buffer.byteLength(summary) <= 200);
+  });
+
+  test("only counts words accepted as terms", () => {
+    // With no terms, every sentence ties and document order wins.
+    const summary = summarizeChunks(chunks, () => false, 80)!;
+    assert.equal(summary, "The ingest worker reads events from the queue and writes them to the warehouse.");
+  });
+
+  test("truncates a lone sentence longer than the budget", () => {
+    const long = { content: `${"Retrying failed deliveries keeps the pipeline consistent ".repeat(20).trim()}.` };
+    const summary = summarizeChunks([long], anyTerm)!;
+    assert.ok(Buffer.byteLength(summary) <= SUMMARY_MAX_BYTES);
+    assert.ok(summary.endsWith("…"));
+  });
+
+  test("returns null for sources without prose", () => {
+    assert.equal(summarizeChunks([{ content: "export function f(a: number) {\n  return a * 2;\n}" }], anyTerm), null);
+    assert.equal(summarizeChunks([], anyTerm), null);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Behavioral tests for src/table-chunker.ts.
+ *
+ * Covers path detection, delimiter sniffing, RFC 4180 quoting, schema
+ * inference, key-column selection, and row-batch titles under the byte cap.
+ */
+
+import { describe, test } from "vitest";
+import { strict as assert } from "node:assert";
+import { chunkTable, detectDelimiter, formatTableSchema, isTablePath } from "../src/table-chunker.js";
+
+const titles = (chunks: Array<{ title: string }>) => chunks.map((c) => c.title);
+
+// ─────────────────────────────────────────────────────────
+// isTablePath / detectDelimiter
+// ─────────────────────────────────────────────────────────
+
+describe("isTablePath", () => {
+  test("matches table extensions, ignoring query strings", () => {
+    assert.equal(isTablePath("exports/metrics.csv"), true);
+    assert.equal(isTablePath("FIXTURES.TSV"), true);
+    assert.equal(isTablePath("https://example.com/data.csv?raw=1"), true);
+    assert.equal(isTablePath("notes.md"), false);
+    assert.equal(isTablePath("csv"), false);
+  });
+});
+
+describe("detectDelimiter", () => {
+  test("picks the delimiter that splits every row consistently", () => {
+    assert.equal(detectDelimiter("a,b,c\n1,2,3\n4,5,6"), ",");
+    assert.equal(detectDelimiter("a\tb\n1\t2"), "\t");
+    assert.equal(detectDelimiter("a;b;c\n1,5;2;3"), ";");
+    assert.equal(detectDelimiter("a|b\n1|2"), "|");
+  });
+
+  test("ignores delimiters inside quoted fields", () => {
+    assert.equal(detectDelimiter('name,note\nalpha,"x, y, z"\nbravo,"plain"'), ",");
+  });
+
+  test("rejects prose and ragged rows", () => {
+    assert.equal(detectDelimiter("Hello, world.\nNo table here"), null);
+    assert.equal(detectDelimiter("single column\nvalue"), null);
+  });
+
+  test("minRows demands enough data rows", () => {
+    const twoRows = "a,b\n1,2\n3,4";
+    assert.equal(detectDelimiter(twoRows, 2), ",");
+    assert.equal(detectDelimiter(twoRows, 5), null);
+  });
+});
+
+// ─────────────────────────────────────────────────────────
+// chunkTable
+// ─────────────────────────────────────────────────────────
+
+describe("chunkTable", () => {
+  test("returns null for non-tabular text or a header without rows", () => {
+    assert.equal(chunkTable("just some words", 4096), null);
+    assert.equal(chunkTable("id,name\n", 4096), null);
+  });
+
+  test("infers column types and prefers identity-like key columns", () => {
+    const csv = [
+      "region,id,ratio,enabled,seen_at,notes",
+      "eu,7,0.5,true,2026-01-02,",
+      "us,8,1e3,false,2026-01-03T10:00:00Z,",
+    ].join("\n");
+    const table = chunkTable(csv, 4096)!;
+    assert.deepEqual(
+      table.schema.columns.map((c) => c.type),
+      ["string", "integer", "number", "boolean", "date", "empty"],
+    );
+    assert.equal(table.schema.keyColumn, "id");
+    assert.equal(table.chunks[0].title, "(schema)");
+    assert.match(table.chunks[0].content, /- ratio: number/);
+    assert.deepEqual(titles(table.chunks).slice(1), ["rows 1–2 (id 7, 8)"]);
+  });
+
+  test("falls back to the first column and numbers a lone row singly", () => {
+    const table = chunkTable("host,cpu\nweb-1,93", 4096)!;
+    assert.equal(table.schema.keyColumn, "host");
+    assert.equal(table.chunks[1].title, "row 1 (host web-1)");
+  });
+
+  test("splits rows under the byte cap with the header on every batch", () => {
+    const rows = Array.from({ length: 60 }, (_, i) => `${i + 1},${"x".repeat(40)}`);
+    const table = chunkTable(["id,payload", ...rows].join("\n"), 512)!;
+    const batches = table.chunks.slice(1);
+    assert.ok(batches.length > 3, `expected several batches, got ${batches.length}`);
+    for (const batch of batches) {
+      assert.ok(batch.content.startsWith("id,payload\n"));
+      assert.ok(Buffer.byteLength(batch.content) <= 512);
+    }
+    assert.match(batches[0].title, /^rows 1–\d+ \(id 1…\d+\)$/);
+    const dataLines = batches.reduce((n, b) => n + b.content.split("\n").length - 1, 0);
+    assert.equal(dataLines, 60);
+  });
+
+  test("keeps quoted line breaks inside one record", () => {
+    const csv = 'id,body\n1,"line one\nline two"\n2,"say ""hi"""\r\n';
+    const table = chunkTable(csv, 4096)!;
+    assert.equal(table.schema.rowCount, 2);
+    assert.equal(table.chunks[1].content, 'id,body\n1,"line one\nline two"\n2,"say ""hi"""');
+  });
+
+  test("strips a byte-order mark and names blank headers", () => {
+    const table = chunkTable("\uFEFFid,\n1,a", 4096)!;
+    assert.deepEqual(table.schema.columns.map((c) => c.name), ["id", "column_2"]);
+  });
+
+  test("formatTableSchema summarises shape and types", () => {
+    const table = chunkTable("id\tname\n1\talpha", 4096)!;
+    assert.equal(
+      formatTableSchema(table.schema),
+      "2 columns × 1 rows, tab-delimited: id (integer), name (string)",
+    );
+  });
+});